@@ -0,0 +1,101 @@
+/**
+ * Browser Build Test Suite for HTLE Framework
+ *
+ * These tests walk the import graph of the browser entry point, with the
+ * substitutions of the `browser` field of package.json, to validate:
+ * - No Node.js built-in module, dotenv or env configuration is reached
+ * - `Buffer` always comes from tlock-js's polyfill, and `process` is unused
+ * - The browser platform module matches the Node.js one
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { builtinModules } from 'module';
+import ts from 'typescript';
+import * as nodePlatform from './encryption/platform';
+import * as browserPlatform from './encryption/platform.browser';
+
+const ROOT = path.resolve(__dirname, '..');
+
+/** The `browser` field's substitutions, mapped from dist/*.js to src/*.ts */
+function browserSubstitutions(): Map<string, string> {
+  const pkg = JSON.parse(fs.readFileSync(path.join(ROOT, 'package.json'), 'utf8'));
+  const toSource = (file: string) =>
+    path.join(ROOT, file.replace(/^\.\/dist\//, 'src/').replace(/\.js$/, '.ts'));
+  return new Map(
+    Object.entries<string>(pkg.browser).map(([from, to]) => [toSource(from), toSource(to)])
+  );
+}
+
+/** Source files reachable from `entry`, and the packages they import */
+function importGraph(entry: string): { files: string[]; packages: Set<string> } {
+  const substitutions = browserSubstitutions();
+  const files: string[] = [];
+  const packages = new Set<string>();
+  const pending = [substitutions.get(entry) ?? entry];
+
+  while (pending.length > 0) {
+    const file = pending.pop()!;
+    if (files.includes(file)) continue;
+    files.push(file);
+
+    const { importedFiles } = ts.preProcessFile(fs.readFileSync(file, 'utf8'), true, true);
+    for (const { fileName } of importedFiles) {
+      if (!fileName.startsWith('.')) {
+        packages.add(fileName);
+        continue;
+      }
+      const resolved = path.resolve(path.dirname(file), `${fileName}.ts`);
+      pending.push(substitutions.get(resolved) ?? resolved);
+    }
+  }
+  return { files, packages };
+}
+
+describe('HTLE Browser Build', () => {
+  const { files, packages } = importGraph(path.join(ROOT, 'src/browser.ts'));
+  const relative = (file: string) => path.relative(ROOT, file);
+
+  it('should use the browser platform module', () => {
+    expect(files.map(relative)).toContain('src/encryption/platform.browser.ts');
+    expect(files.map(relative)).not.toContain('src/encryption/platform.ts');
+    expect(files.map(relative)).not.toContain('src/env.ts');
+  });
+
+  it('should not import Node.js built-ins or dotenv', () => {
+    const nodeOnly = [...packages].filter(
+      (name) =>
+        name.startsWith('node:') || builtinModules.includes(name.split('/')[0]) || name === 'dotenv'
+    );
+
+    expect(nodeOnly).toEqual([]);
+  });
+
+  it('should not use Node.js globals', () => {
+    const offenders = files.filter((file) => {
+      const source = fs.readFileSync(file, 'utf8');
+      const importsBuffer = /import\s*{[^}]*\bBuffer\b[^}]*}\s*from 'tlock-js'/.test(source);
+      return (/\bBuffer\b/.test(source) && !importsBuffer) || /\bprocess\.\w/.test(source);
+    });
+
+    expect(offenders.map(relative)).toEqual([]);
+  });
+
+  it('should give the browser platform the same exports, except the beacon cache', () => {
+    expect(Object.keys(browserPlatform).sort()).toEqual(
+      Object.keys(nodePlatform)
+        .filter((name) => name !== 'getBeaconCache')
+        .sort()
+    );
+  });
+
+  it('should derive the same scrypt keys on both platforms', async () => {
+    const salt = new Uint8Array(16).fill(7);
+    const params = { N: 2 ** 10, r: 8, p: 1 };
+
+    expect(await browserPlatform.scrypt('password', salt, params, 32)).toEqual(
+      new Uint8Array(await nodePlatform.scrypt('password', salt, params, 32))
+    );
+  });
+});
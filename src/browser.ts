@@ -0,0 +1,45 @@
+/**
+ * Browser entry point of the HTLE framework: the core API without env
+ * configuration, the file system or Node.js `crypto`. Bundlers that honour
+ * the `browser` field of package.json use it, and swap in
+ * `encryption/platform.browser.ts` for the Node.js platform module.
+ *
+ * Streams, files, the on-disk beacon cache and the CLI are Node.js only.
+ */
+
+export { createHtle, defaultHtle } from './encryption/htle';
+export type { Htle, HtleConfig } from './encryption/htle';
+export {
+  hybridEncrypt,
+  hybridDecrypt,
+  decryptWithKey,
+  listKeySlots,
+  resolveUnlockTime,
+} from './encryption/hybrid';
+export { getLockStatus, getRoundStatus } from './encryption/status';
+export { waitAndDecrypt } from './encryption/wait';
+export { verifyEnvelope } from './encryption/verify';
+export { relock, changePassword } from './encryption/relock';
+export { encryptForTrustees, releaseShare, decryptWithShares } from './encryption/trustees';
+export { encryptInStages } from './encryption/staged';
+export { recoverWithEscrow } from './encryption/escrow';
+export {
+  exportBeacon,
+  serializeBeacon,
+  parseBeacon,
+  verifyExportedBeacon,
+  createOfflineBeaconSource,
+} from './encryption/beacon-file';
+export { ENVELOPE_VERSION, serializeEnvelope, parseEnvelope } from './encryption/envelope';
+export { ChainRegistry, CHAIN_PRESETS, findPreset } from './encryption/chains';
+export type { ChainConfig, ChainPreset, ChainRegistryOptions } from './encryption/chains';
+export { KeyPool } from './encryption/key-pool';
+export {
+  DEFAULT_PASSWORD_POLICY,
+  RECOMMENDED_PASSWORD_POLICY,
+  checkPassword,
+  estimateEntropy,
+} from './encryption/password-policy';
+export { DEFAULT_MAX_HORIZON_MS, parseDuration } from './encryption/unlock';
+export * from './encryption/errors';
+export type * from './types';
@@ -0,0 +1,269 @@
+/**
+ * CLI Test Suite for HTLE Framework
+ *
+ * These tests exercise the command-line front end without the drand network:
+ * - Argument validation and usage errors
+ * - Password-free envelope inspection
+ * - Mapping of decryption failures to distinct exit codes
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { runCli, exitCodeFor, EXIT_CODES, CliIO } from './cli';
+import { serializeEnvelope, ENVELOPE_VERSION } from './encryption/envelope';
+import {
+  TimelockNotExpiredError,
+  InvalidPasswordError,
+  IntegrityError,
+  BeaconUnavailableError,
+} from './encryption/errors';
+import { EncryptedData } from './types';
+
+const LOCKED_ENVELOPE: EncryptedData = {
+  version: ENVELOPE_VERSION,
+  chainHash: '52db9ba70e0cc0f6eaf7803dd07447a1f5477735fd3f661792ba94600c84e971',
+  scheme: 'bls-unchained-g1-rfc9380',
+  mode: 'pgp',
+  keyAlgorithm: 'rsa-2048',
+  publicKey: '-----BEGIN PGP PUBLIC KEY BLOCK-----',
+  encryptedData: '-----BEGIN PGP MESSAGE-----',
+  timelockedPrivateKey: '-----BEGIN AGE ENCRYPTED FILE-----',
+  unlockTime: new Date(Date.now() + 3_600_000),
+  roundNumber: 42,
+  tag: 'cd'.repeat(32),
+};
+
+function createIO(stdin = ''): CliIO & { out: () => string; err: () => string } {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  let out = '';
+  let err = '';
+  stdout.on('data', (chunk) => (out += chunk));
+  stderr.on('data', (chunk) => (err += chunk));
+
+  return {
+    stdin: Readable.from([stdin]),
+    stdout,
+    stderr,
+    env: {},
+    out: () => out,
+    err: () => err,
+  };
+}
+
+describe('HTLE CLI', () => {
+  describe('Usage', () => {
+    it('should print help and exit 0 with --help', async () => {
+      const io = createIO();
+      expect(await runCli(['--help'], io)).toBe(EXIT_CODES.OK);
+      expect(io.out()).toContain('Usage: htle');
+    });
+
+    it('should exit with the usage code for unknown commands and options', async () => {
+      expect(await runCli([], createIO())).toBe(EXIT_CODES.USAGE);
+      expect(await runCli(['explode'], createIO())).toBe(EXIT_CODES.USAGE);
+      for (const inherited of ['toString', 'constructor', 'hasOwnProperty']) {
+        const io = createIO();
+        expect(await runCli([inherited], io)).toBe(EXIT_CODES.USAGE);
+        expect(io.err()).toContain(`Unknown command: ${inherited}`);
+      }
+      expect(await runCli(['inspect', '--bogus'], createIO())).toBe(EXIT_CODES.USAGE);
+    });
+
+    it('should reject conflicting or invalid lock options before reading a password', async () => {
+      const io = createIO('secret');
+      expect(
+        await runCli(['encrypt', '--duration', 'min', '--unlock-at', '2030-01-01T00:00:00Z'], io)
+      ).toBe(EXIT_CODES.USAGE);
+      expect(await runCli(['encrypt', '--duration', 'soon'], createIO('secret'))).toBe(
+        EXIT_CODES.USAGE
+      );
+      expect(await runCli(['encrypt', '--unlock-at', '2000-01-01T00:00:00Z'], createIO('x'))).toBe(
+        EXIT_CODES.USAGE
+      );
+      expect(await runCli(['encrypt', '--duration', '3d', '--round', '9'], createIO('x'))).toBe(
+        EXIT_CODES.USAGE
+      );
+      expect(await runCli(['encrypt', '--round', '-1'], createIO('x'))).toBe(EXIT_CODES.USAGE);
+      expect(await runCli(['encrypt', '--duration', '3 fortnights'], createIO('x'))).toBe(
+        EXIT_CODES.USAGE
+      );
+      expect(await runCli(['encrypt', '--key-profile', 'dsa-1024'], createIO('x'))).toBe(
+        EXIT_CODES.USAGE
+      );
+      expect(await runCli(['encrypt', '--mode', 'xor'], createIO('x'))).toBe(EXIT_CODES.USAGE);
+      expect(await runCli(['encrypt', '--kdf', 'argon2id'], createIO('x'))).toBe(EXIT_CODES.USAGE);
+      expect(
+        await runCli(['encrypt', '--mode', 'symmetric', '--kdf', 'pbkdf2'], createIO('x'))
+      ).toBe(EXIT_CODES.USAGE);
+      const both = createIO('x');
+      expect(
+        await runCli(['encrypt', '--mode', 'pgp', '--s2k', 'argon2', '--kdf', 'scrypt'], both)
+      ).toBe(EXIT_CODES.USAGE);
+      expect(both.err()).toContain('--kdf only applies to --mode symmetric');
+      expect(
+        await runCli(
+          ['encrypt', '--mode', 'symmetric', '--key-profile', 'curve25519'],
+          createIO('x')
+        )
+      ).toBe(EXIT_CODES.USAGE);
+    });
+
+    it('should report a missing password environment variable', async () => {
+      const io = createIO(serializeEnvelope(LOCKED_ENVELOPE));
+      expect(await runCli(['decrypt', '--password-env', 'HTLE_MISSING'], io)).toBe(
+        EXIT_CODES.USAGE
+      );
+      expect(io.err()).toContain('HTLE_MISSING is not set');
+    });
+  });
+
+  describe('inspect', () => {
+    it('should show round, unlock time and chain without a password', async () => {
+      const io = createIO(serializeEnvelope(LOCKED_ENVELOPE, 'armor'));
+      expect(await runCli(['inspect'], io)).toBe(EXIT_CODES.OK);
+
+      expect(io.out()).toContain('Round:            42');
+      expect(io.out()).toContain(LOCKED_ENVELOPE.unlockTime.toISOString());
+      expect(io.out()).toContain(LOCKED_ENVELOPE.chainHash);
+      expect(io.out()).toContain('locked');
+      expect(io.out()).toContain('Protection:       pgp (rsa-2048)');
+    });
+
+    it('should emit JSON with --json', async () => {
+      const io = createIO(serializeEnvelope(LOCKED_ENVELOPE));
+      expect(await runCli(['inspect', '--json'], io)).toBe(EXIT_CODES.OK);
+
+      const info = JSON.parse(io.out());
+      expect(info.roundNumber).toBe(42);
+      expect(info.locked).toBe(true);
+      expect(info.remainingMs).toBeGreaterThan(0);
+    });
+
+    it('should list the key slots of a multi-recipient envelope', async () => {
+      const { version, chainHash, scheme, unlockTime, roundNumber, tag } = LOCKED_ENVELOPE;
+      const envelope: EncryptedData = {
+        ...{ version, chainHash, scheme, unlockTime, roundNumber, tag },
+        mode: 'multi',
+        slots: [
+          {
+            type: 'password',
+            label: 'alice',
+            kdf: { algorithm: 'scrypt', N: 2 ** 17, r: 8, p: 1 },
+            salt: 'ab'.repeat(32),
+          },
+          { type: 'publicKey', fingerprint: 'ef'.repeat(20) },
+        ],
+        encryptedData: 'AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=',
+        timelockedKey: '-----BEGIN AGE ENCRYPTED FILE-----',
+      };
+      const io = createIO(serializeEnvelope(envelope));
+      expect(await runCli(['inspect'], io)).toBe(EXIT_CODES.OK);
+
+      expect(io.out()).toContain('Protection:       multi (2 key slots)');
+      expect(io.out()).toContain('Key slot 1:       password "alice" (scrypt N=131072 r=8 p=1)');
+      expect(io.out()).toContain(`Key slot 2:       public key (${'ef'.repeat(20)})`);
+    });
+
+    it('should list the stages of a staged envelope and require --stage to decrypt', async () => {
+      const { version, chainHash, scheme, unlockTime, roundNumber, tag } = LOCKED_ENVELOPE;
+      const stage = {
+        encryptedData: 'AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=',
+        timelockedKey: '-----BEGIN AGE ENCRYPTED FILE-----',
+      };
+      const envelope: EncryptedData = {
+        ...{ version, chainHash, scheme, unlockTime, roundNumber, tag },
+        mode: 'staged',
+        kdf: { algorithm: 'scrypt', N: 2 ** 17, r: 8, p: 1 },
+        salt: 'ab'.repeat(32),
+        stages: [
+          { ...stage, label: 'abstract', roundNumber, unlockTime },
+          { ...stage, roundNumber: 1042, unlockTime: new Date('2030-01-01T00:00:00.000Z') },
+        ],
+      };
+      const text = serializeEnvelope(envelope);
+      const io = createIO(text);
+      expect(await runCli(['inspect'], io)).toBe(EXIT_CODES.OK);
+
+      expect(io.out()).toContain('Protection:       staged (scrypt N=131072 r=8 p=1)');
+      expect(io.out()).toContain(
+        `Stage 1:          "abstract" round 42 at ${unlockTime.toISOString()}`
+      );
+      expect(io.out()).toContain('Stage 2:          round 1042 at 2030-01-01T00:00:00.000Z');
+
+      const decrypt = ['decrypt', '--password-env', 'HTLE_PASSWORD'];
+      const env = { HTLE_PASSWORD: 'x' };
+      for (const args of [[], ['--stage', '3']]) {
+        const decryptIO = { ...createIO(text), env };
+        expect(await runCli([...decrypt, ...args], decryptIO)).toBe(EXIT_CODES.USAGE);
+        expect(decryptIO.err()).toContain('choose a stage with --stage 1 to 2');
+      }
+      const pgpIO = { ...createIO(serializeEnvelope(LOCKED_ENVELOPE)), env };
+      expect(await runCli([...decrypt, '--stage', '1'], pgpIO)).toBe(EXIT_CODES.USAGE);
+    });
+
+    it('should fail on a malformed envelope', async () => {
+      const io = createIO('{"version": 10}');
+      expect(await runCli(['inspect'], io)).toBe(EXIT_CODES.ERROR);
+      expect(io.err()).toContain('Unsupported envelope version 10');
+    });
+  });
+
+  describe('Offline beacons and cache', () => {
+    it('should validate beacon export arguments', async () => {
+      expect(await runCli(['beacon', 'secret.htle', '--round', '9'], createIO())).toBe(
+        EXIT_CODES.USAGE
+      );
+      expect(await runCli(['beacon', '--round', '0'], createIO())).toBe(EXIT_CODES.USAGE);
+      expect(
+        await runCli(['beacon', '--chain', 'testnet'], createIO(serializeEnvelope(LOCKED_ENVELOPE)))
+      ).toBe(EXIT_CODES.USAGE);
+    });
+
+    it('should reject a malformed beacon file before asking for a password', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'htle-cli-'));
+      const beaconFile = path.join(dir, 'round.beacon');
+      fs.writeFileSync(beaconFile, '{"version": 1, "round": 42}');
+      try {
+        const io = createIO(serializeEnvelope(LOCKED_ENVELOPE));
+        expect(await runCli(['decrypt', '--beacon', beaconFile], io)).toBe(EXIT_CODES.ERROR);
+        expect(io.err()).toContain('Invalid beacon file');
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should require a configured beacon cache and valid limits for prune', async () => {
+      const io = createIO();
+      expect(await runCli(['prune'], io)).toBe(EXIT_CODES.USAGE);
+      expect(io.err()).toContain('DRAND_BEACON_CACHE_DIR');
+      expect(await runCli(['prune', '--max-entries', '-3'], createIO())).toBe(EXIT_CODES.USAGE);
+      expect(await runCli(['prune', '--max-age', 'forever'], createIO())).toBe(EXIT_CODES.USAGE);
+    });
+
+    it('should reject invalid serve options', async () => {
+      expect(await runCli(['serve', '--port', '70000'], createIO())).toBe(EXIT_CODES.USAGE);
+      expect(await runCli(['serve', '--port', 'http'], createIO())).toBe(EXIT_CODES.USAGE);
+      expect(await runCli(['serve', 'extra'], createIO())).toBe(EXIT_CODES.USAGE);
+    });
+  });
+
+  describe('Exit Codes', () => {
+    it('should distinguish locked, wrong password, tampered and unavailable failures', () => {
+      expect(exitCodeFor(new TimelockNotExpiredError(5, new Date(), 3000))).toBe(
+        EXIT_CODES.LOCKED
+      );
+      expect(exitCodeFor(new InvalidPasswordError('Incorrect password'))).toBe(
+        EXIT_CODES.WRONG_PASSWORD
+      );
+      expect(exitCodeFor(new IntegrityError('Modification detected'))).toBe(EXIT_CODES.TAMPERED);
+      expect(exitCodeFor(new BeaconUnavailableError('fetch failed'))).toBe(
+        EXIT_CODES.BEACON_UNAVAILABLE
+      );
+      expect(exitCodeFor(new Error('EACCES'))).toBe(EXIT_CODES.ERROR);
+    });
+  });
+});
@@ -0,0 +1,733 @@
+#!/usr/bin/env node
+/**
+ * Command-line interface for the HTLE framework
+ *
+ *   htle encrypt [file] [--duration <duration> | --unlock-at <iso> | --round <n>]
+ *                [--key-profile <name>] [--s2k <iterated|argon2>]
+ *                [--mode <pgp|symmetric>] [--kdf <scrypt|argon2id>] [--chain <name|hash>]
+ *                [--armor] [--out <file>]
+ *   htle decrypt [file] [--out <file>] [--beacon <file>] [--stage <n>]
+ *   htle inspect [file] [--json]
+ *   htle wait    [file] [--out <file>] [--timeout <ms>]
+ *   htle beacon  [file | --round <n> [--chain <name|hash>]] [--out <file>]
+ *   htle prune   [--max-entries <n>] [--max-bytes <n>] [--max-age <duration>] [--verify]
+ *   htle serve   [--port <n>] [--host <address>]
+ *
+ * Passwords are read from --password-env <VAR>, --password-fd <n>, or an
+ * interactive prompt on the controlling terminal.
+ */
+
+import fs from 'fs';
+import tty from 'tty';
+import { AddressInfo } from 'net';
+import { parseArgs } from 'util';
+import { parseEnvelope, serializeEnvelope } from './encryption/envelope';
+import {
+  TimelockNotExpiredError,
+  InvalidPasswordError,
+  IntegrityError,
+  BeaconUnavailableError,
+} from './encryption/errors';
+import { parseDuration } from './encryption/unlock';
+import {
+  EncryptedData,
+  EncryptionMode,
+  KdfAlgorithm,
+  KdfParams,
+  KeySlot,
+  S2kParams,
+  S2kType,
+  StageSchedule,
+  UnlockSpec,
+} from './types';
+
+/** Process exit codes, distinct per failure class so scripts can branch on them */
+export const EXIT_CODES = {
+  OK: 0,
+  ERROR: 1,
+  USAGE: 2,
+  LOCKED: 3,
+  WRONG_PASSWORD: 4,
+  TAMPERED: 5,
+  BEACON_UNAVAILABLE: 6,
+} as const;
+
+const DEFAULT_PORT = 8787;
+
+const MODES: readonly EncryptionMode[] = ['pgp', 'symmetric'];
+
+const KDF_ALGORITHMS: readonly KdfAlgorithm[] = ['scrypt', 'argon2id'];
+const S2K_TYPES: readonly S2kType[] = ['iterated', 'argon2'];
+
+const USAGE = `Usage: htle <command> [file] [options]
+
+Commands:
+  encrypt   Encrypt stdin or [file] and write an envelope
+  decrypt   Decrypt an envelope (fails if still locked)
+  inspect   Show round, unlock time and chain of an envelope (no password)
+  wait      Block until the envelope is unlockable, then decrypt
+  beacon    Export the beacon of an envelope's round (or --round) for
+            decrypting on an offline machine with decrypt --beacon
+  prune     Trim the beacon cache in DRAND_BEACON_CACHE_DIR
+  serve     Run the HTTP service for encrypt, decrypt and status requests
+
+Options:
+  --duration <duration>            Lock duration for encrypt: min, month, year,
+                                   "3d 4h", P2W or milliseconds (default: min)
+  --unlock-at <iso-date>           Absolute unlock time for encrypt
+  --round <n>                      Explicit drand round for encrypt or beacon
+  --key-profile <name>             Key algorithm for encrypt: rsa-2048 (default),
+                                   rsa-3072, rsa-4096, curve25519, p256
+  --mode <pgp|symmetric>           Payload protection for encrypt (default: pgp)
+  --kdf <scrypt|argon2id>          Password KDF for --mode symmetric (default: scrypt)
+  --s2k <iterated|argon2>          Private key S2K for --mode pgp (default: iterated)
+  --chain <name|hash>              drand chain for encrypt or beacon --round: quicknet,
+                                   testnet or a configured chain (default: DRAND_CHAIN)
+  --armor                          Write an ASCII-armored envelope instead of JSON
+  --out <file>                     Write output to a file instead of stdout
+  --password-env <VAR>             Read the password from an environment variable
+  --password-fd <n>                Read the password from a file descriptor
+  --timeout <ms>                   Maximum time for wait to block
+  --beacon <file>                  Decrypt offline with an exported beacon
+  --stage <n>                      Stage of a staged envelope for decrypt (1 is the first)
+  --max-entries <n>                Beacons to keep for prune (default: cache limit)
+  --max-bytes <n>                  Bytes of beacons to keep for prune (default: cache limit)
+  --max-age <duration>             Also prune beacons unused for this long
+  --verify                         Also prune beacons that fail verification
+  --port <n>                       Port for serve (default: 8787)
+  --host <address>                 Address for serve to listen on (default: 127.0.0.1)
+  --json                           Machine-readable output for inspect
+  -h, --help                       Show this help
+
+Exit codes:
+  0 success, 1 error, 2 usage, 3 still locked, 4 wrong password, 5 tampered,
+  6 drand beacon unavailable
+`;
+
+/**
+ * Streams and environment used by the CLI, injectable for tests.
+ */
+export interface CliIO {
+  stdin: NodeJS.ReadableStream;
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+  env: NodeJS.ProcessEnv;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+type CliOptions = {
+  duration?: string;
+  'unlock-at'?: string;
+  round?: string;
+  'key-profile'?: string;
+  mode?: string;
+  kdf?: string;
+  s2k?: string;
+  chain?: string;
+  armor?: boolean;
+  out?: string;
+  'password-env'?: string;
+  'password-fd'?: string;
+  timeout?: string;
+  beacon?: string;
+  stage?: string;
+  'max-entries'?: string;
+  'max-bytes'?: string;
+  'max-age'?: string;
+  verify?: boolean;
+  port?: string;
+  host?: string;
+  json?: boolean;
+  help?: boolean;
+};
+
+function parseCliArgs(argv: string[]): { command?: string; file?: string; options: CliOptions } {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        duration: { type: 'string' },
+        'unlock-at': { type: 'string' },
+        round: { type: 'string' },
+        'key-profile': { type: 'string' },
+        mode: { type: 'string' },
+        kdf: { type: 'string' },
+        s2k: { type: 'string' },
+        chain: { type: 'string' },
+        armor: { type: 'boolean' },
+        out: { type: 'string' },
+        'password-env': { type: 'string' },
+        'password-fd': { type: 'string' },
+        timeout: { type: 'string' },
+        beacon: { type: 'string' },
+        stage: { type: 'string' },
+        'max-entries': { type: 'string' },
+        'max-bytes': { type: 'string' },
+        'max-age': { type: 'string' },
+        verify: { type: 'boolean' },
+        port: { type: 'string' },
+        host: { type: 'string' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+
+  const [command, file, ...rest] = parsed.positionals;
+  if (rest.length > 0) {
+    throw new UsageError(`Unexpected argument: ${rest[0]}`);
+  }
+  return { command, file, options: parsed.values };
+}
+
+async function readAll(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function readInputBytes(file: string | undefined, io: CliIO): Promise<Buffer> {
+  if (file && file !== '-') {
+    return fs.promises.readFile(file);
+  }
+  return readAll(io.stdin);
+}
+
+async function readInput(file: string | undefined, io: CliIO): Promise<string> {
+  return (await readInputBytes(file, io)).toString('utf8');
+}
+
+async function writeOutput(
+  data: string | Uint8Array,
+  out: string | undefined,
+  io: CliIO
+): Promise<void> {
+  if (out) {
+    await fs.promises.writeFile(out, data);
+    return;
+  }
+  io.stdout.write(data);
+}
+
+/**
+ * Read a password from the controlling terminal without echoing it.
+ */
+async function promptPassword(label: string): Promise<string> {
+  let fd: number;
+  try {
+    fd = fs.openSync('/dev/tty', 'r+');
+  } catch {
+    throw new UsageError(
+      'No terminal available to prompt for a password; use --password-env or --password-fd'
+    );
+  }
+
+  const input = new tty.ReadStream(fd);
+  const output = new tty.WriteStream(fd);
+  output.write(label);
+  input.setRawMode(true);
+
+  try {
+    return await new Promise<string>((resolve, reject) => {
+      let password = '';
+      input.on('data', (chunk: Buffer) => {
+        for (const char of chunk.toString('utf8')) {
+          if (char === '\r' || char === '\n') {
+            resolve(password);
+            return;
+          }
+          if (char === '\u0003') {
+            reject(new UsageError('Password prompt cancelled'));
+            return;
+          }
+          if (char === '\u007f' || char === '\b') {
+            password = password.slice(0, -1);
+          } else {
+            password += char;
+          }
+        }
+      });
+    });
+  } finally {
+    input.setRawMode(false);
+    output.write('\n');
+    input.destroy();
+    output.destroy();
+  }
+}
+
+async function readPassword(options: CliOptions, io: CliIO, confirm: boolean): Promise<string> {
+  if (options['password-env']) {
+    const value = io.env[options['password-env']];
+    if (value === undefined) {
+      throw new UsageError(`Environment variable ${options['password-env']} is not set`);
+    }
+    return value;
+  }
+
+  if (options['password-fd']) {
+    const fd = Number(options['password-fd']);
+    if (!Number.isInteger(fd) || fd < 0) {
+      throw new UsageError(`Invalid --password-fd: ${options['password-fd']}`);
+    }
+    return fs.readFileSync(fd, 'utf8').split(/\r?\n/)[0];
+  }
+
+  const password = await promptPassword('Password: ');
+  if (confirm && (await promptPassword('Confirm password: ')) !== password) {
+    throw new UsageError('Passwords do not match');
+  }
+  return password;
+}
+
+function parseRound(value: string): number {
+  const round = Number(value);
+  if (!Number.isSafeInteger(round) || round < 1) {
+    throw new UsageError(`Invalid --round: ${value} (expected a positive integer)`);
+  }
+  return round;
+}
+
+function resolveLock(options: CliOptions): UnlockSpec {
+  const given = (['duration', 'unlock-at', 'round'] as const).filter(
+    (name) => options[name] !== undefined
+  );
+  if (given.length > 1) {
+    throw new UsageError(`Use only one of --duration, --unlock-at or --round`);
+  }
+
+  if (options['unlock-at'] !== undefined) {
+    const unlockAt = Date.parse(options['unlock-at']);
+    if (isNaN(unlockAt)) {
+      throw new UsageError(`Invalid --unlock-at date: ${options['unlock-at']}`);
+    }
+    if (unlockAt <= Date.now()) {
+      throw new UsageError('--unlock-at must be in the future');
+    }
+    return { unlockAt: options['unlock-at'] };
+  }
+
+  if (options.round !== undefined) {
+    return { round: parseRound(options.round) };
+  }
+
+  const duration = options.duration ?? 'min';
+  try {
+    parseDuration(duration);
+  } catch (err) {
+    throw new UsageError(`Invalid --duration: ${err instanceof Error ? err.message : err}`);
+  }
+  return { duration };
+}
+
+function resolveMode(options: CliOptions): {
+  mode: EncryptionMode;
+  kdf?: KdfAlgorithm;
+  s2k?: S2kType;
+} {
+  const mode = options.mode ?? 'pgp';
+  if (!(MODES as readonly string[]).includes(mode)) {
+    throw new UsageError(`Invalid --mode: ${mode} (expected ${MODES.join(' or ')})`);
+  }
+  // --kdf and --s2k belong to different modes, so at most one of them passes
+  if (options.kdf !== undefined) {
+    if (mode !== 'symmetric') {
+      throw new UsageError('--kdf only applies to --mode symmetric');
+    }
+    if (!(KDF_ALGORITHMS as readonly string[]).includes(options.kdf)) {
+      throw new UsageError(
+        `Invalid --kdf: ${options.kdf} (expected ${KDF_ALGORITHMS.join(' or ')})`
+      );
+    }
+  }
+  if (options.s2k !== undefined) {
+    if (mode !== 'pgp') {
+      throw new UsageError('--s2k only applies to --mode pgp');
+    }
+    if (!(S2K_TYPES as readonly string[]).includes(options.s2k)) {
+      throw new UsageError(`Invalid --s2k: ${options.s2k} (expected ${S2K_TYPES.join(' or ')})`);
+    }
+  }
+  return {
+    mode: mode as EncryptionMode,
+    kdf: options.kdf as KdfAlgorithm | undefined,
+    s2k: options.s2k as S2kType | undefined,
+  };
+}
+
+/**
+ * Map an error thrown while decrypting to the CLI exit code.
+ */
+export function exitCodeFor(err: unknown): number {
+  if (err instanceof UsageError) return EXIT_CODES.USAGE;
+  if (err instanceof TimelockNotExpiredError) return EXIT_CODES.LOCKED;
+  if (err instanceof InvalidPasswordError) return EXIT_CODES.WRONG_PASSWORD;
+  if (err instanceof IntegrityError) return EXIT_CODES.TAMPERED;
+  if (err instanceof BeaconUnavailableError) return EXIT_CODES.BEACON_UNAVAILABLE;
+  return EXIT_CODES.ERROR;
+}
+
+async function readEnvelope(file: string | undefined, io: CliIO): Promise<EncryptedData> {
+  return parseEnvelope(await readInput(file, io));
+}
+
+async function encryptCommand(file: string | undefined, options: CliOptions, io: CliIO) {
+  const lock = resolveLock(options);
+  const protection = resolveMode(options);
+  const { isKeyProfile, KEY_PROFILE_NAMES } = await import('./encryption/pgp');
+  const keyProfile = options['key-profile'];
+  if (keyProfile !== undefined && protection.mode !== 'pgp') {
+    throw new UsageError('--key-profile only applies to --mode pgp');
+  }
+  if (keyProfile !== undefined && !isKeyProfile(keyProfile)) {
+    throw new UsageError(
+      `Invalid --key-profile: ${keyProfile} (expected one of ${KEY_PROFILE_NAMES.join(', ')})`
+    );
+  }
+  const plaintext = await readInputBytes(file, io);
+  const password = await readPassword(options, io, true);
+
+  const { hybridEncrypt } = await import('./encryption/hybrid');
+  const encrypted = await hybridEncrypt(
+    plaintext,
+    { password, keyProfile, ...protection, ...lock },
+    { chain: options.chain }
+  );
+
+  const envelope = serializeEnvelope(encrypted, options.armor ? 'armor' : 'json');
+  await writeOutput(envelope.endsWith('\n') ? envelope : `${envelope}\n`, options.out, io);
+  io.stderr.write(
+    `Locked until ${encrypted.unlockTime.toISOString()} (drand round ${encrypted.roundNumber})\n`
+  );
+}
+
+/** The 1-based stage to decrypt, for staged envelopes only */
+function parseStage(envelope: EncryptedData, stage: string | undefined): number | undefined {
+  if (envelope.mode !== 'staged') {
+    if (stage !== undefined) {
+      throw new UsageError('--stage only applies to staged envelopes');
+    }
+    return undefined;
+  }
+  const count = envelope.stages.length;
+  const n = Number(stage);
+  if (stage === undefined || !Number.isInteger(n) || n < 1 || n > count) {
+    throw new UsageError(`Envelope is staged; choose a stage with --stage 1 to ${count}`);
+  }
+  return n;
+}
+
+async function decryptCommand(file: string | undefined, options: CliOptions, io: CliIO) {
+  const envelope = await readEnvelope(file, io);
+  const stage = parseStage(envelope, options.stage);
+  const { parseBeacon } = await import('./encryption/beacon-file');
+  const beacon =
+    options.beacon === undefined
+      ? undefined
+      : parseBeacon(await fs.promises.readFile(options.beacon, 'utf8'));
+  const password = await readPassword(options, io, false);
+
+  const { hybridDecrypt } = await import('./encryption/hybrid');
+  if (envelope.mode !== 'staged') {
+    await writeOutput(
+      await hybridDecrypt(envelope, password, { beacon, format: 'binary' }),
+      options.out,
+      io
+    );
+    return;
+  }
+
+  // parseStage requires a stage for staged envelopes
+  const n = stage!;
+  const { open, pending } = await hybridDecrypt(envelope, password, { beacon, format: 'binary' });
+  if (n > open.length) {
+    const { roundNumber, unlockTime } = pending[n - open.length - 1];
+    const remainingMs = Math.max(0, unlockTime.getTime() - Date.now());
+    throw new TimelockNotExpiredError(roundNumber, unlockTime, remainingMs);
+  }
+  await writeOutput(open[n - 1].data, options.out, io);
+}
+
+function describeKdf(kdf: KdfParams): string {
+  return kdf.algorithm === 'scrypt'
+    ? `scrypt N=${kdf.N} r=${kdf.r} p=${kdf.p}`
+    : `argon2id m=${kdf.memoryKiB}KiB t=${kdf.iterations} p=${kdf.parallelism}`;
+}
+
+function describeS2k(s2k: S2kParams): string {
+  return s2k.type === 'iterated'
+    ? `iterated count byte ${s2k.countByte}`
+    : `argon2 t=${s2k.passes} p=${s2k.parallelism} m=2^${s2k.memoryExponent}KiB`;
+}
+
+function describeStage(stage: StageSchedule): string {
+  const label = stage.label === undefined ? '' : `"${stage.label}" `;
+  return `${label}round ${stage.roundNumber} at ${stage.unlockTime.toISOString()}`;
+}
+
+function describeSlot(slot: KeySlot): string {
+  const label = slot.label === undefined ? '' : ` "${slot.label}"`;
+  return slot.type === 'password'
+    ? `password${label} (${describeKdf(slot.kdf)})`
+    : `public key${label} (${slot.fingerprint})`;
+}
+
+/** Mode-specific fields of an envelope for `inspect`, as JSON fields and as text lines */
+function describeProtection(envelope: EncryptedData): {
+  fields: Record<string, unknown>;
+  lines: string[];
+} {
+  switch (envelope.mode) {
+    case 'pgp':
+      return {
+        fields: { keyAlgorithm: envelope.keyAlgorithm, s2k: envelope.s2k },
+        lines: [
+          `Protection:       pgp (${envelope.keyAlgorithm})`,
+          ...(envelope.s2k ? [`Key S2K:          ${describeS2k(envelope.s2k)}`] : []),
+        ],
+      };
+    case 'shared':
+      return {
+        fields: { kdf: envelope.kdf, threshold: envelope.threshold, trustees: envelope.trustees },
+        lines: [
+          `Protection:       shared (${describeKdf(envelope.kdf)})`,
+          `Trustees:         ${envelope.threshold} of ${envelope.trustees.join(', ')}`,
+        ],
+      };
+    case 'multi':
+      return {
+        fields: { slots: envelope.slots },
+        lines: [
+          `Protection:       multi (${envelope.slots.length} key slots)`,
+          ...envelope.slots.map(
+            (slot, i) => `${`Key slot ${i + 1}:`.padEnd(18)}${describeSlot(slot)}`
+          ),
+        ],
+      };
+    case 'staged':
+      return {
+        fields: {
+          kdf: envelope.kdf,
+          stages: envelope.stages.map(({ label, roundNumber, unlockTime }) => ({
+            label,
+            roundNumber,
+            unlockTime: unlockTime.toISOString(),
+          })),
+        },
+        lines: [
+          `Protection:       staged (${describeKdf(envelope.kdf)})`,
+          ...envelope.stages.map(
+            (stage, i) => `${`Stage ${i + 1}:`.padEnd(18)}${describeStage(stage)}`
+          ),
+        ],
+      };
+    default:
+      return {
+        fields: { kdf: envelope.kdf },
+        lines: [`Protection:       ${envelope.mode} (${describeKdf(envelope.kdf)})`],
+      };
+  }
+}
+
+async function inspectCommand(file: string | undefined, options: CliOptions, io: CliIO) {
+  const envelope = await readEnvelope(file, io);
+  const remainingMs = Math.max(0, envelope.unlockTime.getTime() - Date.now());
+  const protection = describeProtection(envelope);
+
+  const info = {
+    version: envelope.version,
+    chainHash: envelope.chainHash,
+    scheme: envelope.scheme,
+    mode: envelope.mode,
+    ...protection.fields,
+    ...(envelope.escrow ? { escrowFingerprint: envelope.escrow.fingerprint } : {}),
+    roundNumber: envelope.roundNumber,
+    unlockTime: envelope.unlockTime.toISOString(),
+    remainingMs,
+    locked: remainingMs > 0,
+  };
+
+  if (options.json) {
+    io.stdout.write(`${JSON.stringify(info, null, 2)}\n`);
+    return;
+  }
+
+  const secs = Math.ceil(remainingMs / 1000);
+  io.stdout.write(
+    [
+      `Envelope version: ${info.version}`,
+      `Chain:            ${info.chainHash} (${info.scheme})`,
+      ...protection.lines,
+      ...(envelope.escrow ? [`Escrow key:       ${envelope.escrow.fingerprint}`] : []),
+      `Round:            ${info.roundNumber}`,
+      `Unlock time:      ${info.unlockTime}`,
+      `Status:           ${info.locked ? `locked (${Math.floor(secs / 60)}m ${secs % 60}s remaining)` : 'unlockable'}`,
+      '',
+    ].join('\n')
+  );
+}
+
+async function waitCommand(file: string | undefined, options: CliOptions, io: CliIO) {
+  const envelope = await readEnvelope(file, io);
+  const timeoutMs = options.timeout === undefined ? Infinity : Number(options.timeout);
+  if (isNaN(timeoutMs) || timeoutMs < 0) {
+    throw new UsageError(`Invalid --timeout: ${options.timeout}`);
+  }
+  const password = await readPassword(options, io, false);
+
+  const { waitAndDecrypt } = await import('./encryption/wait');
+  let announced = false;
+  const plaintext = await waitAndDecrypt(envelope, password, {
+    format: 'binary',
+    maxWaitMs: timeoutMs,
+    onProgress: ({ phase, roundNumber, remainingMs, nextAttemptMs }) => {
+      if (phase === 'waiting' && !announced) {
+        announced = true;
+        io.stderr.write(`Waiting ${Math.ceil(remainingMs / 1000)}s for round ${roundNumber}...\n`);
+      } else if (phase === 'polling') {
+        io.stderr.write(`Round ${roundNumber} not published yet, retrying in ${nextAttemptMs}ms\n`);
+      }
+    },
+  });
+  await writeOutput(plaintext, options.out, io);
+}
+
+async function beaconCommand(file: string | undefined, options: CliOptions, io: CliIO) {
+  let roundNumber: number;
+  let chain = options.chain;
+  if (options.round !== undefined) {
+    if (file !== undefined) {
+      throw new UsageError('Use either an envelope file or --round, not both');
+    }
+    roundNumber = parseRound(options.round);
+  } else {
+    if (chain !== undefined) {
+      throw new UsageError('--chain only applies with --round; envelopes name their chain');
+    }
+    ({ roundNumber, chainHash: chain } = await readEnvelope(file, io));
+  }
+
+  const { exportBeacon, serializeBeacon } = await import('./encryption/beacon-file');
+  const beacon = await exportBeacon(roundNumber, { chain });
+  await writeOutput(serializeBeacon(beacon), options.out, io);
+  io.stderr.write(`Exported the beacon of drand round ${beacon.round}\n`);
+}
+
+function parseLimit(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const limit = Number(value);
+  if (!Number.isSafeInteger(limit) || limit < 0) {
+    throw new UsageError(`Invalid --${name}: ${value} (expected a non-negative integer)`);
+  }
+  return limit;
+}
+
+async function pruneCommand(file: string | undefined, options: CliOptions, io: CliIO) {
+  if (file !== undefined) {
+    throw new UsageError(`Unexpected argument: ${file}`);
+  }
+  const maxEntries = parseLimit('max-entries', options['max-entries']);
+  const maxBytes = parseLimit('max-bytes', options['max-bytes']);
+  let maxAgeMs: number | undefined;
+  if (options['max-age'] !== undefined) {
+    try {
+      maxAgeMs = parseDuration(options['max-age']);
+    } catch (err) {
+      throw new UsageError(`Invalid --max-age: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  const { getBeaconCache } = await import('./encryption/platform');
+  const cache = getBeaconCache();
+  if (!cache) {
+    throw new UsageError('No beacon cache configured; set DRAND_BEACON_CACHE_DIR');
+  }
+  const result = await cache.prune({ maxEntries, maxBytes, maxAgeMs, verify: options.verify });
+  io.stdout.write(
+    `Removed ${result.removed} beacons; ${result.entries} remain (${result.bytes} bytes) in ${cache.dir}\n`
+  );
+}
+
+async function serveCommand(file: string | undefined, options: CliOptions, io: CliIO) {
+  if (file !== undefined) {
+    throw new UsageError(`Unexpected argument: ${file}`);
+  }
+  const port = parseLimit('port', options.port) ?? DEFAULT_PORT;
+  if (port > 65_535) {
+    throw new UsageError(`Invalid --port: ${options.port} (expected at most 65535)`);
+  }
+  const host = options.host ?? '127.0.0.1';
+
+  const { createHtleServer } = await import('./server');
+  const server = createHtleServer({
+    onError: (err) => io.stderr.write(`htle: ${err instanceof Error ? err.stack : String(err)}\n`),
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, resolve);
+  });
+  const { port: bound } = server.address() as AddressInfo;
+  io.stderr.write(`Listening on http://${host}:${bound}\n`);
+
+  await new Promise<void>((resolve) => {
+    const stop = () => server.close(() => resolve());
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+}
+
+const COMMANDS: Record<
+  string,
+  (file: string | undefined, options: CliOptions, io: CliIO) => Promise<void>
+> = {
+  encrypt: encryptCommand,
+  decrypt: decryptCommand,
+  inspect: inspectCommand,
+  wait: waitCommand,
+  beacon: beaconCommand,
+  prune: pruneCommand,
+  serve: serveCommand,
+};
+
+/**
+ * Run the CLI and resolve with the process exit code.
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = { stdin: process.stdin, stdout: process.stdout, stderr: process.stderr, env: process.env }
+): Promise<number> {
+  try {
+    const { command, file, options } = parseCliArgs(argv);
+    if (options.help || !command) {
+      (options.help ? io.stdout : io.stderr).write(USAGE);
+      return options.help ? EXIT_CODES.OK : EXIT_CODES.USAGE;
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(COMMANDS, command)) {
+      throw new UsageError(`Unknown command: ${command}`);
+    }
+    await COMMANDS[command](file, options, io);
+    return EXIT_CODES.OK;
+  } catch (err) {
+    io.stderr.write(`htle: ${err instanceof Error ? err.message : String(err)}\n`);
+    return exitCodeFor(err);
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,190 @@
+/**
+ * Beacon Cache Test Suite for HTLE Framework
+ *
+ * These tests run a BeaconCache in a temporary directory against a
+ * LocalDrandChain to validate:
+ * - Decryption from cached beacons and chain info with no network
+ * - Integrity checks that delete corrupted or misplaced entries
+ * - Least recently used eviction under entry and byte limits
+ * - Pruning by age and by re-verification
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BeaconCache } from './beacon-cache';
+import { createCachingBeaconSource } from './chains';
+import { hybridEncrypt, hybridDecrypt } from './hybrid';
+import { LocalDrandChain } from './local-chain';
+import { serializeBeacon } from './beacon-file';
+import { BeaconSource } from '../types';
+import { TEST_PASSWORD, TEST_PLAINTEXT } from '../test-utils';
+
+describe('HTLE Beacon Cache', () => {
+  let dir: string;
+  let chain: LocalDrandChain;
+  let cache: BeaconCache;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'htle-beacons-'));
+    chain = new LocalDrandChain({ genesisTime: Math.floor(Date.now() / 1000) - 300 });
+    cache = new BeaconCache({ dir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** The chain as seen from a machine with no network access */
+  function offline(): BeaconSource {
+    const unreachable = () => Promise.reject(new Error('network is unreachable'));
+    return {
+      options: chain.options,
+      get: unreachable,
+      latest: unreachable,
+      chain: () => ({ baseUrl: 'offline://', info: unreachable }),
+      now: () => chain.now(),
+    };
+  }
+
+  function beaconFile(round: number): string {
+    return path.join(dir, chain.chainInfo.hash, `${round}.json`);
+  }
+
+  /** Fetch rounds through a caching source, oldest use first */
+  async function fill(rounds: number[]): Promise<void> {
+    const source = createCachingBeaconSource(chain, cache);
+    for (const [i, round] of rounds.entries()) {
+      await source.get(round);
+      const usedAt = new Date(Date.now() - (rounds.length - i) * 60_000);
+      fs.utimesSync(beaconFile(round), usedAt, usedAt);
+    }
+  }
+
+  it('should decrypt from the cache once a round has been fetched', async () => {
+    const encrypted = await hybridEncrypt(
+      TEST_PLAINTEXT,
+      { password: TEST_PASSWORD, duration: 'min', keyProfile: 'curve25519' },
+      { beaconSource: chain }
+    );
+    chain.advanceTo(encrypted.unlockTime);
+
+    const online = createCachingBeaconSource(chain, cache);
+    expect(await hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: online })).toBe(
+      TEST_PLAINTEXT
+    );
+    expect(fs.existsSync(beaconFile(encrypted.roundNumber))).toBe(true);
+    expect(fs.existsSync(path.join(dir, chain.chainInfo.hash, 'info.json'))).toBe(true);
+
+    const later = createCachingBeaconSource(offline(), cache);
+    expect(await hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: later })).toBe(
+      TEST_PLAINTEXT
+    );
+  });
+
+  it('should still need the network for rounds that are not cached', async () => {
+    await fill([10]);
+    const source = createCachingBeaconSource(offline(), cache);
+
+    expect(await source.get(10)).toEqual(await chain.get(10));
+    await expect(source.get(11)).rejects.toThrow('network is unreachable');
+  });
+
+  it('should not trust cached chain info for another public key', async () => {
+    await fill([10]);
+    const impostor = new LocalDrandChain();
+    const chainVerificationParams = {
+      chainHash: chain.chainInfo.hash,
+      publicKey: impostor.chainInfo.public_key,
+    };
+    const source = createCachingBeaconSource(
+      { ...offline(), options: { ...chain.options, chainVerificationParams } },
+      cache
+    );
+
+    await expect(source.get(10)).rejects.toThrow('network is unreachable');
+  });
+
+  it('should delete a tampered beacon on read and fetch it again', async () => {
+    await fill([10]);
+    const file = beaconFile(10);
+    const stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const forger = new LocalDrandChain({ genesisTime: chain.chainInfo.genesis_time });
+    forger.advanceTo(chain.now());
+    stored.signature = (await forger.get(10)).signature;
+    fs.writeFileSync(file, JSON.stringify(stored));
+
+    expect(await cache.get(chain.chainInfo, 10)).toBeUndefined();
+    expect(fs.existsSync(file)).toBe(false);
+
+    const source = createCachingBeaconSource(chain, cache);
+    expect(await source.get(10)).toEqual(await chain.get(10));
+    expect(await cache.get(chain.chainInfo, 10)).toEqual(await chain.get(10));
+  });
+
+  it('should delete corrupted and misplaced files on read', async () => {
+    await fill([10, 11]);
+    fs.writeFileSync(beaconFile(10), '{"version": 1, "round": 10');
+    fs.copyFileSync(beaconFile(11), beaconFile(12));
+
+    expect(await cache.get(chain.chainInfo, 10)).toBeUndefined();
+    expect(await cache.get(chain.chainInfo, 12)).toBeUndefined();
+    expect(fs.existsSync(beaconFile(10))).toBe(false);
+    expect(fs.existsSync(beaconFile(12))).toBe(false);
+    expect(await cache.get(chain.chainInfo, 11)).toBeDefined();
+  });
+
+  it('should only store beacons that verify', async () => {
+    const forged = { ...(await chain.get(10)), signature: (await chain.get(11)).signature };
+
+    expect(await cache.put(chain.chainInfo, forged)).toBe(false);
+    expect(fs.existsSync(beaconFile(10))).toBe(false);
+    expect(await cache.put(chain.chainInfo, await chain.get(10))).toBe(true);
+  });
+
+  it('should evict the least recently used beacons beyond maxEntries', async () => {
+    cache = new BeaconCache({ dir, maxEntries: 3 });
+    await fill([10, 11, 12]);
+    await cache.get(chain.chainInfo, 10);
+    await fill([13]);
+
+    const kept = fs.readdirSync(path.join(dir, chain.chainInfo.hash)).sort();
+    expect(kept).toEqual(['10.json', '12.json', '13.json', 'info.json']);
+  });
+
+  it('should evict the oldest beacons beyond maxBytes', async () => {
+    const { signature } = await chain.get(10);
+    const entryBytes = Buffer.byteLength(
+      serializeBeacon({ version: 1, chainHash: chain.chainInfo.hash, round: 10, signature })
+    );
+    cache = new BeaconCache({ dir, maxBytes: entryBytes * 2 });
+    await fill([10, 11, 12]);
+
+    expect(fs.existsSync(beaconFile(10))).toBe(false);
+    expect(await cache.prune()).toEqual({ removed: 0, entries: 2, bytes: entryBytes * 2 });
+  });
+
+  it('should prune by limit, age and verification on demand', async () => {
+    await fill([10, 11, 12, 13]);
+    const copied = fs.readFileSync(beaconFile(12), 'utf8').replace('"round": 12', '"round": 13');
+    fs.writeFileSync(beaconFile(13), copied);
+
+    expect(await cache.prune({ verify: true })).toMatchObject({ removed: 1, entries: 3 });
+    expect(await cache.prune({ maxAgeMs: 150_000 })).toMatchObject({ removed: 2, entries: 1 });
+    expect(await cache.prune({ maxEntries: 0 })).toEqual({ removed: 1, entries: 0, bytes: 0 });
+  });
+
+  it('should pass latest() through to the source', async () => {
+    chain.advance(3_000);
+    const source = createCachingBeaconSource(chain, cache);
+
+    expect(await source.latest()).toEqual(await chain.latest());
+    expect(fs.existsSync(path.join(dir, chain.chainInfo.hash))).toBe(false);
+  });
+
+  it('should validate its limits', () => {
+    expect(() => new BeaconCache({ dir, maxEntries: 0 })).toThrow(RangeError);
+    expect(() => new BeaconCache({ dir, maxBytes: 1.5 })).toThrow(RangeError);
+  });
+});
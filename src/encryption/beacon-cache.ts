@@ -0,0 +1,256 @@
+import fs from 'fs';
+import path from 'path';
+import type { ChainInfo } from 'tlock-js';
+import type { ChainVerificationParams, RandomnessBeacon } from 'drand-client';
+import { parseBeacon, serializeBeacon, verifyExportedBeacon } from './beacon-file';
+import { BeaconStore } from '../types';
+
+const CHAIN_INFO_FILE = 'info.json';
+const BEACON_FILE = /^(\d+)\.json$/;
+const CHAIN_DIR = /^[0-9a-f]{64}$/;
+
+export interface BeaconCacheOptions {
+  /** Directory holding one subdirectory per chain hash */
+  dir: string;
+  /** Most beacons kept across all chains (default: 10000) */
+  maxEntries?: number;
+  /** Most bytes of beacon files kept across all chains (default: 10 MiB) */
+  maxBytes?: number;
+}
+
+export interface PruneOptions {
+  /** Keep at most this many beacons (default: the cache's `maxEntries`) */
+  maxEntries?: number;
+  /** Keep at most this many bytes of beacons (default: the cache's `maxBytes`) */
+  maxBytes?: number;
+  /** Also remove beacons not used for this long */
+  maxAgeMs?: number;
+  /** Re-verify every beacon against its chain's cached info; drop those that fail or cannot be checked */
+  verify?: boolean;
+}
+
+export interface PruneResult {
+  /** Beacons removed */
+  removed: number;
+  /** Beacons kept */
+  entries: number;
+  /** Bytes of beacons kept */
+  bytes: number;
+}
+
+interface Entry {
+  file: string;
+  chainHash: string;
+  round: number;
+  bytes: number;
+  usedAt: number;
+}
+
+/**
+ * A directory of verified drand beacons, laid out as
+ * `<dir>/<chain hash>/<round>.json` in the exported beacon file format, next
+ * to the chain's `info.json`.
+ *
+ * Only beacons that verify against their chain's public key are written, and
+ * every read verifies again, so a corrupted or planted file is deleted and
+ * treated as a miss. Entries are evicted least recently used first once
+ * `maxEntries` or `maxBytes` is exceeded.
+ */
+export class BeaconCache implements BeaconStore {
+  readonly dir: string;
+  readonly maxEntries: number;
+  readonly maxBytes: number;
+
+  constructor(options: BeaconCacheOptions) {
+    this.dir = options.dir;
+    this.maxEntries = options.maxEntries ?? 10_000;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+      throw new RangeError('BeaconCache maxEntries must be a positive integer');
+    }
+    if (!Number.isInteger(this.maxBytes) || this.maxBytes < 1) {
+      throw new RangeError('BeaconCache maxBytes must be a positive integer');
+    }
+  }
+
+  /**
+   * The cached, verified beacon of `roundNumber`, or `undefined`.
+   */
+  async get(chainInfo: ChainInfo, roundNumber: number): Promise<RandomnessBeacon | undefined> {
+    const file = this.beaconPath(chainInfo.hash, roundNumber);
+    const beacon = await this.read(file, chainInfo, roundNumber);
+    if (beacon) {
+      const now = new Date();
+      await fs.promises.utimes(file, now, now).catch(() => undefined);
+    }
+    return beacon;
+  }
+
+  /**
+   * Store a beacon if it verifies against `chainInfo`, then enforce the size
+   * limits. Returns whether it was stored.
+   */
+  async put(chainInfo: ChainInfo, beacon: RandomnessBeacon): Promise<boolean> {
+    const exported = {
+      version: 1 as const,
+      chainHash: chainInfo.hash,
+      round: beacon.round,
+      signature: beacon.signature,
+    };
+    try {
+      await verifyExportedBeacon(exported, chainInfo);
+    } catch {
+      return false;
+    }
+
+    await this.writeFile(this.beaconPath(chainInfo.hash, beacon.round), serializeBeacon(exported));
+    await this.prune();
+    return true;
+  }
+
+  /**
+   * Cached chain info matching `params`, so that a cached beacon can be
+   * used without asking a relay for the chain's parameters.
+   */
+  async getChainInfo(params: ChainVerificationParams): Promise<ChainInfo | undefined> {
+    try {
+      const info = JSON.parse(
+        await fs.promises.readFile(path.join(this.chainDir(params.chainHash), CHAIN_INFO_FILE), 'utf8')
+      ) as ChainInfo;
+      return info.hash === params.chainHash && info.public_key === params.publicKey
+        ? info
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async putChainInfo(chainInfo: ChainInfo): Promise<void> {
+    await this.writeFile(
+      path.join(this.chainDir(chainInfo.hash), CHAIN_INFO_FILE),
+      `${JSON.stringify(chainInfo, null, 2)}\n`
+    );
+  }
+
+  /**
+   * Remove beacons beyond the size limits, least recently used first, and
+   * optionally stale or invalid ones.
+   */
+  async prune(options: PruneOptions = {}): Promise<PruneResult> {
+    const maxEntries = options.maxEntries ?? this.maxEntries;
+    const maxBytes = options.maxBytes ?? this.maxBytes;
+    const keep: Entry[] = [];
+    const remove: Entry[] = [];
+
+    const cutoff = options.maxAgeMs === undefined ? -Infinity : Date.now() - options.maxAgeMs;
+    for (const entry of await this.list()) {
+      const stale = entry.usedAt < cutoff;
+      const invalid = options.verify && !stale && !(await this.isValid(entry));
+      (stale || invalid ? remove : keep).push(entry);
+    }
+
+    // most recently used first, so the oldest are evicted
+    keep.sort((a, b) => b.usedAt - a.usedAt);
+    let entries = 0;
+    let bytes = 0;
+    for (const entry of keep) {
+      if (entries < maxEntries && bytes + entry.bytes <= maxBytes) {
+        entries++;
+        bytes += entry.bytes;
+      } else {
+        remove.push(entry);
+      }
+    }
+
+    await Promise.all(remove.map((entry) => fs.promises.rm(entry.file, { force: true })));
+    return { removed: remove.length, entries, bytes };
+  }
+
+  private chainDir(chainHash: string): string {
+    if (!CHAIN_DIR.test(chainHash)) {
+      throw new TypeError(`Invalid chain hash "${chainHash}"`);
+    }
+    return path.join(this.dir, chainHash);
+  }
+
+  private beaconPath(chainHash: string, roundNumber: number): string {
+    if (!Number.isSafeInteger(roundNumber) || roundNumber < 1) {
+      throw new RangeError(`Invalid round ${roundNumber}: must be a positive integer`);
+    }
+    return path.join(this.chainDir(chainHash), `${roundNumber}.json`);
+  }
+
+  /** Write via a temporary file so readers never see a partial beacon */
+  private async writeFile(file: string, data: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(temp, data);
+    await fs.promises.rename(temp, file);
+  }
+
+  private async list(): Promise<Entry[]> {
+    let chains: string[];
+    try {
+      chains = await fs.promises.readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const entries: Entry[] = [];
+    for (const chainHash of chains.filter((name) => CHAIN_DIR.test(name))) {
+      const dir = path.join(this.dir, chainHash);
+      for (const name of await fs.promises.readdir(dir).catch(() => [])) {
+        const match = BEACON_FILE.exec(name);
+        if (!match) continue;
+        const file = path.join(dir, name);
+        const stat = await fs.promises.stat(file).catch(() => undefined);
+        if (!stat?.isFile()) continue;
+        entries.push({
+          file,
+          chainHash,
+          round: Number(match[1]),
+          bytes: stat.size,
+          usedAt: stat.mtimeMs,
+        });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Read and verify a beacon file. A file that does not parse, sits under
+   * the wrong name or fails verification is deleted.
+   */
+  private async read(
+    file: string,
+    chainInfo: ChainInfo,
+    roundNumber: number
+  ): Promise<RandomnessBeacon | undefined> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(file, 'utf8');
+    } catch {
+      return undefined;
+    }
+
+    try {
+      const beacon = parseBeacon(text);
+      if (beacon.chainHash !== chainInfo.hash || beacon.round !== roundNumber) {
+        throw new Error('beacon file does not match its location');
+      }
+      return await verifyExportedBeacon(beacon, chainInfo);
+    } catch {
+      await fs.promises.rm(file, { force: true });
+      return undefined;
+    }
+  }
+
+  private async isValid(entry: Entry): Promise<boolean> {
+    const info = await fs.promises
+      .readFile(path.join(this.dir, entry.chainHash, CHAIN_INFO_FILE), 'utf8')
+      .then((text) => JSON.parse(text) as ChainInfo)
+      .catch(() => undefined);
+    if (info?.hash !== entry.chainHash) return false;
+    return (await this.read(entry.file, info, entry.round)) !== undefined;
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Offline Beacon Test Suite for HTLE Framework
+ *
+ * These tests validate air-gapped decryption with an exported beacon:
+ * - Export, serialization and parsing of beacon files
+ * - Decryption without contacting any relay
+ * - Rejection of forged, tampered, mismatched and malformed beacons
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  exportBeacon,
+  serializeBeacon,
+  parseBeacon,
+  createOfflineBeaconSource,
+} from './beacon-file';
+import { hybridEncrypt, hybridDecrypt } from './hybrid';
+import { LocalDrandChain } from './local-chain';
+import { createBeaconSource } from './timelock';
+import { CHAIN_PRESETS } from './chains';
+import {
+  BeaconUnavailableError,
+  EnvelopeError,
+  IntegrityError,
+  TimelockNotExpiredError,
+} from './errors';
+import { EncryptedData, ExportedBeacon } from '../types';
+import { TEST_PASSWORD, TEST_PLAINTEXT } from '../test-utils';
+
+describe('HTLE Offline Beacons', () => {
+  let chain: LocalDrandChain;
+  let encrypted: EncryptedData;
+
+  beforeEach(async () => {
+    chain = new LocalDrandChain();
+    encrypted = await hybridEncrypt(
+      TEST_PLAINTEXT,
+      { password: TEST_PASSWORD, duration: 'min', keyProfile: 'curve25519' },
+      { beaconSource: chain }
+    );
+  });
+
+  /** Export a beacon once the chain has reached the envelope's round */
+  async function exportFor(roundNumber: number): Promise<ExportedBeacon> {
+    chain.advanceTo(encrypted.unlockTime);
+    return exportBeacon(roundNumber, { beaconSource: chain });
+  }
+
+  it('should export a beacon that round-trips through a file', async () => {
+    const beacon = await exportFor(encrypted.roundNumber);
+
+    expect(beacon).toEqual({
+      version: 1,
+      chainHash: chain.chainInfo.hash,
+      round: encrypted.roundNumber,
+      signature: (await chain.get(encrypted.roundNumber)).signature,
+    });
+    expect(parseBeacon(serializeBeacon(beacon))).toEqual(beacon);
+  });
+
+  it('should refuse to export a round that is not published yet', async () => {
+    await expect(
+      exportBeacon(encrypted.roundNumber, { beaconSource: chain })
+    ).rejects.toThrow(TimelockNotExpiredError);
+  });
+
+  it('should decrypt with an exported beacon and no relay', async () => {
+    const beacon = parseBeacon(serializeBeacon(await exportFor(encrypted.roundNumber)));
+    const offline = createOfflineBeaconSource(beacon, chain.chainInfo);
+
+    expect(await hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: offline })).toBe(
+      TEST_PLAINTEXT
+    );
+  });
+
+  it('should take the beacon option over fetching from the beacon source', async () => {
+    const beacon = await exportFor(encrypted.roundNumber);
+    const unreachable = {
+      ...createBeaconSource(chain, () => 0),
+      get: () => Promise.reject(new Error('network is unreachable')),
+      latest: () => Promise.reject(new Error('network is unreachable')),
+    };
+
+    expect(
+      await hybridDecrypt(encrypted, TEST_PASSWORD, { beacon, beaconSource: unreachable })
+    ).toBe(TEST_PLAINTEXT);
+  });
+
+  it('should reject a beacon signed by another key', async () => {
+    const forger = new LocalDrandChain({
+      startTime: chain.now(),
+      genesisTime: chain.chainInfo.genesis_time,
+    });
+    forger.advanceTo(encrypted.unlockTime);
+    const forged: ExportedBeacon = {
+      ...(await exportFor(encrypted.roundNumber)),
+      signature: (await forger.get(encrypted.roundNumber)).signature,
+    };
+
+    await expect(
+      hybridDecrypt(encrypted, TEST_PASSWORD, {
+        beaconSource: createOfflineBeaconSource(forged, chain.chainInfo),
+      })
+    ).rejects.toThrow(IntegrityError);
+  });
+
+  it('should verify against the public key of the beacon\'s chain by default', async () => {
+    const quicknet = CHAIN_PRESETS.quicknet.info;
+    const forger = new LocalDrandChain({ genesisTime: quicknet.genesis_time });
+    const quicknetSource = {
+      ...createBeaconSource(forger, Date.now),
+      chain: () => ({ baseUrl: 'offline://quicknet', info: async () => quicknet }),
+    };
+    const locked = await hybridEncrypt(
+      TEST_PLAINTEXT,
+      { password: TEST_PASSWORD, duration: 'min', keyProfile: 'curve25519' },
+      { beaconSource: quicknetSource }
+    );
+
+    forger.advanceTo(locked.unlockTime);
+    const forged: ExportedBeacon = {
+      version: 1,
+      chainHash: quicknet.hash,
+      round: locked.roundNumber,
+      signature: (await forger.get(locked.roundNumber)).signature,
+    };
+
+    const error = await hybridDecrypt(locked, TEST_PASSWORD, { beacon: forged }).catch(
+      (err) => err
+    );
+    expect(error).toBeInstanceOf(IntegrityError);
+    expect(error.message).toContain(`public key of chain ${quicknet.hash}`);
+  });
+
+  it('should reject a tampered signature', async () => {
+    const beacon = await exportFor(encrypted.roundNumber);
+    const flipped = (parseInt(beacon.signature[0], 16) ^ 1).toString(16);
+    const tampered = { ...beacon, signature: flipped + beacon.signature.slice(1) };
+
+    await expect(
+      hybridDecrypt(encrypted, TEST_PASSWORD, {
+        beaconSource: createOfflineBeaconSource(tampered, chain.chainInfo),
+      })
+    ).rejects.toThrow(IntegrityError);
+  });
+
+  it('should reject a beacon for another round or chain', async () => {
+    chain.advanceTo(encrypted.unlockTime.getTime() + chain.chainInfo.period * 1000);
+    const beacon = await exportFor(encrypted.roundNumber + 1);
+
+    await expect(
+      hybridDecrypt(encrypted, TEST_PASSWORD, {
+        beaconSource: createOfflineBeaconSource(beacon, chain.chainInfo),
+      })
+    ).rejects.toThrow(BeaconUnavailableError);
+    expect(() => createOfflineBeaconSource(beacon, new LocalDrandChain().chainInfo)).toThrow(
+      EnvelopeError
+    );
+  });
+
+  it.each([
+    ['invalid JSON', '{'],
+    ['an unknown version', JSON.stringify({ version: 2, chainHash: 'ab'.repeat(32), round: 1, signature: 'ab' })],
+    ['a non-hex signature', JSON.stringify({ version: 1, chainHash: 'ab'.repeat(32), round: 1, signature: 'xyz' })],
+    ['a missing round', JSON.stringify({ version: 1, chainHash: 'ab'.repeat(32), signature: 'ab' })],
+  ])('should reject a beacon file with %s', (_name, input) => {
+    expect(() => parseBeacon(input)).toThrow(EnvelopeError);
+  });
+});
@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import { roundTime, ChainInfo, Buffer } from 'tlock-js';
+import { fetchBeacon, RandomnessBeacon } from 'drand-client';
+import { verifyBeacon } from 'drand-client/beacon-verification';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { getChainInfo, resolveBeaconSource } from './timelock';
+import { getChainRegistry } from './platform';
+import { findPreset } from './chains';
+import { formatIssues } from './envelope';
+import {
+  BeaconUnavailableError,
+  EnvelopeError,
+  IntegrityError,
+  TimelockNotExpiredError,
+} from './errors';
+import { BeaconSource, ExportedBeacon, HybridOptions } from '../types';
+
+const exportedBeaconSchema = z.object({
+  version: z.literal(1),
+  chainHash: z.string().regex(/^[0-9a-f]{64}$/, 'must be a 64 character hex string'),
+  round: z.number().int().positive(),
+  signature: z.string().regex(/^([0-9a-f]{2})+$/, 'must be a hex string'),
+});
+
+/**
+ * Fetch and verify the beacon of a published round, for carrying to an
+ * offline machine.
+ *
+ * Throws `TimelockNotExpiredError` if the round is not due yet and
+ * `BeaconUnavailableError` if no valid beacon can be fetched.
+ */
+export async function exportBeacon(
+  roundNumber: number,
+  options: Pick<HybridOptions, 'beaconSource' | 'chain' | 'chains'> = {}
+): Promise<ExportedBeacon> {
+  if (!Number.isSafeInteger(roundNumber) || roundNumber < 1) {
+    throw new RangeError(`Invalid round ${roundNumber}: must be a positive integer`);
+  }
+  const source = resolveBeaconSource(options, options.chain);
+  const chainInfo = await getChainInfo(source);
+  const unlockTime = roundTime(chainInfo, roundNumber);
+  const now = source.now();
+  if (unlockTime > now) {
+    throw new TimelockNotExpiredError(roundNumber, new Date(unlockTime), unlockTime - now);
+  }
+
+  let beacon: RandomnessBeacon;
+  try {
+    beacon = await fetchBeacon(source, roundNumber);
+  } catch (err) {
+    throw new BeaconUnavailableError(
+      `Could not fetch a valid beacon for round ${roundNumber}: ${
+        err instanceof Error ? err.message : String(err)
+      }`,
+      err
+    );
+  }
+  return { version: 1, chainHash: chainInfo.hash, round: beacon.round, signature: beacon.signature };
+}
+
+/**
+ * Encode an exported beacon as a small JSON file.
+ */
+export function serializeBeacon(beacon: ExportedBeacon): string {
+  return `${JSON.stringify(beacon, null, 2)}\n`;
+}
+
+/**
+ * Parse and validate an exported beacon file. Only its shape is checked
+ * here; the signature is verified when the beacon is used.
+ */
+export function parseBeacon(input: string): ExportedBeacon {
+  let value: unknown;
+  try {
+    value = JSON.parse(input);
+  } catch {
+    throw new EnvelopeError('Invalid beacon file: not valid JSON');
+  }
+  const parsed = exportedBeaconSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new EnvelopeError(`Invalid beacon file: ${formatIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Throw `IntegrityError` unless the beacon's signature verifies against the
+ * chain's public key.
+ */
+export async function verifyExportedBeacon(
+  beacon: ExportedBeacon,
+  chainInfo: ChainInfo
+): Promise<RandomnessBeacon> {
+  const verified = {
+    round: beacon.round,
+    signature: beacon.signature,
+    randomness: bytesToHex(sha256(Buffer.from(beacon.signature, 'hex'))),
+  };
+  let valid: boolean;
+  try {
+    valid = await verifyBeacon(chainInfo, verified, beacon.round);
+  } catch {
+    valid = false;
+  }
+  if (!valid) {
+    throw new IntegrityError(
+      `Beacon for round ${beacon.round} does not verify against the public key of chain ${chainInfo.hash}`
+    );
+  }
+  return verified;
+}
+
+/**
+ * A beacon source that serves a single exported beacon and never touches
+ * the network. The beacon is verified against `chainInfo` before it is
+ * handed out, so a forged one fails with `IntegrityError`. Its clock is at
+ * least the beacon's release time, which a valid signature proves has passed.
+ *
+ * `chainInfo` defaults to the built-in preset for the beacon's chain. Throws
+ * `EnvelopeError` if the beacon belongs to another chain, or if no
+ * parameters are given for a chain that is not a preset.
+ */
+export function createOfflineBeaconSource(
+  beacon: ExportedBeacon,
+  chainInfo: ChainInfo | undefined = findPreset(beacon.chainHash)?.info
+): BeaconSource {
+  if (!chainInfo) {
+    throw new EnvelopeError(
+      `Parameters of drand chain ${beacon.chainHash} are unknown; pass its chain info`
+    );
+  }
+  if (beacon.chainHash !== chainInfo.hash) {
+    throw new EnvelopeError(
+      `Beacon is for drand chain ${beacon.chainHash}, but the configured chain is ${chainInfo.hash}`
+    );
+  }
+  const get = async (roundNumber: number) => {
+    if (roundNumber !== beacon.round) {
+      throw new BeaconUnavailableError(
+        `The supplied beacon is for round ${beacon.round}, but round ${roundNumber} is needed`
+      );
+    }
+    return verifyExportedBeacon(beacon, chainInfo);
+  };
+
+  return {
+    options: {
+      disableBeaconVerification: false,
+      noCache: false,
+      chainVerificationParams: { chainHash: chainInfo.hash, publicKey: chainInfo.public_key },
+    },
+    get,
+    latest: () => get(beacon.round),
+    chain: () => ({ baseUrl: `beacon://${beacon.round}`, info: async () => chainInfo }),
+    now: () => Math.max(Date.now(), roundTime(chainInfo, beacon.round)),
+  };
+}
+
+/**
+ * The beacon source `hybridDecrypt` uses for an envelope locked to
+ * `chainHash`: an offline source when a beacon was supplied, otherwise the
+ * given source or the registered chain's relays.
+ */
+export async function resolveDecryptionSource(
+  options: Pick<HybridOptions, 'beaconSource' | 'beacon' | 'chains'>,
+  chainHash: string
+): Promise<BeaconSource> {
+  if (!options.beacon) {
+    return resolveBeaconSource(options, chainHash);
+  }
+  const chainInfo = options.beaconSource
+    ? await getChainInfo(options.beaconSource)
+    : await (options.chains ?? getChainRegistry()).getInfo(options.beacon.chainHash);
+  return createOfflineBeaconSource(options.beacon, chainInfo);
+}
@@ -5,18 +5,35 @@
  * - Encryption time (key generation + data encryption + time-lock)
  * - Decryption time (time-lock unlock + password unlock + data decryption)
  * - Ciphertext size overhead
+ * - Key profile comparison and key pool speed-up
+ * - Symmetric (KDF + AES-256-GCM) mode against OpenPGP mode
+ * - Throughput and memory of streamed file encryption for large payloads
  *
  * These metrics support Section IV.4 (Experimental Validation) of the paper.
+ *
+ * Payload and key generation benchmarks run against an in-process
+ * LocalDrandChain, so they measure cryptographic cost without network
+ * latency. The time-lock precision benchmark needs the live drand relay and
+ * only runs when DRAND_LIVE_TESTS=1. The 1 GB file benchmark writes about
+ * 3 GB to the temp directory and only runs when HTLE_LARGE_BENCHMARKS=1.
  */
 
 import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createHash, randomBytes } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
 import { hybridEncrypt, hybridDecrypt } from './hybrid';
+import { encryptFile, decryptFile } from './stream';
+import { LocalDrandChain } from './local-chain';
+import { KeyPool } from './key-pool';
+import { waitAndDecrypt } from './wait';
+import { KEY_PROFILE_NAMES } from './pgp';
 import {
   TEST_PASSWORD,
   SHORT_DURATION_MS,
-  UNLOCK_BUFFER_MS,
-  wait,
-  getRemainingTime,
   measureTime,
   TimingResult,
 } from '../test-utils';
@@ -46,25 +63,26 @@ describe('HTLE Performance Benchmarks', () => {
       'should benchmark $name payload',
       async ({ name, size }) => {
         const plaintext = 'A'.repeat(size);
+        const chain = new LocalDrandChain();
 
         // Measure encryption
         const { result: encrypted, timing: encryptTiming } = await measureTime(
           'encryption',
           () =>
-            hybridEncrypt(plaintext, {
-              password: TEST_PASSWORD,
-              durationMs: SHORT_DURATION_MS,
-            })
+            hybridEncrypt(
+              plaintext,
+              { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS },
+              { beaconSource: chain }
+            )
         );
 
-        // Wait for unlock
-        const remainingTime = getRemainingTime(encrypted.unlockTime);
-        await wait(remainingTime + UNLOCK_BUFFER_MS);
+        // Advance the local clock past unlock
+        chain.advanceTo(encrypted.unlockTime);
 
         // Measure decryption
         const { result: decrypted, timing: decryptTiming } = await measureTime(
           'decryption',
-          () => hybridDecrypt(encrypted, TEST_PASSWORD)
+          () => hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain })
         );
 
         expect(decrypted).toBe(plaintext);
@@ -101,13 +119,15 @@ describe('HTLE Performance Benchmarks', () => {
     it('should measure PGP key generation time', async () => {
       const iterations = 3;
       const times: number[] = [];
+      const chain = new LocalDrandChain();
 
       for (let i = 0; i < iterations; i++) {
         const { timing } = await measureTime('key-generation', () =>
-          hybridEncrypt('test', {
-            password: TEST_PASSWORD,
-            durationMs: SHORT_DURATION_MS,
-          })
+          hybridEncrypt(
+            'test',
+            { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS },
+            { beaconSource: chain }
+          )
         );
         times.push(timing.durationMs);
       }
@@ -123,7 +143,209 @@ describe('HTLE Performance Benchmarks', () => {
     });
   });
 
-  describe('Time-Lock Precision', () => {
+  describe('Key Profile Comparison', () => {
+    it('should compare encryption and decryption time across key profiles', async () => {
+      const rows: { profile: string; encryptMs: number; decryptMs: number; keySize: number }[] = [];
+
+      for (const keyProfile of KEY_PROFILE_NAMES) {
+        const chain = new LocalDrandChain();
+        const { result: encrypted, timing: encryptTiming } = await measureTime(
+          'encryption',
+          () =>
+            hybridEncrypt(
+              'test',
+              { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS, keyProfile },
+              { beaconSource: chain }
+            )
+        );
+
+        chain.advanceTo(encrypted.unlockTime);
+        const { timing: decryptTiming } = await measureTime('decryption', () =>
+          hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain })
+        );
+
+        rows.push({
+          profile: keyProfile,
+          encryptMs: encryptTiming.durationMs,
+          decryptMs: decryptTiming.durationMs,
+          keySize: encrypted.timelockedPrivateKey.length,
+        });
+      }
+
+      console.log('\n--- Key Profiles ---');
+      console.log('| Profile    | Encrypt  | Decrypt  | Time-locked key |');
+      console.log('|------------|----------|----------|-----------------|');
+      for (const r of rows) {
+        console.log(
+          `| ${r.profile.padEnd(10)} | ${r.encryptMs.toFixed(0).padStart(6)}ms | ${r.decryptMs.toFixed(0).padStart(6)}ms | ${String(r.keySize).padStart(13)} B |`
+        );
+      }
+
+      expect(rows).toHaveLength(KEY_PROFILE_NAMES.length);
+    }, 120_000);
+
+    it('should measure the key pool speed-up for a burst of encryptions', async () => {
+      const burst = 3;
+      const chain = new LocalDrandChain();
+      const config = { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS };
+
+      const { timing: inlineTiming } = await measureTime('inline', async () => {
+        for (let i = 0; i < burst; i++) {
+          await hybridEncrypt('test', config, { beaconSource: chain });
+        }
+      });
+
+      const keyPool = new KeyPool({ size: burst });
+      await keyPool.start();
+      const { timing: pooledTiming } = await measureTime('pooled', async () => {
+        for (let i = 0; i < burst; i++) {
+          await hybridEncrypt('test', config, { beaconSource: chain, keyPool });
+        }
+      });
+      await keyPool.stop();
+
+      console.log(`\n--- Key Pool (${burst} encryptions, default profile) ---`);
+      console.log(`Inline key generation: ${inlineTiming.durationMs.toFixed(2)}ms`);
+      console.log(`Pre-generated keys: ${pooledTiming.durationMs.toFixed(2)}ms`);
+    }, 120_000);
+  });
+
+  describe('Symmetric Mode', () => {
+    it.each(testSizes)(
+      'should compare overhead with OpenPGP mode for $name payload',
+      async ({ name, size }) => {
+        const plaintext = 'A'.repeat(size);
+        const chain = new LocalDrandChain();
+
+        const { result: encrypted, timing: encryptTiming } = await measureTime(
+          'encryption',
+          () =>
+            hybridEncrypt(
+              plaintext,
+              { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS, mode: 'symmetric' },
+              { beaconSource: chain }
+            )
+        );
+
+        chain.advanceTo(encrypted.unlockTime);
+        const { result: decrypted, timing: decryptTiming } = await measureTime(
+          'decryption',
+          () => hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain })
+        );
+        expect(decrypted).toBe(plaintext);
+
+        const overheadRatio =
+          (encrypted.encryptedData.length + encrypted.timelockedKey.length) / size;
+        const pgp = benchmarkResults.find((r) => r.testName === name);
+
+        console.log(`\n--- Symmetric ${name} (scrypt defaults) ---`);
+        console.log(
+          `Total overhead ratio: ${overheadRatio.toFixed(2)}x` +
+            (pgp ? ` (OpenPGP mode: ${pgp.overheadRatio.toFixed(2)}x)` : '')
+        );
+        console.log(`Encryption time: ${encryptTiming.durationMs.toFixed(2)}ms`);
+        console.log(`Decryption time: ${decryptTiming.durationMs.toFixed(2)}ms`);
+      }
+    );
+  });
+
+  describe('Large Payloads', () => {
+    const MiB = 1024 * 1024;
+
+    /** Write `size` bytes of incompressible data to `file`, 1 MiB at a time */
+    async function writePayload(file: string, size: number): Promise<void> {
+      const block = randomBytes(MiB);
+      async function* blocks() {
+        for (let written = 0; written < size; written += MiB) {
+          yield block.subarray(0, Math.min(MiB, size - written));
+        }
+      }
+      await pipeline(Readable.from(blocks()), fs.createWriteStream(file));
+    }
+
+    async function sha256(file: string): Promise<string> {
+      const hash = createHash('sha256');
+      await pipeline(fs.createReadStream(file), hash);
+      return hash.digest('hex');
+    }
+
+    /** Run `operation` and report the peak growth of Buffer memory while it ran */
+    async function measureMemory<T>(operation: () => Promise<T>) {
+      const baseline = process.memoryUsage().arrayBuffers;
+      let peak = baseline;
+      const sampler = setInterval(() => {
+        peak = Math.max(peak, process.memoryUsage().arrayBuffers);
+      }, 5);
+      try {
+        const { result, timing } = await measureTime('operation', operation);
+        peak = Math.max(peak, process.memoryUsage().arrayBuffers);
+        return { result, timing, peakGrowth: peak - baseline };
+      } finally {
+        clearInterval(sampler);
+      }
+    }
+
+    const largeSizes = [
+      { name: '10MB', size: 10 * MiB, enabled: true },
+      { name: '1GB', size: 1024 * MiB, enabled: process.env.HTLE_LARGE_BENCHMARKS === '1' },
+    ];
+
+    for (const { name, size, enabled } of largeSizes) {
+      it.skipIf(!enabled)(
+        `should stream a ${name} file in constant memory`,
+        async () => {
+          const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'htle-bench-'));
+          const chain = new LocalDrandChain();
+          const plainPath = path.join(dir, 'payload.bin');
+          const encryptedPath = path.join(dir, 'payload.htle');
+          const decryptedPath = path.join(dir, 'decrypted.bin');
+
+          try {
+            await writePayload(plainPath, size);
+
+            const encryption = await measureMemory(() =>
+              encryptFile(
+                plainPath,
+                encryptedPath,
+                { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS },
+                { beaconSource: chain }
+              )
+            );
+            chain.advanceTo(encryption.result.unlockTime);
+            const decryption = await measureMemory(() =>
+              decryptFile(encryptedPath, decryptedPath, TEST_PASSWORD, { beaconSource: chain })
+            );
+
+            expect(await sha256(decryptedPath)).toBe(await sha256(plainPath));
+
+            const ciphertextSize = fs.statSync(encryptedPath).size;
+            const throughput = (ms: number) => (size / MiB / (ms / 1000)).toFixed(1);
+            console.log(`\n--- Streamed file ${name} (scrypt defaults) ---`);
+            console.log(`Overhead: ${ciphertextSize - size} bytes`);
+            console.log(
+              `Encryption: ${encryption.timing.durationMs.toFixed(0)}ms ` +
+                `(${throughput(encryption.timing.durationMs)} MiB/s), ` +
+                `peak buffer growth ${(encryption.peakGrowth / MiB).toFixed(1)} MiB`
+            );
+            console.log(
+              `Decryption: ${decryption.timing.durationMs.toFixed(0)}ms ` +
+                `(${throughput(decryption.timing.durationMs)} MiB/s), ` +
+                `peak buffer growth ${(decryption.peakGrowth / MiB).toFixed(1)} MiB`
+            );
+
+            // memory must not scale with the payload
+            expect(encryption.peakGrowth).toBeLessThan(64 * MiB);
+            expect(decryption.peakGrowth).toBeLessThan(64 * MiB);
+          } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+          }
+        },
+        900_000
+      );
+    }
+  });
+
+  describe.runIf(process.env.DRAND_LIVE_TESTS === '1')('Time-Lock Precision', () => {
     it('should measure time between unlock time and actual decryption availability', async () => {
       const encrypted = await hybridEncrypt('test', {
         password: TEST_PASSWORD,
@@ -132,25 +354,12 @@ describe('HTLE Performance Benchmarks', () => {
 
       const targetUnlockTime = encrypted.unlockTime.getTime();
 
-      // Wait until just after unlock time
-      const remainingTime = getRemainingTime(encrypted.unlockTime);
-      await wait(remainingTime);
-
-      // Measure how long until decryption actually succeeds
-      const startPolling = Date.now();
-      let decryptionSucceeded = false;
+      // Sleep until the round's release, then poll until the beacon is published
       let attempts = 0;
-      const maxAttempts = 20;
-
-      while (!decryptionSucceeded && attempts < maxAttempts) {
-        try {
-          await hybridDecrypt(encrypted, TEST_PASSWORD);
-          decryptionSucceeded = true;
-        } catch {
-          attempts++;
-          await wait(500); // Poll every 500ms
-        }
-      }
+      const decrypted = await waitAndDecrypt(encrypted, TEST_PASSWORD, {
+        onProgress: ({ attempt }) => (attempts = attempt),
+      });
+      const decryptionSucceeded = decrypted === 'test';
 
       const actualDecryptTime = Date.now();
       const deviation = actualDecryptTime - targetUnlockTime;
@@ -0,0 +1,196 @@
+/**
+ * Chain Registry Test Suite for HTLE Framework
+ *
+ * These tests serve LocalDrandChains from local stub HTTP relays to validate:
+ * - Built-in presets and registration of custom chains
+ * - Decrypting envelopes for different chains in the same process
+ * - Hard failure when a relay publishes other chain parameters
+ * - Rejection of chained schemes for time-lock encryption
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { roundTime } from 'tlock-js';
+import { CHAIN_PRESETS, ChainConfig, ChainRegistry, findPreset } from './chains';
+import { LocalDrandChain } from './local-chain';
+import { createBeaconSource } from './timelock';
+import { getChainRegistry } from './platform';
+import { hybridEncrypt, hybridDecrypt, resolveUnlockTime } from './hybrid';
+import { getLockStatus } from './status';
+import { roundForTime } from './unlock';
+import { EnvelopeError } from './errors';
+import { TEST_PASSWORD, TEST_PLAINTEXT } from '../test-utils';
+
+describe('HTLE Chain Registry', () => {
+  let servers: Server[];
+
+  beforeEach(() => {
+    servers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(
+      servers.map(
+        (server) =>
+          new Promise((resolve) => {
+            server.closeAllConnections();
+            server.close(resolve);
+          })
+      )
+    );
+  });
+
+  /**
+   * A chain whose clock lags real time by two minutes, so that rounds
+   * locked for a minute on its clock are already due by the system clock
+   */
+  function laggingChain(): LocalDrandChain {
+    const startTime = Date.now() - 120_000;
+    return new LocalDrandChain({ startTime, genesisTime: Math.floor(startTime / 1000) - 60 });
+  }
+
+  /** A local HTTP relay serving `chain`, publishing `info` as its parameters */
+  async function relay(chain: LocalDrandChain, info: object = chain.chainInfo): Promise<string> {
+    const server = createServer(async (req, res) => {
+      try {
+        const body =
+          req.url === '/info'
+            ? info
+            : req.url === '/public/latest'
+              ? await chain.latest()
+              : await chain.get(Number(req.url?.replace('/public/', '')));
+        res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify(body));
+      } catch {
+        res.writeHead(404).end();
+      }
+    });
+    servers.push(server);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  async function chainConfig(name: string, chain: LocalDrandChain): Promise<ChainConfig> {
+    return {
+      name,
+      hash: chain.chainInfo.hash,
+      publicKey: chain.chainInfo.public_key,
+      urls: [await relay(chain)],
+      info: chain.chainInfo,
+    };
+  }
+
+  async function encryptOn(chain: LocalDrandChain) {
+    const encrypted = await hybridEncrypt(
+      TEST_PLAINTEXT,
+      { password: TEST_PASSWORD, duration: 'min', keyProfile: 'curve25519' },
+      { beaconSource: chain }
+    );
+    chain.advanceTo(encrypted.unlockTime);
+    return encrypted;
+  }
+
+  it('should provide the quicknet, mainnet and testnet presets', () => {
+    const registry = new ChainRegistry();
+
+    expect(registry.list().map((chain) => chain.name)).toEqual(['quicknet', 'mainnet', 'testnet']);
+    expect(registry.defaultChain).toBe(CHAIN_PRESETS.quicknet);
+    expect(registry.get(CHAIN_PRESETS.testnet.hash)).toBe(CHAIN_PRESETS.testnet);
+    expect(findPreset('mainnet')?.info?.period).toBe(30);
+    expect(CHAIN_PRESETS.quicknet.info.period).toBe(3);
+    expect(() => registry.get('devnet')).toThrow(EnvelopeError);
+  });
+
+  it('should register custom chains and validate them', async () => {
+    const chain = new LocalDrandChain();
+    const registry = new ChainRegistry({ chains: [] });
+    const config = await chainConfig('local', chain);
+
+    registry.register(config);
+    expect(registry.defaultChain).toBe(config);
+    expect(registry.get('local')).toBe(config);
+    expect(await registry.getInfo('local')).toEqual(chain.chainInfo);
+
+    const other = new LocalDrandChain().chainInfo;
+    expect(() => registry.register({ ...config, hash: other.hash })).toThrow(TypeError);
+    expect(() => registry.register({ ...config, name: 'x', hash: 'abc' })).toThrow(TypeError);
+    expect(() =>
+      registry.register({ ...config, name: 'x', publicKey: other.public_key })
+    ).toThrow(TypeError);
+  });
+
+  it('should decrypt envelopes for different chains in the same process', async () => {
+    const alpha = laggingChain();
+    const beta = laggingChain();
+    const registry = getChainRegistry();
+    registry.register(await chainConfig('alpha', alpha));
+    registry.register(await chainConfig('beta', beta));
+
+    const first = await encryptOn(alpha);
+    const second = await encryptOn(beta);
+    expect(first.chainHash).toBe(alpha.chainInfo.hash);
+    expect(second.chainHash).toBe(beta.chainInfo.hash);
+
+    expect(await hybridDecrypt(first, TEST_PASSWORD)).toBe(TEST_PLAINTEXT);
+    expect(await hybridDecrypt(second, TEST_PASSWORD)).toBe(TEST_PLAINTEXT);
+    expect(await getLockStatus(second)).toMatchObject({ chainHash: beta.chainInfo.hash });
+  });
+
+  it('should resolve unlock times against the chosen chain', async () => {
+    const slow = new LocalDrandChain({ period: 30 });
+    const registry = getChainRegistry();
+    registry.register(await chainConfig('slow', slow));
+
+    const before = Date.now();
+    const { roundNumber, unlockTime } = await resolveUnlockTime({ duration: 'min' }, { chain: 'slow' });
+    expect(roundNumber).toBeGreaterThanOrEqual(roundForTime(slow.chainInfo, before + 60_000));
+    expect(unlockTime.getTime()).toBe(roundTime(slow.chainInfo, roundNumber));
+  });
+
+  it('should refuse envelopes for an unregistered chain', async () => {
+    const encrypted = await encryptOn(laggingChain());
+
+    await expect(hybridDecrypt(encrypted, TEST_PASSWORD)).rejects.toThrow(EnvelopeError);
+    await expect(hybridDecrypt(encrypted, TEST_PASSWORD)).rejects.toThrow('Unknown drand chain');
+  });
+
+  it('should fail hard when the relays publish other chain parameters', async () => {
+    const chain = laggingChain();
+    const registry = new ChainRegistry({ chains: [], relayRetries: 0 });
+    registry.register({
+      ...(await chainConfig('wrong-period', chain)),
+      urls: [await relay(chain, { ...chain.chainInfo, period: 30 })],
+    });
+    registry.register({
+      ...(await chainConfig('impostor', chain)),
+      name: 'impostor',
+      hash: 'ab'.repeat(32),
+      info: undefined,
+    });
+
+    const error = await resolveUnlockTime(
+      { duration: 'min' },
+      { beaconSource: registry.getSource('wrong-period') }
+    ).catch((err) => err);
+    expect(error).toBeInstanceOf(EnvelopeError);
+    expect(error.message).toContain('period 30');
+
+    await expect(registry.getSource('impostor').latest()).rejects.toThrow(EnvelopeError);
+  });
+
+  it('should refuse to time-lock to a chained beacon', async () => {
+    const chain = new LocalDrandChain({ genesisTime: CHAIN_PRESETS.mainnet.info.genesis_time });
+    const mainnet = {
+      ...createBeaconSource(chain, Date.now),
+      chain: () => ({ baseUrl: 'offline://mainnet', info: async () => CHAIN_PRESETS.mainnet.info }),
+    };
+
+    await expect(
+      hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, duration: 'min', mode: 'symmetric' },
+        { beaconSource: mainnet }
+      )
+    ).rejects.toThrow(/pedersen-bls-chained scheme, which cannot be used for time-lock/);
+  });
+});
@@ -0,0 +1,294 @@
+import type { ChainInfo } from 'tlock-js';
+import {
+  MAINNET_CHAIN_INFO,
+  TESTNET_CHAIN_INFO,
+  TESTNET_CHAIN_URL,
+} from 'tlock-js/drand/defaults';
+import { RelayPool } from './relay-pool';
+import { EnvelopeError } from './errors';
+import { BeaconSource, BeaconStore } from '../types';
+
+/** Schemes whose signatures can open a tlock ciphertext */
+const TIMELOCK_SCHEMES = ['pedersen-bls-unchained', 'bls-unchained-on-g1', 'bls-unchained-g1-rfc9380'];
+
+/**
+ * A drand network known to the registry.
+ */
+export interface ChainConfig {
+  /** Short name to select the chain by, e.g. `quicknet` */
+  name: string;
+  hash: string;
+  publicKey: string;
+  /** Relay base URLs serving this chain, in order of preference */
+  urls: string[];
+  /**
+   * Full chain parameters, when known ahead of time. Relays must publish
+   * exactly these, and they allow offline use of the chain.
+   */
+  info?: ChainInfo;
+}
+
+const QUICKNET_HASH = MAINNET_CHAIN_INFO.hash;
+const MAINNET_HASH = '8990e7a9aaed2ffed73dbd7092123d6f289930540d7651336225dc172e51b2ce';
+
+/** Built-in chains: drand's quicknet and mainnet `default` beacons, and testnet */
+export const CHAIN_PRESETS = {
+  quicknet: {
+    name: 'quicknet',
+    hash: QUICKNET_HASH,
+    publicKey: MAINNET_CHAIN_INFO.public_key,
+    urls: [
+      `https://api.drand.sh/${QUICKNET_HASH}`,
+      `https://api2.drand.sh/${QUICKNET_HASH}`,
+      `https://drand.cloudflare.com/${QUICKNET_HASH}`,
+    ],
+    info: MAINNET_CHAIN_INFO,
+  },
+  mainnet: {
+    name: 'mainnet',
+    hash: MAINNET_HASH,
+    publicKey:
+      '868f005eb8e6e4ca0a47c8a77ceaa5309a47978a7c71bc5cce96366b5d7a569937c529eeda66c7293784a9402801af31',
+    urls: [
+      `https://api.drand.sh/${MAINNET_HASH}`,
+      `https://api2.drand.sh/${MAINNET_HASH}`,
+      `https://drand.cloudflare.com/${MAINNET_HASH}`,
+    ],
+    info: {
+      public_key:
+        '868f005eb8e6e4ca0a47c8a77ceaa5309a47978a7c71bc5cce96366b5d7a569937c529eeda66c7293784a9402801af31',
+      period: 30,
+      genesis_time: 1595431050,
+      hash: MAINNET_HASH,
+      groupHash: '176f93498eac9ca337150b46d21dd58673ea4e3581185f869672e59fa4cb390a',
+      schemeID: 'pedersen-bls-chained',
+      metadata: { beaconID: 'default' },
+    },
+  },
+  testnet: {
+    name: 'testnet',
+    hash: TESTNET_CHAIN_INFO.hash,
+    publicKey: TESTNET_CHAIN_INFO.public_key,
+    urls: [TESTNET_CHAIN_URL],
+    info: TESTNET_CHAIN_INFO,
+  },
+} satisfies Record<string, ChainConfig>;
+
+export type ChainPreset = keyof typeof CHAIN_PRESETS;
+
+/**
+ * The preset with this name or chain hash, if any.
+ */
+export function findPreset(nameOrHash: string): ChainConfig | undefined {
+  return Object.values(CHAIN_PRESETS).find(
+    (preset) => preset.name === nameOrHash || preset.hash === nameOrHash
+  );
+}
+
+/**
+ * Throw `EnvelopeError` unless tlock can encrypt to rounds of this chain.
+ * Chained beacons, such as mainnet's `default`, cannot be used.
+ */
+export function assertTimelockScheme(chainInfo: ChainInfo): void {
+  if (!TIMELOCK_SCHEMES.includes(chainInfo.schemeID)) {
+    throw new EnvelopeError(
+      `Chain ${chainInfo.hash} uses the ${chainInfo.schemeID} scheme, which cannot be used for time-lock encryption (use an unchained chain such as quicknet)`
+    );
+  }
+}
+
+export interface ChainRegistryOptions {
+  /** Chains to start with (default: all presets) */
+  chains?: ChainConfig[];
+  /** Per-request relay timeout in milliseconds */
+  relayTimeoutMs?: number;
+  /** Extra passes over a chain's relays after all of them failed */
+  relayRetries?: number;
+  /** Beacon store shared by all chains, such as the on-disk `BeaconCache` */
+  cache?: BeaconStore | null;
+}
+
+/**
+ * Known drand chains and a beacon source per chain, so that envelopes for
+ * different networks can be used side by side. Chains are looked up by name
+ * or by hash; envelopes are matched through their `chainHash`.
+ *
+ * A chain's relays are first contacted when its source is first used. Each
+ * relay's `/info` must match the configured hash and public key, and the
+ * full parameters if `info` is given. For a chain registered without
+ * `info`, the period, genesis time and scheme are taken from the first
+ * relay that answers, and every other relay must report the same; a chain
+ * with a single relay then relies on it for them. A chain none of whose
+ * relays match fails with `EnvelopeError`.
+ */
+export class ChainRegistry {
+  private readonly chains = new Map<string, ChainConfig>();
+  private readonly sources = new Map<string, BeaconSource>();
+  private readonly clients = new Map<string, RelayPool>();
+  private defaultHash: string | null = null;
+
+  constructor(private readonly options: ChainRegistryOptions = {}) {
+    for (const config of options.chains ?? Object.values(CHAIN_PRESETS)) {
+      this.register(config);
+    }
+  }
+
+  /**
+   * Add a chain, or replace the one with the same hash. The first chain
+   * registered becomes the default until `setDefault` is called.
+   */
+  register(config: ChainConfig): ChainConfig {
+    if (!/^[0-9a-f]{64}$/.test(config.hash)) {
+      throw new TypeError(`Invalid chain hash "${config.hash}" for chain "${config.name}"`);
+    }
+    if (!/^[0-9a-f]+$/.test(config.publicKey)) {
+      throw new TypeError(`Invalid public key for chain "${config.name}"`);
+    }
+    const named = this.list().find((chain) => chain.name === config.name);
+    if (named && named.hash !== config.hash) {
+      throw new TypeError(`A different chain is already registered as "${config.name}"`);
+    }
+    if (
+      config.info &&
+      (config.info.hash !== config.hash || config.info.public_key !== config.publicKey)
+    ) {
+      throw new TypeError(`Chain "${config.name}" info does not match its hash and public key`);
+    }
+
+    this.chains.set(config.hash, config);
+    this.sources.delete(config.hash);
+    this.clients.delete(config.hash);
+    this.defaultHash ??= config.hash;
+    return config;
+  }
+
+  /**
+   * The chain with this name or hash. Throws `EnvelopeError` for an unknown
+   * chain.
+   */
+  get(nameOrHash: string): ChainConfig {
+    const chain =
+      this.chains.get(nameOrHash) ?? this.list().find((config) => config.name === nameOrHash);
+    if (!chain) {
+      throw new EnvelopeError(
+        `Unknown drand chain "${nameOrHash}" (registered: ${this.list().map((c) => c.name).join(', ')})`
+      );
+    }
+    return chain;
+  }
+
+  has(nameOrHash: string): boolean {
+    return this.list().some((config) => config.hash === nameOrHash || config.name === nameOrHash);
+  }
+
+  list(): ChainConfig[] {
+    return [...this.chains.values()];
+  }
+
+  get defaultChain(): ChainConfig {
+    if (!this.defaultHash) {
+      throw new EnvelopeError('No drand chain is registered');
+    }
+    return this.get(this.defaultHash);
+  }
+
+  setDefault(nameOrHash: string): void {
+    this.defaultHash = this.get(nameOrHash).hash;
+  }
+
+  /**
+   * Parameters of a chain: the configured ones if known, otherwise those its
+   * relays publish (or the beacon cache holds).
+   */
+  async getInfo(nameOrHash: string): Promise<ChainInfo> {
+    const chain = this.get(nameOrHash);
+    return chain.info ?? this.getSource(chain.hash).chain().info();
+  }
+
+  /**
+   * Relay client of a chain (the default chain if none is given).
+   */
+  getClient(nameOrHash?: string): RelayPool {
+    const chain = nameOrHash === undefined ? this.defaultChain : this.get(nameOrHash);
+    let client = this.clients.get(chain.hash);
+    if (!client) {
+      client = new RelayPool({
+        urls: chain.urls,
+        chainHash: chain.hash,
+        publicKey: chain.publicKey,
+        chainInfo: chain.info,
+        timeoutMs: this.options.relayTimeoutMs,
+        retries: this.options.relayRetries,
+      });
+      this.clients.set(chain.hash, client);
+    }
+    return client;
+  }
+
+  /**
+   * Beacon source of a chain (the default chain if none is given): its
+   * relays and the system clock, behind the beacon cache if there is one.
+   */
+  getSource(nameOrHash?: string): BeaconSource {
+    const client = this.getClient(nameOrHash);
+    const hash = client.options.chainVerificationParams!.chainHash;
+    let source = this.sources.get(hash);
+    if (!source) {
+      source = {
+        options: client.options,
+        get: (roundNumber) => client.get(roundNumber),
+        latest: () => client.latest(),
+        chain: () => client.chain(),
+        now: Date.now,
+      };
+      if (this.options.cache) {
+        source = createCachingBeaconSource(source, this.options.cache);
+      }
+      this.sources.set(hash, source);
+    }
+    return source;
+  }
+}
+
+/**
+ * Wrap a beacon source so that verified beacons are stored in `cache` and
+ * served from it on later requests. Chain info is cached as well, so an
+ * envelope whose round is cached can be decrypted with no network access.
+ * `latest()` always goes to the source.
+ */
+export function createCachingBeaconSource(source: BeaconSource, cache: BeaconStore): BeaconSource {
+  let cachedInfo: ChainInfo | undefined;
+  const info = async (): Promise<ChainInfo> => {
+    if (cachedInfo) return cachedInfo;
+    const params = source.options.chainVerificationParams;
+    cachedInfo = params && (await cache.getChainInfo(params));
+    if (!cachedInfo) {
+      cachedInfo = await source.chain().info();
+      await cache.putChainInfo(cachedInfo).catch(() => undefined);
+    }
+    return cachedInfo;
+  };
+
+  return {
+    options: source.options,
+    get: async (roundNumber) => {
+      const chainInfo = await info();
+      const cached = await cache.get(chainInfo, roundNumber);
+      if (cached) return cached;
+
+      const beacon = await source.get(roundNumber);
+      if (beacon.round === roundNumber) {
+        await cache.put(chainInfo, beacon).catch(() => false);
+      }
+      return beacon;
+    },
+    latest: () => source.latest(),
+    chain: () => ({
+      get baseUrl() {
+        return source.chain().baseUrl;
+      },
+      info,
+    }),
+    now: () => source.now(),
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Dead Man's Switch Test Suite for HTLE Framework
+ *
+ * These tests validate check-in driven re-locking:
+ * - Arming a secret for recipients, time-locked to one interval
+ * - Check-ins with the owner's password pushing the release back
+ * - Release to the recipients once check-ins stop
+ * - The persisted state and its history of check-ins
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DeadManSwitch } from './dead-man-switch';
+import { hybridDecrypt } from './hybrid';
+import { LocalDrandChain } from './local-chain';
+import {
+  EnvelopeError,
+  InvalidPasswordError,
+  TimelockNotExpiredError,
+  WeakPasswordError,
+} from './errors';
+import { TEST_PASSWORD, WRONG_PASSWORD, TEST_PLAINTEXT } from '../test-utils';
+
+const RECIPIENT_PASSWORD = 'recipient-secure-password-789';
+
+describe("HTLE Dead Man's Switch", () => {
+  const kdf = { algorithm: 'scrypt', N: 2 ** 10 } as const;
+  const config = {
+    password: TEST_PASSWORD,
+    recipients: [{ label: 'executor', password: RECIPIENT_PASSWORD }],
+    interval: '1h',
+    kdf,
+  };
+
+  let dir: string;
+  let file: string;
+  let chain: LocalDrandChain;
+  let deadMan: DeadManSwitch;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'htle-switch-'));
+    file = path.join(dir, 'switch.json');
+    chain = new LocalDrandChain();
+    deadMan = new DeadManSwitch({ file, options: { beaconSource: chain } });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should lock the secret for the recipients until one interval has passed', async () => {
+    const armed = await deadMan.arm(TEST_PLAINTEXT, config);
+    const envelope = await deadMan.envelope();
+
+    expect(armed.unlockTime.getTime()).toBeGreaterThanOrEqual(chain.now() + 3_600_000);
+    expect(envelope).toMatchObject({ mode: 'multi', roundNumber: armed.roundNumber });
+    expect(await deadMan.status()).toMatchObject({ isUnlockable: false, intervalMs: 3_600_000 });
+    await expect(
+      hybridDecrypt(envelope, RECIPIENT_PASSWORD, { beaconSource: chain })
+    ).rejects.toThrow(TimelockNotExpiredError);
+    expect(fs.readFileSync(file, 'utf8')).not.toContain(TEST_PLAINTEXT);
+  });
+
+  it('should push the release back on every check-in', async () => {
+    const armed = await deadMan.arm(TEST_PLAINTEXT, config);
+
+    chain.advanceTo(armed.unlockTime.getTime() - 600_000);
+    const checkIn = await deadMan.checkIn(TEST_PASSWORD);
+    const status = await deadMan.status();
+
+    expect(checkIn.roundNumber).toBeGreaterThan(armed.roundNumber);
+    expect(checkIn.unlockTime.getTime()).toBeGreaterThanOrEqual(chain.now() + 3_600_000);
+    expect(status).toMatchObject({ roundNumber: checkIn.roundNumber, lastCheckIn: checkIn.at });
+    expect(checkIn.at.getTime()).toBe(chain.now());
+    expect(armed.at.getTime()).toBeLessThan(checkIn.at.getTime() - 3_000_000);
+    expect(await deadMan.history()).toEqual([checkIn]);
+
+    chain.advanceTo(armed.unlockTime);
+    const envelope = await deadMan.envelope();
+    await expect(
+      hybridDecrypt(envelope, RECIPIENT_PASSWORD, { beaconSource: chain })
+    ).rejects.toThrow(TimelockNotExpiredError);
+  });
+
+  it('should reject check-ins with a wrong password', async () => {
+    const armed = await deadMan.arm(TEST_PLAINTEXT, config);
+
+    await expect(deadMan.checkIn(WRONG_PASSWORD)).rejects.toThrow(InvalidPasswordError);
+    expect(await deadMan.history()).toEqual([]);
+    expect((await deadMan.envelope()).roundNumber).toBe(armed.roundNumber);
+  });
+
+  it('should release the last envelope once check-ins stop', async () => {
+    await deadMan.arm(TEST_PLAINTEXT, config);
+    const { unlockTime } = await deadMan.checkIn(TEST_PASSWORD);
+
+    chain.advanceTo(unlockTime);
+    expect(await deadMan.status()).toMatchObject({ isUnlockable: true });
+    expect(
+      await hybridDecrypt(await deadMan.envelope(), RECIPIENT_PASSWORD, { beaconSource: chain })
+    ).toBe(TEST_PLAINTEXT);
+    await expect(deadMan.checkIn(TEST_PASSWORD)).rejects.toThrow(RangeError);
+  });
+
+  it('should keep its state in one file and disarm with the password', async () => {
+    await expect(deadMan.status()).rejects.toThrow('is not armed');
+    await deadMan.arm(TEST_PLAINTEXT, config);
+    await expect(deadMan.arm(TEST_PLAINTEXT, config)).rejects.toThrow(EnvelopeError);
+
+    const reloaded = new DeadManSwitch({ file, options: { beaconSource: chain } });
+    await reloaded.checkIn(TEST_PASSWORD);
+    expect(await deadMan.history()).toHaveLength(1);
+
+    await expect(deadMan.disarm(WRONG_PASSWORD)).rejects.toThrow(InvalidPasswordError);
+    await deadMan.disarm(TEST_PASSWORD);
+    expect(fs.existsSync(file)).toBe(false);
+
+    fs.writeFileSync(file, '{"version":1}');
+    await expect(deadMan.envelope()).rejects.toThrow(`Invalid dead man's switch ${file}`);
+  });
+
+  it('should check passwords against the policy', async () => {
+    const strict = new DeadManSwitch({
+      file,
+      options: { beaconSource: chain, passwordPolicy: { minLength: 30 } },
+    });
+
+    await expect(strict.arm(TEST_PLAINTEXT, config)).rejects.toThrow(WeakPasswordError);
+    expect(fs.existsSync(file)).toBe(false);
+  });
+});
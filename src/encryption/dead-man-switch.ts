@@ -0,0 +1,338 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { concatBytes, randomBytes } from '@noble/hashes/utils';
+import { Buffer } from 'tlock-js';
+import { lockSecret, withTag } from './hybrid';
+import { getLockStatus } from './status';
+import { getChainInfo, resolveBeaconSource } from './timelock';
+import { createKeySlots } from './key-slots';
+import { KEY_LENGTH, encryptPayload, unwrapDataKey, wrapKey } from './symmetric';
+import { resolveEscrowKey } from './escrow';
+import { parseDuration, resolveUnlock } from './unlock';
+import { assertPassword } from './password-policy';
+import { formatIssues, kdfSchema, normalizeEnvelope, serializeEnvelope } from './envelope';
+import { EnvelopeError } from './errors';
+import {
+  DurationString,
+  EncryptedData,
+  HybridOptions,
+  KdfConfig,
+  KeySlot,
+  LockStatus,
+  MultiRecipientEncryptedData,
+  Recipient,
+} from '../types';
+
+const checkInSchema = z.object({
+  at: z.iso.datetime(),
+  roundNumber: z.number().int().positive(),
+  unlockTime: z.iso.datetime(),
+});
+
+const stateSchema = z.object({
+  version: z.literal(1),
+  intervalMs: z.number().int().positive(),
+  armed: z.iso.datetime(),
+  owner: z.object({
+    kdf: kdfSchema,
+    salt: z.string().regex(/^([0-9a-f]{2}){16,64}$/, 'must be 16 to 64 hex-encoded bytes'),
+    wrappedSecret: z.string().min(1),
+  }),
+  envelope: z.unknown(),
+  history: z.array(checkInSchema),
+});
+
+type StoredState = z.infer<typeof stateSchema>;
+
+interface State extends Omit<StoredState, 'envelope'> {
+  envelope: MultiRecipientEncryptedData;
+}
+
+export interface DeadManSwitchOptions {
+  /** File holding the switch's state; created by `arm` */
+  file: string;
+  /**
+   * Options of every encryption and status check, such as `beaconSource`,
+   * `chains` or `passwordPolicy`
+   */
+  options?: HybridOptions;
+}
+
+export interface DeadManSwitchConfig {
+  /** The owner's password, needed for every check-in */
+  password: string;
+  /** Who can open the secret once check-ins stop; any one of them can */
+  recipients: Recipient[];
+  /** Time from arming and from each check-in until release, such as `7d` */
+  interval: DurationString;
+  /** KDF of the owner's and the password recipients' key wrapping (default: `scrypt`) */
+  kdf?: KdfConfig;
+}
+
+/** A successful check-in and the round it re-locked the secret to */
+export interface CheckIn {
+  at: Date;
+  roundNumber: number;
+  unlockTime: Date;
+}
+
+export interface DeadManSwitchStatus extends LockStatus {
+  intervalMs: number;
+  armed: Date;
+  /** Time of the last check-in, or of arming if there was none */
+  lastCheckIn: Date;
+}
+
+/**
+ * A secret that is released to its recipients unless the owner keeps
+ * checking in. The secret is held in a multi-recipient envelope
+ * time-locked to one interval after arming; each check-in with the
+ * owner's password time-locks it again, one interval after the check-in.
+ * Once check-ins stop, the last envelope opens for the recipients with
+ * `hybridDecrypt` or `decryptWithKey`.
+ *
+ * The state file keeps the current envelope, a copy of its data key and key
+ * slots wrapped with a key derived from the owner's password, and the
+ * history of check-ins. Copies of earlier envelopes still open at their own,
+ * earlier rounds, so hand out `envelope()` only where each check-in
+ * replaces it.
+ */
+export class DeadManSwitch {
+  readonly file: string;
+  readonly options: HybridOptions;
+
+  constructor(options: DeadManSwitchOptions) {
+    this.file = options.file;
+    this.options = options.options ?? {};
+  }
+
+  /**
+   * Encrypt `data` for `config.recipients`, time-locked to one interval
+   * from now, and create the state file. Throws `EnvelopeError` if the
+   * switch is already armed, `WeakPasswordError` for a password that does
+   * not meet the policy, and fails otherwise as `hybridEncrypt`.
+   */
+  async arm(data: string | Uint8Array, config: DeadManSwitchConfig): Promise<CheckIn> {
+    const intervalMs = parseDuration(config.interval);
+    assertPassword(config.password, this.options.passwordPolicy, 'Owner password');
+    const recipients = Array.isArray(config.recipients) ? config.recipients : [];
+    for (const [i, recipient] of recipients.entries()) {
+      if ('password' in recipient) {
+        const subject = `Password of recipient ${i + 1}`;
+        assertPassword(recipient.password, this.options.passwordPolicy, subject);
+      }
+    }
+    const exists = await fs.promises.access(this.file).then(() => true, () => false);
+    if (exists) {
+      throw new EnvelopeError(`Dead man's switch ${this.file} is already armed`);
+    }
+
+    const dataKey = randomBytes(KEY_LENGTH);
+    const { slots, secret } = await createKeySlots(dataKey, config.recipients, config.kdf);
+    const envelope = await this.lock(
+      { slots, encryptedData: await encryptPayload(dataKey, data) },
+      dataKey,
+      secret,
+      intervalMs,
+      this.options.chain
+    );
+    const { kdf, salt, wrappedKey } = await wrapKey(
+      concatBytes(dataKey, secret),
+      config.password,
+      config.kdf
+    );
+
+    const armed = new Date(resolveBeaconSource(this.options, envelope.chainHash).now());
+    await this.write({
+      version: 1,
+      intervalMs,
+      armed: armed.toISOString(),
+      owner: { kdf, salt, wrappedSecret: Buffer.from(wrappedKey).toString('base64') },
+      envelope,
+      history: [],
+    });
+    return toCheckIn(armed, envelope);
+  }
+
+  /**
+   * Time-lock the secret again, one interval from now, and record the
+   * check-in. Throws `InvalidPasswordError` for a wrong password and
+   * `RangeError` once the current envelope's release time has passed, as
+   * its recipients may already have opened it; `arm` the switch again
+   * instead.
+   */
+  async checkIn(password: string): Promise<CheckIn> {
+    const state = await this.read();
+    const { envelope } = state;
+    const source = resolveBeaconSource(this.options, envelope.chainHash);
+    if (envelope.unlockTime.getTime() <= source.now()) {
+      throw new RangeError(
+        `Dead man's switch was released at ${envelope.unlockTime.toISOString()}; arm it again`
+      );
+    }
+
+    const opened = await this.openOwnerSecret(state, password);
+    const relocked = await this.lock(
+      envelope,
+      opened.subarray(0, KEY_LENGTH),
+      opened.subarray(KEY_LENGTH),
+      state.intervalMs,
+      envelope.chainHash
+    );
+    const checkIn = toCheckIn(new Date(source.now()), relocked);
+
+    await this.write({
+      ...state,
+      envelope: relocked,
+      history: [
+        ...state.history,
+        {
+          at: checkIn.at.toISOString(),
+          roundNumber: checkIn.roundNumber,
+          unlockTime: checkIn.unlockTime.toISOString(),
+        },
+      ],
+    });
+    return checkIn;
+  }
+
+  /**
+   * Whether the current envelope has been released, as `getLockStatus`
+   * reports it, with the interval and the time of the last check-in.
+   */
+  async status(): Promise<DeadManSwitchStatus> {
+    const state = await this.read();
+    const lockStatus = await getLockStatus(state.envelope, this.options);
+    const last = state.history[state.history.length - 1];
+    return {
+      ...lockStatus,
+      intervalMs: state.intervalMs,
+      armed: new Date(state.armed),
+      lastCheckIn: new Date(last?.at ?? state.armed),
+    };
+  }
+
+  /** The current envelope, which the recipients open once it is released */
+  async envelope(): Promise<MultiRecipientEncryptedData> {
+    return (await this.read()).envelope;
+  }
+
+  /** Every check-in since arming, oldest first */
+  async history(): Promise<CheckIn[]> {
+    return (await this.read()).history.map((entry) => ({
+      at: new Date(entry.at),
+      roundNumber: entry.roundNumber,
+      unlockTime: new Date(entry.unlockTime),
+    }));
+  }
+
+  /**
+   * Remove the state file, after checking the owner's password. Copies of
+   * the envelope handed out earlier still open at their round.
+   */
+  async disarm(password: string): Promise<void> {
+    await this.openOwnerSecret(await this.read(), password);
+    await fs.promises.rm(this.file);
+  }
+
+  /** The data key followed by the key slots' secret; checks the password */
+  private async openOwnerSecret(state: State, password: string): Promise<Uint8Array> {
+    const { kdf, salt, wrappedSecret } = state.owner;
+    return unwrapDataKey(Buffer.from(wrappedSecret, 'base64'), password, kdf, salt);
+  }
+
+  /**
+   * Time-lock the key slots' `secret` to one interval from now on `chain`
+   * and build the envelope, with an escrow slot as `hybridEncrypt` would
+   * add one.
+   */
+  private async lock(
+    fields: { slots: KeySlot[]; encryptedData: string },
+    dataKey: Uint8Array,
+    secret: Uint8Array,
+    intervalMs: number,
+    chain?: string
+  ): Promise<MultiRecipientEncryptedData> {
+    const escrowKey = await resolveEscrowKey(this.options);
+    const source = resolveBeaconSource(this.options, chain);
+    const chainInfo = await getChainInfo(source);
+    const unlock = resolveUnlock(
+      { durationMs: intervalMs },
+      chainInfo,
+      source.now(),
+      this.options.maxHorizonMs
+    );
+    const { header, timelocked } = await lockSecret(
+      secret,
+      unlock,
+      source,
+      chainInfo,
+      escrowKey && { key: escrowKey, payloadKey: { dataKey } }
+    );
+
+    return withTag(
+      {
+        ...header,
+        mode: 'multi',
+        slots: fields.slots,
+        encryptedData: fields.encryptedData,
+        timelockedKey: timelocked,
+      },
+      secret
+    );
+  }
+
+  /** The state, or `EnvelopeError` if the switch is not armed or its file is invalid */
+  private async read(): Promise<State> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.file, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new EnvelopeError(`Dead man's switch ${this.file} is not armed`, err);
+      }
+      throw err;
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      throw new EnvelopeError(`Invalid dead man's switch ${this.file}: not valid JSON`);
+    }
+    const parsed = stateSchema.safeParse(value);
+    if (!parsed.success) {
+      throw new EnvelopeError(
+        `Invalid dead man's switch ${this.file}: ${formatIssues(parsed.error)}`
+      );
+    }
+    let envelope: EncryptedData;
+    try {
+      envelope = normalizeEnvelope(JSON.stringify(parsed.data.envelope));
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new EnvelopeError(`Invalid dead man's switch ${this.file}: ${reason}`, err);
+    }
+    if (envelope.mode !== 'multi') {
+      throw new EnvelopeError(
+        `Invalid dead man's switch ${this.file}: not a multi-recipient envelope`
+      );
+    }
+    return { ...parsed.data, envelope };
+  }
+
+  /** Write via a temporary file so readers never see a partial state */
+  private async write(state: State): Promise<void> {
+    const envelope = JSON.parse(serializeEnvelope(state.envelope));
+    const stored: StoredState = { ...state, envelope };
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    const temp = `${this.file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(temp, `${JSON.stringify(stored, null, 2)}\n`);
+    await fs.promises.rename(temp, this.file);
+  }
+}
+
+function toCheckIn(at: Date, envelope: MultiRecipientEncryptedData): CheckIn {
+  return { at, roundNumber: envelope.roundNumber, unlockTime: envelope.unlockTime };
+}
@@ -0,0 +1,384 @@
+/**
+ * Envelope Format Test Suite for HTLE Framework
+ *
+ * These tests validate the versioned envelope encoding:
+ * - JSON and ASCII-armored round trips preserve every field
+ * - Older versions parse without a metadata tag; version 3 requires one
+ * - Stream headers, which carry no payload, are only valid from version 4
+ * - Trustee-shared envelopes are only valid from version 5, multi-recipient
+ *   envelopes from version 6, escrow slots from version 7, the S2K of
+ *   OpenPGP envelopes from version 8, staged envelopes from version 9
+ * - Unknown versions and malformed input are rejected with clear errors
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ENVELOPE_VERSION,
+  serializeEnvelope,
+  parseEnvelope,
+  normalizeEnvelope,
+} from './envelope';
+import { EnvelopeError } from './errors';
+import {
+  EscrowSlot,
+  MultiRecipientEncryptedData,
+  PgpEncryptedData,
+  SharedEncryptedData,
+  StagedEncryptedData,
+  StreamEncryptedData,
+  SymmetricEncryptedData,
+} from '../types';
+
+const SAMPLE_ENVELOPE: PgpEncryptedData = {
+  version: ENVELOPE_VERSION,
+  chainHash: '52db9ba70e0cc0f6eaf7803dd07447a1f5477735fd3f661792ba94600c84e971',
+  scheme: 'bls-unchained-g1-rfc9380',
+  mode: 'pgp',
+  keyAlgorithm: 'rsa-2048',
+  publicKey: '-----BEGIN PGP PUBLIC KEY BLOCK-----\n...\n-----END PGP PUBLIC KEY BLOCK-----',
+  encryptedData: '-----BEGIN PGP MESSAGE-----\n...\n-----END PGP MESSAGE-----',
+  timelockedPrivateKey: '-----BEGIN AGE ENCRYPTED FILE-----\n...\n-----END AGE ENCRYPTED FILE-----',
+  unlockTime: new Date('2027-01-01T09:00:00.000Z'),
+  roundNumber: 12345678,
+  tag: 'cd'.repeat(32),
+};
+
+const SYMMETRIC_ENVELOPE: SymmetricEncryptedData = {
+  version: ENVELOPE_VERSION,
+  chainHash: SAMPLE_ENVELOPE.chainHash,
+  scheme: SAMPLE_ENVELOPE.scheme,
+  mode: 'symmetric',
+  kdf: { algorithm: 'argon2id', memoryKiB: 19456, iterations: 2, parallelism: 1 },
+  salt: 'ab'.repeat(32),
+  encryptedData: 'AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=',
+  timelockedKey: '-----BEGIN AGE ENCRYPTED FILE-----\n...\n-----END AGE ENCRYPTED FILE-----',
+  unlockTime: SAMPLE_ENVELOPE.unlockTime,
+  roundNumber: SAMPLE_ENVELOPE.roundNumber,
+  tag: SAMPLE_ENVELOPE.tag,
+};
+
+const STREAM_ENVELOPE: StreamEncryptedData = {
+  version: ENVELOPE_VERSION,
+  chainHash: SAMPLE_ENVELOPE.chainHash,
+  scheme: SAMPLE_ENVELOPE.scheme,
+  mode: 'stream',
+  kdf: { algorithm: 'scrypt', N: 2 ** 17, r: 8, p: 1 },
+  salt: 'ab'.repeat(32),
+  chunkSize: 65536,
+  timelockedKey: SYMMETRIC_ENVELOPE.timelockedKey,
+  unlockTime: SAMPLE_ENVELOPE.unlockTime,
+  roundNumber: SAMPLE_ENVELOPE.roundNumber,
+  tag: SAMPLE_ENVELOPE.tag,
+};
+
+const SHARED_ENVELOPE: SharedEncryptedData = {
+  version: ENVELOPE_VERSION,
+  chainHash: SAMPLE_ENVELOPE.chainHash,
+  scheme: SAMPLE_ENVELOPE.scheme,
+  mode: 'shared',
+  threshold: 2,
+  trustees: ['alice', 'bob', 'carol'],
+  kdf: { algorithm: 'scrypt', N: 2 ** 17, r: 8, p: 1 },
+  encryptedData: SYMMETRIC_ENVELOPE.encryptedData,
+  timelockedKey: SYMMETRIC_ENVELOPE.timelockedKey,
+  unlockTime: SAMPLE_ENVELOPE.unlockTime,
+  roundNumber: SAMPLE_ENVELOPE.roundNumber,
+  tag: SAMPLE_ENVELOPE.tag,
+};
+
+const MULTI_ENVELOPE: MultiRecipientEncryptedData = {
+  version: ENVELOPE_VERSION,
+  chainHash: SAMPLE_ENVELOPE.chainHash,
+  scheme: SAMPLE_ENVELOPE.scheme,
+  mode: 'multi',
+  slots: [
+    { type: 'password', label: 'alice', kdf: SHARED_ENVELOPE.kdf, salt: 'ab'.repeat(32) },
+    { type: 'publicKey', fingerprint: 'ef'.repeat(20) },
+  ],
+  encryptedData: SYMMETRIC_ENVELOPE.encryptedData,
+  timelockedKey: SYMMETRIC_ENVELOPE.timelockedKey,
+  unlockTime: SAMPLE_ENVELOPE.unlockTime,
+  roundNumber: SAMPLE_ENVELOPE.roundNumber,
+  tag: SAMPLE_ENVELOPE.tag,
+};
+
+const STAGED_ENVELOPE: StagedEncryptedData = {
+  version: ENVELOPE_VERSION,
+  chainHash: SAMPLE_ENVELOPE.chainHash,
+  scheme: SAMPLE_ENVELOPE.scheme,
+  mode: 'staged',
+  kdf: SHARED_ENVELOPE.kdf,
+  salt: 'ab'.repeat(32),
+  stages: [
+    {
+      label: 'abstract',
+      roundNumber: SAMPLE_ENVELOPE.roundNumber,
+      unlockTime: SAMPLE_ENVELOPE.unlockTime,
+      encryptedData: SYMMETRIC_ENVELOPE.encryptedData,
+      timelockedKey: SYMMETRIC_ENVELOPE.timelockedKey,
+    },
+    {
+      roundNumber: SAMPLE_ENVELOPE.roundNumber + 1000,
+      unlockTime: new Date(SAMPLE_ENVELOPE.unlockTime.getTime() + 3_000_000),
+      encryptedData: SYMMETRIC_ENVELOPE.encryptedData,
+      timelockedKey: SYMMETRIC_ENVELOPE.timelockedKey,
+    },
+  ],
+  unlockTime: SAMPLE_ENVELOPE.unlockTime,
+  roundNumber: SAMPLE_ENVELOPE.roundNumber,
+  tag: SAMPLE_ENVELOPE.tag,
+};
+
+const ESCROW: EscrowSlot = {
+  fingerprint: 'ab'.repeat(20),
+  timelockedKey: SAMPLE_ENVELOPE.timelockedPrivateKey,
+};
+
+describe('HTLE Envelope Format', () => {
+  describe('Round Trip', () => {
+    it('should round-trip through JSON and restore unlockTime as a Date', () => {
+      const json = serializeEnvelope(SAMPLE_ENVELOPE);
+      const parsed = parseEnvelope(json);
+
+      expect(JSON.parse(json).unlockTime).toBe('2027-01-01T09:00:00.000Z');
+      expect(parsed.unlockTime).toBeInstanceOf(Date);
+      expect(parsed).toEqual(SAMPLE_ENVELOPE);
+    });
+
+    it('should round-trip through a single armored block', () => {
+      const armored = serializeEnvelope(SAMPLE_ENVELOPE, 'armor');
+
+      expect(armored.startsWith('-----BEGIN HTLE ENVELOPE-----\n')).toBe(true);
+      expect(armored.trimEnd().endsWith('-----END HTLE ENVELOPE-----')).toBe(true);
+      expect(armored.split('\n').every((line) => line.length <= 64)).toBe(true);
+      expect(parseEnvelope(armored)).toEqual(SAMPLE_ENVELOPE);
+    });
+
+    it('should round-trip a symmetric envelope', () => {
+      expect(parseEnvelope(serializeEnvelope(SYMMETRIC_ENVELOPE))).toEqual(SYMMETRIC_ENVELOPE);
+      expect(parseEnvelope(serializeEnvelope(SYMMETRIC_ENVELOPE, 'armor'))).toEqual(
+        SYMMETRIC_ENVELOPE
+      );
+    });
+
+    it('should round-trip a stream header', () => {
+      expect(parseEnvelope(serializeEnvelope(STREAM_ENVELOPE))).toEqual(STREAM_ENVELOPE);
+    });
+
+    it('should round-trip a shared envelope', () => {
+      expect(parseEnvelope(serializeEnvelope(SHARED_ENVELOPE, 'armor'))).toEqual(SHARED_ENVELOPE);
+    });
+
+    it('should round-trip a multi-recipient envelope', () => {
+      expect(parseEnvelope(serializeEnvelope(MULTI_ENVELOPE))).toEqual(MULTI_ENVELOPE);
+    });
+
+    it('should round-trip escrow slots', () => {
+      for (const envelope of [SAMPLE_ENVELOPE, SYMMETRIC_ENVELOPE, MULTI_ENVELOPE]) {
+        const escrowed = { ...envelope, escrow: ESCROW };
+        expect(parseEnvelope(serializeEnvelope(escrowed))).toEqual(escrowed);
+      }
+      expect(JSON.parse(serializeEnvelope(SAMPLE_ENVELOPE))).not.toHaveProperty('escrow');
+    });
+
+    it('should round-trip the S2K of an OpenPGP envelope', () => {
+      for (const s2k of [
+        { type: 'iterated', countByte: 224 },
+        { type: 'argon2', passes: 3, parallelism: 4, memoryExponent: 16 },
+      ] as const) {
+        const envelope = { ...SAMPLE_ENVELOPE, s2k };
+        expect(parseEnvelope(serializeEnvelope(envelope, 'armor'))).toEqual(envelope);
+      }
+    });
+
+    it('should round-trip a staged envelope', () => {
+      expect(parseEnvelope(serializeEnvelope(STAGED_ENVELOPE, 'armor'))).toEqual(STAGED_ENVELOPE);
+      expect(JSON.parse(serializeEnvelope(STAGED_ENVELOPE)).stages[1]).not.toHaveProperty('label');
+    });
+
+    it('should keep version 8 envelopes readable', () => {
+      const v8 = { ...SAMPLE_ENVELOPE, version: 8, s2k: { type: 'iterated', countByte: 224 } };
+      expect(parseEnvelope(serializeEnvelope(v8))).toEqual(v8);
+    });
+
+    it('should keep version 7 escrowed envelopes readable', () => {
+      const v7 = { ...SYMMETRIC_ENVELOPE, version: 7, escrow: ESCROW };
+      expect(parseEnvelope(serializeEnvelope(v7))).toEqual(v7);
+    });
+
+    it('should keep version 6 multi-recipient envelopes readable', () => {
+      const v6 = { ...MULTI_ENVELOPE, version: 6 };
+      expect(parseEnvelope(serializeEnvelope(v6))).toEqual(v6);
+    });
+
+    it('should keep version 5 shared envelopes readable', () => {
+      const v5 = { ...SHARED_ENVELOPE, version: 5 };
+
+      expect(parseEnvelope(serializeEnvelope(v5))).toEqual(v5);
+    });
+
+    it('should keep version 4 stream headers readable', () => {
+      const v4 = { ...STREAM_ENVELOPE, version: 4 };
+
+      expect(parseEnvelope(serializeEnvelope(v4))).toEqual(v4);
+    });
+
+    it('should keep version 3 envelopes readable', () => {
+      const v3 = { ...SYMMETRIC_ENVELOPE, version: 3 };
+
+      expect(parseEnvelope(serializeEnvelope(v3))).toEqual(v3);
+    });
+
+    it('should upgrade version 1 envelopes to untagged OpenPGP envelopes', () => {
+      const { mode: _mode, tag: _tag, ...fields } = JSON.parse(serializeEnvelope(SAMPLE_ENVELOPE));
+      const legacy = JSON.stringify({ ...fields, version: 1 });
+      const { tag: _sampleTag, ...untagged } = SAMPLE_ENVELOPE;
+
+      expect(parseEnvelope(legacy)).toEqual({ ...untagged, version: 2 });
+    });
+
+    it('should keep version 2 envelopes untagged', () => {
+      const { tag: _tag, ...untagged } = { ...SYMMETRIC_ENVELOPE, version: 2 };
+
+      expect(parseEnvelope(serializeEnvelope(untagged))).toEqual(untagged);
+    });
+
+    it('should accept both objects and strings in normalizeEnvelope', () => {
+      expect(normalizeEnvelope(SAMPLE_ENVELOPE)).toEqual(SAMPLE_ENVELOPE);
+      expect(normalizeEnvelope(serializeEnvelope(SAMPLE_ENVELOPE, 'armor'))).toEqual(
+        SAMPLE_ENVELOPE
+      );
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject unknown versions', () => {
+      const json = JSON.stringify({ ...JSON.parse(serializeEnvelope(SAMPLE_ENVELOPE)), version: 99 });
+
+      expect(() => parseEnvelope(json)).toThrow(EnvelopeError);
+      expect(() => parseEnvelope(json)).toThrow('Unsupported envelope version 99');
+      expect(() => normalizeEnvelope({ ...SAMPLE_ENVELOPE, version: 10 })).toThrow(
+        'Unsupported envelope version 10'
+      );
+    });
+
+    it('should reject malformed input', () => {
+      expect(() => parseEnvelope('not an envelope')).toThrow(EnvelopeError);
+      expect(() => parseEnvelope('{"roundNumber": 1}')).toThrow('missing or non-integer version');
+      expect(() =>
+        parseEnvelope('-----BEGIN HTLE ENVELOPE-----\n!!!!\n-----END HTLE ENVELOPE-----')
+      ).toThrow('not valid base64');
+      expect(() => parseEnvelope('-----BEGIN HTLE ENVELOPE-----\nAAAA')).toThrow(
+        'missing "-----END HTLE ENVELOPE-----"'
+      );
+    });
+
+    it('should require a tag from version 3 on', () => {
+      const { tag: _tag, ...untagged } = SAMPLE_ENVELOPE;
+
+      expect(() => normalizeEnvelope(untagged)).toThrow(/tag/);
+      expect(() => normalizeEnvelope({ ...SAMPLE_ENVELOPE, tag: 'abc' })).toThrow(/tag/);
+    });
+
+    it('should name the offending field', () => {
+      const json = JSON.stringify({
+        ...JSON.parse(serializeEnvelope(SAMPLE_ENVELOPE)),
+        roundNumber: -1,
+        chainHash: 'xyz',
+      });
+
+      expect(() => parseEnvelope(json)).toThrow(/roundNumber/);
+      expect(() => parseEnvelope(json)).toThrow(/chainHash/);
+    });
+
+    it('should reject unknown modes and out-of-range KDF costs', () => {
+      const json = JSON.parse(serializeEnvelope(SYMMETRIC_ENVELOPE));
+
+      expect(() => parseEnvelope(JSON.stringify({ ...json, mode: 'xor' }))).toThrow(/mode/);
+      expect(() =>
+        parseEnvelope(
+          JSON.stringify({ ...json, kdf: { ...json.kdf, memoryKiB: 64 * 1024 * 1024 } })
+        )
+      ).toThrow(/kdf\.memoryKiB/);
+      expect(() =>
+        parseEnvelope(
+          JSON.stringify({ ...json, kdf: { algorithm: 'scrypt', N: 3000, r: 8, p: 1 } })
+        )
+      ).toThrow(/power of two/);
+    });
+
+    it('should accept stream headers only from version 4 on', () => {
+      expect(() => normalizeEnvelope({ ...STREAM_ENVELOPE, version: 3 })).toThrow(/mode/);
+      expect(() => normalizeEnvelope({ ...STREAM_ENVELOPE, chunkSize: 2 ** 30 })).toThrow(
+        /chunkSize/
+      );
+    });
+
+    it('should accept shared envelopes only from version 5 on', () => {
+      expect(() => normalizeEnvelope({ ...SHARED_ENVELOPE, version: 4 })).toThrow(/mode/);
+      expect(() => normalizeEnvelope({ ...SHARED_ENVELOPE, threshold: 4 })).toThrow(
+        /threshold.*must not exceed the number of trustees/
+      );
+      expect(() =>
+        normalizeEnvelope({ ...SHARED_ENVELOPE, trustees: ['alice', 'alice', 'bob'] })
+      ).toThrow(/trustees.*must be unique/);
+    });
+
+    it('should accept multi-recipient envelopes only from version 6 on', () => {
+      expect(() => normalizeEnvelope({ ...MULTI_ENVELOPE, version: 5 })).toThrow(/mode/);
+      expect(() => normalizeEnvelope({ ...MULTI_ENVELOPE, slots: [] })).toThrow(/slots/);
+      expect(() =>
+        normalizeEnvelope({
+          ...MULTI_ENVELOPE,
+          slots: [{ type: 'publicKey', fingerprint: 'not hex' }],
+        })
+      ).toThrow(/slots\.0\.fingerprint/);
+    });
+
+    it('should read escrow slots only from version 7 on', () => {
+      // Like other unknown fields, the slot is dropped; the tag then no longer verifies
+      const v6 = normalizeEnvelope({ ...MULTI_ENVELOPE, version: 6, escrow: ESCROW });
+      const stream = normalizeEnvelope({ ...STREAM_ENVELOPE, escrow: ESCROW });
+
+      expect(v6).not.toHaveProperty('escrow');
+      expect(stream).not.toHaveProperty('escrow');
+      expect(() =>
+        normalizeEnvelope({ ...SAMPLE_ENVELOPE, escrow: { ...ESCROW, fingerprint: 'nope' } })
+      ).toThrow(/escrow\.fingerprint/);
+    });
+
+    it('should read the S2K only from version 8 on, within its limits', () => {
+      const s2k = { type: 'argon2', passes: 3, parallelism: 4, memoryExponent: 16 } as const;
+
+      expect(normalizeEnvelope({ ...SAMPLE_ENVELOPE, version: 7, s2k })).not.toHaveProperty('s2k');
+      expect(() =>
+        normalizeEnvelope({ ...SAMPLE_ENVELOPE, s2k: { ...s2k, memoryExponent: 30 } })
+      ).toThrow(/s2k\.memoryExponent/);
+      expect(() =>
+        normalizeEnvelope({ ...SAMPLE_ENVELOPE, s2k: { type: 'iterated', countByte: 256 } })
+      ).toThrow(/s2k\.countByte/);
+    });
+
+    it('should accept staged envelopes only from version 9 on, in round order', () => {
+      const [first, second] = STAGED_ENVELOPE.stages;
+
+      expect(() => normalizeEnvelope({ ...STAGED_ENVELOPE, version: 8 })).toThrow(/mode/);
+      expect(() => normalizeEnvelope({ ...STAGED_ENVELOPE, stages: [] })).toThrow(/stages/);
+      expect(() =>
+        normalizeEnvelope({ ...STAGED_ENVELOPE, stages: [first, { ...first, roundNumber: 1 }] })
+      ).toThrow(/stages: must be in round order/);
+      expect(() => normalizeEnvelope({ ...STAGED_ENVELOPE, stages: [second, second] })).toThrow(
+        /roundNumber: must be the round of the first stage/
+      );
+      expect(() =>
+        serializeEnvelope({ ...STAGED_ENVELOPE, stages: [{ ...first, unlockTime: new Date(NaN) }] })
+      ).toThrow('stages.0.unlockTime must be a valid Date');
+    });
+
+    it('should reject an invalid unlockTime', () => {
+      expect(() => serializeEnvelope({ ...SAMPLE_ENVELOPE, unlockTime: new Date(NaN) })).toThrow(
+        'unlockTime must be a valid Date'
+      );
+    });
+  });
+});
@@ -0,0 +1,536 @@
+import { z } from 'zod';
+import { Buffer, type ChainInfo } from 'tlock-js';
+import { EncryptedData, EnvelopeFormat } from '../types';
+import { EnvelopeError } from './errors';
+import { CHUNK_SIZE_LIMITS, KDF_LIMITS } from './symmetric';
+import { MAX_SHARES } from './shamir';
+import { MAX_KEY_SLOTS } from './key-slots';
+import { S2K_LIMITS } from './pgp';
+
+/**
+ * Current envelope format version. Bump this whenever a field is added,
+ * removed or changes meaning, and keep parsing older versions working.
+ *
+ * - 1: OpenPGP envelopes only, no `mode` field
+ * - 2: adds `mode` and the `symmetric` mode
+ * - 3: adds `tag`, which authenticates the public metadata
+ * - 4: OpenPGP payloads are binary literal data instead of text; adds the
+ *   `stream` mode
+ * - 5: adds the `shared` mode
+ * - 6: adds the `multi` mode
+ * - 7: adds `escrow` to the `pgp`, `symmetric` and `multi` modes
+ * - 8: adds `s2k` to the `pgp` mode
+ * - 9: adds the `staged` mode
+ */
+export const ENVELOPE_VERSION = 9;
+
+const SUPPORTED_VERSIONS = [1, 2, 3, 4, 5, 6, 7, 8, ENVELOPE_VERSION];
+
+/** Most stages a staged envelope may have */
+export const MAX_STAGES = 32;
+
+const ARMOR_BEGIN = '-----BEGIN HTLE ENVELOPE-----';
+const ARMOR_END = '-----END HTLE ENVELOPE-----';
+const ARMOR_LINE_LENGTH = 64;
+
+const versionSchema = z.object({ version: z.number().int() });
+
+function boundedInt({ min, max }: { min: number; max: number }) {
+  return z.number().int().min(min).max(max);
+}
+
+/** Recorded password KDF parameters, within `KDF_LIMITS` */
+export const kdfSchema = z.discriminatedUnion('algorithm', [
+  z.object({
+    algorithm: z.literal('scrypt'),
+    N: boundedInt(KDF_LIMITS.scrypt.N).refine((n) => (n & (n - 1)) === 0, 'must be a power of two'),
+    r: boundedInt(KDF_LIMITS.scrypt.r),
+    p: boundedInt(KDF_LIMITS.scrypt.p),
+  }),
+  z.object({
+    algorithm: z.literal('argon2id'),
+    memoryKiB: boundedInt(KDF_LIMITS.argon2id.memoryKiB),
+    iterations: boundedInt(KDF_LIMITS.argon2id.iterations),
+    parallelism: boundedInt(KDF_LIMITS.argon2id.parallelism),
+  }),
+]);
+
+/**
+ * Serialized (JSON) shape of an `EncryptedData` envelope.
+ * `unlockTime` is stored as an ISO-8601 string.
+ */
+const headerShape = {
+  chainHash: z.string().regex(/^[0-9a-f]{64}$/, 'must be a 64 character hex string'),
+  scheme: z.string().min(1),
+  roundNumber: z.number().int().positive(),
+  unlockTime: z.iso.datetime(),
+};
+
+const pgpShape = {
+  keyAlgorithm: z.string().min(1),
+  publicKey: z.string().min(1),
+  encryptedData: z.string().min(1),
+  timelockedPrivateKey: z.string().min(1),
+};
+
+const s2kSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('iterated'),
+    countByte: boundedInt(S2K_LIMITS.iterated.countByte),
+  }),
+  z.object({
+    type: z.literal('argon2'),
+    passes: boundedInt(S2K_LIMITS.argon2.passes),
+    parallelism: boundedInt(S2K_LIMITS.argon2.parallelism),
+    memoryExponent: boundedInt(S2K_LIMITS.argon2.memoryExponent),
+  }),
+]);
+
+/** The `pgp` mode from version 8 on, which records the private key's S2K */
+const s2kPgpShape = { ...pgpShape, s2k: s2kSchema.optional() };
+
+const passwordShape = {
+  kdf: kdfSchema,
+  salt: z.string().regex(/^([0-9a-f]{2}){16,64}$/, 'must be 16 to 64 hex-encoded bytes'),
+  timelockedKey: z.string().min(1),
+};
+
+function modeSchema<T extends z.ZodRawShape, P extends z.ZodRawShape>(header: T, pgp: P) {
+  return z.discriminatedUnion('mode', [
+    z.object({ ...header, mode: z.literal('pgp'), ...pgp }),
+    z.object({
+      ...header,
+      mode: z.literal('symmetric'),
+      ...passwordShape,
+      encryptedData: z.string().min(1),
+    }),
+  ]);
+}
+
+const taggedHeaderShape = {
+  ...headerShape,
+  tag: z.string().regex(/^[0-9a-f]{64}$/, 'must be a 64 character hex string'),
+};
+
+function streamSchema<T extends z.ZodRawShape>(header: T) {
+  return z.object({
+    ...header,
+    mode: z.literal('stream'),
+    ...passwordShape,
+    chunkSize: boundedInt(CHUNK_SIZE_LIMITS),
+  });
+}
+
+/** The `shared` mode, tagged like every mode from version 5 on */
+function sharedSchema(version: 5 | 6 | 7 | 8 | typeof ENVELOPE_VERSION) {
+  return z
+    .object({
+      version: z.literal(version),
+      ...taggedHeaderShape,
+      mode: z.literal('shared'),
+      threshold: boundedInt({ min: 1, max: MAX_SHARES }),
+      trustees: z
+        .array(z.string().min(1))
+        .min(1)
+        .max(MAX_SHARES)
+        .refine((names) => new Set(names).size === names.length, 'must be unique'),
+      kdf: kdfSchema,
+      encryptedData: z.string().min(1),
+      timelockedKey: z.string().min(1),
+    })
+    .refine((envelope) => envelope.threshold <= envelope.trustees.length, {
+      message: 'must not exceed the number of trustees',
+      path: ['threshold'],
+    });
+}
+
+const fingerprintSchema = z
+  .string()
+  .regex(/^[0-9a-f]{40,64}$/, 'must be a hex OpenPGP fingerprint');
+
+const keySlotSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('password'),
+    label: z.string().min(1).optional(),
+    kdf: kdfSchema,
+    salt: passwordShape.salt,
+  }),
+  z.object({
+    type: z.literal('publicKey'),
+    label: z.string().min(1).optional(),
+    fingerprint: fingerprintSchema,
+  }),
+]);
+
+function multiSchema<T extends z.ZodRawShape>(header: T) {
+  return z.object({
+    ...header,
+    mode: z.literal('multi'),
+    slots: z.array(keySlotSchema).min(1).max(MAX_KEY_SLOTS),
+    encryptedData: z.string().min(1),
+    timelockedKey: z.string().min(1),
+  });
+}
+
+const currentHeaderShape = { version: z.literal(ENVELOPE_VERSION), ...taggedHeaderShape };
+
+const stageSchema = z.object({
+  label: z.string().min(1).optional(),
+  roundNumber: headerShape.roundNumber,
+  unlockTime: headerShape.unlockTime,
+  encryptedData: z.string().min(1),
+  timelockedKey: z.string().min(1),
+});
+
+/** The `staged` mode, whose header repeats the round of its first stage */
+const stagedSchema = z
+  .object({
+    ...currentHeaderShape,
+    mode: z.literal('staged'),
+    kdf: kdfSchema,
+    salt: passwordShape.salt,
+    stages: z
+      .array(stageSchema)
+      .min(1)
+      .max(MAX_STAGES)
+      .refine(
+        (stages) =>
+          stages.every((stage, i) => i === 0 || stage.roundNumber >= stages[i - 1].roundNumber),
+        'must be in round order'
+      ),
+  })
+  .refine(
+    ({ stages: [first], roundNumber, unlockTime }) =>
+      // an empty stage list is reported on its own
+      !first ||
+      (first.roundNumber === roundNumber && Date.parse(first.unlockTime) === Date.parse(unlockTime)),
+    { message: 'must be the round of the first stage', path: ['roundNumber'] }
+  );
+
+const escrowSchema = z
+  .object({ fingerprint: fingerprintSchema, timelockedKey: z.string().min(1) })
+  .optional();
+
+/** Header of the modes that may have an escrow slot */
+const escrowHeaderShape = { ...currentHeaderShape, escrow: escrowSchema };
+
+const envelopeSchema = z.discriminatedUnion('mode', [
+  ...modeSchema(escrowHeaderShape, s2kPgpShape).options,
+  streamSchema(currentHeaderShape),
+  sharedSchema(ENVELOPE_VERSION),
+  multiSchema(escrowHeaderShape),
+  stagedSchema,
+]);
+
+const v8EscrowHeaderShape = { version: z.literal(8), ...taggedHeaderShape, escrow: escrowSchema };
+
+/** Version 8 envelopes predate the `staged` mode */
+const unstagedEnvelopeSchema = z.discriminatedUnion('mode', [
+  ...modeSchema(v8EscrowHeaderShape, s2kPgpShape).options,
+  streamSchema({ version: z.literal(8), ...taggedHeaderShape }),
+  sharedSchema(8),
+  multiSchema(v8EscrowHeaderShape),
+]);
+
+const v7EscrowHeaderShape = { version: z.literal(7), ...taggedHeaderShape, escrow: escrowSchema };
+
+/** Version 7 envelopes do not record the S2K of `pgp` mode */
+const unrecordedS2kEnvelopeSchema = z.discriminatedUnion('mode', [
+  ...modeSchema(v7EscrowHeaderShape, pgpShape).options,
+  streamSchema({ version: z.literal(7), ...taggedHeaderShape }),
+  sharedSchema(7),
+  multiSchema(v7EscrowHeaderShape),
+]);
+
+/** Version 6 envelopes predate escrow slots */
+const unescrowedEnvelopeSchema = z.discriminatedUnion('mode', [
+  ...modeSchema({ version: z.literal(6), ...taggedHeaderShape }, pgpShape).options,
+  streamSchema({ version: z.literal(6), ...taggedHeaderShape }),
+  sharedSchema(6),
+  multiSchema({ version: z.literal(6), ...taggedHeaderShape }),
+]);
+
+/** Version 5 envelopes predate the `multi` mode */
+const singleRecipientEnvelopeSchema = z.discriminatedUnion('mode', [
+  ...modeSchema({ version: z.literal(5), ...taggedHeaderShape }, pgpShape).options,
+  streamSchema({ version: z.literal(5), ...taggedHeaderShape }),
+  sharedSchema(5),
+]);
+
+/** Version 4 envelopes predate the `shared` mode */
+const unsharedEnvelopeSchema = z.discriminatedUnion('mode', [
+  ...modeSchema({ version: z.literal(4), ...taggedHeaderShape }, pgpShape).options,
+  streamSchema({ version: z.literal(4), ...taggedHeaderShape }),
+]);
+
+/** Version 3 envelopes predate the `stream` mode and carry OpenPGP payloads as text */
+const textEnvelopeSchema = modeSchema({ version: z.literal(3), ...taggedHeaderShape }, pgpShape);
+
+/** Version 2 envelopes carry no metadata tag */
+const untaggedEnvelopeSchema = modeSchema({ version: z.literal(2), ...headerShape }, pgpShape);
+
+/** Version 1 envelopes predate `mode` and are always OpenPGP */
+const legacyEnvelopeSchema = z.object({ version: z.literal(1), ...headerShape, ...pgpShape });
+
+/** Schema of each version from 2 on; version 1 is upgraded separately */
+const versionSchemas = {
+  2: untaggedEnvelopeSchema,
+  3: textEnvelopeSchema,
+  4: unsharedEnvelopeSchema,
+  5: singleRecipientEnvelopeSchema,
+  6: unescrowedEnvelopeSchema,
+  7: unrecordedS2kEnvelopeSchema,
+  8: unstagedEnvelopeSchema,
+  [ENVELOPE_VERSION]: envelopeSchema,
+};
+
+type SerializedEnvelope =
+  | z.infer<typeof envelopeSchema>
+  | z.infer<typeof unstagedEnvelopeSchema>
+  | z.infer<typeof unrecordedS2kEnvelopeSchema>
+  | z.infer<typeof unescrowedEnvelopeSchema>
+  | z.infer<typeof singleRecipientEnvelopeSchema>
+  | z.infer<typeof unsharedEnvelopeSchema>
+  | z.infer<typeof textEnvelopeSchema>
+  | z.infer<typeof untaggedEnvelopeSchema>;
+
+function isoTime(time: Date, field: string): string {
+  if (!(time instanceof Date) || isNaN(time.getTime())) {
+    throw new EnvelopeError(`Invalid envelope: ${field} must be a valid Date`);
+  }
+  return time.toISOString();
+}
+
+function toSerialized(data: EncryptedData): SerializedEnvelope {
+  const unlockTime = isoTime(data.unlockTime, 'unlockTime');
+
+  const header = {
+    version: data.version as typeof ENVELOPE_VERSION,
+    chainHash: data.chainHash,
+    scheme: data.scheme,
+    roundNumber: data.roundNumber,
+    unlockTime,
+    // absent before version 3; validation rejects a version 3 envelope without it
+    tag: data.tag as string,
+    // left out when unset, so that the tagged metadata has no undefined fields
+    ...(data.escrow === undefined
+      ? {}
+      : {
+          escrow: {
+            fingerprint: data.escrow.fingerprint,
+            timelockedKey: data.escrow.timelockedKey,
+          },
+        }),
+  };
+
+  if (data.mode === 'symmetric') {
+    return {
+      ...header,
+      mode: data.mode,
+      kdf: data.kdf,
+      salt: data.salt,
+      encryptedData: data.encryptedData,
+      timelockedKey: data.timelockedKey,
+    };
+  }
+  if (data.mode === 'stream') {
+    return {
+      ...header,
+      mode: data.mode,
+      kdf: data.kdf,
+      salt: data.salt,
+      chunkSize: data.chunkSize,
+      timelockedKey: data.timelockedKey,
+    };
+  }
+  if (data.mode === 'shared') {
+    return {
+      ...header,
+      mode: data.mode,
+      threshold: data.threshold,
+      trustees: data.trustees,
+      kdf: data.kdf,
+      encryptedData: data.encryptedData,
+      timelockedKey: data.timelockedKey,
+    };
+  }
+  if (data.mode === 'multi') {
+    return {
+      ...header,
+      mode: data.mode,
+      slots: data.slots.map((slot) => ({
+        ...(slot.type === 'password'
+          ? { type: slot.type, kdf: slot.kdf, salt: slot.salt }
+          : { type: slot.type, fingerprint: slot.fingerprint }),
+        // left out when unset, so that the tagged metadata has no undefined fields
+        ...(slot.label === undefined ? {} : { label: slot.label }),
+      })),
+      encryptedData: data.encryptedData,
+      timelockedKey: data.timelockedKey,
+    };
+  }
+  if (data.mode === 'staged') {
+    return {
+      ...header,
+      mode: data.mode,
+      kdf: data.kdf,
+      salt: data.salt,
+      stages: data.stages.map((stage, i) => ({
+        // left out when unset, so that the tagged metadata has no undefined fields
+        ...(stage.label === undefined ? {} : { label: stage.label }),
+        roundNumber: stage.roundNumber,
+        unlockTime: isoTime(stage.unlockTime, `stages.${i}.unlockTime`),
+        encryptedData: stage.encryptedData,
+        timelockedKey: stage.timelockedKey,
+      })),
+    };
+  }
+  return {
+    ...header,
+    mode: data.mode,
+    keyAlgorithm: data.keyAlgorithm,
+    publicKey: data.publicKey,
+    // left out when unset, so that the tagged metadata has no undefined fields
+    ...(data.s2k === undefined ? {} : { s2k: { ...data.s2k } }),
+    encryptedData: data.encryptedData,
+    timelockedPrivateKey: data.timelockedPrivateKey,
+  };
+}
+
+/** Render zod issues as `path: message` pairs for error messages */
+export function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+function validate(value: unknown): EncryptedData {
+  const versioned = versionSchema.safeParse(value);
+  if (!versioned.success) {
+    throw new EnvelopeError('Invalid envelope: missing or non-integer version field');
+  }
+  if (!SUPPORTED_VERSIONS.includes(versioned.data.version)) {
+    throw new EnvelopeError(
+      `Unsupported envelope version ${versioned.data.version} (supported: ${SUPPORTED_VERSIONS.join(', ')})`
+    );
+  }
+
+  if (versioned.data.version === 1) {
+    const legacy = legacyEnvelopeSchema.safeParse(value);
+    if (!legacy.success) {
+      throw new EnvelopeError(`Invalid envelope: ${formatIssues(legacy.error)}`);
+    }
+    return {
+      ...legacy.data,
+      version: 2,
+      mode: 'pgp',
+      unlockTime: new Date(legacy.data.unlockTime),
+    };
+  }
+
+  const schema = versionSchemas[versioned.data.version as keyof typeof versionSchemas];
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) {
+    throw new EnvelopeError(`Invalid envelope: ${formatIssues(parsed.error)}`);
+  }
+
+  const unlockTime = new Date(parsed.data.unlockTime);
+  if (parsed.data.mode === 'staged') {
+    const stages = parsed.data.stages.map((stage) => ({
+      ...stage,
+      unlockTime: new Date(stage.unlockTime),
+    }));
+    return { ...parsed.data, unlockTime, stages };
+  }
+  return { ...parsed.data, unlockTime };
+}
+
+function armor(json: string): string {
+  const body = Buffer.from(json, 'utf8').toString('base64');
+  const lines: string[] = [];
+  for (let i = 0; i < body.length; i += ARMOR_LINE_LENGTH) {
+    lines.push(body.slice(i, i + ARMOR_LINE_LENGTH));
+  }
+  return [ARMOR_BEGIN, ...lines, ARMOR_END, ''].join('\n');
+}
+
+function dearmor(input: string): string {
+  const end = input.indexOf(ARMOR_END);
+  if (end === -1) {
+    throw new EnvelopeError(`Invalid envelope: missing "${ARMOR_END}" line`);
+  }
+  const body = input.slice(ARMOR_BEGIN.length, end).replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(body)) {
+    throw new EnvelopeError('Invalid envelope: armored body is not valid base64');
+  }
+  return Buffer.from(body, 'base64').toString('utf8');
+}
+
+/**
+ * Encode an envelope as JSON or as a single ASCII-armored block.
+ */
+export function serializeEnvelope(
+  data: EncryptedData,
+  format: EnvelopeFormat = 'json'
+): string {
+  const serialized = toSerialized(data);
+  validate(serialized);
+
+  if (format === 'armor') {
+    return armor(JSON.stringify(serialized));
+  }
+  return JSON.stringify(serialized, null, 2);
+}
+
+/**
+ * Decode an envelope produced by `serializeEnvelope`. The format (JSON or
+ * armored) is detected automatically. Version 1 envelopes are upgraded to
+ * version 2 in memory; neither carries a metadata tag.
+ */
+export function parseEnvelope(input: string): EncryptedData {
+  const trimmed = input.trim();
+  const json = trimmed.startsWith(ARMOR_BEGIN) ? dearmor(trimmed) : trimmed;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new EnvelopeError('Invalid envelope: not valid JSON or armored envelope');
+  }
+
+  return validate(value);
+}
+
+/**
+ * Accept either an in-memory envelope or its serialized form and return a
+ * validated `EncryptedData`.
+ */
+export function normalizeEnvelope(input: EncryptedData | string): EncryptedData {
+  if (typeof input === 'string') {
+    return parseEnvelope(input);
+  }
+  return validate(toSerialized(input));
+}
+
+/**
+ * The time-locked ciphertext of an envelope: the private key in `pgp` mode,
+ * the first stage's wrapped data key in `staged` mode, the wrapped data key
+ * otherwise.
+ */
+export function timelockedSecret(envelope: EncryptedData): string {
+  if (envelope.mode === 'staged') {
+    return envelope.stages[0].timelockedKey;
+  }
+  return envelope.mode === 'pgp' ? envelope.timelockedPrivateKey : envelope.timelockedKey;
+}
+
+/**
+ * Throw `EnvelopeError` unless the envelope is locked to `chainInfo`'s chain.
+ */
+export function assertEnvelopeChain(envelope: EncryptedData, chainInfo: ChainInfo): void {
+  if (envelope.chainHash !== chainInfo.hash) {
+    throw new EnvelopeError(
+      `Envelope targets drand chain ${envelope.chainHash}, but the configured chain is ${chainInfo.hash}`
+    );
+  }
+}
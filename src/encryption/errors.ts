@@ -0,0 +1,92 @@
+/**
+ * Error hierarchy for the HTLE framework.
+ *
+ * Every failure inside `hybrid.ts` and `timelock.ts` surfaces as one of these
+ * classes, so callers can tell "not yet" from "never" and retry only when it
+ * makes sense. The original openpgp / tlock-js error is kept as `cause`.
+ */
+
+/**
+ * Base class of all HTLE errors.
+ */
+export class HtleError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+  }
+}
+
+/**
+ * The drand round the data is locked to has not been reached yet.
+ * Retry after `remainingMs`.
+ */
+export class TimelockNotExpiredError extends HtleError {
+  readonly roundNumber: number;
+  readonly unlockTime: Date;
+  readonly remainingMs: number;
+
+  constructor(roundNumber: number, unlockTime: Date, remainingMs: number) {
+    super(
+      `Time-lock has not expired: round ${roundNumber} is due at ${unlockTime.toISOString()} (${Math.ceil(remainingMs / 1000)}s remaining)`
+    );
+    this.roundNumber = roundNumber;
+    this.unlockTime = unlockTime;
+    this.remainingMs = remainingMs;
+  }
+}
+
+/**
+ * The time-lock has expired but the password does not unlock the private key.
+ */
+export class InvalidPasswordError extends HtleError {}
+
+/**
+ * The ciphertext, time-locked key or envelope metadata was modified or
+ * corrupted. Retrying will not help.
+ */
+export class IntegrityError extends HtleError {}
+
+/**
+ * The drand relay could not be reached or did not return a valid beacon.
+ * Usually transient; retrying (possibly against another relay) may help.
+ */
+export class BeaconUnavailableError extends HtleError {}
+
+/**
+ * An envelope or beacon file cannot be parsed, uses an unsupported version,
+ * or does not match the configured chain.
+ */
+export class EnvelopeError extends HtleError {}
+
+/**
+ * Fewer trustee shares than the envelope's threshold were given. Reports
+ * how many distinct trustees contributed and how many are needed.
+ */
+export class InsufficientSharesError extends HtleError {
+  readonly threshold: number;
+  readonly received: number;
+
+  constructor(threshold: number, received: number) {
+    super(`${threshold} trustee shares are needed to decrypt, but ${received} were given`);
+    this.threshold = threshold;
+    this.received = received;
+  }
+}
+
+/**
+ * A new password does not meet the password policy. `reasons` lists every
+ * rule it breaks.
+ */
+export class WeakPasswordError extends HtleError {
+  readonly reasons: string[];
+
+  constructor(reasons: string[], subject = 'Password') {
+    super(`${subject} does not meet the password policy: ${reasons.join('; ')}`);
+    this.reasons = reasons;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Escrow Recovery Test Suite for HTLE Framework
+ *
+ * These tests validate the optional escrow (recovery) slot:
+ * - The escrow key recovers pgp, symmetric and multi-recipient envelopes
+ * - Recovery still waits for the unlock round
+ * - The escrow flag is authenticated, so it cannot be stripped or swapped
+ * - The deployment key is read from HTLE_ESCROW_PUBLIC_KEY_FILE
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import * as openpgp from 'openpgp';
+import { recoverWithEscrow } from './escrow';
+import { hybridEncrypt, hybridDecrypt } from './hybrid';
+import { serializeEnvelope } from './envelope';
+import { LocalDrandChain } from './local-chain';
+import {
+  EnvelopeError,
+  IntegrityError,
+  InvalidPasswordError,
+  TimelockNotExpiredError,
+} from './errors';
+import { TEST_PASSWORD, TEST_PLAINTEXT, WRONG_PASSWORD } from '../test-utils';
+
+describe('HTLE Escrow Recovery', () => {
+  const ESCROW_PASSPHRASE = 'escrow-officer-passphrase';
+  const kdf = { algorithm: 'scrypt', N: 2 ** 10 } as const;
+
+  let escrow: { privateKey: string; publicKey: string };
+  let chain: LocalDrandChain;
+
+  beforeAll(async () => {
+    escrow = await openpgp.generateKey({
+      type: 'ecc',
+      curve: 'curve25519Legacy',
+      userIDs: [{ name: 'Escrow' }],
+      passphrase: ESCROW_PASSPHRASE,
+      format: 'armored',
+    });
+  });
+
+  beforeEach(() => {
+    chain = new LocalDrandChain();
+  });
+
+  const escrowCredential = () => ({ privateKey: escrow.privateKey, passphrase: ESCROW_PASSPHRASE });
+
+  it.each([
+    { mode: 'pgp', config: { password: TEST_PASSWORD, keyProfile: 'curve25519' } },
+    { mode: 'symmetric', config: { password: TEST_PASSWORD, mode: 'symmetric', kdf } },
+    { mode: 'multi', config: { recipients: [{ password: TEST_PASSWORD }], kdf } },
+  ] as const)('should recover a $mode envelope only after the unlock round', async ({ config }) => {
+    const envelope = await hybridEncrypt(
+      TEST_PLAINTEXT,
+      { ...config, duration: 'min' },
+      { beaconSource: chain, escrowKey: escrow.publicKey }
+    );
+    const escrowKey = await openpgp.readKey({ armoredKey: escrow.publicKey });
+    expect(envelope.escrow?.fingerprint).toBe(escrowKey.getFingerprint());
+
+    await expect(
+      recoverWithEscrow(envelope, escrowCredential(), { beaconSource: chain })
+    ).rejects.toThrow(TimelockNotExpiredError);
+    chain.advanceTo(envelope.unlockTime);
+
+    expect(
+      await recoverWithEscrow(serializeEnvelope(envelope), escrowCredential(), {
+        beaconSource: chain,
+      })
+    ).toBe(TEST_PLAINTEXT);
+    // the password still works as before
+    expect(await hybridDecrypt(envelope, TEST_PASSWORD, { beaconSource: chain })).toBe(
+      TEST_PLAINTEXT
+    );
+  });
+
+  it('should add no escrow slot unless a key is configured', async () => {
+    const envelope = await hybridEncrypt(
+      TEST_PLAINTEXT,
+      { password: TEST_PASSWORD, mode: 'symmetric', kdf, duration: 'min' },
+      { beaconSource: chain }
+    );
+    chain.advanceTo(envelope.unlockTime);
+
+    expect(envelope.escrow).toBeUndefined();
+    await expect(
+      recoverWithEscrow(envelope, escrowCredential(), { beaconSource: chain })
+    ).rejects.toThrow(EnvelopeError);
+  });
+
+  describe('With an escrow slot', () => {
+    let envelope: Awaited<ReturnType<typeof hybridEncrypt>>;
+
+    beforeEach(async () => {
+      envelope = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, mode: 'symmetric', kdf, duration: 'min' },
+        { beaconSource: chain, escrowKey: escrow.publicKey }
+      );
+      chain.advanceTo(envelope.unlockTime);
+    });
+
+    it('should reject other keys and a wrong passphrase', async () => {
+      const other = await openpgp.generateKey({
+        type: 'ecc',
+        curve: 'curve25519Legacy',
+        userIDs: [{ name: 'Other' }],
+        format: 'armored',
+      });
+      const options = { beaconSource: chain };
+
+      await expect(
+        recoverWithEscrow(envelope, { privateKey: other.privateKey }, options)
+      ).rejects.toThrow('The escrow slot is for key');
+      await expect(
+        recoverWithEscrow(
+          envelope,
+          { privateKey: escrow.privateKey, passphrase: WRONG_PASSWORD },
+          options
+        )
+      ).rejects.toThrow(InvalidPasswordError);
+    });
+
+    it('should detect a stripped escrow slot', async () => {
+      const { escrow: _escrow, ...stripped } = envelope;
+
+      await expect(
+        hybridDecrypt(stripped, TEST_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow(IntegrityError);
+    });
+
+    it('should detect an escrow slot moved from another envelope', async () => {
+      const fresh = new LocalDrandChain();
+      const options = { beaconSource: fresh, escrowKey: escrow.publicKey };
+      const config = { mode: 'symmetric', kdf, duration: 'min' } as const;
+      const mine = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { ...config, password: TEST_PASSWORD },
+        options
+      );
+      const other = await hybridEncrypt(
+        'another secret',
+        { ...config, password: WRONG_PASSWORD },
+        options
+      );
+      fresh.advanceTo(mine.unlockTime);
+
+      await expect(
+        recoverWithEscrow({ ...mine, escrow: other.escrow }, escrowCredential(), {
+          beaconSource: fresh,
+        })
+      ).rejects.toThrow(IntegrityError);
+    });
+  });
+
+  describe('Configuration', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'htle-escrow-'));
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.resetModules();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should add the deployment escrow key from HTLE_ESCROW_PUBLIC_KEY_FILE', async () => {
+      const keyFile = path.join(dir, 'escrow.asc');
+      fs.writeFileSync(keyFile, escrow.publicKey);
+      vi.stubEnv('HTLE_ESCROW_PUBLIC_KEY_FILE', keyFile);
+      vi.resetModules();
+      const hybrid = await import('./hybrid');
+      const options = { beaconSource: chain };
+      const config = { password: TEST_PASSWORD, mode: 'symmetric', kdf, duration: 'min' } as const;
+
+      expect((await hybrid.hybridEncrypt('x', config, options)).escrow).toBeDefined();
+      expect(
+        (await hybrid.hybridEncrypt('x', config, { ...options, escrowKey: false })).escrow
+      ).toBeUndefined();
+    });
+
+    it('should reject an unusable escrow key', async () => {
+      await expect(
+        hybridEncrypt(
+          'x',
+          { password: TEST_PASSWORD, duration: 'min' },
+          { beaconSource: chain, escrowKey: 'not a key' }
+        )
+      ).rejects.toThrow('Escrow key is not a usable OpenPGP public key');
+    });
+  });
+});
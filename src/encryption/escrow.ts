@@ -0,0 +1,216 @@
+import * as openpgp from 'openpgp';
+import { z } from 'zod';
+import { Buffer } from 'tlock-js';
+import { readEscrowKeyFile } from './platform';
+import { encryptToRound, decryptWithTimelock, getChainInfo } from './timelock';
+import { normalizeEnvelope, assertEnvelopeChain } from './envelope';
+import { resolveDecryptionSource } from './beacon-file';
+import { assertEnvelopeMetadata, assertTag } from './verify';
+import { readPrivateKey } from './key-slots';
+import { decryptPayload } from './symmetric';
+import { EnvelopeError, IntegrityError, InvalidPasswordError } from './errors';
+import {
+  BeaconSource,
+  EncryptedData,
+  EscrowSlot,
+  HybridOptions,
+  PrivateKeyCredential,
+} from '../types';
+
+/**
+ * Escrow (recovery) slots. The deployment's escrow key gets what opens the
+ * payload without the password, OpenPGP-encrypted to it and time-locked to
+ * the envelope's round, so recovery still waits for the round.
+ */
+
+/**
+ * What an escrow slot seals: the envelope's time-locked secret, to check
+ * its tag on recovery, and the key of the payload, which is the OpenPGP
+ * session key in `pgp` mode and the data key otherwise.
+ */
+const recoverySchema = z.object({
+  secret: z.base64(),
+  dataKey: z.base64().optional(),
+  sessionKey: z
+    .object({ algorithm: z.string(), aeadAlgorithm: z.string().optional(), data: z.base64() })
+    .optional(),
+});
+
+/** The key of the payload, as sealed in an escrow slot */
+export type PayloadKey = { dataKey: Uint8Array } | { sessionKey: openpgp.SessionKey };
+
+function reason(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * The escrow public key new envelopes get: `options.escrowKey`, or else the
+ * deployment's `HTLE_ESCROW_PUBLIC_KEY_FILE`. Returns `undefined` for none.
+ */
+export async function resolveEscrowKey(options: HybridOptions): Promise<openpgp.Key | undefined> {
+  const armoredKey =
+    options.escrowKey === false ? undefined : (options.escrowKey ?? readEscrowKeyFile());
+  if (!armoredKey) {
+    return undefined;
+  }
+
+  try {
+    const key = await openpgp.readKey({ armoredKey });
+    await key.getEncryptionKey();
+    return key;
+  } catch (err) {
+    throw new TypeError(`Escrow key is not a usable OpenPGP public key (${reason(err)})`);
+  }
+}
+
+/**
+ * Seal `payloadKey` and the envelope's time-locked `secret` for the escrow
+ * key, time-locked to `roundNumber`.
+ */
+export async function createEscrowSlot(
+  escrowKey: openpgp.Key,
+  payloadKey: PayloadKey,
+  secret: Uint8Array,
+  roundNumber: number,
+  source: BeaconSource
+): Promise<EscrowSlot> {
+  const base64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
+  const recovery: z.infer<typeof recoverySchema> = {
+    secret: base64(secret),
+    ...('dataKey' in payloadKey
+      ? { dataKey: base64(payloadKey.dataKey) }
+      : {
+          sessionKey: {
+            algorithm: payloadKey.sessionKey.algorithm,
+            aeadAlgorithm: payloadKey.sessionKey.aeadAlgorithm,
+            data: base64(payloadKey.sessionKey.data),
+          },
+        }),
+  };
+
+  const sealed = await openpgp.encrypt({
+    message: await openpgp.createMessage({ text: JSON.stringify(recovery) }),
+    encryptionKeys: escrowKey,
+  });
+  return {
+    fingerprint: escrowKey.getFingerprint(),
+    timelockedKey: await encryptToRound(new TextEncoder().encode(sealed), roundNumber, source),
+  };
+}
+
+async function openEscrowSlot(
+  slot: EscrowSlot,
+  privateKey: openpgp.PrivateKey,
+  source: BeaconSource
+): Promise<z.infer<typeof recoverySchema>> {
+  const sealed = new TextDecoder().decode(await decryptWithTimelock(slot.timelockedKey, source));
+
+  let parsed;
+  try {
+    const { data } = await openpgp.decrypt({
+      message: await openpgp.readMessage({ armoredMessage: sealed }),
+      decryptionKeys: privateKey,
+    });
+    parsed = recoverySchema.safeParse(JSON.parse(data));
+  } catch (err) {
+    throw new IntegrityError('Escrow slot is corrupted', err);
+  }
+  if (!parsed.success) {
+    throw new IntegrityError('Escrow slot is corrupted');
+  }
+  return parsed.data;
+}
+
+async function decryptWithSessionKey(
+  encryptedData: string,
+  sessionKey: NonNullable<z.infer<typeof recoverySchema>['sessionKey']>
+): Promise<Uint8Array> {
+  try {
+    const { data } = await openpgp.decrypt({
+      message: await openpgp.readMessage({ armoredMessage: encryptedData }),
+      sessionKeys: {
+        algorithm: sessionKey.algorithm as openpgp.enums.symmetricNames,
+        aeadAlgorithm: sessionKey.aeadAlgorithm as openpgp.enums.aeadNames | undefined,
+        data: Buffer.from(sessionKey.data, 'base64'),
+      },
+      format: 'binary',
+    });
+    return data;
+  } catch (err) {
+    throw new IntegrityError('Encrypted data is corrupted or was tampered with', err);
+  }
+}
+
+/**
+ * Decrypt an envelope with the deployment's escrow private key instead of
+ * the recipients' credentials, e.g. after a password is lost. Only
+ * envelopes with an `escrow` slot for this key can be recovered, and only
+ * once their round is published: the time-lock still applies.
+ *
+ * The envelope's metadata is checked as by `hybridDecrypt`. Returns the
+ * payload as a string, or as bytes with `format: 'binary'`. A key that is
+ * not the envelope's escrow key, or a wrong passphrase, is an
+ * `InvalidPasswordError`; other failures are reported as by `hybridDecrypt`.
+ */
+export async function recoverWithEscrow(
+  envelope: EncryptedData | string,
+  escrowPrivateKey: PrivateKeyCredential,
+  options: HybridOptions & { format: 'binary' }
+): Promise<Uint8Array>;
+export async function recoverWithEscrow(
+  envelope: EncryptedData | string,
+  escrowPrivateKey: PrivateKeyCredential,
+  options?: HybridOptions & { format?: 'utf8' }
+): Promise<string>;
+export async function recoverWithEscrow(
+  envelope: EncryptedData | string,
+  escrowPrivateKey: PrivateKeyCredential,
+  options?: HybridOptions
+): Promise<string | Uint8Array>;
+export async function recoverWithEscrow(
+  envelope: EncryptedData | string,
+  escrowPrivateKey: PrivateKeyCredential,
+  options: HybridOptions = {}
+): Promise<string | Uint8Array> {
+  const format = options.format ?? 'utf8';
+  if (format !== 'utf8' && format !== 'binary') {
+    throw new TypeError(`Unknown payload format "${format}" (expected utf8 or binary)`);
+  }
+  const encryptedData = normalizeEnvelope(envelope);
+  const { escrow } = encryptedData;
+  if (escrow === undefined) {
+    throw new EnvelopeError('Envelope has no escrow slot');
+  }
+
+  const privateKey = await readPrivateKey(escrowPrivateKey);
+  if (privateKey.getFingerprint() !== escrow.fingerprint) {
+    throw new InvalidPasswordError(
+      `The escrow slot is for key ${escrow.fingerprint}, not ${privateKey.getFingerprint()}`
+    );
+  }
+
+  const source = await resolveDecryptionSource(options, encryptedData.chainHash);
+  const chainInfo = await getChainInfo(source);
+  assertEnvelopeChain(encryptedData, chainInfo);
+  assertEnvelopeMetadata(encryptedData, chainInfo);
+
+  const recovery = await openEscrowSlot(escrow, privateKey, source);
+  assertTag(encryptedData, Buffer.from(recovery.secret, 'base64'));
+
+  let plaintext: Uint8Array;
+  if (encryptedData.mode === 'pgp' && recovery.sessionKey) {
+    plaintext = await decryptWithSessionKey(encryptedData.encryptedData, recovery.sessionKey);
+  } else if (
+    (encryptedData.mode === 'symmetric' || encryptedData.mode === 'multi') &&
+    recovery.dataKey
+  ) {
+    plaintext = await decryptPayload(
+      Buffer.from(recovery.dataKey, 'base64'),
+      encryptedData.encryptedData
+    );
+  } else {
+    throw new IntegrityError('Escrow slot does not match the envelope mode');
+  }
+
+  return format === 'binary' ? plaintext : new TextDecoder().decode(plaintext);
+}
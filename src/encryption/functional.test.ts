@@ -4,24 +4,42 @@
  * These tests validate the correctness of the encryption/decryption workflow:
  * - TC4: Complete happy path (encrypt → wait → decrypt)
  * - TC6: End-to-end with various durations and data sizes
+ * - Binary payloads, byte for byte, in both modes
+ * - Detection of tampered ciphertexts and envelope metadata
+ *
+ * All suites run against an in-process LocalDrandChain: time passes by
+ * advancing its clock, so no network access or real waiting is needed.
  *
  * Reference: Section III (System Architecture) of the HTLE paper
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as openpgp from 'openpgp';
+import { randomBytes } from 'node:crypto';
+import { roundTime } from 'tlock-js';
 import { hybridEncrypt, hybridDecrypt } from './hybrid';
+import { LocalDrandChain } from './local-chain';
+import { verifyEnvelope } from './verify';
+import { encryptToRound } from './timelock';
+import { generatePGPKeys } from './pgp';
+import { IntegrityError } from './errors';
+import { EncryptedData, KeyProfile } from '../types';
 import {
   TEST_PASSWORD,
   TEST_PLAINTEXT,
   SHORT_DURATION_MS,
-  UNLOCK_BUFFER_MS,
-  wait,
   getRemainingTime,
   measureTime,
   formatDuration,
 } from '../test-utils';
 
 describe('HTLE Functional Tests', () => {
+  let chain: LocalDrandChain;
+
+  beforeEach(() => {
+    chain = new LocalDrandChain();
+  });
+
   /**
    * TC4: Correct Flow (Happy Path)
    *
@@ -40,10 +58,11 @@ describe('HTLE Functional Tests', () => {
       const { result: encrypted, timing: encryptTiming } = await measureTime(
         'encryption',
         () =>
-          hybridEncrypt(TEST_PLAINTEXT, {
-            password: TEST_PASSWORD,
-            durationMs: SHORT_DURATION_MS,
-          })
+          hybridEncrypt(
+            TEST_PLAINTEXT,
+            { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS },
+            { beaconSource: chain }
+          )
       );
 
       console.log(`Encryption completed in ${encryptTiming.durationMs.toFixed(2)}ms`);
@@ -57,14 +76,14 @@ describe('HTLE Functional Tests', () => {
       expect(encrypted.roundNumber).toBeGreaterThan(0);
 
       // Step 2: Wait for time-lock
-      const remainingTime = getRemainingTime(encrypted.unlockTime);
-      console.log(`Waiting ${formatDuration(remainingTime + UNLOCK_BUFFER_MS)} for time-lock...`);
-      await wait(remainingTime + UNLOCK_BUFFER_MS);
+      const remainingTime = getRemainingTime(encrypted.unlockTime, chain.now());
+      console.log(`Advancing clock ${formatDuration(remainingTime)} for time-lock...`);
+      chain.advance(remainingTime);
 
       // Step 3: Decrypt
       const { result: decrypted, timing: decryptTiming } = await measureTime(
         'decryption',
-        () => hybridDecrypt(encrypted, TEST_PASSWORD)
+        () => hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain })
       );
 
       console.log(`Decryption completed in ${decryptTiming.durationMs.toFixed(2)}ms`);
@@ -112,24 +131,25 @@ describe('HTLE Functional Tests', () => {
     it.each(testCases)(
       'should handle $name correctly',
       async ({ plaintext, durationMs }) => {
-        const encrypted = await hybridEncrypt(plaintext, {
-          password: TEST_PASSWORD,
-          durationMs,
-        });
+        const encrypted = await hybridEncrypt(
+          plaintext,
+          { password: TEST_PASSWORD, durationMs },
+          { beaconSource: chain }
+        );
 
-        const remainingTime = getRemainingTime(encrypted.unlockTime);
-        await wait(remainingTime + UNLOCK_BUFFER_MS);
+        chain.advanceTo(encrypted.unlockTime);
 
-        const decrypted = await hybridDecrypt(encrypted, TEST_PASSWORD);
+        const decrypted = await hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain });
         expect(decrypted).toBe(plaintext);
       }
     );
 
     it('should work with standard duration "min"', async () => {
-      const encrypted = await hybridEncrypt(TEST_PLAINTEXT, {
-        password: TEST_PASSWORD,
-        duration: 'min',
-      });
+      const encrypted = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, duration: 'min' },
+        { beaconSource: chain }
+      );
 
       // Verify round number corresponds to ~60 seconds in future
       expect(encrypted.roundNumber).toBeGreaterThan(0);
@@ -139,6 +159,141 @@ describe('HTLE Functional Tests', () => {
     });
   });
 
+  /**
+   * Binary Payloads
+   *
+   * Validates: Bytes and strings come back exactly as they were encrypted
+   */
+  describe('Binary Payloads', () => {
+    it.each(['pgp', 'symmetric'] as const)(
+      'should round-trip binary data in %s mode',
+      async (mode) => {
+        const payload = new Uint8Array(randomBytes(4096));
+        const encrypted = await hybridEncrypt(
+          payload,
+          {
+            password: TEST_PASSWORD,
+            duration: 'min',
+            mode,
+            ...(mode === 'pgp' && { keyProfile: 'curve25519' as const }),
+          },
+          { beaconSource: chain }
+        );
+        chain.advanceTo(encrypted.unlockTime);
+
+        const decrypted = await hybridDecrypt(encrypted, TEST_PASSWORD, {
+          beaconSource: chain,
+          format: 'binary',
+        });
+        expect(decrypted).toBeInstanceOf(Uint8Array);
+        expect(Buffer.from(decrypted)).toEqual(Buffer.from(payload));
+      }
+    );
+
+    it('should preserve line endings of strings', async () => {
+      const plaintext = 'line one\r\nline two\nline three\r';
+      const encrypted = await hybridEncrypt(
+        plaintext,
+        { password: TEST_PASSWORD, duration: 'min', keyProfile: 'curve25519' },
+        { beaconSource: chain }
+      );
+      chain.advanceTo(encrypted.unlockTime);
+
+      expect(await hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain })).toBe(plaintext);
+      expect(
+        await hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain, format: 'binary' })
+      ).toEqual(new TextEncoder().encode(plaintext));
+    });
+
+    it('should decrypt OpenPGP text payloads of older envelopes', async () => {
+      const plaintext = 'written before binary payloads\nsecond line';
+      const { privateKey, publicKey } = await generatePGPKeys(TEST_PASSWORD, 'curve25519');
+      const roundNumber = (await chain.latest()).round + 5;
+      const legacy: EncryptedData = {
+        version: 2,
+        chainHash: chain.chainInfo.hash,
+        scheme: chain.chainInfo.schemeID,
+        roundNumber,
+        unlockTime: new Date(roundTime(chain.chainInfo, roundNumber)),
+        mode: 'pgp',
+        keyAlgorithm: 'curve25519',
+        publicKey,
+        encryptedData: await openpgp.encrypt({
+          message: await openpgp.createMessage({ text: plaintext }),
+          encryptionKeys: await openpgp.readKey({ armoredKey: publicKey }),
+        }),
+        timelockedPrivateKey: await encryptToRound(
+          new TextEncoder().encode(privateKey),
+          roundNumber,
+          chain
+        ),
+      };
+      chain.advanceTo(legacy.unlockTime);
+
+      expect(await hybridDecrypt(legacy, TEST_PASSWORD, { beaconSource: chain })).toBe(plaintext);
+    });
+
+    it('should reject unknown payload formats', async () => {
+      await expect(
+        hybridDecrypt('{}', TEST_PASSWORD, { format: 'base64' as 'binary' })
+      ).rejects.toThrow(TypeError);
+    });
+  });
+
+  /**
+   * Key Profiles
+   *
+   * Validates: Every supported key profile completes an encrypt/decrypt cycle
+   */
+  describe('Key Profiles', () => {
+    it.each(['curve25519', 'p256', 'rsa-3072'] as const)(
+      'should round-trip with the %s profile',
+      async (keyProfile) => {
+        const encrypted = await hybridEncrypt(
+          TEST_PLAINTEXT,
+          { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS, keyProfile },
+          { beaconSource: chain }
+        );
+        expect(encrypted.keyAlgorithm).toBe(keyProfile);
+
+        chain.advanceTo(encrypted.unlockTime);
+
+        const decrypted = await hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain });
+        expect(decrypted).toBe(TEST_PLAINTEXT);
+      }
+    );
+
+    it('should bind custom user IDs to the generated key', async () => {
+      const encrypted = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        {
+          password: TEST_PASSWORD,
+          durationMs: SHORT_DURATION_MS,
+          keyProfile: 'curve25519',
+          userIDs: [{ name: 'Archive', email: 'archive@example.org' }],
+        },
+        { beaconSource: chain }
+      );
+
+      const publicKey = await openpgp.readKey({ armoredKey: encrypted.publicKey });
+      expect(publicKey.getUserIDs()).toEqual(['Archive <archive@example.org>']);
+    });
+
+    it('should reject unknown key profiles', async () => {
+      await expect(
+        hybridEncrypt(
+          TEST_PLAINTEXT,
+          {
+            password: TEST_PASSWORD,
+            durationMs: SHORT_DURATION_MS,
+            keyProfile: 'dsa-1024' as KeyProfile,
+          },
+          { beaconSource: chain }
+        )
+      ).rejects.toThrow('Unknown key profile "dsa-1024"');
+    });
+  });
+
   /**
    * Data Integrity Tests
    *
@@ -146,13 +301,13 @@ describe('HTLE Functional Tests', () => {
    */
   describe('Data Integrity', () => {
     it('should detect tampering with encrypted data', async () => {
-      const encrypted = await hybridEncrypt(TEST_PLAINTEXT, {
-        password: TEST_PASSWORD,
-        durationMs: SHORT_DURATION_MS,
-      });
+      const encrypted = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS },
+        { beaconSource: chain }
+      );
 
-      const remainingTime = getRemainingTime(encrypted.unlockTime);
-      await wait(remainingTime + UNLOCK_BUFFER_MS);
+      chain.advanceTo(encrypted.unlockTime);
 
       // Tamper with the encrypted data
       const tampered = {
@@ -160,17 +315,19 @@ describe('HTLE Functional Tests', () => {
         encryptedData: encrypted.encryptedData.replace('A', 'B'),
       };
 
-      await expect(hybridDecrypt(tampered, TEST_PASSWORD)).rejects.toThrow();
+      await expect(
+        hybridDecrypt(tampered, TEST_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow(IntegrityError);
     });
 
     it('should detect tampering with time-locked key', async () => {
-      const encrypted = await hybridEncrypt(TEST_PLAINTEXT, {
-        password: TEST_PASSWORD,
-        durationMs: SHORT_DURATION_MS,
-      });
+      const encrypted = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS },
+        { beaconSource: chain }
+      );
 
-      const remainingTime = getRemainingTime(encrypted.unlockTime);
-      await wait(remainingTime + UNLOCK_BUFFER_MS);
+      chain.advanceTo(encrypted.unlockTime);
 
       // Tamper with the time-locked key
       const tampered = {
@@ -178,7 +335,69 @@ describe('HTLE Functional Tests', () => {
         timelockedPrivateKey: encrypted.timelockedPrivateKey.slice(0, -10) + 'AAAAAAAAAA',
       };
 
-      await expect(hybridDecrypt(tampered, TEST_PASSWORD)).rejects.toThrow();
+      await expect(
+        hybridDecrypt(tampered, TEST_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow(IntegrityError);
+    });
+
+    it.each([
+      ['an earlier roundNumber', (data: EncryptedData) => ({ roundNumber: data.roundNumber - 1 })],
+      ['a later roundNumber', (data: EncryptedData) => ({ roundNumber: data.roundNumber + 100 })],
+      [
+        'an earlier unlockTime',
+        (data: EncryptedData) => ({ unlockTime: new Date(data.unlockTime.getTime() - 3_000) }),
+      ],
+      [
+        'a consistent earlier roundNumber and unlockTime',
+        (data: EncryptedData) => ({
+          roundNumber: data.roundNumber - 1,
+          unlockTime: new Date(data.unlockTime.getTime() - 3_000),
+        }),
+      ],
+      ['another scheme', () => ({ scheme: 'pedersen-bls-unchained' })],
+    ])('should detect metadata edited to %s', async (_name, edit) => {
+      const encrypted = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS, keyProfile: 'curve25519' },
+        { beaconSource: chain }
+      );
+      chain.advanceTo(encrypted.unlockTime);
+
+      const tampered = { ...encrypted, ...edit(encrypted) };
+      await expect(
+        hybridDecrypt(tampered, TEST_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow(IntegrityError);
+      await expect(verifyEnvelope(tampered, { beaconSource: chain })).rejects.toThrow(
+        'Envelope metadata was tampered with'
+      );
+    });
+
+    it('should detect edits to metadata covered only by the tag', async () => {
+      const encrypted = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS, mode: 'symmetric' },
+        { beaconSource: chain }
+      );
+      chain.advanceTo(encrypted.unlockTime);
+
+      const relabelled = { ...encrypted, kdf: { ...encrypted.kdf, p: 2 } };
+      await expect(
+        hybridDecrypt(relabelled, TEST_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow('integrity tag mismatch');
+    });
+
+    it('should detect a tag stripped by downgrading the envelope version', async () => {
+      const encrypted = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS, keyProfile: 'curve25519' },
+        { beaconSource: chain }
+      );
+      chain.advanceTo(encrypted.unlockTime);
+
+      const { tag: _tag, ...untagged } = encrypted;
+      await expect(
+        hybridDecrypt({ ...untagged, version: 2 }, TEST_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow('integrity tag was removed');
     });
   });
 
@@ -189,15 +408,17 @@ describe('HTLE Functional Tests', () => {
    */
   describe('Round Number Calculation', () => {
     it('should calculate increasing round numbers for longer durations', async () => {
-      const shortDuration = await hybridEncrypt(TEST_PLAINTEXT, {
-        password: TEST_PASSWORD,
-        durationMs: 10_000, // 10 seconds
-      });
-
-      const longerDuration = await hybridEncrypt(TEST_PLAINTEXT, {
-        password: TEST_PASSWORD,
-        durationMs: 30_000, // 30 seconds
-      });
+      const shortDuration = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, durationMs: 10_000 }, // 10 seconds
+        { beaconSource: chain }
+      );
+
+      const longerDuration = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, durationMs: 30_000 }, // 30 seconds
+        { beaconSource: chain }
+      );
 
       expect(longerDuration.roundNumber).toBeGreaterThan(shortDuration.roundNumber);
     });
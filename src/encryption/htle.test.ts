@@ -0,0 +1,114 @@
+/**
+ * Instance Test Suite for HTLE Framework
+ *
+ * These tests validate configuration injection:
+ * - Modules import without env configuration, which is read on first use
+ * - Reading .env leaves stdout alone, as CLI output goes there
+ * - Instances with different chains and options side by side
+ * - Per-call options over instance options
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHtle, defaultHtle } from './htle';
+import { ChainRegistry, CHAIN_PRESETS } from './chains';
+import { getChainRegistry } from './platform';
+import { LocalDrandChain } from './local-chain';
+import { EnvelopeError, WeakPasswordError } from './errors';
+import { TEST_PASSWORD, TEST_PLAINTEXT } from '../test-utils';
+
+describe('HTLE Instances', () => {
+  const kdf = { algorithm: 'scrypt', N: 2 ** 10 } as const;
+  const config = { password: TEST_PASSWORD, mode: 'symmetric', kdf, duration: 'min' } as const;
+
+  let alpha: LocalDrandChain;
+  let beta: LocalDrandChain;
+
+  beforeEach(() => {
+    alpha = new LocalDrandChain();
+    beta = new LocalDrandChain();
+  });
+
+  describe('Configuration', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+      vi.resetModules();
+    });
+
+    it('should import without a valid env and only fail when it is used', async () => {
+      vi.stubEnv('DRAND_CHAIN_HASH', 'not-a-hash');
+      vi.resetModules();
+      const hybrid = await import('./hybrid');
+      const htle = await import('./htle');
+
+      const instance = htle.createHtle({ beaconSource: alpha });
+      const envelope = await instance.encrypt(TEST_PLAINTEXT, config);
+      alpha.advanceTo(envelope.unlockTime);
+      expect(await instance.decrypt(envelope, TEST_PASSWORD)).toBe(TEST_PLAINTEXT);
+
+      await expect(hybrid.hybridEncrypt(TEST_PLAINTEXT, config)).rejects.toThrow(
+        'Invalid environment configuration'
+      );
+      expect(() => htle.defaultHtle.chains).toThrow(TypeError);
+    });
+
+    it('should read .env without writing to stdout', async () => {
+      const log = vi.spyOn(console, 'log');
+      vi.resetModules();
+      const { loadEnv } = await import('../env');
+
+      loadEnv();
+      expect(log).not.toHaveBeenCalled();
+    });
+
+    it('should build a registry from chain configs', () => {
+      const custom = { ...CHAIN_PRESETS.testnet, name: 'staging' };
+      const instance = createHtle({ chains: [custom, CHAIN_PRESETS.quicknet] });
+
+      expect(instance.chains.defaultChain).toBe(custom);
+      expect(instance.chains).not.toBe(getChainRegistry());
+      expect(instance.options).toMatchObject({ escrowKey: false, chains: instance.chains });
+      expect(() => createHtle({ chain: 'devnet' })).toThrow(EnvelopeError);
+
+      const shared = new ChainRegistry();
+      expect(createHtle({ chains: shared, chain: 'mainnet' }).chains).toBe(shared);
+    });
+
+    it('should back the module-level functions with the default instance', () => {
+      expect(defaultHtle.chains).toBe(getChainRegistry());
+      expect(defaultHtle.options).toEqual({});
+    });
+  });
+
+  describe('Side by Side', () => {
+    it('should keep each instance on its own chain', async () => {
+      const first = createHtle({ beaconSource: alpha });
+      const second = createHtle({ beaconSource: beta });
+
+      const a = await first.encrypt(TEST_PLAINTEXT, config);
+      const b = await second.encrypt('other secret', config);
+      expect(a.chainHash).toBe(alpha.chainInfo.hash);
+      expect(b.chainHash).toBe(beta.chainInfo.hash);
+
+      alpha.advanceTo(a.unlockTime);
+      beta.advanceTo(b.unlockTime);
+      expect(await first.decrypt(a, TEST_PASSWORD)).toBe(TEST_PLAINTEXT);
+      expect(await second.decrypt(b, TEST_PASSWORD)).toBe('other secret');
+      expect(await first.status(a)).toMatchObject({ isUnlockable: true });
+      await expect(first.decrypt(b, TEST_PASSWORD)).rejects.toThrow(EnvelopeError);
+    });
+
+    it('should apply instance options unless a call overrides them', async () => {
+      const strict = createHtle({ beaconSource: alpha, passwordPolicy: { minLength: 30 } });
+
+      await expect(strict.encrypt(TEST_PLAINTEXT, config)).rejects.toThrow(WeakPasswordError);
+      const envelope = await strict.encrypt(TEST_PLAINTEXT, config, { passwordPolicy: {} });
+      const verification = await strict.verify(envelope, { beaconSource: beta }).catch(
+        (err: unknown) => err
+      );
+
+      expect(envelope.chainHash).toBe(alpha.chainInfo.hash);
+      expect(verification).toBeInstanceOf(EnvelopeError);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { hybridEncrypt, hybridDecrypt, decryptWithKey, resolveUnlockTime } from './hybrid';
+import { getLockStatus, getRoundStatus } from './status';
+import { waitAndDecrypt } from './wait';
+import { verifyEnvelope } from './verify';
+import { ChainConfig, ChainRegistry } from './chains';
+import { getChainRegistry } from './platform';
+import { BeaconStore, HybridOptions } from '../types';
+
+/**
+ * Instances of the API bound to an explicit configuration, so that one
+ * process can use several chains, beacon sources or policies side by side,
+ * and so that nothing is read from env or disk. The module-level functions
+ * (`hybridEncrypt` and friends) are `defaultHtle`.
+ */
+
+export interface HtleConfig
+  extends Pick<
+    HybridOptions,
+    'beaconSource' | 'chain' | 'keyPool' | 'maxHorizonMs' | 'escrowKey' | 'passwordPolicy'
+  > {
+  /**
+   * Chains the instance knows: a registry to share, or the chains of a new
+   * one, the first being the default (default: all presets, quicknet first)
+   */
+  chains?: ChainRegistry | ChainConfig[];
+  /** Per-request relay timeout in milliseconds, for a new registry */
+  relayTimeoutMs?: number;
+  /** Extra passes over a chain's relays after all of them failed, for a new registry */
+  relayRetries?: number;
+  /** Beacon store for a new registry, such as a `BeaconCache` (default: none) */
+  cache?: BeaconStore;
+}
+
+/**
+ * The encrypt, decrypt and status functions with an instance's options.
+ * Options passed to a call override the instance's.
+ */
+export interface Htle {
+  /** Registry that `chain` and envelopes' chains are looked up in */
+  readonly chains: ChainRegistry;
+  /** Options every call starts from */
+  readonly options: Readonly<HybridOptions>;
+  encrypt: typeof hybridEncrypt;
+  decrypt: typeof hybridDecrypt;
+  decryptWithKey: typeof decryptWithKey;
+  status: typeof getLockStatus;
+  roundStatus: typeof getRoundStatus;
+  wait: typeof waitAndDecrypt;
+  verify: typeof verifyEnvelope;
+  resolveUnlockTime: typeof resolveUnlockTime;
+}
+
+/**
+ * Create an instance with its own chains, beacon source and options.
+ * Unlike the default instance, it has no escrow key unless `escrowKey` is
+ * given. Throws `EnvelopeError` if `chain` is not in `chains`.
+ */
+export function createHtle(config: HtleConfig = {}): Htle {
+  const { chains, relayTimeoutMs, relayRetries, cache, ...options } = config;
+  const registry =
+    chains instanceof ChainRegistry
+      ? chains
+      : new ChainRegistry({ chains, relayTimeoutMs, relayRetries, cache });
+  if (options.chain !== undefined) {
+    registry.get(options.chain);
+  }
+  return bindOptions({ escrowKey: false, ...options, chains: registry }, () => registry);
+}
+
+/**
+ * The instance behind the module-level functions: its chains, relay
+ * settings, beacon cache and escrow key come from env, read on first use.
+ */
+export const defaultHtle: Htle = bindOptions({}, getChainRegistry);
+
+function bindOptions(options: HybridOptions, chains: () => ChainRegistry): Htle {
+  const merge = <T extends object>(callOptions?: T) => ({ ...options, ...callOptions }) as T;
+
+  return {
+    get chains() {
+      return chains();
+    },
+    options,
+    encrypt: ((...[data, config, callOptions]: Parameters<typeof hybridEncrypt>) =>
+      hybridEncrypt(data, config, merge(callOptions))) as typeof hybridEncrypt,
+    decrypt: ((...[envelope, password, callOptions]: Parameters<typeof hybridDecrypt>) =>
+      hybridDecrypt(envelope, password, merge(callOptions))) as typeof hybridDecrypt,
+    decryptWithKey: ((...[envelope, key, callOptions]: Parameters<typeof decryptWithKey>) =>
+      decryptWithKey(envelope, key, merge(callOptions))) as typeof decryptWithKey,
+    status: (envelope, callOptions) => getLockStatus(envelope, merge(callOptions)),
+    roundStatus: (roundNumber, callOptions) => getRoundStatus(roundNumber, merge(callOptions)),
+    wait: ((...[envelope, password, callOptions]: Parameters<typeof waitAndDecrypt>) =>
+      waitAndDecrypt(envelope, password, merge(callOptions))) as typeof waitAndDecrypt,
+    verify: (envelope, callOptions) => verifyEnvelope(envelope, merge(callOptions)),
+    resolveUnlockTime: (spec, callOptions) => resolveUnlockTime(spec, merge(callOptions)),
+  };
+}
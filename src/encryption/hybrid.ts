@@ -1,81 +1,598 @@
 import * as openpgp from 'openpgp';
-import { generatePGPKeys } from './pgp';
-import { encryptWithTimelock, decryptWithTimelock } from './timelock';
+import { randomBytes } from '@noble/hashes/utils';
+import type { ChainInfo } from 'tlock-js';
+import { generatePGPKeys, resolveS2kParams, DEFAULT_KEY_PROFILE } from './pgp';
 import {
-  Duration,
-  EncryptionConfig,
-  EncryptionConfigWithCustomDuration,
+  encryptToRound,
+  decryptWithTimelock,
+  getChainInfo,
+  resolveBeaconSource,
+} from './timelock';
+import {
+  KEY_LENGTH,
+  createDataKey,
+  decryptSymmetric,
+  encryptPayload,
+  decryptPayload,
+  unwrapKeys,
+} from './symmetric';
+import {
+  createKeySlots,
+  readWrappedKeys,
+  openPasswordSlot,
+  findKeySlot,
+  openKeySlot,
+  readPrivateKey,
+} from './key-slots';
+import { resolveUnlock } from './unlock';
+import { assertPassword } from './password-policy';
+import {
+  ENVELOPE_VERSION,
+  normalizeEnvelope,
+  assertEnvelopeChain,
+  timelockedSecret,
+} from './envelope';
+import { resolveDecryptionSource } from './beacon-file';
+import { PayloadKey, createEscrowSlot, resolveEscrowKey } from './escrow';
+import {
+  assertEnvelopeMetadata,
+  envelopeTag,
+  openSecret,
+  openStageSecret,
+  sealSecret,
+} from './verify';
+import {
+  BeaconUnavailableError,
+  EnvelopeError,
+  IntegrityError,
+  InvalidPasswordError,
+  TimelockNotExpiredError,
+} from './errors';
+import {
+  BaseEncryptionConfig,
+  BeaconSource,
   EncryptedData,
+  EnvelopeHeader,
+  HybridEncryptionConfig,
+  HybridOptions,
+  KeySlot,
+  MultiRecipientEncryptedData,
+  OpenStage,
+  PayloadFormat,
+  PgpEncryptedData,
+  PrivateKeyCredential,
+  RecipientsEncryptionConfig,
+  ResolvedUnlock,
+  StagedEncryptedData,
+  StagedPayload,
+  StageSchedule,
+  SymmetricEncryptedData,
+  UnlockSpec,
+  UnstagedEncryptedData,
 } from '../types';
 
-const DURATION_MS: Record<Duration, number> = {
-  min: 60 * 1000,
-  month: 30 * 24 * 60 * 60 * 1000,
-  year: 365 * 24 * 60 * 60 * 1000,
-};
+/** Envelope version from which OpenPGP payloads are binary literal data */
+export const BINARY_PGP_VERSION = 4;
+
+/**
+ * Time-lock `secret` to the resolved round and build the envelope header,
+ * with an escrow slot if `escrow` is given. The envelope's tag is added by
+ * `withTag` once all its fields are known.
+ */
+export async function lockSecret(
+  secret: Uint8Array,
+  unlock: ResolvedUnlock,
+  source: BeaconSource,
+  chainInfo: ChainInfo,
+  escrow?: { key: openpgp.Key; payloadKey: PayloadKey }
+): Promise<{ header: EnvelopeHeader; timelocked: string }> {
+  const timelocked = await encryptToRound(sealSecret(secret), unlock.roundNumber, source);
+  const escrowSlot =
+    escrow &&
+    (await createEscrowSlot(escrow.key, escrow.payloadKey, secret, unlock.roundNumber, source));
 
-function isCustomDurationConfig(
-  config: EncryptionConfig | EncryptionConfigWithCustomDuration
-): config is EncryptionConfigWithCustomDuration {
-  return 'durationMs' in config;
+  return {
+    header: {
+      version: ENVELOPE_VERSION,
+      chainHash: chainInfo.hash,
+      scheme: chainInfo.schemeID,
+      unlockTime: unlock.unlockTime,
+      roundNumber: unlock.roundNumber,
+      ...(escrowSlot ? { escrow: escrowSlot } : {}),
+    },
+    timelocked,
+  };
 }
 
-function getDurationMs(config: EncryptionConfig | EncryptionConfigWithCustomDuration): number {
-  if (isCustomDurationConfig(config)) {
-    return config.durationMs;
-  }
-  return DURATION_MS[config.duration];
+export function withTag<T extends EncryptedData>(envelope: T, secret: Uint8Array): T {
+  return { ...envelope, tag: envelopeTag(envelope, secret) };
 }
 
+/**
+ * Resolve a duration, `unlockAt` time or explicit round against the beacon
+ * source's chain and clock, without encrypting anything. Returns the round
+ * `hybridEncrypt` would lock to and the time that round is published.
+ */
+export async function resolveUnlockTime(
+  spec: UnlockSpec,
+  options: HybridOptions = {}
+): Promise<ResolvedUnlock> {
+  const source = resolveBeaconSource(options, options.chain);
+  const chainInfo = await getChainInfo(source);
+  return resolveUnlock(spec, chainInfo, source.now(), options.maxHorizonMs);
+}
+
+/**
+ * Encrypt `data` behind both the password and the time-lock. The lock opens
+ * at the first drand round published at or after the requested time (or at
+ * `config.round`); the envelope reports that round and its release time.
+ * The envelope shape depends on `config.mode`; see `EncryptionMode`.
+ *
+ * With `config.recipients` instead of a password, the envelope gets one key
+ * slot per recipient and any one of them can decrypt; see
+ * `RecipientsEncryptionConfig`. With an escrow key (`options.escrowKey` or
+ * the deployment's), the envelope also gets an escrow slot; see
+ * `recoverWithEscrow`.
+ *
+ * `data` is a string, encrypted as its UTF-8 bytes, or binary data, whose
+ * bytes are preserved exactly. The whole payload is held in memory; use
+ * `encryptStream` or `encryptFile` for large inputs.
+ */
+export async function hybridEncrypt(
+  data: string | Uint8Array,
+  config: RecipientsEncryptionConfig,
+  options?: HybridOptions
+): Promise<MultiRecipientEncryptedData>;
 export async function hybridEncrypt(
-  data: string,
-  config: EncryptionConfig | EncryptionConfigWithCustomDuration
+  data: string | Uint8Array,
+  config: HybridEncryptionConfig & { mode: 'symmetric' },
+  options?: HybridOptions
+): Promise<SymmetricEncryptedData>;
+export async function hybridEncrypt(
+  data: string | Uint8Array,
+  config: HybridEncryptionConfig & { mode?: 'pgp' },
+  options?: HybridOptions
+): Promise<PgpEncryptedData>;
+export async function hybridEncrypt(
+  data: string | Uint8Array,
+  config: HybridEncryptionConfig | RecipientsEncryptionConfig,
+  options?: HybridOptions
+): Promise<EncryptedData>;
+export async function hybridEncrypt(
+  data: string | Uint8Array,
+  config: HybridEncryptionConfig | RecipientsEncryptionConfig,
+  options: HybridOptions = {}
 ): Promise<EncryptedData> {
-  const { privateKey, publicKey } = await generatePGPKeys(config.password);
+  if ('recipients' in config) {
+    return encryptToRecipients(data, config, options);
+  }
+
+  const mode = config.mode ?? 'pgp';
+  if (mode !== 'pgp' && mode !== 'symmetric') {
+    throw new TypeError(`Unknown encryption mode "${mode}" (expected pgp or symmetric)`);
+  }
+  if (mode === 'pgp' && config.kdf !== undefined) {
+    throw new TypeError('kdf only applies to symmetric mode');
+  }
+  if (mode === 'symmetric' && config.s2k !== undefined) {
+    throw new TypeError('s2k only applies to pgp mode');
+  }
+  if (mode === 'symmetric' && (config.keyProfile !== undefined || config.userIDs !== undefined)) {
+    throw new TypeError('keyProfile and userIDs only apply to pgp mode');
+  }
+  assertPassword(config.password, options.passwordPolicy);
 
+  const escrowKey = await resolveEscrowKey(options);
+  const source = resolveBeaconSource(options, options.chain);
+  const chainInfo = await getChainInfo(source);
+  const unlock = resolveUnlock(config, chainInfo, source.now(), options.maxHorizonMs);
+
+  if (mode === 'symmetric') {
+    const { dataKey, kdf, salt, wrappedKey } = await createDataKey(config.password, config.kdf);
+    const { header, timelocked } = await lockSecret(
+      wrappedKey,
+      unlock,
+      source,
+      chainInfo,
+      escrowKey && { key: escrowKey, payloadKey: { dataKey } }
+    );
+
+    return withTag(
+      {
+        ...header,
+        mode,
+        kdf,
+        salt,
+        encryptedData: await encryptPayload(dataKey, data),
+        timelockedKey: timelocked,
+      },
+      wrappedKey
+    );
+  }
+
+  const keyProfile = config.keyProfile ?? DEFAULT_KEY_PROFILE;
+  const s2k = resolveS2kParams(config.s2k);
+  const { keyPool } = options;
+  const { privateKey, publicKey } =
+    keyPool && keyPool.profile === keyProfile && !config.userIDs
+      ? await keyPool.take(config.password, s2k)
+      : await generatePGPKeys(config.password, keyProfile, config.userIDs, s2k);
+
+  const encryptionKeys = await openpgp.readKey({ armoredKey: publicKey });
+  // The escrow slot gets the message's session key, which opens the payload without the private key
+  const sessionKey = escrowKey && (await openpgp.generateSessionKey({ encryptionKeys }));
   const encrypted = await openpgp.encrypt({
-    message: await openpgp.createMessage({ text: data }),
-    encryptionKeys: await openpgp.readKey({ armoredKey: publicKey }),
+    message: await openpgp.createMessage({
+      binary: typeof data === 'string' ? new TextEncoder().encode(data) : data,
+    }),
+    encryptionKeys,
+    sessionKey,
   });
 
-  const durationMs = getDurationMs(config);
-  const unlockTime = new Date(Date.now() + durationMs);
-
   const privateKeyBytes = new TextEncoder().encode(privateKey);
-  const { encrypted: timelockedKey, roundNumber } = await encryptWithTimelock(
+  const { header, timelocked } = await lockSecret(
     privateKeyBytes,
-    unlockTime
+    unlock,
+    source,
+    chainInfo,
+    escrowKey && sessionKey && { key: escrowKey, payloadKey: { sessionKey } }
   );
 
-  return {
-    publicKey,
-    encryptedData: encrypted,
-    timelockedPrivateKey: timelockedKey,
-    unlockTime,
-    roundNumber,
-  };
+  return withTag(
+    {
+      ...header,
+      mode,
+      keyAlgorithm: keyProfile,
+      publicKey,
+      s2k,
+      encryptedData: encrypted,
+      timelockedPrivateKey: timelocked,
+    },
+    privateKeyBytes
+  );
 }
 
-export async function hybridDecrypt(
-  encryptedData: EncryptedData,
+async function encryptToRecipients(
+  data: string | Uint8Array,
+  config: RecipientsEncryptionConfig,
+  options: HybridOptions
+): Promise<MultiRecipientEncryptedData> {
+  const { password, mode, keyProfile, userIDs, s2k } = config as Partial<BaseEncryptionConfig>;
+  if (password !== undefined) {
+    throw new TypeError('Give either a password or recipients, not both');
+  }
+  if ([mode, keyProfile, userIDs, s2k].some((value) => value !== undefined)) {
+    throw new TypeError(
+      'mode, keyProfile, userIDs and s2k do not apply to multi-recipient envelopes'
+    );
+  }
+  // Checked before any slot is created, as each password slot runs the KDF
+  const recipients = Array.isArray(config.recipients) ? config.recipients : [];
+  for (const [i, recipient] of recipients.entries()) {
+    if ('password' in recipient) {
+      assertPassword(recipient.password, options.passwordPolicy, `Password of recipient ${i + 1}`);
+    }
+  }
+
+  const escrowKey = await resolveEscrowKey(options);
+  const source = resolveBeaconSource(options, options.chain);
+  const chainInfo = await getChainInfo(source);
+  const unlock = resolveUnlock(config, chainInfo, source.now(), options.maxHorizonMs);
+
+  const dataKey = randomBytes(KEY_LENGTH);
+  const { slots, secret } = await createKeySlots(dataKey, config.recipients, config.kdf);
+  const { header, timelocked } = await lockSecret(
+    secret,
+    unlock,
+    source,
+    chainInfo,
+    escrowKey && { key: escrowKey, payloadKey: { dataKey } }
+  );
+
+  return withTag(
+    {
+      ...header,
+      mode: 'multi',
+      slots,
+      encryptedData: await encryptPayload(dataKey, data),
+      timelockedKey: timelocked,
+    },
+    secret
+  );
+}
+
+/**
+ * Read a time-locked private key and decrypt it with the envelope's
+ * password. A wrong password is an `InvalidPasswordError`.
+ */
+export async function unlockPrivateKey(
+  armoredKey: string,
   password: string
-): Promise<string> {
-  // Decrypt time-locked private key
-  const privateKeyBytes = await decryptWithTimelock(encryptedData.timelockedPrivateKey);
-  const privateKey = new TextDecoder().decode(privateKeyBytes);
-  
-  // Decrypt the data
-  const message = await openpgp.readMessage({
-    armoredMessage: encryptedData.encryptedData
-  });
-  
-  const { data: decrypted } = await openpgp.decrypt({
-    message,
-    decryptionKeys: await openpgp.decryptKey({
-      privateKey: await openpgp.readPrivateKey({ armoredKey: privateKey }),
-      passphrase: password
-    })
-  });
-  
-  return decrypted;
-}
\ No newline at end of file
+): Promise<openpgp.PrivateKey> {
+  let privateKey: openpgp.PrivateKey;
+  try {
+    privateKey = await openpgp.readPrivateKey({ armoredKey });
+  } catch (err) {
+    throw new IntegrityError('Time-locked private key is corrupted', err);
+  }
+
+  try {
+    return await openpgp.decryptKey({ privateKey, passphrase: password });
+  } catch (err) {
+    if (err instanceof Error && /incorrect key passphrase/i.test(err.message)) {
+      throw new InvalidPasswordError('Incorrect password', err);
+    }
+    throw new IntegrityError('Time-locked private key is corrupted', err);
+  }
+}
+
+/**
+ * Check an envelope against its chain and open its time-lock, the steps
+ * every decryption takes before the password is used. Returns the secret
+ * the envelope time-locked: its wrapped data key, or in `pgp` mode its
+ * armored private key.
+ */
+export async function unlockSecret(
+  envelope: EncryptedData,
+  options: HybridOptions = {}
+): Promise<Uint8Array> {
+  const source = await resolveDecryptionSource(options, envelope.chainHash);
+  const chainInfo = await getChainInfo(source);
+  assertEnvelopeChain(envelope, chainInfo);
+  assertEnvelopeMetadata(envelope, chainInfo);
+
+  return openSecret(envelope, await decryptWithTimelock(timelockedSecret(envelope), source));
+}
+
+async function decryptPgpPayload(
+  envelope: PgpEncryptedData,
+  privateKeyBytes: Uint8Array,
+  password: string
+): Promise<Uint8Array> {
+  const privateKey = await unlockPrivateKey(
+    new TextDecoder().decode(privateKeyBytes),
+    password
+  );
+
+  try {
+    const message = await openpgp.readMessage({
+      armoredMessage: envelope.encryptedData
+    });
+
+    if (envelope.version < BINARY_PGP_VERSION) {
+      // Older envelopes hold text literal data, whose line endings OpenPGP
+      // normalizes; decode it as text to get back what was encrypted
+      const { data } = await openpgp.decrypt({ message, decryptionKeys: privateKey });
+      return new TextEncoder().encode(data);
+    }
+
+    const { data } = await openpgp.decrypt({
+      message,
+      decryptionKeys: privateKey,
+      format: 'binary'
+    });
+    return data;
+  } catch (err) {
+    throw new IntegrityError('Encrypted data is corrupted or was tampered with', err);
+  }
+}
+
+/**
+ * Decrypt an envelope, given either as an `EncryptedData` object or in the
+ * JSON/armored form produced by `serializeEnvelope`. The encryption mode is
+ * read from the envelope, and so is its drand chain, which must be
+ * registered unless `options.beaconSource` is given. The envelope's metadata
+ * is checked as by `verifyEnvelope` before the password is used. With `options.beacon`,
+ * decryption uses that exported beacon and needs no network access.
+ *
+ * Returns the payload as a string, or as bytes with `format: 'binary'`.
+ * Envelopes of streamed payloads are rejected; use `decryptStream`. So are
+ * envelopes shared among trustees; use `decryptWithShares`.
+ *
+ * A staged envelope (see `encryptInStages`) opens once its first stage's
+ * round is published, and returns the stages open so far, with their
+ * payloads, and the schedule of the rest. A serialized envelope may be
+ * staged, so its result is either form. Stages open in order: a later stage
+ * whose round is not yet published, or with `options.beacon` is another
+ * round than the beacon's, is pending, and so are the stages after it.
+ *
+ * Failures are reported as `TimelockNotExpiredError`, `InvalidPasswordError`,
+ * `IntegrityError`, `BeaconUnavailableError` or `EnvelopeError`.
+ */
+export async function hybridDecrypt(
+  envelope: StagedEncryptedData,
+  password: string,
+  options: HybridOptions & { format: 'binary' }
+): Promise<StagedPayload<Uint8Array>>;
+export async function hybridDecrypt(
+  envelope: StagedEncryptedData,
+  password: string,
+  options?: HybridOptions & { format?: 'utf8' }
+): Promise<StagedPayload<string>>;
+export async function hybridDecrypt(
+  envelope: UnstagedEncryptedData,
+  password: string,
+  options: HybridOptions & { format: 'binary' }
+): Promise<Uint8Array>;
+export async function hybridDecrypt(
+  envelope: UnstagedEncryptedData,
+  password: string,
+  options?: HybridOptions & { format?: 'utf8' }
+): Promise<string>;
+export async function hybridDecrypt(
+  envelope: UnstagedEncryptedData,
+  password: string,
+  options?: HybridOptions
+): Promise<string | Uint8Array>;
+export async function hybridDecrypt(
+  envelope: string,
+  password: string,
+  options: HybridOptions & { format: 'binary' }
+): Promise<Uint8Array | StagedPayload<Uint8Array>>;
+export async function hybridDecrypt(
+  envelope: string,
+  password: string,
+  options?: HybridOptions & { format?: 'utf8' }
+): Promise<string | StagedPayload<string>>;
+export async function hybridDecrypt(
+  envelope: EncryptedData | string,
+  password: string,
+  options?: HybridOptions
+): Promise<string | Uint8Array | StagedPayload>;
+export async function hybridDecrypt(
+  envelope: EncryptedData | string,
+  password: string,
+  options: HybridOptions = {}
+): Promise<string | Uint8Array | StagedPayload> {
+  const format = payloadFormat(options);
+  const encryptedData = normalizeEnvelope(envelope);
+  if (encryptedData.mode === 'staged') {
+    return decryptStages(encryptedData, password, format, options);
+  }
+  if (encryptedData.mode === 'stream') {
+    throw new EnvelopeError(
+      'Envelope is the header of a streamed payload; decrypt it with decryptStream or decryptFile'
+    );
+  }
+  if (encryptedData.mode === 'shared') {
+    throw new EnvelopeError(
+      'Envelope is shared among trustees; decrypt it with releaseShare and decryptWithShares'
+    );
+  }
+  if (
+    encryptedData.mode === 'multi' &&
+    !encryptedData.slots.some((slot) => slot.type === 'password')
+  ) {
+    throw new EnvelopeError('Envelope has no password key slots; decrypt it with decryptWithKey');
+  }
+
+  const secret = await unlockSecret(encryptedData, options);
+  let plaintext: Uint8Array;
+  if (encryptedData.mode === 'symmetric') {
+    plaintext = await decryptSymmetric(
+      encryptedData.encryptedData,
+      secret,
+      password,
+      encryptedData.kdf,
+      encryptedData.salt
+    );
+  } else if (encryptedData.mode === 'multi') {
+    const { slots } = encryptedData;
+    const dataKey = await openPasswordSlot(slots, readWrappedKeys(secret, slots), password);
+    plaintext = await decryptPayload(dataKey, encryptedData.encryptedData);
+  } else {
+    plaintext = await decryptPgpPayload(encryptedData, secret, password);
+  }
+
+  return decodePayload(plaintext, format);
+}
+
+function stageSchedule({ label, roundNumber, unlockTime }: StageSchedule): StageSchedule {
+  return { ...(label === undefined ? {} : { label }), roundNumber, unlockTime };
+}
+
+/**
+ * Open the first stage like any envelope, then every later stage whose
+ * round has been published, in order, and decrypt their payloads. A relay
+ * failure on a stage that is due is thrown rather than reported as pending.
+ */
+async function decryptStages(
+  envelope: StagedEncryptedData,
+  password: string,
+  format: PayloadFormat,
+  options: HybridOptions
+): Promise<StagedPayload> {
+  const secrets = [await unlockSecret(envelope, options)];
+  const source = await resolveDecryptionSource(options, envelope.chainHash);
+  for (const stage of envelope.stages.slice(1)) {
+    if (stage.unlockTime.getTime() > source.now()) break;
+    // an exported beacon opens only the stages of its own round
+    if (options.beacon && stage.roundNumber !== options.beacon.round) break;
+    try {
+      secrets.push(openStageSecret(await decryptWithTimelock(stage.timelockedKey, source)));
+    } catch (err) {
+      if (err instanceof TimelockNotExpiredError) break;
+      throw err;
+    }
+  }
+
+  const dataKeys = await unwrapKeys(secrets, password, envelope.kdf, envelope.salt);
+  const open: OpenStage[] = [];
+  for (const [i, dataKey] of dataKeys.entries()) {
+    const stage = envelope.stages[i];
+    const plaintext = await decryptPayload(dataKey, stage.encryptedData);
+    open.push({ ...stageSchedule(stage), data: decodePayload(plaintext, format) });
+  }
+  return { open, pending: envelope.stages.slice(open.length).map(stageSchedule) };
+}
+
+function payloadFormat(options: HybridOptions): PayloadFormat {
+  const format = options.format ?? 'utf8';
+  if (format !== 'utf8' && format !== 'binary') {
+    throw new TypeError(`Unknown payload format "${format}" (expected utf8 or binary)`);
+  }
+  return format;
+}
+
+function decodePayload(plaintext: Uint8Array, format: PayloadFormat): string | Uint8Array {
+  return format === 'binary' ? plaintext : new TextDecoder().decode(plaintext);
+}
+
+function multiRecipientEnvelope(envelope: EncryptedData | string): MultiRecipientEncryptedData {
+  const encryptedData = normalizeEnvelope(envelope);
+  if (encryptedData.mode !== 'multi') {
+    throw new EnvelopeError(
+      `Envelope has a single recipient (mode ${encryptedData.mode}), not key slots`
+    );
+  }
+  return encryptedData;
+}
+
+/**
+ * The key slots of a multi-recipient envelope, in order, without opening
+ * its time-lock: each slot's type, label, and KDF parameters or public key
+ * fingerprint.
+ */
+export function listKeySlots(envelope: EncryptedData | string): KeySlot[] {
+  return multiRecipientEnvelope(envelope).slots;
+}
+
+/**
+ * Decrypt a multi-recipient envelope with the OpenPGP private key of one of
+ * its public-key recipients. The key is matched to its slot by fingerprint
+ * before the time-lock is opened.
+ *
+ * Returns and fails as `hybridDecrypt`; a key that is not a recipient's, or
+ * a wrong passphrase, is an `InvalidPasswordError`.
+ */
+export async function decryptWithKey(
+  envelope: EncryptedData | string,
+  key: PrivateKeyCredential,
+  options: HybridOptions & { format: 'binary' }
+): Promise<Uint8Array>;
+export async function decryptWithKey(
+  envelope: EncryptedData | string,
+  key: PrivateKeyCredential,
+  options?: HybridOptions & { format?: 'utf8' }
+): Promise<string>;
+export async function decryptWithKey(
+  envelope: EncryptedData | string,
+  key: PrivateKeyCredential,
+  options?: HybridOptions
+): Promise<string | Uint8Array>;
+export async function decryptWithKey(
+  envelope: EncryptedData | string,
+  key: PrivateKeyCredential,
+  options: HybridOptions = {}
+): Promise<string | Uint8Array> {
+  const format = payloadFormat(options);
+  const encryptedData = multiRecipientEnvelope(envelope);
+  const privateKey = await readPrivateKey(key);
+  const index = findKeySlot(encryptedData.slots, privateKey);
+
+  const secret = await unlockSecret(encryptedData, options);
+  const wrappedKeys = readWrappedKeys(secret, encryptedData.slots);
+  const dataKey = await openKeySlot(wrappedKeys[index], privateKey);
+
+  return decodePayload(await decryptPayload(dataKey, encryptedData.encryptedData), format);
+}
@@ -0,0 +1,98 @@
+import * as openpgp from 'openpgp';
+import {
+  DEFAULT_KEY_PROFILE,
+  DEFAULT_USER_IDS,
+  generateUnprotectedPGPKey,
+  protectPGPKey,
+} from './pgp';
+import { KeyProfile, S2kParams, UserID } from '../types';
+
+export interface KeyPoolOptions {
+  /** Key profile of pooled keys (default: `rsa-2048`) */
+  profile?: KeyProfile;
+  /** User IDs bound to pooled keys */
+  userIDs?: UserID[];
+  /** Number of keys to keep ready (default: 4) */
+  size?: number;
+}
+
+/**
+ * Pre-generates OpenPGP keypairs in the background so that a burst of
+ * `hybridEncrypt` calls does not pay the key generation cost inline.
+ *
+ * Pooled keys are held unprotected in memory and encrypted with the
+ * caller's password when taken. Keys are generated one at a time to avoid
+ * starving the event loop; when the pool is empty, `take` generates inline.
+ */
+export class KeyPool {
+  readonly profile: KeyProfile;
+  readonly userIDs: UserID[];
+  readonly size: number;
+
+  private readonly keys: openpgp.PrivateKey[] = [];
+  private filling: Promise<void> | null = null;
+  private stopped = true;
+
+  constructor(options: KeyPoolOptions = {}) {
+    this.profile = options.profile ?? DEFAULT_KEY_PROFILE;
+    this.userIDs = options.userIDs ?? DEFAULT_USER_IDS;
+    this.size = options.size ?? 4;
+    if (!Number.isInteger(this.size) || this.size < 1) {
+      throw new RangeError('KeyPool size must be a positive integer');
+    }
+  }
+
+  /** Number of keys ready to be taken */
+  get available(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Start filling the pool in the background. Resolves once it is full.
+   */
+  start(): Promise<void> {
+    this.stopped = false;
+    return this.refill();
+  }
+
+  /**
+   * Stop background generation and discard pooled keys.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    await this.filling;
+    this.keys.length = 0;
+  }
+
+  /**
+   * Take a keypair protected with `password` (and `s2k`, see
+   * `protectPGPKey`), in the same armored shape as `generatePGPKeys`.
+   */
+  async take(
+    password: string,
+    s2k?: S2kParams
+  ): Promise<{ privateKey: string; publicKey: string }> {
+    const key =
+      this.keys.shift() ?? (await generateUnprotectedPGPKey(this.profile, this.userIDs));
+    if (!this.stopped) {
+      // A failed refill is retried on the next take, which falls back to inline generation
+      this.refill().catch(() => undefined);
+    }
+    return protectPGPKey(key, password, s2k);
+  }
+
+  private refill(): Promise<void> {
+    if (!this.filling) {
+      this.filling = (async () => {
+        try {
+          while (!this.stopped && this.keys.length < this.size) {
+            this.keys.push(await generateUnprotectedPGPKey(this.profile, this.userIDs));
+          }
+        } finally {
+          this.filling = null;
+        }
+      })();
+    }
+    return this.filling;
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Multi-Recipient Test Suite for HTLE Framework
+ *
+ * These tests validate envelopes with one key slot per recipient:
+ * - Any password or OpenPGP key recipient decrypts after the unlock round
+ * - One time-locked layer is shared by every slot
+ * - Slots are listed without a password, and edits to them are detected
+ * - Wrong passwords, foreign keys and locked keys are rejected
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import * as openpgp from 'openpgp';
+import { hybridEncrypt, hybridDecrypt, decryptWithKey, listKeySlots } from './hybrid';
+import { generatePGPKeys } from './pgp';
+import { serializeEnvelope } from './envelope';
+import { LocalDrandChain } from './local-chain';
+import {
+  EnvelopeError,
+  IntegrityError,
+  InvalidPasswordError,
+  TimelockNotExpiredError,
+} from './errors';
+import { MultiRecipientEncryptedData } from '../types';
+import { TEST_PASSWORD, TEST_PLAINTEXT, WRONG_PASSWORD } from '../test-utils';
+
+describe('HTLE Multi-Recipient Envelopes', () => {
+  const kdf = { algorithm: 'scrypt', N: 2 ** 10 } as const;
+  const OTHER_PASSWORD = 'another-secure-password';
+
+  let carol: { privateKey: string; publicKey: string };
+  let dave: { privateKey: string; publicKey: string };
+  let chain: LocalDrandChain;
+  let envelope: MultiRecipientEncryptedData;
+
+  beforeAll(async () => {
+    // carol's key is locked with a passphrase, dave's is not
+    carol = await generatePGPKeys(TEST_PASSWORD, 'curve25519');
+    dave = await openpgp.generateKey({
+      type: 'ecc',
+      curve: 'curve25519Legacy',
+      userIDs: [{ name: 'Dave' }],
+      format: 'armored',
+    });
+  });
+
+  beforeEach(async () => {
+    chain = new LocalDrandChain();
+    envelope = await hybridEncrypt(
+      TEST_PLAINTEXT,
+      {
+        recipients: [
+          { label: 'alice', password: TEST_PASSWORD },
+          { label: 'bob', password: OTHER_PASSWORD },
+          { label: 'carol', publicKey: carol.publicKey },
+          { publicKey: dave.publicKey },
+        ],
+        duration: 'min',
+        kdf,
+      },
+      { beaconSource: chain }
+    );
+  });
+
+  it('should list the key slots without a password', async () => {
+    const slots = listKeySlots(serializeEnvelope(envelope, 'armor'));
+    const carolKey = await openpgp.readKey({ armoredKey: carol.publicKey });
+
+    expect(envelope.mode).toBe('multi');
+    expect(slots.map((slot) => [slot.type, slot.label])).toEqual([
+      ['password', 'alice'],
+      ['password', 'bob'],
+      ['publicKey', 'carol'],
+      ['publicKey', undefined],
+    ]);
+    expect(slots[2]).toMatchObject({ fingerprint: carolKey.getFingerprint() });
+    expect(slots[0]).toMatchObject({ kdf: { algorithm: 'scrypt', N: 2 ** 10 } });
+    const salts = slots.flatMap((slot) => (slot.type === 'password' ? [slot.salt] : []));
+    expect(new Set(salts).size).toBe(2);
+  });
+
+  it('should let any password recipient decrypt after the unlock round', async () => {
+    await expect(
+      hybridDecrypt(envelope, TEST_PASSWORD, { beaconSource: chain })
+    ).rejects.toThrow(TimelockNotExpiredError);
+    chain.advanceTo(envelope.unlockTime);
+
+    expect(await hybridDecrypt(envelope, TEST_PASSWORD, { beaconSource: chain })).toBe(
+      TEST_PLAINTEXT
+    );
+    expect(await hybridDecrypt(envelope, OTHER_PASSWORD, { beaconSource: chain })).toBe(
+      TEST_PLAINTEXT
+    );
+    await expect(hybridDecrypt(envelope, WRONG_PASSWORD, { beaconSource: chain })).rejects.toThrow(
+      InvalidPasswordError
+    );
+  });
+
+  it('should let any public key recipient decrypt after the unlock round', async () => {
+    const carolKey = { privateKey: carol.privateKey, passphrase: TEST_PASSWORD };
+    await expect(decryptWithKey(envelope, carolKey, { beaconSource: chain })).rejects.toThrow(
+      TimelockNotExpiredError
+    );
+    chain.advanceTo(envelope.unlockTime);
+
+    expect(await decryptWithKey(envelope, carolKey, { beaconSource: chain })).toBe(TEST_PLAINTEXT);
+    expect(
+      await decryptWithKey(
+        serializeEnvelope(envelope),
+        { privateKey: dave.privateKey },
+        { beaconSource: chain, format: 'binary' }
+      )
+    ).toEqual(new TextEncoder().encode(TEST_PLAINTEXT));
+  });
+
+  it('should reject keys that are locked, mistyped or not a recipient', async () => {
+    chain.advanceTo(envelope.unlockTime);
+    const stranger = await generatePGPKeys(TEST_PASSWORD, 'curve25519');
+    const decrypt = (privateKey: string, passphrase?: string) =>
+      decryptWithKey(envelope, { privateKey, passphrase }, { beaconSource: chain });
+
+    await expect(decrypt(carol.privateKey)).rejects.toThrow('give its passphrase');
+    await expect(decrypt(carol.privateKey, WRONG_PASSWORD)).rejects.toThrow(InvalidPasswordError);
+    await expect(decrypt(stranger.privateKey, TEST_PASSWORD)).rejects.toThrow(
+      'No key slot is for the private key'
+    );
+    await expect(decrypt('not a key')).rejects.toThrow(TypeError);
+  });
+
+  it('should share one time-locked layer among all slots', () => {
+    const armored = envelope.timelockedKey.match(/-----BEGIN AGE ENCRYPTED FILE-----/g);
+
+    expect(armored).toHaveLength(1);
+    expect(serializeEnvelope(envelope)).not.toContain(TEST_PASSWORD);
+  });
+
+  it('should detect edited slots once the lock opens', async () => {
+    chain.advanceTo(envelope.unlockTime);
+    const relabelled = {
+      ...envelope,
+      slots: envelope.slots.map((slot, i) => (i === 0 ? { ...slot, label: 'mallory' } : slot)),
+    };
+
+    await expect(
+      hybridDecrypt(relabelled, TEST_PASSWORD, { beaconSource: chain })
+    ).rejects.toThrow(IntegrityError);
+  });
+
+  it('should route envelopes to the matching decryption API', async () => {
+    const keysOnly = await hybridEncrypt(
+      TEST_PLAINTEXT,
+      { recipients: [{ publicKey: dave.publicKey }], duration: 'min' },
+      { beaconSource: chain }
+    );
+    const single = await hybridEncrypt(
+      TEST_PLAINTEXT,
+      { password: TEST_PASSWORD, duration: 'min', mode: 'symmetric', kdf },
+      { beaconSource: chain }
+    );
+
+    await expect(hybridDecrypt(keysOnly, TEST_PASSWORD, { beaconSource: chain })).rejects.toThrow(
+      EnvelopeError
+    );
+    expect(() => listKeySlots(single)).toThrow(EnvelopeError);
+    await expect(
+      decryptWithKey(single, { privateKey: dave.privateKey }, { beaconSource: chain })
+    ).rejects.toThrow(EnvelopeError);
+  });
+
+  it('should validate the recipients', async () => {
+    const options = { beaconSource: chain };
+
+    await expect(
+      hybridEncrypt('x', { recipients: [], duration: 'min' }, options)
+    ).rejects.toThrow('At least one recipient');
+    await expect(
+      hybridEncrypt('x', { recipients: [{ publicKey: 'not a key' }], duration: 'min' }, options)
+    ).rejects.toThrow('Recipient 1: not a usable OpenPGP public key');
+    await expect(
+      hybridEncrypt(
+        'x',
+        { recipients: [{ password: 'p' }], password: 'p', duration: 'min' } as never,
+        options
+      )
+    ).rejects.toThrow('either a password or recipients');
+    await expect(
+      hybridEncrypt(
+        'x',
+        { recipients: [{ password: 'p' }], mode: 'pgp', duration: 'min' } as never,
+        options
+      )
+    ).rejects.toThrow(TypeError);
+  });
+});
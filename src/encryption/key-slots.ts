@@ -0,0 +1,190 @@
+import * as openpgp from 'openpgp';
+import { Buffer } from 'tlock-js';
+import { z } from 'zod';
+import { resolveKdfParams, wrapKey, unwrapDataKey } from './symmetric';
+import { IntegrityError, InvalidPasswordError } from './errors';
+import { KdfConfig, KeySlot, PrivateKeyCredential, Recipient } from '../types';
+
+/**
+ * Key slots of multi-recipient envelopes. Each slot wraps the same data key
+ * for one recipient: with a key derived from their password, or by OpenPGP
+ * encryption to their public key. The slots' public parts go into the
+ * envelope; the wrapped keys are time-locked together by the caller.
+ */
+
+/**
+ * Most slots an envelope may have. Decryption may try every password slot,
+ * so this bounds the KDF work a crafted envelope can cause.
+ */
+export const MAX_KEY_SLOTS = 32;
+
+const wrappedKeysSchema = z.object({ wrappedKeys: z.array(z.string().min(1)) });
+
+/**
+ * Wrap `dataKey` for each recipient. Returns the slots' public parts and
+ * the time-locked secret holding the wrapped keys, in slot order.
+ */
+export async function createKeySlots(
+  dataKey: Uint8Array,
+  recipients: Recipient[],
+  kdf?: KdfConfig
+): Promise<{ slots: KeySlot[]; secret: Uint8Array }> {
+  if (!Array.isArray(recipients) || recipients.length === 0) {
+    throw new TypeError('At least one recipient is required');
+  }
+  if (recipients.length > MAX_KEY_SLOTS) {
+    throw new RangeError(`At most ${MAX_KEY_SLOTS} recipients are supported`);
+  }
+  const kdfParams = resolveKdfParams(kdf);
+
+  const slots: KeySlot[] = [];
+  const wrappedKeys: string[] = [];
+  // One at a time: each KDF run may take a large amount of memory
+  for (const [i, recipient] of recipients.entries()) {
+    if (recipient.label === '') {
+      throw new TypeError(`Recipient ${i + 1}: label must not be empty`);
+    }
+    const label = recipient.label === undefined ? {} : { label: recipient.label };
+
+    if ('password' in recipient) {
+      const { salt, wrappedKey } = await wrapKey(dataKey, recipient.password, kdfParams);
+      slots.push({ type: 'password', ...label, kdf: kdfParams, salt });
+      wrappedKeys.push(Buffer.from(wrappedKey).toString('base64'));
+      continue;
+    }
+
+    let publicKey: openpgp.Key;
+    let message: string;
+    try {
+      publicKey = await openpgp.readKey({ armoredKey: recipient.publicKey });
+      message = await openpgp.encrypt({
+        message: await openpgp.createMessage({ binary: dataKey }),
+        encryptionKeys: publicKey,
+      });
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new TypeError(`Recipient ${i + 1}: not a usable OpenPGP public key (${reason})`);
+    }
+    slots.push({ type: 'publicKey', ...label, fingerprint: publicKey.getFingerprint() });
+    wrappedKeys.push(message);
+  }
+
+  return { slots, secret: writeWrappedKeys(wrappedKeys) };
+}
+
+/** The time-locked secret holding `wrappedKeys`, in slot order */
+export function writeWrappedKeys(wrappedKeys: string[]): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify({ wrappedKeys }));
+}
+
+/** Read the wrapped keys out of an opened time-locked secret */
+export function readWrappedKeys(secret: Uint8Array, slots: KeySlot[]): string[] {
+  let parsed;
+  try {
+    parsed = wrappedKeysSchema.safeParse(JSON.parse(new TextDecoder().decode(secret)));
+  } catch (err) {
+    throw new IntegrityError('Time-locked key slots are corrupted', err);
+  }
+  if (!parsed.success || parsed.data.wrappedKeys.length !== slots.length) {
+    throw new IntegrityError('Time-locked key slots are corrupted');
+  }
+  return parsed.data.wrappedKeys;
+}
+
+/**
+ * Unwrap the data key with `password`, trying each password slot in turn.
+ */
+export async function openPasswordSlot(
+  slots: KeySlot[],
+  wrappedKeys: string[],
+  password: string
+): Promise<Uint8Array> {
+  return (await findPasswordSlot(slots, wrappedKeys, password)).dataKey;
+}
+
+/**
+ * Like `openPasswordSlot`, but also returns the index of the slot that
+ * `password` opened.
+ */
+export async function findPasswordSlot(
+  slots: KeySlot[],
+  wrappedKeys: string[],
+  password: string
+): Promise<{ index: number; dataKey: Uint8Array }> {
+  for (const [index, slot] of slots.entries()) {
+    if (slot.type !== 'password') {
+      continue;
+    }
+    try {
+      const wrappedKey = Buffer.from(wrappedKeys[index], 'base64');
+      return { index, dataKey: await unwrapDataKey(wrappedKey, password, slot.kdf, slot.salt) };
+    } catch (err) {
+      if (!(err instanceof InvalidPasswordError)) {
+        throw err;
+      }
+    }
+  }
+  throw new InvalidPasswordError('Incorrect password: it opens none of the key slots');
+}
+
+/**
+ * Index of the slot for `privateKey`, matched by its primary key fingerprint.
+ */
+export function findKeySlot(slots: KeySlot[], privateKey: openpgp.PrivateKey): number {
+  const fingerprint = privateKey.getFingerprint();
+  const index = slots.findIndex(
+    (slot) => slot.type === 'publicKey' && slot.fingerprint === fingerprint
+  );
+  if (index === -1) {
+    throw new InvalidPasswordError(`No key slot is for the private key ${fingerprint}`);
+  }
+  return index;
+}
+
+/**
+ * Decrypt the data key of a public-key slot with the recipient's unlocked
+ * private key.
+ */
+export async function openKeySlot(
+  wrappedKey: string,
+  privateKey: openpgp.PrivateKey
+): Promise<Uint8Array> {
+  try {
+    const { data } = await openpgp.decrypt({
+      message: await openpgp.readMessage({ armoredMessage: wrappedKey }),
+      decryptionKeys: privateKey,
+      format: 'binary',
+    });
+    return data;
+  } catch (err) {
+    throw new IntegrityError('Time-locked key slot is corrupted', err);
+  }
+}
+
+/**
+ * Read an armored OpenPGP private key and unlock it with its passphrase if
+ * it is locked. A missing or wrong passphrase is an `InvalidPasswordError`.
+ */
+export async function readPrivateKey({
+  privateKey,
+  passphrase,
+}: PrivateKeyCredential): Promise<openpgp.PrivateKey> {
+  let key: openpgp.PrivateKey;
+  try {
+    key = await openpgp.readPrivateKey({ armoredKey: privateKey });
+  } catch {
+    throw new TypeError('privateKey is not an armored OpenPGP private key');
+  }
+  if (key.isDecrypted()) {
+    return key;
+  }
+  if (passphrase === undefined) {
+    throw new InvalidPasswordError('The private key is locked; give its passphrase');
+  }
+
+  try {
+    return await openpgp.decryptKey({ privateKey: key, passphrase });
+  } catch (err) {
+    throw new InvalidPasswordError('Incorrect passphrase for the private key', err);
+  }
+}
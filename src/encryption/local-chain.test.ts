@@ -0,0 +1,67 @@
+/**
+ * Local Chain Test Suite for HTLE Framework
+ *
+ * These tests validate the in-process drand stand-in used by the other suites:
+ * - Beacons are real BLS signatures that verify like relay beacons
+ * - Rounds are only published once the local clock reaches them
+ * - Ciphertexts are bound to the chain they were encrypted for
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fetchBeacon } from 'drand-client';
+import { roundAt, roundTime } from 'tlock-js';
+import { LocalDrandChain } from './local-chain';
+import { encryptWithTimelock, decryptWithTimelock } from './timelock';
+import { DRAND_PERIOD_MS } from '../test-utils';
+
+describe('LocalDrandChain', () => {
+  it('should produce beacons that pass drand-client verification', async () => {
+    const chain = new LocalDrandChain();
+    chain.advance(10 * DRAND_PERIOD_MS);
+
+    const beacon = await fetchBeacon(chain, 5);
+    expect(beacon.round).toBe(5);
+    expect(beacon.signature).toHaveLength(96);
+
+    const latest = await chain.latest();
+    expect(latest.round).toBe(roundAt(chain.now(), chain.chainInfo));
+  });
+
+  it('should only publish rounds the clock has reached', async () => {
+    const chain = new LocalDrandChain({ startTime: 1_700_000_000_000 });
+    const round = roundAt(chain.now() + 30_000, chain.chainInfo);
+
+    await expect(chain.get(round)).rejects.toThrow('has not been published yet');
+    chain.advance(30_000);
+    await expect(chain.get(round)).resolves.toMatchObject({ round });
+  });
+
+  it('should never move the clock backwards', () => {
+    const chain = new LocalDrandChain({ startTime: 1_700_000_000_000 });
+
+    expect(() => chain.advance(-1)).toThrow(RangeError);
+    chain.advanceTo(0);
+    expect(chain.now()).toBe(1_700_000_000_000);
+  });
+
+  it('should refuse to decrypt ciphertexts locked to a different chain', async () => {
+    const chain = new LocalDrandChain();
+    const other = new LocalDrandChain();
+    const unlockDate = new Date(chain.now() + DRAND_PERIOD_MS);
+
+    const { encrypted, roundNumber } = await encryptWithTimelock(
+      new Uint8Array([1, 2, 3]),
+      unlockDate,
+      chain
+    );
+    const releaseTime = roundTime(chain.chainInfo, roundNumber);
+    expect(releaseTime).toBeGreaterThanOrEqual(unlockDate.getTime());
+    chain.advanceTo(releaseTime);
+    other.advanceTo(releaseTime);
+
+    await expect(decryptWithTimelock(encrypted, other)).rejects.toThrow(
+      `Ciphertext is locked to chain ${chain.chainInfo.hash}`
+    );
+    expect(Array.from(await decryptWithTimelock(encrypted, chain))).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,118 @@
+import { bls12_381 } from '@noble/curves/bls12-381';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { Chain, ChainOptions, RandomnessBeacon } from 'drand-client';
+import { roundAt, roundTime, ChainInfo, Buffer } from 'tlock-js';
+
+import { BeaconSource } from '../types';
+
+/** Domain separation tag of the `bls-unchained-g1-rfc9380` scheme */
+const G1_RFC9380_DST = 'BLS_SIG_BLS12381G1_XMD:SHA-256_SSWU_RO_NUL_';
+
+export interface LocalDrandChainOptions {
+  /** Seconds between rounds (default: 3, as on quicknet) */
+  period?: number;
+  /** Initial clock value in milliseconds (default: `Date.now()`) */
+  startTime?: number;
+  /** Genesis time in seconds (default: the start time, rounded down) */
+  genesisTime?: number;
+}
+
+/**
+ * In-process stand-in for a drand network, for offline tests and demos.
+ *
+ * It generates its own BLS keypair and signs any round that has been reached
+ * using the `bls-unchained-g1-rfc9380` scheme (as quicknet does), so tlock
+ * ciphertexts and beacons are real and verify normally. Its clock only moves
+ * when `advance` or `advanceTo` is called.
+ */
+export class LocalDrandChain implements BeaconSource {
+  readonly options: ChainOptions;
+  readonly chainInfo: ChainInfo;
+
+  private readonly secretKey: Uint8Array;
+  private readonly localChain: Chain;
+  private currentTime: number;
+
+  constructor(options: LocalDrandChainOptions = {}) {
+    const period = options.period ?? 3;
+    this.currentTime = options.startTime ?? Date.now();
+    const genesisTime = options.genesisTime ?? Math.floor(this.currentTime / 1000);
+
+    this.secretKey = bls12_381.utils.randomSecretKey();
+    const publicKey = bls12_381.shortSignatures.getPublicKey(this.secretKey).toHex(true);
+    const hash = bytesToHex(sha256(`${publicKey}:${period}:${genesisTime}`));
+
+    this.chainInfo = {
+      public_key: publicKey,
+      period,
+      genesis_time: genesisTime,
+      hash,
+      groupHash: bytesToHex(sha256(publicKey)),
+      schemeID: 'bls-unchained-g1-rfc9380',
+      metadata: { beaconID: 'local' },
+    };
+    this.options = {
+      disableBeaconVerification: false,
+      noCache: false,
+      chainVerificationParams: { chainHash: hash, publicKey },
+    };
+
+    const chainInfo = this.chainInfo;
+    this.localChain = {
+      baseUrl: `local://${hash}`,
+      info: async () => chainInfo,
+    };
+  }
+
+  now(): number {
+    return this.currentTime;
+  }
+
+  /**
+   * Move the clock forward by `ms` milliseconds.
+   */
+  advance(ms: number): void {
+    if (!Number.isFinite(ms) || ms < 0) {
+      throw new RangeError('LocalDrandChain clock can only move forward');
+    }
+    this.currentTime += ms;
+  }
+
+  /**
+   * Move the clock forward to `time`; does nothing if it is already later.
+   */
+  advanceTo(time: Date | number): void {
+    const target = typeof time === 'number' ? time : time.getTime();
+    this.currentTime = Math.max(this.currentTime, target);
+  }
+
+  chain(): Chain {
+    return this.localChain;
+  }
+
+  async get(roundNumber: number): Promise<RandomnessBeacon> {
+    if (roundNumber < 1 || roundTime(this.chainInfo, roundNumber) > this.currentTime) {
+      throw new Error(`Round ${roundNumber} has not been published yet`);
+    }
+    return this.sign(roundNumber);
+  }
+
+  async latest(): Promise<RandomnessBeacon> {
+    return this.sign(roundAt(this.currentTime, this.chainInfo));
+  }
+
+  private sign(roundNumber: number): RandomnessBeacon {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(roundNumber));
+
+    const point = bls12_381.shortSignatures.hash(sha256(message), G1_RFC9380_DST);
+    const signature = bls12_381.shortSignatures.sign(point, this.secretKey).toHex(true);
+
+    return {
+      round: roundNumber,
+      signature,
+      randomness: bytesToHex(sha256(Buffer.from(signature, 'hex'))),
+    };
+  }
+}
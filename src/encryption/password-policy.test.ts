@@ -0,0 +1,180 @@
+/**
+ * Password Hardening Test Suite for HTLE Framework
+ *
+ * These tests validate the defences against offline guessing after unlock:
+ * - Password policies: length, entropy estimate, denylist and custom rules
+ * - Every way of setting a password checks it before encrypting
+ * - OpenPGP S2K selection, validation and its record in the envelope
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { checkPassword, estimateEntropy, RECOMMENDED_PASSWORD_POLICY } from './password-policy';
+import { resolveS2kParams, DEFAULT_ARGON2_S2K_PARAMS, DEFAULT_ITERATED_S2K_PARAMS } from './pgp';
+import { hybridEncrypt, hybridDecrypt } from './hybrid';
+import { encryptForTrustees } from './trustees';
+import { changePassword } from './relock';
+import { parseEnvelope, serializeEnvelope } from './envelope';
+import { LocalDrandChain } from './local-chain';
+import { WeakPasswordError } from './errors';
+import { TEST_PASSWORD, TEST_PLAINTEXT } from '../test-utils';
+
+describe('HTLE Password Hardening', () => {
+  const kdf = { algorithm: 'scrypt', N: 2 ** 10 } as const;
+
+  let chain: LocalDrandChain;
+
+  beforeEach(() => {
+    chain = new LocalDrandChain();
+  });
+
+  describe('Password Policy', () => {
+    it('should accept any non-empty password by default', () => {
+      expect(checkPassword('p')).toEqual([]);
+      expect(checkPassword('')).toEqual(['it is empty']);
+    });
+
+    it('should give a reason for every rule a password breaks', () => {
+      expect(checkPassword('Password', RECOMMENDED_PASSWORD_POLICY)).toEqual([
+        'it has 8 characters, at least 12 are required',
+        'it is on the list of denied passwords',
+        'it is too predictable (about 39 bits of entropy, at least 60 are required)',
+      ]);
+      expect(checkPassword('correct-Horse-7-battery', RECOMMENDED_PASSWORD_POLICY)).toEqual([]);
+    });
+
+    it('should estimate entropy from character classes and repeats', () => {
+      expect(estimateEntropy('')).toBe(0);
+      expect(estimateEntropy('aaaaaaaaaaaa')).toBeCloseTo(Math.log2(26));
+      expect(estimateEntropy('abcd')).toBeCloseTo(4 * Math.log2(26));
+      expect(estimateEntropy('aB3!')).toBeCloseTo(4 * Math.log2(95));
+    });
+
+    it('should apply a custom rule', () => {
+      const policy = {
+        validate: (password: string) =>
+          password.includes('acme') ? 'it contains the company name' : undefined,
+      };
+
+      expect(checkPassword('acme-2026-spring', policy)).toEqual(['it contains the company name']);
+      expect(() => checkPassword('x', { minLength: -1 })).toThrow(RangeError);
+    });
+
+    it('should reject weak passwords before encrypting', async () => {
+      const options = { beaconSource: chain, passwordPolicy: RECOMMENDED_PASSWORD_POLICY };
+      const error = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: 'letmein', duration: 'min' },
+        options
+      ).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(WeakPasswordError);
+      expect((error as WeakPasswordError).reasons).toContain(
+        'it is on the list of denied passwords'
+      );
+      await expect(
+        hybridEncrypt(TEST_PLAINTEXT, { password: '', mode: 'symmetric', kdf, duration: 'min' }, {
+          beaconSource: chain,
+        })
+      ).rejects.toThrow('Password does not meet the password policy: it is empty');
+    });
+
+    it('should check recipients, trustees and new passwords', async () => {
+      const options = { beaconSource: chain, passwordPolicy: { minLength: 8 } };
+
+      await expect(
+        hybridEncrypt(
+          TEST_PLAINTEXT,
+          { recipients: [{ password: TEST_PASSWORD }, { password: 'short' }], duration: 'min' },
+          options
+        )
+      ).rejects.toThrow('Password of recipient 2 does not meet the password policy');
+      await expect(
+        encryptForTrustees(
+          TEST_PLAINTEXT,
+          { trustees: [{ name: 'bob', password: 'short' }], threshold: 1, duration: 'min' },
+          options
+        )
+      ).rejects.toThrow('Password of trustee "bob" does not meet the password policy');
+
+      const envelope = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, mode: 'symmetric', kdf, duration: 'min' },
+        options
+      );
+      chain.advanceTo(envelope.unlockTime);
+      await expect(changePassword(envelope, TEST_PASSWORD, 'short', options)).rejects.toThrow(
+        WeakPasswordError
+      );
+    });
+  });
+
+  describe('OpenPGP S2K', () => {
+    it('should fill in default costs and check them', () => {
+      expect(resolveS2kParams()).toEqual(DEFAULT_ITERATED_S2K_PARAMS);
+      expect(resolveS2kParams({ type: 'argon2', memoryExponent: 12 })).toEqual({
+        ...DEFAULT_ARGON2_S2K_PARAMS,
+        memoryExponent: 12,
+      });
+      expect(() => resolveS2kParams({ type: 'argon2', memoryExponent: 20 })).toThrow(RangeError);
+      expect(() => resolveS2kParams({ type: 'iterated', countByte: 300 })).toThrow(RangeError);
+      expect(() => resolveS2kParams('pbkdf2' as never)).toThrow(TypeError);
+    });
+
+    it.each([
+      { type: 'iterated', countByte: 96 },
+      { type: 'argon2', passes: 1, parallelism: 1, memoryExponent: 10 },
+    ] as const)('should protect the private key with $type and record it', async (s2k) => {
+      const envelope = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, keyProfile: 'curve25519', s2k, duration: 'min' },
+        { beaconSource: chain }
+      );
+      const restored = parseEnvelope(serializeEnvelope(envelope));
+
+      expect(restored.mode === 'pgp' && restored.s2k).toEqual(s2k);
+      chain.advanceTo(envelope.unlockTime);
+      expect(await hybridDecrypt(restored, TEST_PASSWORD, { beaconSource: chain })).toBe(
+        TEST_PLAINTEXT
+      );
+    });
+
+    it('should keep the S2K when the password changes', async () => {
+      const s2k = { type: 'argon2', passes: 1, parallelism: 1, memoryExponent: 10 } as const;
+      const envelope = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, keyProfile: 'curve25519', s2k, duration: 'min' },
+        { beaconSource: chain }
+      );
+      chain.advanceTo(envelope.unlockTime);
+
+      const changed = await changePassword(envelope, TEST_PASSWORD, 'a-new-password', {
+        beaconSource: chain,
+      });
+
+      expect(changed.mode === 'pgp' && changed.s2k).toEqual(s2k);
+      expect(await hybridDecrypt(changed, 'a-new-password', { beaconSource: chain })).toBe(
+        TEST_PLAINTEXT
+      );
+    });
+
+    it('should record the default S2K when none is given', async () => {
+      const envelope = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, keyProfile: 'curve25519', duration: 'min' },
+        { beaconSource: chain }
+      );
+
+      expect(envelope.mode === 'pgp' && envelope.s2k).toEqual(DEFAULT_ITERATED_S2K_PARAMS);
+    });
+
+    it('should only apply to pgp mode', async () => {
+      await expect(
+        hybridEncrypt(
+          TEST_PLAINTEXT,
+          { password: TEST_PASSWORD, mode: 'symmetric', s2k: 'argon2', duration: 'min' },
+          { beaconSource: chain }
+        )
+      ).rejects.toThrow('s2k only applies to pgp mode');
+    });
+  });
+});
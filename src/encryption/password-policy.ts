@@ -0,0 +1,144 @@
+import { WeakPasswordError } from './errors';
+import { PasswordPolicy } from '../types';
+
+/**
+ * Password policies. Once the time-lock opens, the password is the only
+ * barrier against offline guessing, so new passwords are checked against
+ * the policy before anything is encrypted with them.
+ */
+
+/** Policy used when none is given: any non-empty password */
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = { minLength: 1 };
+
+/** Some of the most common leaked passwords */
+export const COMMON_PASSWORDS: readonly string[] = [
+  '000000',
+  '111111',
+  '123123',
+  '12345',
+  '123456',
+  '1234567',
+  '12345678',
+  '123456789',
+  '1234567890',
+  '654321',
+  'abc123',
+  'admin',
+  'changeme',
+  'dragon',
+  'football',
+  'iloveyou',
+  'letmein',
+  'monkey',
+  'passw0rd',
+  'password',
+  'password1',
+  'password123',
+  'qwerty',
+  'qwerty123',
+  'qwertyuiop',
+  'secret',
+  'sunshine',
+  'welcome',
+];
+
+/** A stricter policy for passwords that users choose themselves */
+export const RECOMMENDED_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 12,
+  minEntropyBits: 60,
+  denylist: COMMON_PASSWORDS,
+};
+
+/** Character classes and their sizes, for `estimateEntropy` */
+const CHARACTER_CLASSES = [
+  { pattern: /[a-z]/, size: 26 },
+  { pattern: /[A-Z]/, size: 26 },
+  { pattern: /[0-9]/, size: 10 },
+  { pattern: /[ -/:-@[-`{-~]/, size: 33 },
+  { pattern: /[^\x20-\x7e]/u, size: 100 },
+];
+
+/**
+ * Rough entropy estimate of a password in bits: its length times log2 of
+ * the combined size of the character classes it uses (lower case, upper
+ * case, digits, ASCII symbols, other). A character repeating the one before
+ * it does not count. Dictionary words score far above their real strength,
+ * so pair `minEntropyBits` with a denylist.
+ */
+export function estimateEntropy(password: string): number {
+  const characters = [...password];
+  const pool = CHARACTER_CLASSES.filter(({ pattern }) =>
+    characters.some((character) => pattern.test(character))
+  ).reduce((total, { size }) => total + size, 0);
+  const length = characters.filter((character, i) => character !== characters[i - 1]).length;
+  return pool === 0 ? 0 : length * Math.log2(pool);
+}
+
+function checkBound(name: string, value: number | undefined): void {
+  if (value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+    throw new RangeError(`Password policy ${name} must be a non-negative number`);
+  }
+}
+
+/**
+ * Check `password` against `policy`. Returns the reason for each rule it
+ * breaks; an empty list means the password is accepted.
+ */
+export function checkPassword(
+  password: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): string[] {
+  if (typeof password !== 'string') {
+    throw new TypeError(`Password must be a string, got ${typeof password}`);
+  }
+  checkBound('minLength', policy.minLength);
+  checkBound('minEntropyBits', policy.minEntropyBits);
+
+  const reasons: string[] = [];
+  const length = [...password].length;
+  if (policy.minLength !== undefined && length < policy.minLength) {
+    reasons.push(
+      length === 0
+        ? 'it is empty'
+        : `it has ${length} characters, at least ${policy.minLength} are required`
+    );
+  }
+  if (policy.denylist !== undefined) {
+    const lowerCase = password.toLowerCase();
+    for (const denied of policy.denylist) {
+      if (denied.toLowerCase() === lowerCase) {
+        reasons.push('it is on the list of denied passwords');
+        break;
+      }
+    }
+  }
+  if (policy.minEntropyBits !== undefined) {
+    const bits = estimateEntropy(password);
+    if (bits < policy.minEntropyBits) {
+      reasons.push(
+        `it is too predictable (about ${Math.floor(bits)} bits of entropy, ` +
+          `at least ${policy.minEntropyBits} are required)`
+      );
+    }
+  }
+  const reason = policy.validate?.(password);
+  if (reason !== undefined) {
+    reasons.push(reason);
+  }
+  return reasons;
+}
+
+/**
+ * Throw a `WeakPasswordError` unless `password` meets `policy`. `subject`
+ * names the password in the error message, e.g. `Password of trustee "bob"`.
+ */
+export function assertPassword(
+  password: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+  subject?: string
+): void {
+  const reasons = checkPassword(password, policy);
+  if (reasons.length > 0) {
+    throw new WeakPasswordError(reasons, subject);
+  }
+}
@@ -1,25 +1,166 @@
 import * as openpgp from 'openpgp';
-import { createHash, randomBytes, scryptSync } from 'crypto';
-
-export async function generatePGPKeys(password: string) {
-  const { privateKey, publicKey } = await openpgp.generateKey({
-    type: 'rsa',
-    rsaBits: 2048,
-    userIDs: [{ name: 'User', email: 'user@example.com' }],
-    passphrase: password
+import { scrypt } from '@noble/hashes/scrypt';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, randomBytes } from '@noble/hashes/utils';
+import { KeyProfile, S2kConfig, S2kParams, UserID } from '../types';
+
+/** Key profile used when `EncryptionConfig.keyProfile` is not set */
+export const DEFAULT_KEY_PROFILE: KeyProfile = 'rsa-2048';
+
+export const DEFAULT_USER_IDS: UserID[] = [{ name: 'User', email: 'user@example.com' }];
+
+type KeyTypeOptions = Pick<openpgp.KeyOptions, 'type' | 'curve' | 'rsaBits'>;
+
+const KEY_PROFILES: Record<KeyProfile, KeyTypeOptions> = {
+  curve25519: { type: 'ecc', curve: 'curve25519Legacy' },
+  'rsa-2048': { type: 'rsa', rsaBits: 2048 },
+  'rsa-3072': { type: 'rsa', rsaBits: 3072 },
+  'rsa-4096': { type: 'rsa', rsaBits: 4096 },
+  p256: { type: 'ecc', curve: 'nistP256' },
+};
+
+export const KEY_PROFILE_NAMES = Object.keys(KEY_PROFILES) as KeyProfile[];
+
+export function isKeyProfile(value: string): value is KeyProfile {
+  return Object.prototype.hasOwnProperty.call(KEY_PROFILES, value);
+}
+
+function keyTypeOptions(profile: KeyProfile): KeyTypeOptions {
+  if (!isKeyProfile(profile)) {
+    throw new TypeError(
+      `Unknown key profile "${profile}" (expected one of ${KEY_PROFILE_NAMES.join(', ')})`
+    );
+  }
+  return KEY_PROFILES[profile];
+}
+
+/** S2K used when `s2k` is `iterated` or leaves the count unset (openpgp's default) */
+export const DEFAULT_ITERATED_S2K_PARAMS = { type: 'iterated', countByte: 224 } as const;
+
+/** S2K used when `s2k` is `argon2` or leaves a cost unset (64 MiB, RFC 9580's second choice) */
+export const DEFAULT_ARGON2_S2K_PARAMS = {
+  type: 'argon2',
+  passes: 3,
+  parallelism: 4,
+  memoryExponent: 16,
+} as const;
+
+/**
+ * Accepted S2K cost ranges. Costs are read from untrusted envelopes, so the
+ * upper bounds keep a crafted envelope from exhausting memory or CPU: Argon2
+ * memory is at most 2^18 KiB (256 MiB).
+ */
+export const S2K_LIMITS = {
+  iterated: { countByte: { min: 0, max: 255 } },
+  argon2: {
+    passes: { min: 1, max: 64 },
+    parallelism: { min: 1, max: 16 },
+    memoryExponent: { min: 10, max: 18 },
+  },
+} as const;
+
+function checkRange(name: string, value: number, range: { min: number; max: number }): void {
+  if (!Number.isInteger(value) || value < range.min || value > range.max) {
+    throw new RangeError(`S2K ${name} must be an integer between ${range.min} and ${range.max}`);
+  }
+}
+
+/**
+ * Fill in default costs for an S2K selection and check them against
+ * `S2K_LIMITS`.
+ */
+export function resolveS2kParams(config: S2kConfig = 'iterated'): S2kParams {
+  const selected =
+    typeof config === 'string' ? ({ type: config } as Exclude<S2kConfig, string>) : config;
+
+  switch (selected.type) {
+    case 'iterated': {
+      const params = { ...DEFAULT_ITERATED_S2K_PARAMS, ...selected };
+      checkRange('countByte', params.countByte, S2K_LIMITS.iterated.countByte);
+      return params;
+    }
+    case 'argon2': {
+      const params = { ...DEFAULT_ARGON2_S2K_PARAMS, ...selected };
+      const limits = S2K_LIMITS.argon2;
+      checkRange('passes', params.passes, limits.passes);
+      checkRange('parallelism', params.parallelism, limits.parallelism);
+      checkRange('memoryExponent', params.memoryExponent, limits.memoryExponent);
+      return params;
+    }
+    default:
+      throw new TypeError(
+        `Unknown S2K "${(selected as { type: string }).type}" (expected iterated or argon2)`
+      );
+  }
+}
+
+/** openpgp configuration that encrypts a private key with `params` */
+function s2kConfig(params: S2kParams): openpgp.PartialConfig {
+  if (params.type === 'iterated') {
+    return { s2kType: openpgp.enums.s2k.iterated, s2kIterationCountByte: params.countByte };
+  }
+  const { passes, parallelism, memoryExponent } = params;
+  // Argon2 is only allowed for AEAD-protected keys
+  return {
+    s2kType: openpgp.enums.s2k.argon2,
+    s2kArgon2Params: { passes, parallelism, memoryExponent },
+    aeadProtect: true,
+  };
+}
+
+export async function generatePGPKeys(
+  password: string,
+  profile: KeyProfile = DEFAULT_KEY_PROFILE,
+  userIDs: UserID[] = DEFAULT_USER_IDS,
+  s2k: S2kParams = DEFAULT_ITERATED_S2K_PARAMS
+) {
+  // Protected in a second step, so that the S2K settings do not change the key's preferences
+  return protectPGPKey(await generateUnprotectedPGPKey(profile, userIDs), password, s2k);
+}
+
+/**
+ * Generate a keypair without passphrase protection, for `KeyPool`.
+ * Protect it with `protectPGPKey` before it leaves the process.
+ */
+export async function generateUnprotectedPGPKey(
+  profile: KeyProfile = DEFAULT_KEY_PROFILE,
+  userIDs: UserID[] = DEFAULT_USER_IDS
+): Promise<openpgp.PrivateKey> {
+  const { privateKey } = await openpgp.generateKey({
+    ...keyTypeOptions(profile),
+    userIDs,
+    format: 'object'
+  });
+
+  return privateKey;
+}
+
+/**
+ * Encrypt an unprotected private key with `password`, using `s2k`. Returns
+ * the same armored shape as `generatePGPKeys`.
+ */
+export async function protectPGPKey(
+  privateKey: openpgp.PrivateKey,
+  password: string,
+  s2k: S2kParams = DEFAULT_ITERATED_S2K_PARAMS
+) {
+  const protectedKey = await openpgp.encryptKey({
+    privateKey,
+    passphrase: password,
+    config: s2kConfig(s2k),
   });
 
-  return { privateKey, publicKey };
+  return { privateKey: protectedKey.armor(), publicKey: privateKey.toPublic().armor() };
 }
 
-export function deriveMasterKey(password: string, salt: Buffer): Buffer {
-  return scryptSync(password, salt, 32);
+export function deriveMasterKey(password: string, salt: Uint8Array): Uint8Array {
+  return scrypt(password, salt, { N: 2 ** 14, r: 8, p: 1, dkLen: 32 });
 }
 
 export function hashPassword(password: string): string {
-  return createHash('sha256').update(password).digest('hex');
+  return bytesToHex(sha256(password));
 }
 
 export function generateSalt(): string {
-  return randomBytes(32).toString('hex');
-}
\ No newline at end of file
+  return bytesToHex(randomBytes(32));
+}
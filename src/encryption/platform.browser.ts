@@ -0,0 +1,32 @@
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { ChainRegistry } from './chains';
+
+/**
+ * Browser platform, which bundlers use in place of `platform.ts`. Browsers
+ * have no env configuration: the default chains are the built-in presets,
+ * with quicknet as the default, there is no escrow key file, and scrypt
+ * runs in JavaScript.
+ */
+
+let chainRegistry: ChainRegistry | null = null;
+
+/** Registry of the built-in chains; quicknet is the default */
+export function getChainRegistry(): ChainRegistry {
+  chainRegistry ??= new ChainRegistry();
+  return chainRegistry;
+}
+
+/** Browsers have no escrow key file; pass `escrowKey` instead */
+export function readEscrowKeyFile(): string | undefined {
+  return undefined;
+}
+
+/** scrypt with the given costs, deriving `length` bytes */
+export function scrypt(
+  password: string,
+  salt: Uint8Array,
+  { N, r, p }: { N: number; r: number; p: number },
+  length: number
+): Promise<Uint8Array> {
+  return scryptAsync(password, salt, { N, r, p, dkLen: length, maxmem: 256 * N * r * p });
+}
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import { scrypt as nodeScrypt } from 'crypto';
+import { loadEnv } from '../env';
+import { BeaconCache } from './beacon-cache';
+import { CHAIN_PRESETS, ChainConfig, ChainRegistry, findPreset } from './chains';
+
+/**
+ * Node.js platform: the deployment's defaults, read from env, the on-disk
+ * beacon cache and native scrypt. Browser bundles get `platform.browser.ts`
+ * in its place (see the `browser` field of package.json), which has the
+ * same exports except `getBeaconCache`.
+ */
+
+let chainRegistry: ChainRegistry | null = null;
+let beaconCache: BeaconCache | null | undefined;
+let configuredKey: { path: string; key: string } | undefined;
+
+/**
+ * Registry of the built-in chains plus the one configured in env, which is
+ * the default. `DRAND_CHAIN` selects a preset; `DRAND_CHAIN_URL` overrides
+ * its relays. Otherwise `DRAND_CHAIN_URL`, `DRAND_CHAIN_HASH` and
+ * `DRAND_PUBLIC_KEY` describe the chain, and a hash matching a preset picks
+ * up that preset's parameters.
+ */
+export function getChainRegistry(): ChainRegistry {
+  if (chainRegistry) return chainRegistry;
+  const env = loadEnv();
+  const registry = new ChainRegistry({
+    relayTimeoutMs: env.DRAND_RELAY_TIMEOUT_MS,
+    relayRetries: env.DRAND_RELAY_RETRIES,
+    cache: getBeaconCache(),
+  });
+  const configured = configuredChain();
+  registry.register(configured);
+  registry.setDefault(configured.hash);
+  chainRegistry = registry;
+  return chainRegistry;
+}
+
+function configuredChain(): ChainConfig {
+  const env = loadEnv();
+  const preset = env.DRAND_CHAIN
+    ? CHAIN_PRESETS[env.DRAND_CHAIN]
+    : findPreset(env.DRAND_CHAIN_HASH!);
+  if (!preset) {
+    return {
+      name: 'custom',
+      hash: env.DRAND_CHAIN_HASH!,
+      publicKey: env.DRAND_PUBLIC_KEY!,
+      urls: env.DRAND_CHAIN_URL!,
+    };
+  }
+  if (env.DRAND_CHAIN_HASH && env.DRAND_CHAIN_HASH !== preset.hash) {
+    throw new TypeError(
+      `DRAND_CHAIN_HASH ${env.DRAND_CHAIN_HASH} is not the hash of the ${preset.name} chain`
+    );
+  }
+  if (env.DRAND_PUBLIC_KEY && env.DRAND_PUBLIC_KEY !== preset.publicKey) {
+    throw new TypeError(`DRAND_PUBLIC_KEY is not the public key of the ${preset.name} chain`);
+  }
+  return { ...preset, urls: env.DRAND_CHAIN_URL ?? preset.urls };
+}
+
+/**
+ * The on-disk beacon cache in `DRAND_BEACON_CACHE_DIR`, or `null` if none
+ * is configured.
+ */
+export function getBeaconCache(): BeaconCache | null {
+  if (beaconCache !== undefined) return beaconCache;
+  const env = loadEnv();
+  beaconCache = env.DRAND_BEACON_CACHE_DIR
+    ? new BeaconCache({
+        dir: env.DRAND_BEACON_CACHE_DIR,
+        maxEntries: env.DRAND_BEACON_CACHE_MAX_ENTRIES,
+        maxBytes: env.DRAND_BEACON_CACHE_MAX_BYTES,
+      })
+    : null;
+  return beaconCache;
+}
+
+/**
+ * The armored escrow public key in `HTLE_ESCROW_PUBLIC_KEY_FILE`, or
+ * `undefined` if none is configured.
+ */
+export function readEscrowKeyFile(): string | undefined {
+  const path = loadEnv().HTLE_ESCROW_PUBLIC_KEY_FILE;
+  if (!path) {
+    return undefined;
+  }
+  if (configuredKey?.path !== path) {
+    try {
+      configuredKey = { path, key: fs.readFileSync(path, 'utf8') };
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new TypeError(`Cannot read HTLE_ESCROW_PUBLIC_KEY_FILE ${path}: ${reason}`);
+    }
+  }
+  return configuredKey.key;
+}
+
+/** scrypt with the given costs, deriving `length` bytes */
+export function scrypt(
+  password: string,
+  salt: Uint8Array,
+  { N, r, p }: { N: number; r: number; p: number },
+  length: number
+): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    nodeScrypt(password, salt, length, { N, r, p, maxmem: 256 * N * r * p }, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+}
@@ -0,0 +1,307 @@
+/**
+ * Relay Pool Test Suite for HTLE Framework
+ *
+ * These tests run a RelayPool against local stub HTTP relays that serve a
+ * LocalDrandChain, to validate:
+ * - Failover on errors, timeouts and unreachable relays
+ * - Rejection of relays serving another chain or invalid beacons
+ * - Health scoring that demotes slow and failing relays
+ * - Probing every relay at once for health reports
+ * - End-to-end encryption and decryption through the pool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { ChainInfo } from 'tlock-js';
+import { RelayPool, RelayPoolOptions } from './relay-pool';
+import { LocalDrandChain } from './local-chain';
+import { createBeaconSource } from './timelock';
+import { hybridEncrypt, hybridDecrypt } from './hybrid';
+import { BeaconUnavailableError } from './errors';
+import { TEST_PASSWORD, TEST_PLAINTEXT } from '../test-utils';
+
+interface StubRelayOptions {
+  /** Chain whose info is served (default: the relay's chain) */
+  infoFrom?: LocalDrandChain;
+  /** Fields that replace those of the served chain info */
+  infoFields?: Partial<ChainInfo>;
+  /** Delay before every response */
+  delayMs?: number;
+  /** Respond with this status instead of serving the chain */
+  status?: number;
+  /** Fail this many requests with HTTP 503 before serving normally */
+  failFirst?: number;
+}
+
+interface StubRelay {
+  url: string;
+  requests: string[];
+  server: Server;
+}
+
+/** A local HTTP relay serving `chain` under the drand API paths */
+async function startRelay(chain: LocalDrandChain, options: StubRelayOptions = {}): Promise<StubRelay> {
+  const requests: string[] = [];
+  let failuresLeft = options.failFirst ?? 0;
+
+  const server = createServer(async (req, res) => {
+    requests.push(req.url ?? '');
+    if (options.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+    }
+    if (res.destroyed) return;
+    if (options.status || failuresLeft > 0) {
+      failuresLeft--;
+      res.writeHead(options.status ?? 503).end();
+      return;
+    }
+
+    try {
+      const path = (req.url ?? '').replace(/^\/relay/, '');
+      let body: unknown;
+      if (path === '/info') {
+        body = { ...(options.infoFrom ?? chain).chainInfo, ...options.infoFields };
+      } else if (path === '/public/latest') {
+        body = await chain.latest();
+      } else {
+        body = await chain.get(Number(path.replace('/public/', '')));
+      }
+      res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify(body));
+    } catch {
+      res.writeHead(404).end();
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/relay`, requests, server };
+}
+
+describe('HTLE Relay Pool', () => {
+  let chain: LocalDrandChain;
+  let relays: StubRelay[];
+
+  beforeEach(() => {
+    chain = new LocalDrandChain({ genesisTime: Math.floor(Date.now() / 1000) - 60 });
+    relays = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(
+      relays.map(
+        ({ server }) =>
+          new Promise((resolve) => {
+            server.closeAllConnections();
+            server.close(resolve);
+          })
+      )
+    );
+  });
+
+  async function relay(options?: StubRelayOptions): Promise<string> {
+    const stub = await startRelay(chain, options);
+    relays.push(stub);
+    return stub.url;
+  }
+
+  function pool(urls: string[], options: Partial<RelayPoolOptions> = {}): RelayPool {
+    return new RelayPool({
+      urls,
+      chainHash: chain.chainInfo.hash,
+      publicKey: chain.chainInfo.public_key,
+      timeoutMs: 1_000,
+      ...options,
+    });
+  }
+
+  it('should fetch chain info and verified beacons from a relay', async () => {
+    const client = pool([await relay()]);
+
+    expect(await client.chain().info()).toEqual(chain.chainInfo);
+    const latest = await client.latest();
+    expect(latest).toEqual(await chain.latest());
+    expect(await client.get(latest.round - 1)).toEqual(await chain.get(latest.round - 1));
+
+    const [health] = client.health();
+    expect(health.successes).toBe(3);
+    expect(health.failures).toBe(0);
+    expect(health.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should encrypt and decrypt through the pool', async () => {
+    const source = createBeaconSource(pool([await relay({ status: 500 }), await relay()]), () =>
+      chain.now()
+    );
+    const encrypted = await hybridEncrypt(
+      TEST_PLAINTEXT,
+      { password: TEST_PASSWORD, duration: 'min', keyProfile: 'curve25519' },
+      { beaconSource: source }
+    );
+
+    chain.advanceTo(encrypted.unlockTime);
+    expect(await hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: source })).toBe(
+      TEST_PLAINTEXT
+    );
+  });
+
+  it('should fail over from a failing relay and demote it', async () => {
+    const failing = await relay({ status: 500 });
+    const healthy = await relay();
+    const client = pool([failing, healthy]);
+
+    await client.latest();
+    const [first, second] = client.health();
+    expect(first).toMatchObject({ url: healthy, failures: 0, successes: 1 });
+    expect(second).toMatchObject({ url: failing, failures: 1, lastError: 'HTTP 500 for /info' });
+
+    await client.latest();
+    expect(relays[0].requests).toHaveLength(1);
+    expect(client.chain().baseUrl).toBe(healthy);
+  });
+
+  it('should time out a hanging relay and fail over', async () => {
+    const hanging = await relay({ delayMs: 5_000 });
+    const healthy = await relay();
+    const client = pool([hanging, healthy], { timeoutMs: 200 });
+
+    const started = Date.now();
+    await client.latest();
+    expect(Date.now() - started).toBeLessThan(2_000);
+
+    const demoted = client.health().find((h) => h.url === hanging)!;
+    expect(demoted.lastError).toBe('timed out after 200ms');
+    expect(demoted.latencyMs).toBe(200);
+  });
+
+  it('should fail over from an unreachable relay', async () => {
+    const unreachable = await relay();
+    await new Promise((resolve) => relays.shift()!.server.close(resolve));
+    const client = pool([unreachable, await relay()]);
+
+    await expect(client.latest()).resolves.toBeTruthy();
+    expect(client.health()[1]).toMatchObject({ url: unreachable, failures: 1 });
+  });
+
+  it('should demote relays that are slower than the others', async () => {
+    const slow = await relay({ delayMs: 150 });
+    const fast = await relay();
+    const client = pool([slow, fast]);
+
+    await client.latest();
+    expect(client.health()[0].url).toBe(fast);
+
+    await client.latest();
+    await client.latest();
+    const [first, second] = client.health();
+    expect(first).toMatchObject({ url: fast, successes: 2 });
+    expect(second).toMatchObject({ url: slow, successes: 1, failures: 0 });
+    expect(second.latencyMs).toBeGreaterThan(first.latencyMs!);
+  });
+
+  it('should reject a relay serving another chain', async () => {
+    const impostor = await relay({ infoFrom: new LocalDrandChain() });
+    const genuine = await relay();
+    const client = pool([impostor, genuine]);
+
+    expect(await client.chain().info()).toEqual(chain.chainInfo);
+    await client.latest();
+
+    const rejected = client.health().find((h) => h.url === impostor)!;
+    expect(rejected.rejected).toBe(true);
+    expect(rejected.lastError).toMatch(/relay serves chain [0-9a-f]{64}, expected/);
+    expect(client.health()[client.health().length - 1].url).toBe(impostor);
+
+    await client.latest();
+    expect(relays[0].requests).toEqual(['/relay/info']);
+  });
+
+  it('should check the chain of every relay, not only the first', async () => {
+    const genuine = await relay();
+    const impostor = await relay({ infoFrom: new LocalDrandChain() });
+    const client = pool([genuine, impostor]);
+
+    await client.latest();
+    await client.probe();
+
+    expect(relays[1].requests).toEqual(['/relay/info']);
+    expect(client.health().find((h) => h.url === impostor)).toMatchObject({
+      rejected: true,
+      lastError: expect.stringMatching(/relay serves chain [0-9a-f]{64}, expected/),
+    });
+  });
+
+  it('should require every relay to report the parameters of the first one', async () => {
+    const genuine = await relay();
+    const skewed = await relay({ infoFields: { period: chain.chainInfo.period + 1 } });
+    const client = pool([genuine, skewed]);
+
+    await client.latest();
+    await client.probe();
+
+    expect(client.health().find((h) => h.url === skewed)).toMatchObject({
+      rejected: true,
+      lastError: `relay reports period ${chain.chainInfo.period + 1} for chain ${chain.chainInfo.hash}, expected ${chain.chainInfo.period}`,
+    });
+  });
+
+  it('should reject beacons that do not verify against the public key', async () => {
+    const forger = new LocalDrandChain({ startTime: chain.now(), genesisTime: chain.chainInfo.genesis_time });
+    const forged = await startRelay(forger, { infoFrom: chain });
+    relays.push(forged);
+    const client = pool([forged.url, await relay()]);
+
+    const beacon = await client.latest();
+    expect(beacon).toEqual(await chain.latest());
+    expect(client.health()[1]).toMatchObject({
+      url: forged.url,
+      lastError: `beacon for round ${beacon.round} failed verification`,
+    });
+  });
+
+  it('should retry a flaky relay', async () => {
+    const flaky = await relay({ failFirst: 1 });
+
+    await expect(pool([flaky], { retries: 0 }).latest()).rejects.toThrow(BeaconUnavailableError);
+
+    const client = pool([await relay({ failFirst: 1 })], { retries: 1 });
+    await expect(client.latest()).resolves.toBeTruthy();
+    expect(client.health()[0]).toMatchObject({ failures: 1, successes: 1, consecutiveFailures: 0 });
+  });
+
+  it('should report every relay when all of them fail', async () => {
+    const first = await relay({ status: 502 });
+    const second = await relay({ status: 503 });
+    const client = pool([first, second], { retries: 0 });
+
+    const error = await client.latest().catch((err) => err);
+    expect(error).toBeInstanceOf(BeaconUnavailableError);
+    expect(error.message).toContain('All 2 drand relays failed');
+    expect(error.message).toContain(`${first}: HTTP 502`);
+    expect(error.message).toContain(`${second}: HTTP 503`);
+  });
+
+  it('should probe every relay at once', async () => {
+    const failing = await relay({ status: 503 });
+    const healthy = await relay();
+    const client = pool([failing, healthy]);
+
+    const health = await client.probe();
+    expect(health).toHaveLength(2);
+    expect(health[0]).toMatchObject({ url: healthy, successes: 1, consecutiveFailures: 0 });
+    expect(health[1]).toMatchObject({ url: failing, failures: 1, lastError: 'HTTP 503 for /info' });
+    expect(relays[1].requests).toEqual(['/relay/info', '/relay/public/latest']);
+  });
+
+  it('should validate its options', () => {
+    const params = { chainHash: 'ab'.repeat(32), publicKey: 'cd'.repeat(48) };
+    expect(() => new RelayPool({ ...params, urls: [] })).toThrow(TypeError);
+    expect(() => new RelayPool({ ...params, urls: ['not a url'] })).toThrow(TypeError);
+    expect(() => new RelayPool({ ...params, urls: ['http://a'], timeoutMs: 0 })).toThrow(
+      RangeError
+    );
+    expect(() => new RelayPool({ ...params, urls: ['http://a'], retries: -1 })).toThrow(
+      RangeError
+    );
+  });
+});
@@ -0,0 +1,327 @@
+import { Chain, ChainClient, ChainInfo, ChainOptions, RandomnessBeacon } from 'drand-client';
+import { verifyBeacon } from 'drand-client/beacon-verification';
+import { BeaconUnavailableError, EnvelopeError } from './errors';
+
+/** Weight of the newest sample in a relay's moving average latency */
+const LATENCY_SMOOTHING = 0.3;
+
+export interface RelayPoolOptions {
+  /** Relay base URLs, e.g. `https://api.drand.sh/<chain hash>`, in order of preference */
+  urls: string[];
+  /** Hash every relay must report for its chain */
+  chainHash: string;
+  /** Group public key every relay must report and sign with */
+  publicKey: string;
+  /**
+   * Full chain parameters every relay must report, when known ahead of
+   * time. Without them, every relay must report the period, genesis time
+   * and scheme of the first relay verified.
+   */
+  chainInfo?: ChainInfo;
+  /** Per-request timeout in milliseconds (default: 5000) */
+  timeoutMs?: number;
+  /** Extra passes over the relay list after every relay failed (default: 1) */
+  retries?: number;
+}
+
+/**
+ * Health of a single relay as seen by a `RelayPool`. Relays are tried in
+ * ascending `score` order; ties keep the configured order.
+ */
+export interface RelayHealth {
+  url: string;
+  /** Moving average latency plus one timeout per consecutive failure */
+  score: number;
+  /** Moving average response time, once a request has completed */
+  latencyMs?: number;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  /** Set once the relay reported another chain; it is never used again */
+  rejected: boolean;
+}
+
+interface Relay {
+  url: string;
+  index: number;
+  latencyMs?: number;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  rejected: boolean;
+  /** Whether the relay's `/info` has matched the expected chain */
+  verified: boolean;
+}
+
+/**
+ * A drand `ChainClient` over several relays of the same chain.
+ *
+ * Each request has its own timeout and goes to the healthiest relay first,
+ * failing over to the next one on errors, timeouts or invalid responses.
+ * Before first use, a relay's chain info must match the configured chain
+ * hash and public key, and its period, genesis time and scheme those given
+ * in `chainInfo`. Without `chainInfo`, they are taken from the first relay
+ * verified, and every other relay must report the same. Every beacon
+ * it returns is verified against that key, so a misconfigured or lying relay
+ * is skipped like an unreachable one. If no relay serves the chain at all,
+ * requests fail with `EnvelopeError` rather than being retried.
+ * Slow and failing relays are demoted; a relay that recovers climbs back as
+ * its latency average and failure streak improve.
+ */
+export class RelayPool implements ChainClient {
+  readonly options: ChainOptions;
+  readonly timeoutMs: number;
+  readonly retries: number;
+
+  private readonly relays: Relay[];
+  private readonly relayChain: Chain;
+  private readonly expectedInfo?: ChainInfo;
+  private chainInfo: ChainInfo | null = null;
+
+  constructor(options: RelayPoolOptions) {
+    if (!Array.isArray(options.urls) || options.urls.length === 0) {
+      throw new TypeError('RelayPool needs at least one relay URL');
+    }
+    this.relays = options.urls.map((url, index) => {
+      if (!URL.canParse(url)) {
+        throw new TypeError(`Invalid relay URL "${url}"`);
+      }
+      return {
+        url: url.replace(/\/+$/, ''),
+        index,
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        rejected: false,
+        verified: false,
+      };
+    });
+
+    this.timeoutMs = options.timeoutMs ?? 5_000;
+    this.retries = options.retries ?? 1;
+    if (!(this.timeoutMs > 0) || !Number.isFinite(this.timeoutMs)) {
+      throw new RangeError('RelayPool timeoutMs must be a positive number of milliseconds');
+    }
+    if (!Number.isInteger(this.retries) || this.retries < 0) {
+      throw new RangeError('RelayPool retries must be a non-negative integer');
+    }
+
+    this.options = {
+      disableBeaconVerification: false,
+      noCache: false,
+      chainVerificationParams: { chainHash: options.chainHash, publicKey: options.publicKey },
+    };
+    this.expectedInfo = options.chainInfo;
+
+    const pool = this;
+    this.relayChain = {
+      get baseUrl() {
+        return pool.ranked()[0]?.url ?? pool.relays[0].url;
+      },
+      info: () => this.info(),
+    };
+  }
+
+  chain(): Chain {
+    return this.relayChain;
+  }
+
+  async get(roundNumber: number): Promise<RandomnessBeacon> {
+    const path = `/public/${roundNumber}`;
+    return this.request(path, async (relay) =>
+      this.checkBeacon(await this.fetchJson(relay, path), roundNumber)
+    );
+  }
+
+  async latest(): Promise<RandomnessBeacon> {
+    const path = '/public/latest';
+    return this.request(path, async (relay) => this.checkBeacon(await this.fetchJson(relay, path)));
+  }
+
+  /**
+   * Current health of every relay, healthiest first.
+   */
+  health(): RelayHealth[] {
+    return [...this.relays]
+      .sort((a, b) => Number(a.rejected) - Number(b.rejected) || compareRelays(a, b, this.timeoutMs))
+      .map((relay) => ({
+        url: relay.url,
+        score: score(relay, this.timeoutMs),
+        latencyMs: relay.latencyMs,
+        successes: relay.successes,
+        failures: relay.failures,
+        consecutiveFailures: relay.consecutiveFailures,
+        lastError: relay.lastError,
+        rejected: relay.rejected,
+      }));
+  }
+
+  /**
+   * Ask every relay still in use for the latest round at once, without
+   * failing over, and return the health of all relays afterwards. A relay
+   * that answers with a verified beacon has no `consecutiveFailures`.
+   */
+  async probe(): Promise<RelayHealth[]> {
+    const path = '/public/latest';
+    await Promise.allSettled(
+      this.ranked().map((relay) =>
+        this.attempt(relay, async () => this.checkBeacon(await this.fetchJson(relay, path)))
+      )
+    );
+    return this.health();
+  }
+
+  private async info(): Promise<ChainInfo> {
+    if (this.chainInfo) return this.chainInfo;
+    // verifying the first relay that answers records its chain info
+    return this.request('/info', async () => this.chainInfo!);
+  }
+
+  /** Relays that may still be used, healthiest first */
+  private ranked(): Relay[] {
+    return this.relays
+      .filter((relay) => !relay.rejected)
+      .sort((a, b) => compareRelays(a, b, this.timeoutMs));
+  }
+
+  /**
+   * Run `send` against the healthiest relay, failing over and retrying as
+   * configured. A relay's chain info is checked before its first use.
+   *
+   * Throws `EnvelopeError` once every relay has reported another chain, and
+   * `BeaconUnavailableError` if the relays could not be used otherwise.
+   */
+  private async request<T>(path: string, send: (relay: Relay) => Promise<T>): Promise<T> {
+    const errors: string[] = [];
+    for (let pass = 0; pass <= this.retries; pass++) {
+      const relays = this.ranked();
+      if (relays.length === 0) break;
+
+      for (const relay of relays) {
+        try {
+          return await this.attempt(relay, send);
+        } catch {
+          errors.push(`${relay.url}: ${relay.lastError}`);
+        }
+      }
+    }
+
+    if (this.relays.every((relay) => relay.rejected)) {
+      const { chainHash } = this.options.chainVerificationParams!;
+      throw new EnvelopeError(
+        `No drand relay serves chain ${chainHash}: ${this.relays.map((relay) => `${relay.url}: ${relay.lastError}`).join('; ')}`
+      );
+    }
+    throw new BeaconUnavailableError(
+      `All ${this.relays.length} drand relays failed for ${path}: ${errors.join('; ')}`
+    );
+  }
+
+  /**
+   * Run `send` against one relay, checking its chain info first if needed,
+   * and record the outcome in its health.
+   */
+  private async attempt<T>(relay: Relay, send: (relay: Relay) => Promise<T>): Promise<T> {
+    const started = Date.now();
+    try {
+      if (!relay.verified) {
+        const info = this.checkInfo(await this.fetchJson(relay, '/info'));
+        this.chainInfo ??= info;
+        relay.verified = true;
+      }
+      const result = await send(relay);
+      this.recordSuccess(relay, Date.now() - started);
+      return result;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.recordFailure(relay, message, err instanceof ChainMismatchError);
+      throw err;
+    }
+  }
+
+  private async fetchJson(relay: Relay, path: string): Promise<unknown> {
+    let response: Response;
+    try {
+      response = await fetch(`${relay.url}${path}`, {
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (err) {
+      if (err instanceof Error && err.name === 'TimeoutError') {
+        throw new Error(`timed out after ${this.timeoutMs}ms`);
+      }
+      const cause = (err as { cause?: { code?: string } }).cause;
+      throw cause?.code ? new Error(`${(err as Error).message} (${cause.code})`) : err;
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} for ${path}`);
+    }
+    return response.json();
+  }
+
+  private checkInfo(body: unknown): ChainInfo {
+    const info = body as ChainInfo | null;
+    const expected = this.options.chainVerificationParams!;
+    if (info?.hash !== expected.chainHash || info?.public_key !== expected.publicKey) {
+      throw new ChainMismatchError(
+        `relay serves chain ${String(info?.hash)}, expected ${expected.chainHash} with the configured public key`
+      );
+    }
+    // without configured parameters, those of the first verified relay
+    const known = this.expectedInfo ?? this.chainInfo;
+    if (known) {
+      for (const field of ['period', 'genesis_time', 'schemeID'] as const) {
+        if (info[field] !== known[field]) {
+          throw new ChainMismatchError(
+            `relay reports ${field} ${String(info[field])} for chain ${expected.chainHash}, expected ${known[field]}`
+          );
+        }
+      }
+    }
+    return info;
+  }
+
+  private async checkBeacon(body: unknown, roundNumber?: number): Promise<RandomnessBeacon> {
+    const beacon = body as RandomnessBeacon;
+    const expectedRound = roundNumber ?? beacon?.round;
+    if (typeof beacon?.signature !== 'string' || typeof expectedRound !== 'number') {
+      throw new Error('malformed beacon');
+    }
+    if (!(await verifyBeacon(this.chainInfo!, beacon, expectedRound))) {
+      throw new Error(`beacon for round ${expectedRound} failed verification`);
+    }
+    return beacon;
+  }
+
+  private recordSuccess(relay: Relay, elapsedMs: number): void {
+    relay.successes++;
+    relay.consecutiveFailures = 0;
+    relay.latencyMs = smooth(relay.latencyMs, elapsedMs);
+  }
+
+  private recordFailure(relay: Relay, message: string, rejected: boolean): void {
+    relay.failures++;
+    relay.consecutiveFailures++;
+    relay.lastError = message;
+    relay.rejected ||= rejected;
+    if (message.startsWith('timed out')) {
+      relay.latencyMs = smooth(relay.latencyMs, this.timeoutMs);
+    }
+  }
+}
+
+/** Thrown when a relay reports a chain other than the configured one */
+class ChainMismatchError extends Error {}
+
+function smooth(average: number | undefined, sample: number): number {
+  return average === undefined ? sample : average + LATENCY_SMOOTHING * (sample - average);
+}
+
+function score(relay: Relay, timeoutMs: number): number {
+  return (relay.latencyMs ?? 0) + relay.consecutiveFailures * timeoutMs;
+}
+
+function compareRelays(a: Relay, b: Relay, timeoutMs: number): number {
+  return score(a, timeoutMs) - score(b, timeoutMs) || a.index - b.index;
+}
@@ -0,0 +1,198 @@
+/**
+ * Re-lock Test Suite for HTLE Framework
+ *
+ * These tests validate re-locking and password changes of opened envelopes:
+ * - relock moves the time-lock to a new round and keeps the payload
+ * - changePassword re-wraps the key for a new password and keeps the round
+ * - Only the password that opens the envelope can do either
+ * - Escrow slots are rebuilt for the new round and secret
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import * as openpgp from 'openpgp';
+import { relock, changePassword } from './relock';
+import { hybridEncrypt, hybridDecrypt } from './hybrid';
+import { encryptForTrustees } from './trustees';
+import { recoverWithEscrow } from './escrow';
+import { serializeEnvelope } from './envelope';
+import { LocalDrandChain } from './local-chain';
+import { EnvelopeError, InvalidPasswordError, TimelockNotExpiredError } from './errors';
+import { TEST_PASSWORD, TEST_PLAINTEXT, WRONG_PASSWORD } from '../test-utils';
+
+describe('HTLE Re-lock and Password Changes', () => {
+  const kdf = { algorithm: 'scrypt', N: 2 ** 10 } as const;
+  const NEW_PASSWORD = 'new-secure-password-789';
+
+  let chain: LocalDrandChain;
+
+  beforeEach(() => {
+    chain = new LocalDrandChain();
+  });
+
+  const CONFIGS = [
+    { mode: 'pgp', config: { password: TEST_PASSWORD, keyProfile: 'curve25519' } },
+    { mode: 'symmetric', config: { password: TEST_PASSWORD, mode: 'symmetric', kdf } },
+    { mode: 'multi', config: { recipients: [{ password: TEST_PASSWORD }], kdf } },
+  ] as const;
+
+  async function unlockedEnvelope(config: (typeof CONFIGS)[number]['config']) {
+    const envelope = await hybridEncrypt(
+      TEST_PLAINTEXT,
+      { ...config, duration: 'min' },
+      { beaconSource: chain }
+    );
+    chain.advanceTo(envelope.unlockTime);
+    return envelope;
+  }
+
+  describe('relock', () => {
+    it.each(CONFIGS)('should lock a $mode envelope until the new time', async ({ config }) => {
+      const envelope = await unlockedEnvelope(config);
+
+      const relocked = await relock(
+        serializeEnvelope(envelope),
+        TEST_PASSWORD,
+        { duration: '1h' },
+        { beaconSource: chain }
+      );
+
+      expect(relocked.mode).toBe(envelope.mode);
+      expect(relocked.encryptedData).toBe(envelope.encryptedData);
+      expect(relocked.roundNumber).toBeGreaterThan(envelope.roundNumber);
+      await expect(
+        hybridDecrypt(relocked, TEST_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow(TimelockNotExpiredError);
+
+      chain.advanceTo(relocked.unlockTime);
+      expect(await hybridDecrypt(relocked, TEST_PASSWORD, { beaconSource: chain })).toBe(
+        TEST_PLAINTEXT
+      );
+    });
+
+    it('should keep the private key of a pgp envelope', async () => {
+      const envelope = await unlockedEnvelope(CONFIGS[0].config);
+
+      const relocked = await relock(envelope, TEST_PASSWORD, { duration: 'min' }, {
+        beaconSource: chain,
+      });
+
+      expect(relocked.mode === 'pgp' && relocked.publicKey).toBe(envelope.publicKey);
+    });
+
+    it('should require the password and an opened time-lock', async () => {
+      const locked = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, mode: 'symmetric', kdf, duration: 'min' },
+        { beaconSource: chain }
+      );
+      const options = { beaconSource: chain };
+
+      await expect(relock(locked, TEST_PASSWORD, { duration: 'min' }, options)).rejects.toThrow(
+        TimelockNotExpiredError
+      );
+      chain.advanceTo(locked.unlockTime);
+      await expect(relock(locked, WRONG_PASSWORD, { duration: 'min' }, options)).rejects.toThrow(
+        InvalidPasswordError
+      );
+      await expect(
+        relock(locked, TEST_PASSWORD, { unlockAt: new Date(0) }, options)
+      ).rejects.toThrow(RangeError);
+    });
+
+    it('should reject streams and shared envelopes', async () => {
+      const shared = await encryptForTrustees(
+        TEST_PLAINTEXT,
+        {
+          trustees: [{ name: 'alice', password: TEST_PASSWORD }],
+          threshold: 1,
+          kdf,
+          duration: 'min',
+        },
+        { beaconSource: chain }
+      );
+
+      await expect(
+        relock(shared, TEST_PASSWORD, { duration: 'min' }, { beaconSource: chain })
+      ).rejects.toThrow(EnvelopeError);
+    });
+  });
+
+  describe('changePassword', () => {
+    it.each(CONFIGS)('should re-wrap a $mode envelope for the new password', async ({ config }) => {
+      const envelope = await unlockedEnvelope(config);
+      const options = { beaconSource: chain };
+
+      const changed = await changePassword(envelope, TEST_PASSWORD, NEW_PASSWORD, options);
+
+      expect(changed.encryptedData).toBe(envelope.encryptedData);
+      expect(changed.roundNumber).toBe(envelope.roundNumber);
+      expect(await hybridDecrypt(changed, NEW_PASSWORD, options)).toBe(TEST_PLAINTEXT);
+      await expect(hybridDecrypt(changed, TEST_PASSWORD, options)).rejects.toThrow(
+        InvalidPasswordError
+      );
+    });
+
+    it('should change only the slot the old password opens', async () => {
+      const OTHER_PASSWORD = 'another-secure-password';
+      const envelope = await unlockedEnvelope({
+        recipients: [
+          { label: 'alice', password: TEST_PASSWORD },
+          { label: 'bob', password: OTHER_PASSWORD },
+        ],
+        kdf,
+      });
+      const options = { beaconSource: chain };
+
+      const changed = await changePassword(envelope, OTHER_PASSWORD, NEW_PASSWORD, options);
+
+      expect(changed.mode === 'multi' && changed.slots.map((slot) => slot.label)).toEqual([
+        'alice',
+        'bob',
+      ]);
+      expect(await hybridDecrypt(changed, TEST_PASSWORD, options)).toBe(TEST_PLAINTEXT);
+      expect(await hybridDecrypt(changed, NEW_PASSWORD, options)).toBe(TEST_PLAINTEXT);
+      await expect(hybridDecrypt(changed, OTHER_PASSWORD, options)).rejects.toThrow(
+        InvalidPasswordError
+      );
+    });
+
+    it('should reject a wrong old password', async () => {
+      const envelope = await unlockedEnvelope(CONFIGS[1].config);
+
+      await expect(
+        changePassword(envelope, WRONG_PASSWORD, NEW_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow(InvalidPasswordError);
+    });
+  });
+
+  describe('Escrow', () => {
+    const ESCROW_PASSPHRASE = 'escrow-officer-passphrase';
+    let escrow: { privateKey: string; publicKey: string };
+
+    beforeAll(async () => {
+      escrow = await openpgp.generateKey({
+        type: 'ecc',
+        curve: 'curve25519Legacy',
+        userIDs: [{ name: 'Escrow' }],
+        passphrase: ESCROW_PASSPHRASE,
+        format: 'armored',
+      });
+    });
+
+    it.each(CONFIGS)('should rebuild the escrow slot of a $mode envelope', async ({ config }) => {
+      const envelope = await unlockedEnvelope(config);
+      const options = { beaconSource: chain, escrowKey: escrow.publicKey };
+      const credential = { privateKey: escrow.privateKey, passphrase: ESCROW_PASSPHRASE };
+
+      const changed = await changePassword(envelope, TEST_PASSWORD, NEW_PASSWORD, options);
+      const relocked = await relock(changed, NEW_PASSWORD, { duration: 'min' }, options);
+
+      expect(await recoverWithEscrow(changed, credential, options)).toBe(TEST_PLAINTEXT);
+      await expect(recoverWithEscrow(relocked, credential, options)).rejects.toThrow(
+        TimelockNotExpiredError
+      );
+      chain.advanceTo(relocked.unlockTime);
+      expect(await recoverWithEscrow(relocked, credential, options)).toBe(TEST_PLAINTEXT);
+    });
+  });
+});
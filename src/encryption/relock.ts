@@ -0,0 +1,236 @@
+import * as openpgp from 'openpgp';
+import { Buffer, type ChainInfo } from 'tlock-js';
+import { getChainInfo } from './timelock';
+import { protectPGPKey, resolveS2kParams } from './pgp';
+import { wrapKey, unwrapDataKey } from './symmetric';
+import { readWrappedKeys, findPasswordSlot, writeWrappedKeys } from './key-slots';
+import { resolveUnlock } from './unlock';
+import { assertPassword } from './password-policy';
+import { normalizeEnvelope } from './envelope';
+import { resolveDecryptionSource } from './beacon-file';
+import { PayloadKey, resolveEscrowKey } from './escrow';
+import {
+  BINARY_PGP_VERSION,
+  lockSecret,
+  unlockPrivateKey,
+  unlockSecret,
+  withTag,
+} from './hybrid';
+import { EnvelopeError, IntegrityError } from './errors';
+import {
+  BeaconSource,
+  EncryptedData,
+  HybridOptions,
+  MultiRecipientEncryptedData,
+  PgpEncryptedData,
+  ResolvedUnlock,
+  SymmetricEncryptedData,
+  UnlockSpec,
+} from '../types';
+
+/**
+ * Re-locking and password changes for envelopes whose round has passed.
+ * Both open the time-lock and check the password, then time-lock the
+ * envelope's secret again: to a new round, or re-wrapped for a new
+ * password. The payload is not re-encrypted, so `encryptedData` is kept.
+ */
+
+/** Envelopes whose time-locked secret is opened with a single password */
+type PasswordEnvelope = PgpEncryptedData | SymmetricEncryptedData | MultiRecipientEncryptedData;
+
+/** Version of relocked `pgp` envelopes whose payload is text literal data */
+const TEXT_PGP_VERSION = 3;
+
+/** An opened envelope: its secret, possibly re-wrapped, and its payload key */
+interface Opened {
+  envelope: PasswordEnvelope;
+  secret: Uint8Array;
+  payloadKey: PayloadKey;
+}
+
+function passwordEnvelope(envelope: EncryptedData | string): PasswordEnvelope {
+  const encryptedData = normalizeEnvelope(envelope);
+  if (encryptedData.mode === 'stream') {
+    throw new EnvelopeError(
+      'Envelope is the header of a streamed payload; re-encrypt the stream instead'
+    );
+  }
+  if (encryptedData.mode === 'shared') {
+    throw new EnvelopeError('Envelope is shared among trustees and has no single password');
+  }
+  if (encryptedData.mode === 'staged') {
+    throw new EnvelopeError('Envelope is staged; each stage is locked to its own round');
+  }
+  if (
+    encryptedData.mode === 'multi' &&
+    !encryptedData.slots.some((slot) => slot.type === 'password')
+  ) {
+    throw new EnvelopeError('Envelope has no password key slots');
+  }
+  return encryptedData;
+}
+
+async function pgpSessionKey(
+  envelope: PgpEncryptedData,
+  privateKey: openpgp.PrivateKey
+): Promise<openpgp.SessionKey> {
+  let sessionKeys: openpgp.DecryptedSessionKey[];
+  try {
+    sessionKeys = await openpgp.decryptSessionKeys({
+      message: await openpgp.readMessage({ armoredMessage: envelope.encryptedData }),
+      decryptionKeys: privateKey,
+    });
+  } catch (err) {
+    throw new IntegrityError('Encrypted data is corrupted or was tampered with', err);
+  }
+  const [{ data, algorithm }] = sessionKeys;
+  if (algorithm === null) {
+    throw new EnvelopeError('OpenPGP payloads with AEAD (SEIPDv2) packets cannot be escrowed');
+  }
+  return { data, algorithm };
+}
+
+/**
+ * Check `password` against the opened `secret`, and re-wrap the secret for
+ * `newPassword` if it is given.
+ */
+async function openWithPassword(
+  envelope: PasswordEnvelope,
+  secret: Uint8Array,
+  password: string,
+  newPassword?: string
+): Promise<Opened> {
+  if (envelope.mode === 'pgp') {
+    const privateKey = await unlockPrivateKey(new TextDecoder().decode(secret), password);
+    const payloadKey = { sessionKey: await pgpSessionKey(envelope, privateKey) };
+    if (newPassword === undefined) {
+      return { envelope, secret, payloadKey };
+    }
+    // An envelope that does not record its S2K gets the default one
+    const s2k = envelope.s2k ?? resolveS2kParams();
+    const { privateKey: armoredKey } = await protectPGPKey(privateKey, newPassword, s2k);
+    return {
+      envelope: envelope.version < BINARY_PGP_VERSION ? envelope : { ...envelope, s2k },
+      secret: new TextEncoder().encode(armoredKey),
+      payloadKey,
+    };
+  }
+
+  if (envelope.mode === 'symmetric') {
+    const dataKey = await unwrapDataKey(secret, password, envelope.kdf, envelope.salt);
+    if (newPassword === undefined) {
+      return { envelope, secret, payloadKey: { dataKey } };
+    }
+    const { salt, wrappedKey } = await wrapKey(dataKey, newPassword, envelope.kdf);
+    return { envelope: { ...envelope, salt }, secret: wrappedKey, payloadKey: { dataKey } };
+  }
+
+  const wrappedKeys = readWrappedKeys(secret, envelope.slots);
+  const { index, dataKey } = await findPasswordSlot(envelope.slots, wrappedKeys, password);
+  const slot = envelope.slots[index];
+  if (newPassword === undefined || slot.type !== 'password') {
+    return { envelope, secret, payloadKey: { dataKey } };
+  }
+  const { salt, wrappedKey } = await wrapKey(dataKey, newPassword, slot.kdf);
+  return {
+    envelope: {
+      ...envelope,
+      slots: envelope.slots.map((other, i) => (i === index ? { ...slot, salt } : other)),
+    },
+    secret: writeWrappedKeys(
+      wrappedKeys.map((other, i) => (i === index ? Buffer.from(wrappedKey).toString('base64') : other))
+    ),
+    payloadKey: { dataKey },
+  };
+}
+
+/**
+ * Time-lock an opened envelope's secret to `unlock` and rebuild its header,
+ * escrow slot and tag.
+ */
+async function reseal(
+  { envelope, secret, payloadKey }: Opened,
+  unlock: ResolvedUnlock,
+  source: BeaconSource,
+  chainInfo: ChainInfo,
+  options: HybridOptions
+): Promise<PasswordEnvelope> {
+  // Older OpenPGP payloads are text literal data, which only the envelope's
+  // version records; they keep that version, which has no escrow slots
+  const textPgp = envelope.mode === 'pgp' && envelope.version < BINARY_PGP_VERSION;
+  const escrowKey = textPgp ? undefined : await resolveEscrowKey(options);
+  const { header, timelocked } = await lockSecret(
+    secret,
+    unlock,
+    source,
+    chainInfo,
+    escrowKey && { key: escrowKey, payloadKey }
+  );
+
+  const { tag: _tag, escrow: _escrow, ...fields } = envelope;
+  const version = textPgp ? { version: TEXT_PGP_VERSION } : {};
+  return withTag(
+    fields.mode === 'pgp'
+      ? { ...fields, ...header, ...version, timelockedPrivateKey: timelocked }
+      : { ...fields, ...header, timelockedKey: timelocked },
+    secret
+  );
+}
+
+async function openEnvelope(
+  envelope: PasswordEnvelope,
+  options: HybridOptions
+): Promise<{ secret: Uint8Array; source: BeaconSource; chainInfo: ChainInfo }> {
+  const secret = await unlockSecret(envelope, options);
+  const source = await resolveDecryptionSource(options, envelope.chainHash);
+  return { secret, source, chainInfo: await getChainInfo(source) };
+}
+
+/**
+ * Time-lock an envelope whose round has passed again, until `newUnlock`
+ * (a duration, `unlockAt` time or round, resolved as by `hybridEncrypt`).
+ * The time-locked key is re-wrapped, not replaced, so the payload and the
+ * password stay the same; in `multi` mode every key slot is kept.
+ *
+ * `password` must open the envelope, as for `hybridDecrypt`. The relocked
+ * envelope gets an escrow slot as `hybridEncrypt` would add one, and copies
+ * of the old envelope remain openable: delete them. Failures are reported as
+ * by `hybridDecrypt`, and an unusable `newUnlock` as by `hybridEncrypt`.
+ */
+export async function relock(
+  envelope: EncryptedData | string,
+  password: string,
+  newUnlock: UnlockSpec,
+  options: HybridOptions = {}
+): Promise<EncryptedData> {
+  const encryptedData = passwordEnvelope(envelope);
+  const { secret, source, chainInfo } = await openEnvelope(encryptedData, options);
+  const opened = await openWithPassword(encryptedData, secret, password);
+  const unlock = resolveUnlock(newUnlock, chainInfo, source.now(), options.maxHorizonMs);
+
+  return reseal(opened, unlock, source, chainInfo, options);
+}
+
+/**
+ * Change the password of an envelope whose round has passed, keeping its
+ * round and payload. In `pgp` mode the private key is re-encrypted under
+ * `newPassword`; otherwise the data key is re-wrapped under a fresh salt
+ * with the same KDF parameters. In `multi` mode only the password slot
+ * that `oldPassword` opens changes.
+ *
+ * Fails as `relock`; a wrong `oldPassword` is an `InvalidPasswordError`.
+ */
+export async function changePassword(
+  envelope: EncryptedData | string,
+  oldPassword: string,
+  newPassword: string,
+  options: HybridOptions = {}
+): Promise<EncryptedData> {
+  const encryptedData = passwordEnvelope(envelope);
+  assertPassword(newPassword, options.passwordPolicy, 'New password');
+  const { secret, source, chainInfo } = await openEnvelope(encryptedData, options);
+  const opened = await openWithPassword(encryptedData, secret, oldPassword, newPassword);
+  const { roundNumber, unlockTime } = encryptedData;
+
+  return reseal(opened, { roundNumber, unlockTime }, source, chainInfo, options);
+}
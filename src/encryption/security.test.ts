@@ -7,23 +7,40 @@
  * - TC3: Wrong drand round signature fails
  * - TC5: Coercion resistance (password alone is insufficient)
  *
+ * All suites run against an in-process LocalDrandChain: time passes by
+ * advancing its clock, so no network access or real waiting is needed.
+ *
  * Reference: Section IV (Security Analysis) of the HTLE paper
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach } from 'vitest';
 import { hybridEncrypt, hybridDecrypt } from './hybrid';
+import { LocalDrandChain } from './local-chain';
+import { createBeaconSource } from './timelock';
+import {
+  TimelockNotExpiredError,
+  InvalidPasswordError,
+  IntegrityError,
+  BeaconUnavailableError,
+} from './errors';
+import { BeaconSource } from '../types';
 import {
   TEST_PASSWORD,
   WRONG_PASSWORD,
   TEST_PLAINTEXT,
   SHORT_DURATION_MS,
-  UNLOCK_BUFFER_MS,
-  wait,
+  DRAND_PERIOD_MS,
   getRemainingTime,
   measureTime,
 } from '../test-utils';
 
 describe('HTLE Security Tests', () => {
+  let chain: LocalDrandChain;
+
+  beforeEach(() => {
+    chain = new LocalDrandChain();
+  });
+
   /**
    * TC1: Premature Decryption Attempt
    *
@@ -36,17 +53,30 @@ describe('HTLE Security Tests', () => {
   describe('TC1: Premature Decryption (Time-Lock Integrity)', () => {
     it('should reject decryption before time-lock expires', async () => {
       const { result: encrypted } = await measureTime('encryption', () =>
-        hybridEncrypt(TEST_PLAINTEXT, {
-          password: TEST_PASSWORD,
-          durationMs: SHORT_DURATION_MS,
-        })
+        hybridEncrypt(
+          TEST_PLAINTEXT,
+          { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS },
+          { beaconSource: chain }
+        )
       );
 
-      const remainingTime = getRemainingTime(encrypted.unlockTime);
+      const remainingTime = getRemainingTime(encrypted.unlockTime, chain.now());
       expect(remainingTime).toBeGreaterThan(0);
 
       // Attempt immediate decryption with correct password
-      await expect(hybridDecrypt(encrypted, TEST_PASSWORD)).rejects.toThrow();
+      const error = await hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain }).catch(
+        (err) => err
+      );
+      expect(error).toBeInstanceOf(TimelockNotExpiredError);
+      expect(error.roundNumber).toBe(encrypted.roundNumber);
+      expect(error.remainingMs).toBeGreaterThan(0);
+      expect(error.unlockTime.getTime()).toBeLessThanOrEqual(encrypted.unlockTime.getTime());
+
+      // One period before the unlock round is still too early
+      chain.advanceTo(encrypted.unlockTime.getTime() - DRAND_PERIOD_MS);
+      await expect(
+        hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow(TimelockNotExpiredError);
     });
   });
 
@@ -61,17 +91,19 @@ describe('HTLE Security Tests', () => {
    */
   describe('TC2: Wrong Password (Password Factor Security)', () => {
     it('should reject decryption with wrong password after time-lock expires', async () => {
-      const encrypted = await hybridEncrypt(TEST_PLAINTEXT, {
-        password: TEST_PASSWORD,
-        durationMs: SHORT_DURATION_MS,
-      });
+      const encrypted = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS },
+        { beaconSource: chain }
+      );
 
-      // Wait for time-lock to expire
-      const remainingTime = getRemainingTime(encrypted.unlockTime);
-      await wait(remainingTime + UNLOCK_BUFFER_MS);
+      // Let the time-lock expire
+      chain.advanceTo(encrypted.unlockTime);
 
       // Attempt decryption with wrong password
-      await expect(hybridDecrypt(encrypted, WRONG_PASSWORD)).rejects.toThrow();
+      await expect(
+        hybridDecrypt(encrypted, WRONG_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow(InvalidPasswordError);
     });
   });
 
@@ -81,34 +113,76 @@ describe('HTLE Security Tests', () => {
    * Validates: Round-specific binding of ciphertext
    * Expected: Decryption with wrong round signature fails
    *
-   * Note: This test validates that the tlock-js library correctly
-   * binds the ciphertext to a specific drand round. The underlying
-   * IBE scheme ensures cryptographic binding.
+   * Note: The local chain lets us serve the signature of a neighbouring
+   * round, which exercises the IBE binding in tlock-js directly.
    *
    * Security Property: Ciphertext encrypted for round R cannot be
    * decrypted using the signature from round R±1.
    */
   describe('TC3: Wrong Round Signature (Round Binding)', () => {
     it('should bind ciphertext to specific drand round', async () => {
-      const encrypted = await hybridEncrypt(TEST_PLAINTEXT, {
-        password: TEST_PASSWORD,
-        durationMs: SHORT_DURATION_MS,
-      });
+      const encrypted = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS },
+        { beaconSource: chain }
+      );
 
       // Verify round number is set correctly
       expect(encrypted.roundNumber).toBeGreaterThan(0);
 
-      // The tlock-js library internally handles round verification.
-      // Tampering with the round would require modifying the encrypted
-      // ciphertext, which would cause decryption to fail due to
-      // cryptographic integrity checks in the IBE scheme.
+      // Publish rounds R and R+1
+      chain.advanceTo(encrypted.unlockTime.getTime() + DRAND_PERIOD_MS);
+
+      // A relay that answers round R with the signature of round R+1.
+      // Beacon verification is disabled so the IBE scheme itself is tested.
+      const wrongRound: BeaconSource = {
+        ...createBeaconSource(chain, () => chain.now()),
+        options: { ...chain.options, disableBeaconVerification: true },
+        get: async (round) => ({ ...(await chain.get(round + 1)), round }),
+      };
+      await expect(
+        hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: wrongRound })
+      ).rejects.toThrow(IntegrityError);
+
+      // The correct round works
+      const decrypted = await hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain });
+      expect(decrypted).toBe(TEST_PLAINTEXT);
+    });
 
-      // Wait and verify correct round works
-      const remainingTime = getRemainingTime(encrypted.unlockTime);
-      await wait(remainingTime + UNLOCK_BUFFER_MS);
+    it('should reject a beacon that fails signature verification', async () => {
+      const encrypted = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS },
+        { beaconSource: chain }
+      );
+      chain.advanceTo(encrypted.unlockTime.getTime() + DRAND_PERIOD_MS);
+
+      const forged: BeaconSource = {
+        ...createBeaconSource(chain, () => chain.now()),
+        get: async (round) => ({ ...(await chain.get(round + 1)), round }),
+      };
+      await expect(
+        hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: forged })
+      ).rejects.toThrow(BeaconUnavailableError);
+    });
 
-      const decrypted = await hybridDecrypt(encrypted, TEST_PASSWORD);
-      expect(decrypted).toBe(TEST_PLAINTEXT);
+    it('should report an unreachable relay as BeaconUnavailableError', async () => {
+      const encrypted = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS },
+        { beaconSource: chain }
+      );
+      chain.advanceTo(encrypted.unlockTime);
+
+      const offline: BeaconSource = {
+        ...createBeaconSource(chain, () => chain.now()),
+        get: async () => {
+          throw new Error('fetch failed');
+        },
+      };
+      await expect(
+        hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: offline })
+      ).rejects.toThrow(BeaconUnavailableError);
     });
   });
 
@@ -127,34 +201,37 @@ describe('HTLE Security Tests', () => {
    */
   describe('TC5: Coercion Resistance (Dual-Factor Security)', () => {
     it('should prevent decryption even with correct password before time-lock', async () => {
-      const encrypted = await hybridEncrypt(TEST_PLAINTEXT, {
-        password: TEST_PASSWORD,
-        durationMs: SHORT_DURATION_MS,
-      });
+      const encrypted = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS },
+        { beaconSource: chain }
+      );
 
       // Simulate coercion: attacker has the correct password
       const coercedPassword = TEST_PASSWORD;
 
       // But time-lock hasn't expired yet
-      const remainingTime = getRemainingTime(encrypted.unlockTime);
+      const remainingTime = getRemainingTime(encrypted.unlockTime, chain.now());
       expect(remainingTime).toBeGreaterThan(0);
 
       // Decryption should fail despite having correct password
-      await expect(hybridDecrypt(encrypted, coercedPassword)).rejects.toThrow();
+      await expect(
+        hybridDecrypt(encrypted, coercedPassword, { beaconSource: chain })
+      ).rejects.toThrow(TimelockNotExpiredError);
     });
 
     it('should succeed with correct password after time-lock expires', async () => {
-      const encrypted = await hybridEncrypt(TEST_PLAINTEXT, {
-        password: TEST_PASSWORD,
-        durationMs: SHORT_DURATION_MS,
-      });
+      const encrypted = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS },
+        { beaconSource: chain }
+      );
 
-      // Wait for time-lock to expire
-      const remainingTime = getRemainingTime(encrypted.unlockTime);
-      await wait(remainingTime + UNLOCK_BUFFER_MS);
+      // Let the time-lock expire
+      chain.advanceTo(encrypted.unlockTime);
 
       // Now decryption should succeed
-      const decrypted = await hybridDecrypt(encrypted, TEST_PASSWORD);
+      const decrypted = await hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain });
       expect(decrypted).toBe(TEST_PLAINTEXT);
     });
   });
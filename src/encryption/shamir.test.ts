@@ -0,0 +1,56 @@
+/**
+ * Shamir Secret Sharing Test Suite for HTLE Framework
+ *
+ * These tests validate splitting and recombining secrets over GF(2^8):
+ * - Any threshold-sized subset of shares recovers the secret
+ * - Fewer shares than the threshold yield an unrelated value
+ * - Invalid arguments and malformed shares are rejected
+ */
+
+import { describe, it, expect } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import { splitSecret, combineShares } from './shamir';
+
+describe('HTLE Shamir Secret Sharing', () => {
+  const secret = randomBytes(32);
+
+  it('should recover the secret from any threshold of shares', () => {
+    const shares = splitSecret(secret, 5, 3);
+
+    expect(shares).toHaveLength(5);
+    for (const subset of [
+      [0, 1, 2],
+      [4, 2, 0],
+      [1, 3, 4],
+      [0, 1, 2, 3, 4],
+    ]) {
+      expect(Buffer.from(combineShares(subset.map((i) => shares[i])))).toEqual(secret);
+    }
+  });
+
+  it('should not recover the secret from fewer shares than the threshold', () => {
+    const shares = splitSecret(secret, 5, 3);
+
+    expect(Buffer.from(combineShares([shares[0], shares[3]]))).not.toEqual(secret);
+  });
+
+  it('should handle a threshold of one and of all shares', () => {
+    const single = splitSecret(secret, 3, 1);
+    expect(single.every((share) => Buffer.from(share.subarray(1)).equals(secret))).toBe(true);
+
+    const all = splitSecret(secret, 3, 3);
+    expect(Buffer.from(combineShares(all))).toEqual(secret);
+    expect(Buffer.from(combineShares(all.slice(1)))).not.toEqual(secret);
+  });
+
+  it('should reject invalid arguments and malformed shares', () => {
+    expect(() => splitSecret(secret, 0, 1)).toThrow(RangeError);
+    expect(() => splitSecret(secret, 256, 2)).toThrow(RangeError);
+    expect(() => splitSecret(secret, 3, 4)).toThrow(RangeError);
+
+    const shares = splitSecret(secret, 3, 2);
+    expect(() => combineShares([])).toThrow(RangeError);
+    expect(() => combineShares([shares[0], shares[0]])).toThrow('distinct');
+    expect(() => combineShares([shares[0], shares[1].subarray(1)])).toThrow('equal length');
+  });
+});
@@ -0,0 +1,92 @@
+import { randomBytes } from '@noble/hashes/utils';
+
+/**
+ * Shamir secret sharing over GF(2^8), byte by byte. A share is its
+ * x-coordinate (1..255) followed by one y-coordinate per secret byte; any
+ * `threshold` shares determine the secret, and fewer reveal nothing about it.
+ */
+
+export const MAX_SHARES = 255;
+
+// log/exp tables of GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1
+// and generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = EXP[i + 255] = x;
+  LOG[x] = i;
+  x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+}
+
+function mul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Split `secret` into `count` shares, any `threshold` of which recover it.
+ */
+export function splitSecret(secret: Uint8Array, count: number, threshold: number): Uint8Array[] {
+  if (!Number.isInteger(count) || count < 1 || count > MAX_SHARES) {
+    throw new RangeError(`Share count must be an integer between 1 and ${MAX_SHARES}`);
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > count) {
+    throw new RangeError(`Threshold must be an integer between 1 and the share count (${count})`);
+  }
+
+  const shares = Array.from({ length: count }, (_, i) => {
+    const share = new Uint8Array(secret.length + 1);
+    share[0] = i + 1;
+    return share;
+  });
+
+  for (let byte = 0; byte < secret.length; byte++) {
+    // random polynomial of degree threshold - 1 with the secret byte as constant term
+    const coefficients = [secret[byte], ...randomBytes(threshold - 1)];
+    for (const share of shares) {
+      let y = 0;
+      for (let c = coefficients.length - 1; c >= 0; c--) {
+        y = mul(y, share[0]) ^ coefficients[c];
+      }
+      share[byte + 1] = y;
+    }
+  }
+  return shares;
+}
+
+/**
+ * Recover a secret from shares produced by `splitSecret`, by Lagrange
+ * interpolation at x = 0. With fewer than the threshold, or with a
+ * corrupted share, the result is an unrelated value; callers must check it.
+ */
+export function combineShares(shares: Uint8Array[]): Uint8Array {
+  if (shares.length === 0) {
+    throw new RangeError('At least one share is required');
+  }
+  const length = shares[0].length;
+  const xs = shares.map((share) => share[0]);
+  if (shares.some((share) => share.length !== length) || length < 2) {
+    throw new RangeError('Shares must be non-empty and of equal length');
+  }
+  if (xs.includes(0) || new Set(xs).size !== xs.length) {
+    throw new RangeError('Shares must have distinct, non-zero indexes');
+  }
+
+  const secret = new Uint8Array(length - 1);
+  for (let i = 0; i < shares.length; i++) {
+    // Lagrange basis polynomial of share i, evaluated at 0
+    let basis = 1;
+    for (let j = 0; j < shares.length; j++) {
+      if (i !== j) {
+        basis = mul(basis, div(xs[j], xs[j] ^ xs[i]));
+      }
+    }
+    for (let byte = 0; byte < secret.length; byte++) {
+      secret[byte] ^= mul(shares[i][byte + 1], basis);
+    }
+  }
+  return secret;
+}
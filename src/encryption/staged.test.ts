@@ -0,0 +1,171 @@
+/**
+ * Staged Envelope Test Suite for HTLE Framework
+ *
+ * These tests validate documents whose sections open one after another:
+ * - Each stage is time-locked to its own round under one password
+ * - Decryption returns the open stages and the schedule of the rest
+ * - Relay failures on due stages are thrown, not reported as pending
+ * - Tampered stage metadata and swapped stage ciphertexts are detected
+ * - Invalid stage lists are rejected before anything is encrypted
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { encryptInStages } from './staged';
+import { hybridDecrypt } from './hybrid';
+import { parseEnvelope, serializeEnvelope } from './envelope';
+import { getLockStatus } from './status';
+import { LocalDrandChain } from './local-chain';
+import {
+  BeaconUnavailableError,
+  IntegrityError,
+  InvalidPasswordError,
+  TimelockNotExpiredError,
+  WeakPasswordError,
+} from './errors';
+import { BeaconSource, StagedEncryptedData, StageInput } from '../types';
+import { TEST_PASSWORD, WRONG_PASSWORD } from '../test-utils';
+
+describe('HTLE Staged Envelopes', () => {
+  const kdf = { algorithm: 'scrypt', N: 2 ** 10 } as const;
+  const stages: StageInput[] = [
+    { label: 'abstract', data: 'The abstract', duration: '1m' },
+    { label: 'results', data: 'The results', duration: '1h' },
+    { data: new Uint8Array([0, 1, 2, 255]), duration: '1d' },
+  ];
+
+  let chain: LocalDrandChain;
+  let envelope: StagedEncryptedData;
+
+  beforeEach(async () => {
+    chain = new LocalDrandChain();
+    envelope = await encryptInStages(stages, { password: TEST_PASSWORD, kdf }, {
+      beaconSource: chain,
+    });
+  });
+
+  function decrypt(data: StagedEncryptedData = envelope, password = TEST_PASSWORD) {
+    return hybridDecrypt(data, password, { beaconSource: chain });
+  }
+
+  it('should lock each stage to its own round', async () => {
+    const [first, second, third] = envelope.stages;
+
+    expect(envelope).toMatchObject({
+      mode: 'staged',
+      roundNumber: first.roundNumber,
+      unlockTime: first.unlockTime,
+    });
+    expect(first).toMatchObject({ label: 'abstract' });
+    expect(third).not.toHaveProperty('label');
+    expect(second.roundNumber).toBeGreaterThan(first.roundNumber);
+    expect(third.unlockTime.getTime()).toBeGreaterThanOrEqual(chain.now() + 86_400_000);
+    expect(parseEnvelope(serializeEnvelope(envelope, 'armor'))).toEqual(envelope);
+    expect(serializeEnvelope(envelope)).not.toContain('The abstract');
+    expect(await getLockStatus(envelope, { beaconSource: chain })).toMatchObject({
+      roundNumber: first.roundNumber,
+      isUnlockable: false,
+    });
+  });
+
+  it('should open the stages whose rounds have been published', async () => {
+    const [first, second, third] = envelope.stages;
+    await expect(decrypt()).rejects.toThrow(TimelockNotExpiredError);
+
+    chain.advanceTo(first.unlockTime);
+    expect(await decrypt()).toEqual({
+      open: [
+        {
+          label: 'abstract',
+          roundNumber: first.roundNumber,
+          unlockTime: first.unlockTime,
+          data: 'The abstract',
+        },
+      ],
+      pending: [
+        { label: 'results', roundNumber: second.roundNumber, unlockTime: second.unlockTime },
+        { roundNumber: third.roundNumber, unlockTime: third.unlockTime },
+      ],
+    });
+
+    chain.advanceTo(second.unlockTime);
+    expect((await decrypt()).open.map((stage) => stage.data)).toEqual([
+      'The abstract',
+      'The results',
+    ]);
+
+    chain.advanceTo(third.unlockTime);
+    const opened = await hybridDecrypt(envelope, TEST_PASSWORD, {
+      beaconSource: chain,
+      format: 'binary',
+    });
+    expect(opened.pending).toEqual([]);
+    expect(opened.open[2].data).toEqual(new Uint8Array([0, 1, 2, 255]));
+  });
+
+  it('should open serialized envelopes and reject a wrong password', async () => {
+    chain.advanceTo(envelope.stages[1].unlockTime);
+
+    await expect(decrypt(envelope, WRONG_PASSWORD)).rejects.toThrow(InvalidPasswordError);
+    const opened = await hybridDecrypt(serializeEnvelope(envelope, 'armor'), TEST_PASSWORD, {
+      beaconSource: chain,
+    });
+    expect(opened).toEqual(await decrypt());
+    expect(opened).toMatchObject({ pending: [{ roundNumber: envelope.stages[2].roundNumber }] });
+  });
+
+  it('should report relay failures on due stages rather than leave them pending', async () => {
+    const [, second] = envelope.stages;
+    chain.advanceTo(second.unlockTime);
+    const failing: BeaconSource = {
+      options: chain.options,
+      chain: () => chain.chain(),
+      latest: () => chain.latest(),
+      now: () => chain.now(),
+      get: async (round) => {
+        if (round === second.roundNumber) throw new Error('relay down');
+        return chain.get(round);
+      },
+    };
+
+    await expect(
+      hybridDecrypt(envelope, TEST_PASSWORD, { beaconSource: failing })
+    ).rejects.toThrow(BeaconUnavailableError);
+  });
+
+  it('should detect tampered stages', async () => {
+    chain.advanceTo(envelope.stages[2].unlockTime);
+    const [first, second, third] = envelope.stages;
+
+    const relabelled = { ...envelope, stages: [first, { ...second, label: 'appendix' }, third] };
+    const moved = {
+      ...envelope,
+      stages: [first, { ...second, roundNumber: first.roundNumber }, third],
+    };
+    const swapped = {
+      ...envelope,
+      stages: [first, { ...second, timelockedKey: third.timelockedKey }, third],
+    };
+
+    await expect(decrypt(relabelled)).rejects.toThrow('integrity tag mismatch');
+    await expect(decrypt(moved)).rejects.toThrow(IntegrityError);
+    await expect(decrypt(swapped)).rejects.toThrow(/stages\.1\.roundNumber/);
+  });
+
+  it('should reject invalid stage lists', async () => {
+    const encrypt = (input: StageInput[], password = TEST_PASSWORD) =>
+      encryptInStages(input, { password, kdf }, { beaconSource: chain });
+
+    await expect(encrypt([])).rejects.toThrow(TypeError);
+    await expect(encrypt([stages[1], stages[0]])).rejects.toThrow(
+      'Stage 2 unlocks before stage 1'
+    );
+    await expect(encrypt([{ ...stages[0], label: '' }])).rejects.toThrow(TypeError);
+    await expect(encrypt([{ data: 'x', duration: '1m', round: 5 }])).rejects.toThrow(TypeError);
+    await expect(
+      encryptInStages(stages, { password: 'short', kdf }, {
+        beaconSource: chain,
+        passwordPolicy: { minLength: 8 },
+      })
+    ).rejects.toThrow(WeakPasswordError);
+  });
+});
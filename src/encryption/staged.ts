@@ -0,0 +1,96 @@
+import { randomBytes } from '@noble/hashes/utils';
+import { getChainInfo, resolveBeaconSource } from './timelock';
+import { KEY_LENGTH, resolveKdfParams, wrapKeys, encryptPayload } from './symmetric';
+import { resolveUnlock } from './unlock';
+import { assertPassword } from './password-policy';
+import { MAX_STAGES } from './envelope';
+import { lockSecret, withTag } from './hybrid';
+import {
+  EnvelopeStage,
+  HybridOptions,
+  StagedEncryptedData,
+  StagedEncryptionConfig,
+  StageInput,
+} from '../types';
+
+/**
+ * Staged envelopes: a document in sections that open one after another,
+ * such as an abstract now, results in a month and raw data in a year. Each
+ * stage is encrypted under its own data key. The data keys are wrapped with
+ * one key derived from the password, and each wrapped key is time-locked to
+ * its stage's round, so a stage cannot be opened before its round even by
+ * someone who knows the password.
+ */
+
+function checkStages(stages: StageInput[]): void {
+  if (!Array.isArray(stages) || stages.length === 0) {
+    throw new TypeError('At least one stage is required');
+  }
+  if (stages.length > MAX_STAGES) {
+    throw new RangeError(`At most ${MAX_STAGES} stages are supported`);
+  }
+  for (const [i, stage] of stages.entries()) {
+    if (stage.label !== undefined && (typeof stage.label !== 'string' || stage.label === '')) {
+      throw new TypeError(`Label of stage ${i + 1} must be a non-empty string`);
+    }
+    if (typeof stage.data !== 'string' && !(stage.data instanceof Uint8Array)) {
+      throw new TypeError(`Data of stage ${i + 1} must be a string or a Uint8Array`);
+    }
+  }
+}
+
+/**
+ * Encrypt a document as an ordered set of stages, each locked until its own
+ * duration, `unlockAt` time or round. Stages must be given in unlock order;
+ * stages may share a round. All stages are protected by `config.password`.
+ *
+ * `hybridDecrypt` opens a staged envelope once its first stage's round is
+ * published, and returns the stages open so far with the schedule of the
+ * rest. The envelope's header reports the first stage's round, so
+ * `getLockStatus` and `verifyEnvelope` describe that stage. Staged envelopes
+ * have no escrow slot.
+ */
+export async function encryptInStages(
+  stages: StageInput[],
+  config: StagedEncryptionConfig,
+  options: HybridOptions = {}
+): Promise<StagedEncryptedData> {
+  checkStages(stages);
+  assertPassword(config.password, options.passwordPolicy);
+  const kdf = resolveKdfParams(config.kdf);
+
+  const source = resolveBeaconSource(options, options.chain);
+  const chainInfo = await getChainInfo(source);
+  const now = source.now();
+  const unlocks = stages.map((stage) =>
+    resolveUnlock(stage, chainInfo, now, options.maxHorizonMs)
+  );
+  for (let i = 1; i < unlocks.length; i++) {
+    if (unlocks[i].roundNumber < unlocks[i - 1].roundNumber) {
+      throw new RangeError(
+        `Stage ${i + 1} unlocks before stage ${i}; give the stages in unlock order`
+      );
+    }
+  }
+
+  const dataKeys = stages.map(() => randomBytes(KEY_LENGTH));
+  const { salt, wrappedKeys } = await wrapKeys(dataKeys, config.password, kdf);
+
+  const locked = [];
+  const envelopeStages: EnvelopeStage[] = [];
+  for (const [i, stage] of stages.entries()) {
+    locked.push(await lockSecret(wrappedKeys[i], unlocks[i], source, chainInfo));
+    envelopeStages.push({
+      ...(stage.label === undefined ? {} : { label: stage.label }),
+      roundNumber: unlocks[i].roundNumber,
+      unlockTime: unlocks[i].unlockTime,
+      encryptedData: await encryptPayload(dataKeys[i], stage.data),
+      timelockedKey: locked[i].timelocked,
+    });
+  }
+
+  return withTag(
+    { ...locked[0].header, mode: 'staged', kdf, salt, stages: envelopeStages },
+    wrappedKeys[0]
+  );
+}
@@ -0,0 +1,102 @@
+/**
+ * Lock Status Test Suite for HTLE Framework
+ *
+ * These tests validate password-free status polling:
+ * - Target round, release time and remaining time before and after unlock
+ * - The chain's latest round is consulted, not just the local clock
+ * - Serialized envelopes, foreign chains and unreachable relays
+ * - Status of a bare round, without an envelope
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { roundTime } from 'tlock-js';
+import { getLockStatus, getRoundStatus } from './status';
+import { hybridEncrypt } from './hybrid';
+import { LocalDrandChain } from './local-chain';
+import { createBeaconSource } from './timelock';
+import { serializeEnvelope } from './envelope';
+import { BeaconUnavailableError, EnvelopeError } from './errors';
+import { BeaconSource, EncryptedData } from '../types';
+import { TEST_PASSWORD, TEST_PLAINTEXT, DRAND_PERIOD_MS } from '../test-utils';
+
+describe('HTLE Lock Status', () => {
+  let chain: LocalDrandChain;
+  let encrypted: EncryptedData;
+
+  beforeEach(async () => {
+    chain = new LocalDrandChain();
+    encrypted = await hybridEncrypt(
+      TEST_PLAINTEXT,
+      { password: TEST_PASSWORD, duration: '5m', keyProfile: 'curve25519' },
+      { beaconSource: chain }
+    );
+  });
+
+  it('should report a locked envelope with its countdown', async () => {
+    const status = await getLockStatus(encrypted, { beaconSource: chain });
+
+    expect(status.roundNumber).toBe(encrypted.roundNumber);
+    expect(status.unlockTime.getTime()).toBe(roundTime(chain.chainInfo, encrypted.roundNumber));
+    expect(status.latestRound).toBe((await chain.latest()).round);
+    expect(status.latestRound).toBeLessThan(encrypted.roundNumber);
+    expect(status.remainingMs).toBe(status.unlockTime.getTime() - chain.now());
+    expect(status.isUnlockable).toBe(false);
+  });
+
+  it('should become unlockable once the round is published', async () => {
+    chain.advanceTo(encrypted.unlockTime.getTime() - DRAND_PERIOD_MS);
+    expect((await getLockStatus(encrypted, { beaconSource: chain })).isUnlockable).toBe(false);
+
+    chain.advanceTo(encrypted.unlockTime);
+    const status = await getLockStatus(serializeEnvelope(encrypted, 'armor'), {
+      beaconSource: chain,
+    });
+
+    expect(status.isUnlockable).toBe(true);
+    expect(status.remainingMs).toBe(0);
+    expect(status.latestRound).toBe(encrypted.roundNumber);
+  });
+
+  it('should not report unlockable while the chain lags behind the clock', async () => {
+    chain.advanceTo(encrypted.unlockTime);
+    const lagging: BeaconSource = {
+      ...createBeaconSource(chain, () => chain.now()),
+      latest: () => chain.get(encrypted.roundNumber - 1),
+    };
+
+    const status = await getLockStatus(encrypted, { beaconSource: lagging });
+    expect(status.remainingMs).toBe(0);
+    expect(status.isUnlockable).toBe(false);
+  });
+
+  it('should reject envelopes locked to another chain', async () => {
+    await expect(
+      getLockStatus(encrypted, { beaconSource: new LocalDrandChain() })
+    ).rejects.toThrow(EnvelopeError);
+  });
+
+  it('should report an unreachable relay as BeaconUnavailableError', async () => {
+    const offline: BeaconSource = {
+      ...createBeaconSource(chain, () => chain.now()),
+      latest: async () => {
+        throw new Error('fetch failed');
+      },
+    };
+
+    await expect(getLockStatus(encrypted, { beaconSource: offline })).rejects.toThrow(
+      BeaconUnavailableError
+    );
+  });
+
+  it('should report the status of a bare round', async () => {
+    const locked = await getRoundStatus(encrypted.roundNumber, { beaconSource: chain });
+    expect(locked).toEqual(await getLockStatus(encrypted, { beaconSource: chain }));
+
+    chain.advanceTo(encrypted.unlockTime);
+    expect(await getRoundStatus(encrypted.roundNumber, { beaconSource: chain })).toMatchObject({
+      chainHash: chain.chainInfo.hash,
+      isUnlockable: true,
+    });
+    await expect(getRoundStatus(0, { beaconSource: chain })).rejects.toThrow(RangeError);
+  });
+});
@@ -0,0 +1,76 @@
+import { ChainInfo, roundTime } from 'tlock-js';
+import { getChainInfo, resolveBeaconSource } from './timelock';
+import { normalizeEnvelope, assertEnvelopeChain } from './envelope';
+import { assertEnvelopeMetadata } from './verify';
+import { BeaconUnavailableError } from './errors';
+import { BeaconSource, EncryptedData, HybridOptions, LockStatus } from '../types';
+
+/**
+ * Report whether an envelope can be decrypted yet, without a password and
+ * without attempting decryption. Costs one request for the chain's latest
+ * round (chain info is cached by the relay client), so it is cheap to poll.
+ *
+ * Throws `EnvelopeError` for a malformed envelope or one locked to another
+ * chain, `IntegrityError` if its round or unlock time was edited, and
+ * `BeaconUnavailableError` if the relay cannot be reached.
+ */
+export async function getLockStatus(
+  envelope: EncryptedData | string,
+  options: Pick<HybridOptions, 'beaconSource' | 'chains'> = {}
+): Promise<LockStatus> {
+  const data = normalizeEnvelope(envelope);
+  const source = resolveBeaconSource(options, data.chainHash);
+  const chainInfo = await getChainInfo(source);
+  assertEnvelopeChain(data, chainInfo);
+  assertEnvelopeMetadata(data, chainInfo);
+
+  return roundStatus(source, chainInfo, data.roundNumber);
+}
+
+/**
+ * Report whether drand round `roundNumber` of `chain` (default: the
+ * configured chain) has been published, as `getLockStatus` would for an
+ * envelope locked to it. Throws `RangeError` for a round that is not a
+ * positive integer and `BeaconUnavailableError` if the relay cannot be
+ * reached.
+ */
+export async function getRoundStatus(
+  roundNumber: number,
+  options: Pick<HybridOptions, 'beaconSource' | 'chain' | 'chains'> = {}
+): Promise<LockStatus> {
+  if (!Number.isSafeInteger(roundNumber) || roundNumber < 1) {
+    throw new RangeError(`Invalid round ${roundNumber}: expected a positive integer`);
+  }
+  const source = resolveBeaconSource(options, options.chain);
+  return roundStatus(source, await getChainInfo(source), roundNumber);
+}
+
+async function roundStatus(
+  source: BeaconSource,
+  chainInfo: ChainInfo,
+  roundNumber: number
+): Promise<LockStatus> {
+  let latestRound: number;
+  try {
+    latestRound = (await source.latest()).round;
+  } catch (err) {
+    throw new BeaconUnavailableError(
+      `Could not fetch the latest round from ${source.chain().baseUrl}: ${
+        err instanceof Error ? err.message : String(err)
+      }`,
+      err
+    );
+  }
+
+  const unlockTime = roundTime(chainInfo, roundNumber);
+  const remainingMs = Math.max(0, unlockTime - source.now());
+
+  return {
+    chainHash: chainInfo.hash,
+    roundNumber,
+    unlockTime: new Date(unlockTime),
+    latestRound,
+    remainingMs,
+    isUnlockable: latestRound >= roundNumber && remainingMs === 0,
+  };
+}
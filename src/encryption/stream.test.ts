@@ -0,0 +1,249 @@
+/**
+ * Streaming Encryption Test Suite for HTLE Framework
+ *
+ * These tests validate chunked encryption of streams and files:
+ * - Round trips through Node and web streams, at and around chunk boundaries
+ * - Lock, password and header checks before any output is produced
+ * - Detection of modified, reordered and truncated chunks
+ * - File helpers, including cleanup of partial output
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { ReadableStream } from 'node:stream/web';
+import { encryptStream, decryptStream, encryptFile, decryptFile, readStreamHeader } from './stream';
+import { hybridDecrypt } from './hybrid';
+import { getLockStatus } from './status';
+import { LocalDrandChain } from './local-chain';
+import {
+  EnvelopeError,
+  IntegrityError,
+  InvalidPasswordError,
+  TimelockNotExpiredError,
+} from './errors';
+import { TEST_PASSWORD, WRONG_PASSWORD } from '../test-utils';
+
+const CHUNK_SIZE = 64;
+
+/** Sealed chunk size: plaintext plus the 16-byte GCM tag */
+const SEALED_CHUNK_SIZE = CHUNK_SIZE + 16;
+
+describe('HTLE Streaming Encryption', () => {
+  let chain: LocalDrandChain;
+  let dir: string;
+
+  const config = {
+    password: TEST_PASSWORD,
+    duration: 'min',
+    kdf: { algorithm: 'scrypt', N: 2 ** 10 },
+  } as const;
+
+  beforeEach(() => {
+    chain = new LocalDrandChain();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'htle-stream-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function collect(stream: AsyncIterable<Uint8Array>): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /** Encrypt `payload`, fed in uneven pieces, and unlock the chain */
+  async function encrypted(payload: Buffer): Promise<Buffer> {
+    const pieces = [payload.subarray(0, 7), payload.subarray(7, 150), payload.subarray(150)];
+    const output = await encryptStream(Readable.from(pieces), config, {
+      beaconSource: chain,
+      chunkSize: CHUNK_SIZE,
+    });
+    const bytes = await collect(output);
+    chain.advanceTo((await readStreamHeader(Readable.from([bytes]))).unlockTime);
+    return bytes;
+  }
+
+  function decrypt(bytes: Buffer, password = TEST_PASSWORD) {
+    return decryptStream(Readable.from([bytes]), password, { beaconSource: chain });
+  }
+
+  it.each([
+    { name: 'empty', size: 0 },
+    { name: 'shorter than a chunk', size: 10 },
+    { name: 'exactly one chunk', size: CHUNK_SIZE },
+    { name: 'a multiple of the chunk size', size: CHUNK_SIZE * 4 },
+    { name: 'spanning several chunks', size: 1000 },
+  ])('should round-trip a payload $name', async ({ size }) => {
+    const payload = randomBytes(size);
+
+    expect(await collect(await decrypt(await encrypted(payload)))).toEqual(payload);
+  });
+
+  it('should return web streams for web stream input', async () => {
+    const payload = randomBytes(300);
+    const input = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(payload);
+        controller.close();
+      },
+    });
+
+    const output = await encryptStream(input, config, { beaconSource: chain, chunkSize: CHUNK_SIZE });
+    expect(output).toBeInstanceOf(ReadableStream);
+    const bytes = await collect(output);
+    chain.advanceTo((await readStreamHeader(Readable.from([bytes]))).unlockTime);
+
+    const decrypted = await decryptStream(Readable.toWeb(Readable.from([bytes])), TEST_PASSWORD, {
+      beaconSource: chain,
+    });
+    expect(decrypted).toBeInstanceOf(ReadableStream);
+    expect(await collect(decrypted)).toEqual(payload);
+  });
+
+  it('should expose the header for status checks without a password', async () => {
+    const output = await encryptStream(Readable.from([randomBytes(100)]), config, {
+      beaconSource: chain,
+    });
+    const header = await readStreamHeader(output);
+
+    expect(header).toMatchObject({ mode: 'stream', chunkSize: 64 * 1024 });
+    expect(await getLockStatus(header, { beaconSource: chain })).toMatchObject({
+      roundNumber: header.roundNumber,
+      isUnlockable: false,
+    });
+    await expect(hybridDecrypt(header, TEST_PASSWORD, { beaconSource: chain })).rejects.toThrow(
+      'decrypt it with decryptStream'
+    );
+  });
+
+  it('should reject locked streams and wrong passwords before any output', async () => {
+    const output = await encryptStream(Readable.from([randomBytes(100)]), config, {
+      beaconSource: chain,
+    });
+    const bytes = await collect(output);
+
+    await expect(decrypt(bytes)).rejects.toThrow(TimelockNotExpiredError);
+    chain.advanceTo((await readStreamHeader(Readable.from([bytes]))).unlockTime);
+    await expect(decrypt(bytes, WRONG_PASSWORD)).rejects.toThrow(InvalidPasswordError);
+  });
+
+  it('should reject input that is not an encrypted stream', async () => {
+    await expect(decrypt(Buffer.from('{"version": 4}'))).rejects.toThrow(EnvelopeError);
+  });
+
+  it('should reject edits to the header', async () => {
+    const bytes = await encrypted(randomBytes(300));
+    // same length, so that the header stays well-formed
+    const edited = Buffer.from(
+      bytes.toString('latin1').replace(`"chunkSize": ${CHUNK_SIZE}`, '"chunkSize": 96'),
+      'latin1'
+    );
+
+    await expect(decrypt(edited)).rejects.toThrow(IntegrityError);
+  });
+
+  describe('Chunk Integrity', () => {
+    const payload = randomBytes(CHUNK_SIZE * 3 + 10);
+    let bytes: Buffer;
+    let chunksStart: number;
+
+    beforeEach(async () => {
+      bytes = await encrypted(payload);
+      chunksStart = bytes.length - 3 * SEALED_CHUNK_SIZE - (10 + 16);
+    });
+
+    it.each([
+      {
+        name: 'a modified chunk',
+        damage: (b: Buffer, start: number) => {
+          const copy = Buffer.from(b);
+          copy[start + SEALED_CHUNK_SIZE + 5] ^= 1;
+          return copy;
+        },
+      },
+      {
+        name: 'swapped chunks',
+        damage: (b: Buffer, start: number) =>
+          Buffer.concat([
+            b.subarray(0, start),
+            b.subarray(start + SEALED_CHUNK_SIZE, start + 2 * SEALED_CHUNK_SIZE),
+            b.subarray(start, start + SEALED_CHUNK_SIZE),
+            b.subarray(start + 2 * SEALED_CHUNK_SIZE),
+          ]),
+      },
+      {
+        name: 'a stream cut at a chunk boundary',
+        damage: (b: Buffer, start: number) => b.subarray(0, start + 2 * SEALED_CHUNK_SIZE),
+      },
+      {
+        name: 'a stream cut inside a chunk',
+        damage: (b: Buffer) => b.subarray(0, b.length - 5),
+      },
+      {
+        name: 'trailing bytes',
+        damage: (b: Buffer) => Buffer.concat([b, Buffer.alloc(3)]),
+      },
+    ])('should fail the output on $name', async ({ damage }) => {
+      const output = await decrypt(damage(bytes, chunksStart));
+
+      await expect(collect(output)).rejects.toThrow(IntegrityError);
+    });
+  });
+
+  describe('Files', () => {
+    it('should encrypt and decrypt files', async () => {
+      const payload = randomBytes(200_000);
+      const plainPath = path.join(dir, 'plain.bin');
+      const encryptedPath = path.join(dir, 'plain.bin.htle');
+      const decryptedPath = path.join(dir, 'decrypted.bin');
+      fs.writeFileSync(plainPath, payload);
+
+      const envelope = await encryptFile(plainPath, encryptedPath, config, { beaconSource: chain });
+      expect(envelope.mode).toBe('stream');
+      expect(fs.statSync(encryptedPath).size).toBeGreaterThan(payload.length);
+
+      chain.advanceTo(envelope.unlockTime);
+      await decryptFile(encryptedPath, decryptedPath, TEST_PASSWORD, { beaconSource: chain });
+      expect(fs.readFileSync(decryptedPath)).toEqual(payload);
+    });
+
+    it('should not leave output behind when decryption fails', async () => {
+      const encryptedPath = path.join(dir, 'data.htle');
+      const decryptedPath = path.join(dir, 'data.bin');
+      const bytes = await encrypted(randomBytes(CHUNK_SIZE * 3));
+      fs.writeFileSync(encryptedPath, bytes.subarray(0, bytes.length - SEALED_CHUNK_SIZE));
+
+      await expect(
+        decryptFile(encryptedPath, decryptedPath, WRONG_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow(InvalidPasswordError);
+      expect(fs.existsSync(decryptedPath)).toBe(false);
+
+      await expect(
+        decryptFile(encryptedPath, decryptedPath, TEST_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow(IntegrityError);
+      expect(fs.existsSync(decryptedPath)).toBe(false);
+    });
+  });
+
+  it('should validate the configuration', async () => {
+    const input = () => Readable.from([Buffer.from('x')]);
+
+    await expect(
+      encryptStream(input(), { ...config, mode: 'pgp' }, { beaconSource: chain })
+    ).rejects.toThrow(TypeError);
+    await expect(
+      encryptStream(input(), { ...config, keyProfile: 'curve25519' }, { beaconSource: chain })
+    ).rejects.toThrow(TypeError);
+    await expect(
+      encryptStream(input(), config, { beaconSource: chain, chunkSize: 16 })
+    ).rejects.toThrow(RangeError);
+  });
+});
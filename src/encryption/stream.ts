@@ -0,0 +1,424 @@
+import fs from 'fs';
+import { createCipheriv, createDecipheriv } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream } from 'stream/web';
+import { lockSecret, unlockSecret, withTag } from './hybrid';
+import { getChainInfo, resolveBeaconSource } from './timelock';
+import { resolveUnlock } from './unlock';
+import { assertPassword } from './password-policy';
+import { parseEnvelope, serializeEnvelope } from './envelope';
+import {
+  CHUNK_SIZE_LIMITS,
+  DEFAULT_CHUNK_SIZE,
+  NONCE_LENGTH,
+  TAG_LENGTH,
+  createDataKey,
+  unwrapDataKey,
+} from './symmetric';
+import { EnvelopeError, IntegrityError } from './errors';
+import {
+  HybridEncryptionConfig,
+  HybridOptions,
+  StreamEncryptedData,
+  StreamOptions,
+} from '../types';
+
+/**
+ * Layout of an encrypted stream:
+ *
+ *   "HTLESTRM" | header length (uint32, big-endian) | header | chunks
+ *
+ * The header is a serialized `stream` envelope. Each chunk is `chunkSize`
+ * bytes of plaintext sealed by `sealChunk`, except the last, which is
+ * shorter (and empty only for an empty payload).
+ */
+const STREAM_MAGIC = Buffer.from('HTLESTRM', 'ascii');
+const HEADER_LENGTH_BYTES = 4;
+/** Upper bound for the header, so a crafted stream cannot claim unbounded memory */
+const MAX_HEADER_LENGTH = 64 * 1024;
+
+/** Node readable streams and other async iterables of bytes */
+export type StreamInput = AsyncIterable<Uint8Array | string>;
+
+function isWebStream(input: unknown): input is ReadableStream<Uint8Array> {
+  return typeof (input as ReadableStream).getReader === 'function';
+}
+
+function toIterable(input: StreamInput | ReadableStream<Uint8Array>): StreamInput {
+  return isWebStream(input) ? Readable.fromWeb(input) : input;
+}
+
+/** Wrap `chunks` in the same kind of stream as `input`: web in, web out */
+function toOutput(
+  input: StreamInput | ReadableStream<Uint8Array>,
+  chunks: AsyncIterable<Uint8Array>
+): Readable | ReadableStream<Uint8Array> {
+  const readable = Readable.from(chunks, { objectMode: false });
+  return isWebStream(input) ? (Readable.toWeb(readable) as ReadableStream<Uint8Array>) : readable;
+}
+
+/** View a chunk as a Buffer without copying; callers copy before keeping it */
+function toBuffer(chunk: Uint8Array | string): Buffer {
+  return typeof chunk === 'string'
+    ? Buffer.from(chunk, 'utf8')
+    : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+}
+
+/**
+ * Reads exact byte counts from an async iterator of chunks, buffering no
+ * more than one read ahead.
+ */
+class ByteReader {
+  private buffer: Buffer = Buffer.alloc(0);
+  private done = false;
+
+  constructor(private readonly iterator: AsyncIterator<Uint8Array | string>) {}
+
+  /** Read `length` bytes, or fewer if the input ends first */
+  async read(length: number): Promise<Buffer> {
+    await this.fill(length);
+    const bytes = this.buffer.subarray(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return bytes;
+  }
+
+  /** Whether the input has no bytes left */
+  async atEnd(): Promise<boolean> {
+    await this.fill(1);
+    return this.buffer.length === 0;
+  }
+
+  /** Stop reading and release the underlying input */
+  async close(): Promise<void> {
+    this.done = true;
+    await this.iterator.return?.();
+  }
+
+  private async fill(length: number): Promise<void> {
+    const parts: Buffer[] = [this.buffer];
+    let size = this.buffer.length;
+    while (size < length && !this.done) {
+      const { value, done } = await this.iterator.next();
+      if (done) {
+        this.done = true;
+      } else {
+        const chunk = toBuffer(value);
+        parts.push(chunk);
+        size += chunk.length;
+      }
+    }
+    if (parts.length > 1) {
+      this.buffer = Buffer.concat(parts, size);
+    }
+  }
+}
+
+function checkChunkSize(chunkSize: number): number {
+  const { min, max } = CHUNK_SIZE_LIMITS;
+  if (!Number.isInteger(chunkSize) || chunkSize < min || chunkSize > max) {
+    throw new RangeError(`chunkSize must be an integer between ${min} and ${max}`);
+  }
+  return chunkSize;
+}
+
+function encodeHeader(envelope: StreamEncryptedData): Buffer {
+  const header = Buffer.from(serializeEnvelope(envelope), 'utf8');
+  const length = Buffer.alloc(HEADER_LENGTH_BYTES);
+  length.writeUInt32BE(header.length);
+  return Buffer.concat([STREAM_MAGIC, length, header]);
+}
+
+async function readHeader(reader: ByteReader): Promise<StreamEncryptedData> {
+  const prefix = await reader.read(STREAM_MAGIC.length + HEADER_LENGTH_BYTES);
+  if (
+    prefix.length < STREAM_MAGIC.length + HEADER_LENGTH_BYTES ||
+    !prefix.subarray(0, STREAM_MAGIC.length).equals(STREAM_MAGIC)
+  ) {
+    throw new EnvelopeError('Invalid encrypted stream: missing HTLESTRM header');
+  }
+
+  const length = prefix.readUInt32BE(STREAM_MAGIC.length);
+  if (length > MAX_HEADER_LENGTH) {
+    throw new EnvelopeError(
+      `Invalid encrypted stream: header of ${length} bytes exceeds ${MAX_HEADER_LENGTH}`
+    );
+  }
+  const header = await reader.read(length);
+  if (header.length < length) {
+    throw new EnvelopeError('Invalid encrypted stream: header is truncated');
+  }
+
+  const envelope = parseEnvelope(header.toString('utf8'));
+  if (envelope.mode !== 'stream') {
+    throw new EnvelopeError(
+      `Invalid encrypted stream: header is a ${envelope.mode} envelope; decrypt it with hybridDecrypt`
+    );
+  }
+  return envelope;
+}
+
+/**
+ * Nonce of chunk `index` of a streamed payload: the big-endian index and a
+ * final-chunk flag. Every stream has its own data key, so nonces never
+ * repeat under a key; the flag makes a stream cut at a chunk boundary fail
+ * to authenticate.
+ */
+function chunkNonce(index: number, final: boolean): Buffer {
+  const nonce = Buffer.alloc(NONCE_LENGTH);
+  nonce.writeUInt32BE(index, NONCE_LENGTH - 5);
+  nonce[NONCE_LENGTH - 1] = final ? 1 : 0;
+  return nonce;
+}
+
+/** Bytes a sealed chunk adds to its plaintext (the GCM tag) */
+const CHUNK_OVERHEAD = TAG_LENGTH;
+
+/** AES-256-GCM encrypt chunk `index` of a streamed payload; returns ciphertext || tag */
+function sealChunk(
+  key: Uint8Array,
+  index: number,
+  plaintext: Uint8Array,
+  final: boolean
+): Buffer {
+  const cipher = createCipheriv('aes-256-gcm', key, chunkNonce(index, final));
+  return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+}
+
+/** Inverse of `sealChunk`; throws `IntegrityError` if the chunk does not authenticate */
+function openChunk(key: Uint8Array, index: number, sealed: Buffer, final: boolean): Buffer {
+  try {
+    if (sealed.length < TAG_LENGTH) {
+      throw new Error('Chunk is truncated');
+    }
+    const decipher = createDecipheriv('aes-256-gcm', key, chunkNonce(index, final));
+    decipher.setAuthTag(sealed.subarray(sealed.length - TAG_LENGTH));
+    return Buffer.concat([
+      decipher.update(sealed.subarray(0, sealed.length - TAG_LENGTH)),
+      decipher.final(),
+    ]);
+  } catch (err) {
+    throw new IntegrityError(
+      `Chunk ${index} of the encrypted stream is corrupted, truncated or out of order`,
+      err
+    );
+  }
+}
+
+async function* sealChunks(
+  header: Buffer,
+  source: StreamInput,
+  key: Uint8Array,
+  chunkSize: number
+): AsyncGenerator<Buffer> {
+  yield header;
+
+  // a full chunk is only sealed once more input follows it, so that the
+  // last chunk can be flagged as final
+  let pending: Buffer = Buffer.alloc(0);
+  let index = 0;
+  for await (const data of source) {
+    pending = Buffer.concat([pending, toBuffer(data)]);
+    while (pending.length > chunkSize) {
+      yield sealChunk(key, index++, pending.subarray(0, chunkSize), false);
+      pending = pending.subarray(chunkSize);
+    }
+  }
+  yield sealChunk(key, index, pending, true);
+}
+
+async function* openChunks(
+  reader: ByteReader,
+  key: Uint8Array,
+  chunkSize: number
+): AsyncGenerator<Buffer> {
+  try {
+    for (let index = 0; ; index++) {
+      const sealed = await reader.read(chunkSize + CHUNK_OVERHEAD);
+      const final = sealed.length < chunkSize + CHUNK_OVERHEAD || (await reader.atEnd());
+      const plaintext = openChunk(key, index, sealed, final);
+      if (plaintext.length > 0) {
+        yield plaintext;
+      }
+      if (final) return;
+    }
+  } finally {
+    await reader.close();
+  }
+}
+
+/**
+ * Time-lock a fresh data key and build the stream's header, then return
+ * the header and the sealed chunks of `source`, which are produced as they
+ * are read.
+ */
+async function sealStream(
+  source: StreamInput,
+  config: HybridEncryptionConfig,
+  options: StreamOptions
+): Promise<{ envelope: StreamEncryptedData; chunks: AsyncIterable<Buffer> }> {
+  if ((config.mode ?? 'symmetric') !== 'symmetric') {
+    throw new TypeError('Streamed payloads are always encrypted in symmetric mode');
+  }
+  if ([config.keyProfile, config.userIDs, config.s2k].some((value) => value !== undefined)) {
+    throw new TypeError('keyProfile, userIDs and s2k do not apply to streamed payloads');
+  }
+  assertPassword(config.password, options.passwordPolicy);
+  const chunkSize = checkChunkSize(options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+
+  const beaconSource = resolveBeaconSource(options, options.chain);
+  const chainInfo = await getChainInfo(beaconSource);
+  const unlock = resolveUnlock(config, chainInfo, beaconSource.now(), options.maxHorizonMs);
+
+  const { kdf, salt, dataKey, wrappedKey } = await createDataKey(config.password, config.kdf);
+  const { header, timelocked } = await lockSecret(wrappedKey, unlock, beaconSource, chainInfo);
+  const envelope = withTag(
+    { ...header, mode: 'stream' as const, kdf, salt, chunkSize, timelockedKey: timelocked },
+    wrappedKey
+  );
+
+  return { envelope, chunks: sealChunks(encodeHeader(envelope), source, dataKey, chunkSize) };
+}
+
+/**
+ * Check the header of an encrypted stream, open its time-lock and unwrap
+ * its data key, then return the decrypted chunks of the rest of `reader`.
+ */
+async function openStream(
+  reader: ByteReader,
+  password: string,
+  options: HybridOptions
+): Promise<AsyncIterable<Buffer>> {
+  try {
+    const envelope = await readHeader(reader);
+    const wrappedKey = await unlockSecret(envelope, options);
+    const dataKey = await unwrapDataKey(wrappedKey, password, envelope.kdf, envelope.salt);
+    return openChunks(reader, dataKey, envelope.chunkSize);
+  } catch (err) {
+    await reader.close();
+    throw err;
+  }
+}
+
+/**
+ * Encrypt a stream behind both the password and the time-lock, like
+ * `hybridEncrypt` in `symmetric` mode. The payload is sealed in chunks of
+ * `options.chunkSize` bytes as it is read, so memory use does not grow with
+ * its size. The result is a single stream holding a `stream` envelope as
+ * its header, followed by the chunks.
+ *
+ * Takes a Node readable stream or any async iterable of bytes and returns
+ * a Node `Readable`; a web `ReadableStream` input returns a web
+ * `ReadableStream`. The lock is resolved and the key time-locked before
+ * the promise resolves; the input is read as the output is consumed.
+ */
+export async function encryptStream(
+  input: ReadableStream<Uint8Array>,
+  config: HybridEncryptionConfig,
+  options?: StreamOptions
+): Promise<ReadableStream<Uint8Array>>;
+export async function encryptStream(
+  input: StreamInput,
+  config: HybridEncryptionConfig,
+  options?: StreamOptions
+): Promise<Readable>;
+export async function encryptStream(
+  input: StreamInput | ReadableStream<Uint8Array>,
+  config: HybridEncryptionConfig,
+  options: StreamOptions = {}
+): Promise<Readable | ReadableStream<Uint8Array>> {
+  const { chunks } = await sealStream(toIterable(input), config, options);
+  return toOutput(input, chunks);
+}
+
+/**
+ * Decrypt a stream produced by `encryptStream`. The header is read and
+ * checked, the time-lock opened and the password applied before the
+ * promise resolves, so a locked stream or wrong password rejects it up
+ * front. The remaining chunks are decrypted as the output is consumed.
+ *
+ * Every chunk is authenticated before it is released. A chunk that was
+ * modified, reordered or cut off fails the output stream with an
+ * `IntegrityError`; everything released before it is genuine, but the
+ * payload is incomplete.
+ */
+export async function decryptStream(
+  input: ReadableStream<Uint8Array>,
+  password: string,
+  options?: HybridOptions
+): Promise<ReadableStream<Uint8Array>>;
+export async function decryptStream(
+  input: StreamInput,
+  password: string,
+  options?: HybridOptions
+): Promise<Readable>;
+export async function decryptStream(
+  input: StreamInput | ReadableStream<Uint8Array>,
+  password: string,
+  options: HybridOptions = {}
+): Promise<Readable | ReadableStream<Uint8Array>> {
+  const reader = new ByteReader(toIterable(input)[Symbol.asyncIterator]());
+  return toOutput(input, await openStream(reader, password, options));
+}
+
+/**
+ * Read the `stream` envelope at the head of an encrypted stream, without a
+ * password, and release the input. The result can be passed to
+ * `getLockStatus` or `verifyEnvelope`.
+ */
+export async function readStreamHeader(
+  input: StreamInput | ReadableStream<Uint8Array>
+): Promise<StreamEncryptedData> {
+  const reader = new ByteReader(toIterable(input)[Symbol.asyncIterator]());
+  try {
+    return await readHeader(reader);
+  } finally {
+    await reader.close();
+  }
+}
+
+/**
+ * Encrypt the file at `inputPath` to `outputPath` with `encryptStream`,
+ * in memory that stays constant with the file's size. Returns the stream's
+ * envelope. The output file is removed if encryption fails.
+ */
+export async function encryptFile(
+  inputPath: string,
+  outputPath: string,
+  config: HybridEncryptionConfig,
+  options: StreamOptions = {}
+): Promise<StreamEncryptedData> {
+  const input = fs.createReadStream(inputPath);
+  try {
+    const { envelope, chunks } = await sealStream(input, config, options);
+    await writeFile(Readable.from(chunks), outputPath);
+    return envelope;
+  } finally {
+    input.destroy();
+  }
+}
+
+/**
+ * Decrypt a file written by `encryptFile` (or any saved `encryptStream`
+ * output) to `outputPath`. Throws before creating the output file if the
+ * stream is still locked or the password is wrong, and removes the partial
+ * output if a chunk fails to authenticate.
+ */
+export async function decryptFile(
+  inputPath: string,
+  outputPath: string,
+  password: string,
+  options: HybridOptions = {}
+): Promise<void> {
+  const reader = new ByteReader(fs.createReadStream(inputPath)[Symbol.asyncIterator]());
+  await writeFile(Readable.from(await openStream(reader, password, options)), outputPath);
+}
+
+async function writeFile(source: Readable, outputPath: string): Promise<void> {
+  try {
+    await pipeline(source, fs.createWriteStream(outputPath));
+  } catch (err) {
+    await fs.promises.rm(outputPath, { force: true });
+    throw err;
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Symmetric Mode Test Suite for HTLE Framework
+ *
+ * These tests validate the password-KDF + AES-256-GCM envelope mode:
+ * - Dual-factor property: neither the password nor the time-lock alone decrypts
+ * - scrypt and Argon2id cost selection and validation
+ * - hybridDecrypt detects the mode from the envelope
+ * - Tampering is reported as IntegrityError
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { hybridEncrypt, hybridDecrypt } from './hybrid';
+import { LocalDrandChain } from './local-chain';
+import { serializeEnvelope } from './envelope';
+import { resolveKdfParams, DEFAULT_SCRYPT_PARAMS, DEFAULT_ARGON2_PARAMS } from './symmetric';
+import { TimelockNotExpiredError, InvalidPasswordError, IntegrityError } from './errors';
+import { HybridEncryptionConfig, KdfConfig } from '../types';
+import { TEST_PASSWORD, WRONG_PASSWORD, TEST_PLAINTEXT, SHORT_DURATION_MS } from '../test-utils';
+
+/** Low costs keep the suite fast; the defaults are exercised once below */
+const FAST_SCRYPT: KdfConfig = { algorithm: 'scrypt', N: 2 ** 14 };
+const FAST_ARGON2: KdfConfig = { algorithm: 'argon2id', memoryKiB: 1024, iterations: 1 };
+
+describe('HTLE Symmetric Mode', () => {
+  let chain: LocalDrandChain;
+
+  beforeEach(() => {
+    chain = new LocalDrandChain();
+  });
+
+  function encrypt(plaintext = TEST_PLAINTEXT, kdf: KdfConfig = FAST_SCRYPT) {
+    return hybridEncrypt(
+      plaintext,
+      { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS, mode: 'symmetric', kdf },
+      { beaconSource: chain }
+    );
+  }
+
+  describe('Round Trip', () => {
+    it.each([
+      ['scrypt', FAST_SCRYPT],
+      ['argon2id', FAST_ARGON2],
+    ] as const)('should decrypt with %s after the time-lock expires', async (algorithm, kdf) => {
+      const encrypted = await encrypt(TEST_PLAINTEXT, kdf);
+      expect(encrypted.mode).toBe('symmetric');
+      expect(encrypted.kdf.algorithm).toBe(algorithm);
+      expect(encrypted).not.toHaveProperty('publicKey');
+
+      chain.advanceTo(encrypted.unlockTime);
+      expect(await hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain })).toBe(
+        TEST_PLAINTEXT
+      );
+    });
+
+    it('should detect the mode from a serialized envelope', async () => {
+      const encrypted = await encrypt('日本語テスト 🔐');
+      chain.advanceTo(encrypted.unlockTime);
+
+      const armored = serializeEnvelope(encrypted, 'armor');
+      expect(await hybridDecrypt(armored, TEST_PASSWORD, { beaconSource: chain })).toBe(
+        '日本語テスト 🔐'
+      );
+    });
+
+    it('should use default scrypt costs when only the mode is given', async () => {
+      const encrypted = await hybridEncrypt(
+        'x',
+        { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS, mode: 'symmetric' },
+        { beaconSource: chain }
+      );
+      expect(encrypted.kdf).toEqual(DEFAULT_SCRYPT_PARAMS);
+    });
+
+    it('should produce a much smaller envelope than OpenPGP mode for small payloads', async () => {
+      const plaintext = 'A'.repeat(100);
+      const symmetric = await encrypt(plaintext);
+      const pgp = await hybridEncrypt(
+        plaintext,
+        { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS, keyProfile: 'curve25519' },
+        { beaconSource: chain }
+      );
+
+      expect(serializeEnvelope(symmetric).length).toBeLessThan(serializeEnvelope(pgp).length / 2);
+    });
+  });
+
+  describe('Dual-Factor Security', () => {
+    it('should reject the correct password before the time-lock expires', async () => {
+      const encrypted = await encrypt();
+
+      await expect(
+        hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow(TimelockNotExpiredError);
+    });
+
+    it('should reject a wrong password after the time-lock expires', async () => {
+      const encrypted = await encrypt(TEST_PLAINTEXT, FAST_ARGON2);
+      chain.advanceTo(encrypted.unlockTime);
+
+      await expect(
+        hybridDecrypt(encrypted, WRONG_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow(InvalidPasswordError);
+    });
+  });
+
+  describe('Data Integrity', () => {
+    it('should detect tampering with the payload', async () => {
+      const encrypted = await encrypt();
+      chain.advanceTo(encrypted.unlockTime);
+
+      const bytes = Buffer.from(encrypted.encryptedData, 'base64');
+      bytes[bytes.length - 20] ^= 0x01;
+      const tampered = { ...encrypted, encryptedData: bytes.toString('base64') };
+
+      await expect(
+        hybridDecrypt(tampered, TEST_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow(IntegrityError);
+    });
+
+    it('should detect tampering with the time-locked key', async () => {
+      const encrypted = await encrypt();
+      chain.advanceTo(encrypted.unlockTime);
+
+      const tampered = {
+        ...encrypted,
+        timelockedKey: encrypted.timelockedKey.slice(0, -10) + 'AAAAAAAAAA',
+      };
+
+      await expect(
+        hybridDecrypt(tampered, TEST_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow(IntegrityError);
+    });
+  });
+
+  describe('KDF Configuration', () => {
+    it('should fill in default costs', () => {
+      expect(resolveKdfParams()).toEqual(DEFAULT_SCRYPT_PARAMS);
+      expect(resolveKdfParams('argon2id')).toEqual(DEFAULT_ARGON2_PARAMS);
+      expect(resolveKdfParams({ algorithm: 'argon2id', iterations: 4 })).toEqual({
+        ...DEFAULT_ARGON2_PARAMS,
+        iterations: 4,
+      });
+    });
+
+    it('should reject unsafe or unknown settings', () => {
+      expect(() => resolveKdfParams({ algorithm: 'scrypt', N: 1000 })).toThrow(RangeError);
+      expect(() => resolveKdfParams({ algorithm: 'scrypt', N: 2 ** 20 })).toThrow(RangeError);
+      expect(() => resolveKdfParams({ algorithm: 'scrypt', r: 32 })).toThrow(RangeError);
+      expect(() =>
+        resolveKdfParams({ algorithm: 'argon2id', memoryKiB: 512 * 1024 })
+      ).toThrow(RangeError);
+      expect(() =>
+        resolveKdfParams({ algorithm: 'argon2id', parallelism: 4, memoryKiB: 16 })
+      ).toThrow(RangeError);
+      expect(() => resolveKdfParams('pbkdf2' as KdfConfig)).toThrow('Unknown KDF "pbkdf2"');
+    });
+
+    it('should reject kdf settings outside symmetric mode', async () => {
+      await expect(
+        hybridEncrypt(
+          TEST_PLAINTEXT,
+          { password: TEST_PASSWORD, durationMs: SHORT_DURATION_MS, kdf: 'scrypt' },
+          { beaconSource: chain }
+        )
+      ).rejects.toThrow('kdf only applies to symmetric mode');
+    });
+
+    it('should reject OpenPGP key settings in symmetric mode', async () => {
+      const encrypt = (extra: Partial<HybridEncryptionConfig>) =>
+        hybridEncrypt(
+          TEST_PLAINTEXT,
+          { password: TEST_PASSWORD, mode: 'symmetric', durationMs: SHORT_DURATION_MS, ...extra },
+          { beaconSource: chain }
+        );
+
+      await expect(encrypt({ keyProfile: 'curve25519' })).rejects.toThrow(
+        'keyProfile and userIDs only apply to pgp mode'
+      );
+      await expect(encrypt({ userIDs: [{ name: 'Alice' }] })).rejects.toThrow(TypeError);
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import { Buffer } from 'tlock-js';
+import { argon2idAsync } from '@noble/hashes/argon2';
+import { concatBytes, hexToBytes, randomBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { generateSalt } from './pgp';
+import { scrypt } from './platform';
+import { IntegrityError, InvalidPasswordError } from './errors';
+import { KdfConfig, KdfParams } from '../types';
+
+/** Bytes of a data key */
+export const KEY_LENGTH = 32;
+/** Bytes of an AES-256-GCM nonce and tag */
+export const NONCE_LENGTH = 12;
+export const TAG_LENGTH = 16;
+
+/** scrypt costs used when `kdf` is `scrypt` or leaves a cost unset (~128 MiB) */
+export const DEFAULT_SCRYPT_PARAMS = { algorithm: 'scrypt', N: 2 ** 17, r: 8, p: 1 } as const;
+
+/** Argon2id costs used when `kdf` is `argon2id` or leaves a cost unset (OWASP minimum) */
+export const DEFAULT_ARGON2_PARAMS = {
+  algorithm: 'argon2id',
+  memoryKiB: 19_456,
+  iterations: 2,
+  parallelism: 1,
+} as const;
+
+/**
+ * Accepted KDF cost ranges. Costs are read from untrusted envelopes, so the
+ * upper bounds keep a crafted envelope from exhausting memory or CPU: at
+ * most 512 MiB for scrypt (128 * N * r bytes) and 256 MiB for Argon2id.
+ */
+export const KDF_LIMITS = {
+  scrypt: { N: { min: 2 ** 10, max: 2 ** 18 }, r: { min: 1, max: 16 }, p: { min: 1, max: 16 } },
+  argon2id: {
+    memoryKiB: { min: 8, max: 256 * 1024 },
+    iterations: { min: 1, max: 64 },
+    parallelism: { min: 1, max: 16 },
+  },
+} as const;
+
+function checkRange(name: string, value: number, range: { min: number; max: number }): void {
+  if (!Number.isInteger(value) || value < range.min || value > range.max) {
+    throw new RangeError(`KDF ${name} must be an integer between ${range.min} and ${range.max}`);
+  }
+}
+
+/**
+ * Fill in default costs for a KDF selection and check them against
+ * `KDF_LIMITS`.
+ */
+export function resolveKdfParams(config: KdfConfig = 'scrypt'): KdfParams {
+  const selected =
+    typeof config === 'string' ? ({ algorithm: config } as Exclude<KdfConfig, string>) : config;
+
+  switch (selected.algorithm) {
+    case 'scrypt': {
+      const params = { ...DEFAULT_SCRYPT_PARAMS, ...selected };
+      const limits = KDF_LIMITS.scrypt;
+      checkRange('N', params.N, limits.N);
+      if ((params.N & (params.N - 1)) !== 0) {
+        throw new RangeError('KDF N must be a power of two');
+      }
+      checkRange('r', params.r, limits.r);
+      checkRange('p', params.p, limits.p);
+      return params;
+    }
+    case 'argon2id': {
+      const params = { ...DEFAULT_ARGON2_PARAMS, ...selected };
+      const limits = KDF_LIMITS.argon2id;
+      checkRange('parallelism', params.parallelism, limits.parallelism);
+      checkRange('iterations', params.iterations, limits.iterations);
+      checkRange('memoryKiB', params.memoryKiB, {
+        min: Math.max(limits.memoryKiB.min, 8 * params.parallelism),
+        max: limits.memoryKiB.max,
+      });
+      return params;
+    }
+    default:
+      throw new TypeError(
+        `Unknown KDF "${(selected as { algorithm: string }).algorithm}" (expected scrypt or argon2id)`
+      );
+  }
+}
+
+/**
+ * Derive a 256-bit key-wrapping key from `password`.
+ */
+export async function deriveKey(
+  password: string,
+  salt: Uint8Array,
+  params: KdfParams
+): Promise<Uint8Array> {
+  if (params.algorithm === 'argon2id') {
+    return argon2idAsync(password, salt, {
+      m: params.memoryKiB,
+      t: params.iterations,
+      p: params.parallelism,
+      dkLen: KEY_LENGTH,
+    });
+  }
+  return scrypt(password, salt, params, KEY_LENGTH);
+}
+
+/**
+ * AES-256-GCM encrypt with WebCrypto, which Node.js and browsers both
+ * provide; returns nonce || ciphertext || tag
+ */
+async function seal(key: Uint8Array, plaintext: Uint8Array): Promise<Uint8Array> {
+  const nonce = randomBytes(NONCE_LENGTH);
+  const cryptoKey = await crypto.subtle.importKey('raw', key, 'AES-GCM', false, ['encrypt']);
+  const sealed = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, cryptoKey, plaintext);
+  return concatBytes(nonce, new Uint8Array(sealed));
+}
+
+/** Inverse of `seal`; throws if the tag does not verify */
+async function open(key: Uint8Array, sealed: Uint8Array): Promise<Uint8Array> {
+  if (sealed.length < NONCE_LENGTH + TAG_LENGTH) {
+    throw new Error('Sealed data is truncated');
+  }
+  const cryptoKey = await crypto.subtle.importKey('raw', key, 'AES-GCM', false, ['decrypt']);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: sealed.subarray(0, NONCE_LENGTH) },
+    cryptoKey,
+    sealed.subarray(NONCE_LENGTH)
+  );
+  return new Uint8Array(plaintext);
+}
+
+/**
+ * Wrap `key` with a key derived from `password` under a fresh salt.
+ */
+export async function wrapKey(key: Uint8Array, password: string, kdf?: KdfConfig) {
+  const { wrappedKeys, ...params } = await wrapKeys([key], password, kdf);
+  return { ...params, wrappedKey: wrappedKeys[0] };
+}
+
+/**
+ * Wrap several keys with one key derived from `password` under a fresh
+ * salt, so that the KDF runs once for all of them.
+ */
+export async function wrapKeys(keys: Uint8Array[], password: string, kdf?: KdfConfig) {
+  const params = resolveKdfParams(kdf);
+  const salt = generateSalt();
+  const wrappingKey = await deriveKey(password, hexToBytes(salt), params);
+
+  const wrappedKeys: Uint8Array[] = [];
+  for (const key of keys) {
+    wrappedKeys.push(await seal(wrappingKey, key));
+  }
+  return { kdf: params, salt, wrappedKeys };
+}
+
+/**
+ * Generate a fresh data key and wrap it with a key derived from `password`.
+ * The wrapped key still has to be time-locked by the caller.
+ */
+export async function createDataKey(password: string, kdf?: KdfConfig) {
+  const dataKey = randomBytes(KEY_LENGTH);
+  return { dataKey, ...(await wrapKey(dataKey, password, kdf)) };
+}
+
+/**
+ * Unwrap a key wrapped by `wrapKey` or `createDataKey` with `password`.
+ */
+export async function unwrapDataKey(
+  wrappedKey: Uint8Array,
+  password: string,
+  kdf: KdfParams,
+  salt: string
+): Promise<Uint8Array> {
+  return (await unwrapKeys([wrappedKey], password, kdf, salt))[0];
+}
+
+/**
+ * Unwrap keys wrapped by `wrapKeys` with `password`, running the KDF once.
+ */
+export async function unwrapKeys(
+  wrappedKeys: Uint8Array[],
+  password: string,
+  kdf: KdfParams,
+  salt: string
+): Promise<Uint8Array[]> {
+  const wrappingKey = await deriveKey(password, hexToBytes(salt), kdf);
+
+  const keys: Uint8Array[] = [];
+  for (const wrappedKey of wrappedKeys) {
+    try {
+      keys.push(await open(wrappingKey, wrappedKey));
+    } catch (err) {
+      // The wrapped key is authenticated by the time-lock layer, so a failure
+      // here means the derived key is wrong
+      throw new InvalidPasswordError('Incorrect password', err);
+    }
+  }
+  return keys;
+}
+
+/** Encrypt `data` (a string is encoded as UTF-8) under `dataKey`; returns base64 */
+export async function encryptPayload(
+  dataKey: Uint8Array,
+  data: string | Uint8Array
+): Promise<string> {
+  const sealed = await seal(dataKey, typeof data === 'string' ? utf8ToBytes(data) : data);
+  return Buffer.from(sealed.buffer, sealed.byteOffset, sealed.byteLength).toString('base64');
+}
+
+/** Inverse of `encryptPayload`; throws `IntegrityError` if the payload does not authenticate */
+export async function decryptPayload(
+  dataKey: Uint8Array,
+  encryptedData: string
+): Promise<Uint8Array> {
+  try {
+    return await open(dataKey, Buffer.from(encryptedData, 'base64'));
+  } catch (err) {
+    throw new IntegrityError('Encrypted data is corrupted or was tampered with', err);
+  }
+}
+
+/**
+ * Encrypt `data` (a string is encoded as UTF-8) under a fresh data key and
+ * wrap that key with a key derived from `password`. The wrapped key still
+ * has to be time-locked by the caller.
+ */
+export async function encryptSymmetric(
+  data: string | Uint8Array,
+  password: string,
+  kdf?: KdfConfig
+) {
+  const { dataKey, ...wrapped } = await createDataKey(password, kdf);
+
+  return { ...wrapped, encryptedData: await encryptPayload(dataKey, data) };
+}
+
+/**
+ * Unwrap a time-unlocked data key with `password` and decrypt the payload
+ * to bytes.
+ */
+export async function decryptSymmetric(
+  encryptedData: string,
+  wrappedKey: Uint8Array,
+  password: string,
+  kdf: KdfParams,
+  salt: string
+): Promise<Uint8Array> {
+  return decryptPayload(await unwrapDataKey(wrappedKey, password, kdf, salt), encryptedData);
+}
+
+/** Plaintext bytes per chunk of a streamed payload, unless configured otherwise */
+export const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Accepted chunk sizes. The chunk size is read from untrusted stream
+ * headers, so the upper bound caps the memory a crafted stream can claim.
+ */
+export const CHUNK_SIZE_LIMITS = { min: 64, max: 16 * 1024 * 1024 } as const;
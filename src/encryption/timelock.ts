@@ -1,72 +1,152 @@
 import {
 	timelockEncrypt,
-	timelockDecrypt,
-	roundAt,
-	HttpChainClient,
-	HttpCachingChain,
+	roundTime,
+	ChainClient,
 	ChainInfo,
 	Buffer,
 } from 'tlock-js';
+import { decryptAge, Stanza } from 'tlock-js/age/age-encrypt-decrypt';
+import { readAge } from 'tlock-js/age/age-reader-writer';
+import { decodeArmor, isProbablyArmored } from 'tlock-js/age/armor';
+import { decryptOnG1, decryptOnG2, Ciphertext } from 'tlock-js/crypto/ibe';
+import { fetchBeacon } from 'drand-client';
+import { roundForTime } from './unlock';
+import { RelayPool } from './relay-pool';
+import { assertTimelockScheme } from './chains';
+import { getChainRegistry } from './platform';
+import { BeaconSource, HybridOptions } from '../types';
+import {
+	HtleError,
+	TimelockNotExpiredError,
+	IntegrityError,
+	BeaconUnavailableError,
+	EnvelopeError,
+} from './errors';
+
+/** Compressed point sizes on BLS12-381, used to split IBE ciphertexts */
+const G1_POINT_BYTES = 48;
+const G2_POINT_BYTES = 96;
+
+/**
+ * Relay client of a registered chain, by name or hash (default: the
+ * configured chain), with failover between its relays. Every relay is
+ * checked against the chain's hash and public key.
+ */
+export function getChainClient(chain?: string): RelayPool {
+	return getChainRegistry().getClient(chain);
+}
+
+/**
+ * Wrap a tlock-js `ChainClient` as a beacon source using the given clock
+ * (the system clock by default).
+ */
+export function createBeaconSource(
+	client: ChainClient,
+	now: () => number = Date.now
+): BeaconSource {
+	return {
+		options: client.options,
+		get: (roundNumber) => client.get(roundNumber),
+		latest: () => client.latest(),
+		chain: () => client.chain(),
+		now,
+	};
+}
+
+/**
+ * Beacon source of a registered chain, by name or hash (default: the
+ * configured chain): its drand relays and the system clock, behind the
+ * on-disk beacon cache if one is configured.
+ */
+export function getBeaconSource(chain?: string): BeaconSource {
+	return getChainRegistry().getSource(chain);
+}
+
+/**
+ * The beacon source an operation uses: `options.beaconSource`, or else the
+ * source of `chain` (by name or hash, default: the default chain) in
+ * `options.chains`, or in the configured registry without one.
+ */
+export function resolveBeaconSource(
+	options: Pick<HybridOptions, 'beaconSource' | 'chains'>,
+	chain?: string
+): BeaconSource {
+	return options.beaconSource ?? (options.chains ?? getChainRegistry()).getSource(chain);
+}
 
-import { env } from '../env';
-
-export const CHAIN_INFO: ChainInfo = {
-	public_key: env.DRAND_PUBLIC_KEY,
-	period: 3,
-	genesis_time: 1692803367,
-	hash: env.DRAND_CHAIN_HASH,
-	groupHash:
-		'f477d5c89f21a17c863a7f937c6a6d15859414d2be09cd448d4279af331c5d3e',
-	schemeID: 'bls-unchained-g1-rfc9380',
-	metadata: { beaconID: 'quicknet' },
-};
-
-const CHAIN_OPTIONS = {
-	disableBeaconVerification: false,
-	noCache: false,
-	chainVerificationParams: {
-		chainHash: env.DRAND_CHAIN_HASH,
-		publicKey: env.DRAND_PUBLIC_KEY,
-	},
-};
-
-let cachedClient: HttpChainClient | null = null;
-
-export function getChainClient(): HttpChainClient {
-	if (cachedClient) return cachedClient;
-	const chain = new HttpCachingChain(env.DRAND_CHAIN_URL, CHAIN_OPTIONS);
-	cachedClient = new HttpChainClient(chain, CHAIN_OPTIONS);
-	return cachedClient;
+/**
+ * Fetch the chain parameters of a beacon source, reporting an unreachable
+ * relay as `BeaconUnavailableError`. A relay pool that serves another chain
+ * fails with `EnvelopeError`.
+ */
+export async function getChainInfo(source: BeaconSource): Promise<ChainInfo> {
+	try {
+		return await source.chain().info();
+	} catch (err) {
+		if (err instanceof HtleError) throw err;
+		throw new BeaconUnavailableError(
+			`Could not fetch chain info from ${source.chain().baseUrl}: ${errorMessage(err)}`,
+			err
+		);
+	}
 }
 
 /**
- * Encrypt data so it can only be unlocked at/after unlockDate.
+ * Encrypt data so it can only be unlocked at/after unlockDate, i.e. to the
+ * first round published at or after that time.
  * Uses a cached chain client and avoids unnecessary buffer copies.
  */
 export async function encryptWithTimelock(
 	data: Uint8Array,
-	unlockDate: Date
+	unlockDate: Date,
+	source: BeaconSource = getBeaconSource()
 ): Promise<{ encrypted: string; roundNumber: number }> {
 	if (!unlockDate || !(unlockDate instanceof Date) || isNaN(unlockDate.getTime())) {
 		throw new TypeError('unlockDate must be a valid Date');
 	}
 
-	// roundAt expects a timestamp in milliseconds
-	const timestampMilliseconds = unlockDate.getTime();
-	const roundNumber = await roundAt(timestampMilliseconds, CHAIN_INFO);
+	const roundNumber = roundForTime(await getChainInfo(source), unlockDate.getTime());
+	return { encrypted: await encryptToRound(data, roundNumber, source), roundNumber };
+}
 
+/**
+ * Encrypt data to an explicit drand round. Throws `EnvelopeError` for a
+ * chain whose beacons cannot open a time-lock, such as mainnet's chained
+ * `default` beacon.
+ */
+export async function encryptToRound(
+	data: Uint8Array,
+	roundNumber: number,
+	source: BeaconSource = getBeaconSource()
+): Promise<string> {
+	assertTimelockScheme(await getChainInfo(source));
 	// create Buffer without an extra copy where possible
 	const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
-	const encrypted = await timelockEncrypt(roundNumber, buffer, getChainClient());
-
-	return { encrypted, roundNumber };
+	return timelockEncrypt(roundNumber, buffer, source);
 }
 
 /**
  * Decrypt previously timelocked data.
+ *
+ * Throws `TimelockNotExpiredError` before the round is reached,
+ * `BeaconUnavailableError` if no valid beacon can be fetched and
+ * `IntegrityError` if the ciphertext is corrupted.
  */
-export async function decryptWithTimelock(encrypted: string): Promise<Uint8Array> {
-	const decrypted = await timelockDecrypt(encrypted, getChainClient());
+export async function decryptWithTimelock(
+	encrypted: string,
+	source: BeaconSource = getBeaconSource()
+): Promise<Uint8Array> {
+	let decrypted: Uint8Array;
+	try {
+		const payload = isProbablyArmored(encrypted) ? decodeArmor(encrypted) : encrypted;
+		decrypted = await decryptAge(payload, createTimelockDecrypter(source));
+	} catch (err) {
+		if (err instanceof HtleError) throw err;
+		throw new IntegrityError(
+			`Time-locked ciphertext is corrupted or was tampered with: ${errorMessage(err)}`,
+			err
+		);
+	}
 
 	// Normalize to Uint8Array without unnecessary copying where possible
 	if (decrypted instanceof Uint8Array) {
@@ -77,3 +157,98 @@ export async function decryptWithTimelock(encrypted: string): Promise<Uint8Array
 	const buf = Buffer.from(decrypted as any);
 	return new Uint8Array(buf.buffer, buf.byteOffset, buf.byteLength);
 }
+
+/**
+ * Read the round and chain a time-locked ciphertext is locked to from its
+ * tlock stanza, without decrypting anything. Throws `IntegrityError` if the
+ * ciphertext has no well-formed tlock stanza.
+ */
+export function readTimelockStanza(encrypted: string): { roundNumber: number; chainHash: string } {
+	let recipients: Stanza[];
+	try {
+		const payload = isProbablyArmored(encrypted) ? decodeArmor(encrypted) : encrypted;
+		recipients = readAge(payload).header.recipients;
+	} catch (err) {
+		throw new IntegrityError(
+			`Time-locked ciphertext is corrupted or was tampered with: ${errorMessage(err)}`,
+			err
+		);
+	}
+	const { roundNumber, chainHash } = parseTlockStanza(recipients);
+	return { roundNumber, chainHash };
+}
+
+function parseTlockStanza(
+	recipients: Array<Stanza>
+): { roundNumber: number; chainHash: string; stanza: Stanza } {
+	const stanza = recipients.find((it) => it.type === 'tlock');
+	if (!stanza) {
+		throw new IntegrityError('Time-locked ciphertext has no tlock stanza');
+	}
+	if (stanza.args.length !== 2) {
+		throw new IntegrityError(`Timelock stanza expected 2 args: roundNumber and chainHash. Only received ${stanza.args.length}`);
+	}
+
+	const [roundArg, chainHash] = stanza.args;
+	const roundNumber = Number.parseInt(roundArg, 10);
+	if (isNaN(roundNumber)) {
+		throw new IntegrityError(`Expected the roundNumber arg to be a number, but it was ${roundArg}!`);
+	}
+	return { roundNumber, chainHash, stanza };
+}
+
+/**
+ * Unwraps the age file key from a tlock stanza. Mirrors tlock-js's own
+ * decrypter, but checks the round against the beacon source's clock instead
+ * of the system clock and rejects stanzas for a different chain.
+ */
+function createTimelockDecrypter(source: BeaconSource) {
+	return async (recipients: Array<Stanza>): Promise<Uint8Array> => {
+		const { roundNumber, chainHash, stanza } = parseTlockStanza(recipients);
+		const chainInfo = await getChainInfo(source);
+		if (chainHash !== chainInfo.hash) {
+			throw new EnvelopeError(`Ciphertext is locked to chain ${chainHash}, not ${chainInfo.hash}`);
+		}
+		const unlockTime = roundTime(chainInfo, roundNumber);
+		const now = source.now();
+		if (unlockTime > now) {
+			throw new TimelockNotExpiredError(roundNumber, new Date(unlockTime), unlockTime - now);
+		}
+
+		let beacon;
+		try {
+			beacon = await fetchBeacon(source, roundNumber);
+		} catch (err) {
+			if (err instanceof HtleError) throw err;
+			throw new BeaconUnavailableError(
+				`Could not fetch a valid beacon for round ${roundNumber}: ${errorMessage(err)}`,
+				err
+			);
+		}
+		const signature = Buffer.from(beacon.signature, 'hex');
+
+		switch (chainInfo.schemeID) {
+			case 'pedersen-bls-unchained':
+				return decryptOnG1(signature, parseCiphertext(stanza.body, G1_POINT_BYTES));
+			case 'bls-unchained-on-g1':
+			case 'bls-unchained-g1-rfc9380':
+				return decryptOnG2(signature, parseCiphertext(stanza.body, G2_POINT_BYTES));
+			default:
+				throw new EnvelopeError(`Unsupported scheme: ${chainInfo.schemeID} - you must use a drand network with an unchained scheme for timelock decryption!`);
+		}
+	};
+}
+
+function parseCiphertext(body: Uint8Array, pointLength: number): Ciphertext {
+	const rest = body.subarray(pointLength);
+	const half = rest.length / 2;
+	return {
+		U: body.subarray(0, pointLength),
+		V: rest.subarray(0, half),
+		W: rest.subarray(half),
+	};
+}
+
+function errorMessage(err: unknown): string {
+	return err instanceof Error ? err.message : String(err);
+}
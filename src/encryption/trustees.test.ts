@@ -0,0 +1,152 @@
+/**
+ * Trustee Sharing Test Suite for HTLE Framework
+ *
+ * These tests validate k-of-n envelopes shared among trustees:
+ * - Any threshold of trustees recovers the payload once the lock expires
+ * - Fewer shares than the threshold are insufficient, even after expiry
+ * - Shares cannot be released before expiry or without the trustee's password
+ * - Bad shares are attributed to the trustee who gave them
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { encryptForTrustees, releaseShare, decryptWithShares } from './trustees';
+import { hybridDecrypt } from './hybrid';
+import { serializeEnvelope } from './envelope';
+import { LocalDrandChain } from './local-chain';
+import {
+  EnvelopeError,
+  InsufficientSharesError,
+  IntegrityError,
+  InvalidPasswordError,
+  TimelockNotExpiredError,
+} from './errors';
+import { SharedEncryptedData, TrusteeShare } from '../types';
+import { TEST_PASSWORD, TEST_PLAINTEXT, WRONG_PASSWORD } from '../test-utils';
+
+describe('HTLE Trustee Sharing', () => {
+  const trustees = [
+    { name: 'alice', password: 'alice-password' },
+    { name: 'bob', password: 'bob-password' },
+    { name: 'carol', password: 'carol-password' },
+  ];
+  const kdf = { algorithm: 'scrypt', N: 2 ** 10 } as const;
+
+  let chain: LocalDrandChain;
+  let envelope: SharedEncryptedData;
+
+  beforeEach(async () => {
+    chain = new LocalDrandChain();
+    envelope = await encryptForTrustees(
+      TEST_PLAINTEXT,
+      { trustees, threshold: 2, duration: 'min', kdf },
+      { beaconSource: chain }
+    );
+  });
+
+  function release(name: string, password = `${name}-password`): Promise<TrusteeShare> {
+    return releaseShare(envelope, name, password, { beaconSource: chain });
+  }
+
+  it('should describe the trustees in the envelope', () => {
+    expect(envelope).toMatchObject({
+      mode: 'shared',
+      threshold: 2,
+      trustees: ['alice', 'bob', 'carol'],
+      kdf: { algorithm: 'scrypt', N: 2 ** 10 },
+    });
+    expect(JSON.stringify(envelope)).not.toContain('password');
+  });
+
+  it('should decrypt with any two of three trustees once the lock expires', async () => {
+    chain.advanceTo(envelope.unlockTime);
+    const shares = await Promise.all(trustees.map(({ name }) => release(name)));
+
+    for (const pair of [
+      [shares[0], shares[1]],
+      [shares[2], shares[0]],
+      [shares[1], shares[2]],
+    ]) {
+      expect(await decryptWithShares(envelope, pair, { beaconSource: chain })).toBe(TEST_PLAINTEXT);
+    }
+    expect(
+      await decryptWithShares(serializeEnvelope(envelope), shares, {
+        beaconSource: chain,
+        format: 'binary',
+      })
+    ).toEqual(new TextEncoder().encode(TEST_PLAINTEXT));
+  });
+
+  it('should not decrypt with fewer shares than the threshold after the lock expires', async () => {
+    chain.advanceTo(envelope.unlockTime);
+    const alice = await release('alice');
+
+    const attempt = decryptWithShares(envelope, [alice, alice], { beaconSource: chain });
+    await expect(attempt).rejects.toThrow(InsufficientSharesError);
+    await expect(attempt).rejects.toMatchObject({ threshold: 2, received: 1 });
+  });
+
+  it('should not decrypt when a share is forged to make up the threshold', async () => {
+    chain.advanceTo(envelope.unlockTime);
+    const alice = await release('alice');
+    const forged = { trustee: 'bob', share: `02${'00'.repeat(32)}` };
+
+    await expect(
+      decryptWithShares(envelope, [alice, forged], { beaconSource: chain })
+    ).rejects.toThrow('Share of trustee "bob" does not match the envelope');
+    await expect(
+      decryptWithShares(envelope, [alice, { ...alice, trustee: 'carol' }], { beaconSource: chain })
+    ).rejects.toThrow(IntegrityError);
+  });
+
+  it('should not release shares before the lock expires', async () => {
+    await expect(release('alice')).rejects.toThrow(TimelockNotExpiredError);
+  });
+
+  it('should release a share only with its trustee password', async () => {
+    chain.advanceTo(envelope.unlockTime);
+
+    await expect(release('alice', 'bob-password')).rejects.toThrow(InvalidPasswordError);
+    await expect(release('alice', WRONG_PASSWORD)).rejects.toThrow(InvalidPasswordError);
+    await expect(release('mallory')).rejects.toThrow('"mallory" is not a trustee');
+  });
+
+  it('should reject edits to the threshold or trustees', async () => {
+    chain.advanceTo(envelope.unlockTime);
+    const alice = await release('alice');
+
+    await expect(
+      decryptWithShares({ ...envelope, threshold: 1 }, [alice], { beaconSource: chain })
+    ).rejects.toThrow(IntegrityError);
+    await expect(
+      releaseShare({ ...envelope, trustees: ['alice', 'carol', 'bob'] }, 'bob', 'bob-password', {
+        beaconSource: chain,
+      })
+    ).rejects.toThrow(IntegrityError);
+  });
+
+  it('should keep shared envelopes and password envelopes apart', async () => {
+    const single = await hybridDecrypt(envelope, TEST_PASSWORD, { beaconSource: chain }).catch(
+      (err) => err
+    );
+    expect(single).toBeInstanceOf(EnvelopeError);
+    expect(single.message).toContain('decryptWithShares');
+  });
+
+  it('should validate the configuration', async () => {
+    const options = { beaconSource: chain };
+    const config = { trustees, threshold: 2, duration: 'min', kdf } as const;
+
+    await expect(encryptForTrustees('x', { ...config, trustees: [] }, options)).rejects.toThrow(
+      TypeError
+    );
+    await expect(
+      encryptForTrustees('x', { ...config, trustees: [trustees[0], trustees[0]] }, options)
+    ).rejects.toThrow('unique');
+    await expect(encryptForTrustees('x', { ...config, threshold: 4 }, options)).rejects.toThrow(
+      RangeError
+    );
+    await expect(encryptForTrustees('x', { ...config, threshold: 0 }, options)).rejects.toThrow(
+      RangeError
+    );
+  });
+});
@@ -0,0 +1,250 @@
+import { Buffer } from 'tlock-js';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, randomBytes } from '@noble/hashes/utils';
+import { z } from 'zod';
+import { getChainInfo, resolveBeaconSource } from './timelock';
+import {
+  KEY_LENGTH,
+  resolveKdfParams,
+  wrapKey,
+  unwrapDataKey,
+  encryptPayload,
+  decryptPayload,
+} from './symmetric';
+import { splitSecret, combineShares, MAX_SHARES } from './shamir';
+import { resolveUnlock } from './unlock';
+import { assertPassword } from './password-policy';
+import { normalizeEnvelope } from './envelope';
+import { lockSecret, withTag, unlockSecret } from './hybrid';
+import { EnvelopeError, InsufficientSharesError, IntegrityError } from './errors';
+import {
+  EncryptedData,
+  HybridOptions,
+  SharedEncryptedData,
+  TrusteeEncryptionConfig,
+  TrusteeShare,
+} from '../types';
+
+/**
+ * k-of-n trustee envelopes. The data key is split with Shamir's scheme into
+ * one share per trustee, and each share is wrapped with that trustee's
+ * password. The wrapped shares are time-locked together, so no trustee can
+ * release a share before the lock opens, and any `threshold` released
+ * shares recover the data key.
+ */
+
+/** One trustee's entry in the time-locked share bundle */
+const sealedShareSchema = z.object({
+  salt: z.string().regex(/^[0-9a-f]+$/),
+  wrappedShare: z.string().min(1),
+  /** SHA-256 of the share, to tell which trustee contributed a bad one */
+  commitment: z.string().regex(/^[0-9a-f]{64}$/),
+});
+
+const shareBundleSchema = z.object({
+  shares: z.array(sealedShareSchema),
+});
+
+type SealedShare = z.infer<typeof sealedShareSchema>;
+
+function commitment(share: Uint8Array): string {
+  return bytesToHex(sha256(share));
+}
+
+function checkTrustees(config: TrusteeEncryptionConfig): string[] {
+  if (!Array.isArray(config.trustees) || config.trustees.length === 0) {
+    throw new TypeError('At least one trustee is required');
+  }
+  if (config.trustees.length > MAX_SHARES) {
+    throw new RangeError(`At most ${MAX_SHARES} trustees are supported`);
+  }
+  const names = config.trustees.map(({ name }) => name);
+  if (names.some((name) => typeof name !== 'string' || name === '')) {
+    throw new TypeError('Trustee names must be non-empty strings');
+  }
+  if (new Set(names).size !== names.length) {
+    throw new TypeError('Trustee names must be unique');
+  }
+  const { threshold } = config;
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > names.length) {
+    throw new RangeError(
+      `Threshold must be an integer between 1 and the number of trustees (${names.length})`
+    );
+  }
+  return names;
+}
+
+/**
+ * Encrypt `data` so that, once the time-lock has expired, any
+ * `config.threshold` of `config.trustees` can decrypt it together. Each
+ * trustee releases their share with `releaseShare` and their own password;
+ * `decryptWithShares` combines the shares.
+ */
+export async function encryptForTrustees(
+  data: string | Uint8Array,
+  config: TrusteeEncryptionConfig,
+  options: HybridOptions = {}
+): Promise<SharedEncryptedData> {
+  const names = checkTrustees(config);
+  for (const { name, password } of config.trustees) {
+    assertPassword(password, options.passwordPolicy, `Password of trustee "${name}"`);
+  }
+  const kdf = resolveKdfParams(config.kdf);
+
+  const source = resolveBeaconSource(options, options.chain);
+  const chainInfo = await getChainInfo(source);
+  const unlock = resolveUnlock(config, chainInfo, source.now(), options.maxHorizonMs);
+
+  const dataKey = randomBytes(KEY_LENGTH);
+  const shares = splitSecret(dataKey, names.length, config.threshold);
+
+  // One at a time: each KDF run may take a large amount of memory
+  const sealed: SealedShare[] = [];
+  for (const [i, share] of shares.entries()) {
+    const wrapped = await wrapKey(share, config.trustees[i].password, kdf);
+    sealed.push({
+      salt: wrapped.salt,
+      wrappedShare: Buffer.from(wrapped.wrappedKey).toString('base64'),
+      commitment: commitment(share),
+    });
+  }
+
+  const bundle = new TextEncoder().encode(JSON.stringify({ shares: sealed }));
+  const { header, timelocked } = await lockSecret(bundle, unlock, source, chainInfo);
+
+  return withTag(
+    {
+      ...header,
+      mode: 'shared',
+      threshold: config.threshold,
+      trustees: names,
+      kdf,
+      encryptedData: await encryptPayload(dataKey, data),
+      timelockedKey: timelocked,
+    },
+    bundle
+  );
+}
+
+function sharedEnvelope(envelope: EncryptedData | string): SharedEncryptedData {
+  const encryptedData = normalizeEnvelope(envelope);
+  if (encryptedData.mode !== 'shared') {
+    throw new EnvelopeError(
+      `Envelope is not shared among trustees (mode ${encryptedData.mode}); ` +
+        'decrypt it with hybridDecrypt'
+    );
+  }
+  return encryptedData;
+}
+
+function trusteeIndex(envelope: SharedEncryptedData, trustee: string): number {
+  const index = envelope.trustees.indexOf(trustee);
+  if (index === -1) {
+    throw new EnvelopeError(`"${trustee}" is not a trustee of this envelope`);
+  }
+  return index;
+}
+
+/** Open the time-lock and read the sealed shares, one per trustee */
+async function openBundle(
+  envelope: SharedEncryptedData,
+  options: HybridOptions
+): Promise<SealedShare[]> {
+  const secret = await unlockSecret(envelope, options);
+
+  let parsed;
+  try {
+    parsed = shareBundleSchema.safeParse(JSON.parse(new TextDecoder().decode(secret)));
+  } catch (err) {
+    throw new IntegrityError('Time-locked trustee shares are corrupted', err);
+  }
+  if (!parsed.success || parsed.data.shares.length !== envelope.trustees.length) {
+    throw new IntegrityError('Time-locked trustee shares are corrupted');
+  }
+  return parsed.data.shares;
+}
+
+/**
+ * Release `trustee`'s share of a shared envelope, once its time-lock has
+ * expired. The share is useless on its own; pass it, with those of other
+ * trustees, to `decryptWithShares`.
+ *
+ * Failures are reported as `TimelockNotExpiredError`, `InvalidPasswordError`,
+ * `IntegrityError`, `BeaconUnavailableError` or `EnvelopeError`.
+ */
+export async function releaseShare(
+  envelope: EncryptedData | string,
+  trustee: string,
+  password: string,
+  options: HybridOptions = {}
+): Promise<TrusteeShare> {
+  const encryptedData = sharedEnvelope(envelope);
+  const index = trusteeIndex(encryptedData, trustee);
+
+  const { salt, wrappedShare } = (await openBundle(encryptedData, options))[index];
+  const share = await unwrapDataKey(
+    Buffer.from(wrappedShare, 'base64'),
+    password,
+    encryptedData.kdf,
+    salt
+  );
+  return { trustee, share: bytesToHex(share) };
+}
+
+/**
+ * Decrypt a shared envelope from shares released by at least `threshold`
+ * of its trustees. Shares are checked against the envelope before they are
+ * combined, so a bad share is reported with the trustee who gave it.
+ *
+ * Returns the payload as a string, or as bytes with `format: 'binary'`.
+ * Failures are reported as `InsufficientSharesError`, and otherwise as by
+ * `releaseShare`.
+ */
+export async function decryptWithShares(
+  envelope: EncryptedData | string,
+  shares: TrusteeShare[],
+  options: HybridOptions & { format: 'binary' }
+): Promise<Uint8Array>;
+export async function decryptWithShares(
+  envelope: EncryptedData | string,
+  shares: TrusteeShare[],
+  options?: HybridOptions & { format?: 'utf8' }
+): Promise<string>;
+export async function decryptWithShares(
+  envelope: EncryptedData | string,
+  shares: TrusteeShare[],
+  options?: HybridOptions
+): Promise<string | Uint8Array>;
+export async function decryptWithShares(
+  envelope: EncryptedData | string,
+  shares: TrusteeShare[],
+  options: HybridOptions = {}
+): Promise<string | Uint8Array> {
+  const format = options.format ?? 'utf8';
+  if (format !== 'utf8' && format !== 'binary') {
+    throw new TypeError(`Unknown payload format "${format}" (expected utf8 or binary)`);
+  }
+  const encryptedData = sharedEnvelope(envelope);
+
+  // Keyed by trustee, so a share given twice counts once
+  const byTrustee = new Map<number, Buffer>();
+  for (const { trustee, share } of shares) {
+    byTrustee.set(trusteeIndex(encryptedData, trustee), Buffer.from(share, 'hex'));
+  }
+  if (byTrustee.size < encryptedData.threshold) {
+    throw new InsufficientSharesError(encryptedData.threshold, byTrustee.size);
+  }
+
+  const sealed = await openBundle(encryptedData, options);
+  for (const [index, share] of byTrustee) {
+    if (commitment(share) !== sealed[index].commitment) {
+      throw new IntegrityError(
+        `Share of trustee "${encryptedData.trustees[index]}" does not match the envelope`
+      );
+    }
+  }
+
+  const dataKey = combineShares([...byTrustee.values()]);
+  const plaintext = await decryptPayload(dataKey, encryptedData.encryptedData);
+  return format === 'binary' ? plaintext : new TextDecoder().decode(plaintext);
+}
@@ -0,0 +1,198 @@
+/**
+ * Unlock Scheduling Test Suite for HTLE Framework
+ *
+ * These tests validate how a lock request is turned into a drand round:
+ * - Human-readable and ISO 8601 duration parsing
+ * - Absolute unlock times and explicit rounds
+ * - Rejection of past, pre-genesis and beyond-horizon times
+ * - The reported round and release time are honoured by decryption
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { roundTime, ChainInfo } from 'tlock-js';
+import { parseDuration, roundForTime, resolveUnlock, DEFAULT_MAX_HORIZON_MS } from './unlock';
+import { hybridEncrypt, hybridDecrypt, resolveUnlockTime } from './hybrid';
+import { LocalDrandChain } from './local-chain';
+import { TimelockNotExpiredError } from './errors';
+import { UnlockSpec } from '../types';
+import { TEST_PASSWORD, TEST_PLAINTEXT } from '../test-utils';
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** A 3-second chain whose genesis is 2026-01-01T00:00:00Z */
+const CHAIN_INFO = {
+  public_key: '00',
+  period: 3,
+  genesis_time: 1_767_225_600,
+  hash: 'ab'.repeat(32),
+  groupHash: 'cd'.repeat(32),
+  schemeID: 'bls-unchained-g1-rfc9380',
+  metadata: { beaconID: 'test' },
+} as ChainInfo;
+const GENESIS_MS = CHAIN_INFO.genesis_time * 1000;
+const NOW = Date.parse('2026-06-01T12:00:00.000Z');
+
+describe('HTLE Unlock Scheduling', () => {
+  describe('parseDuration', () => {
+    it.each([
+      ['min', MINUTE],
+      ['month', 30 * DAY],
+      ['year', 365 * DAY],
+      ['60000', MINUTE],
+      ['90s', 90_000],
+      ['3d 4h', 3 * DAY + 4 * HOUR],
+      ['1w, 2d', 9 * DAY],
+      ['1h30m', 90 * MINUTE],
+      ['2 weeks', 14 * DAY],
+      ['1.5h', 90 * MINUTE],
+      ['P2W', 14 * DAY],
+      ['PT1H30M', 90 * MINUTE],
+      ['P1DT12H', 36 * HOUR],
+      ['p1y', 365 * DAY],
+    ])('should parse %j', (input, expected) => {
+      expect(parseDuration(input)).toBe(expected);
+    });
+
+    it.each(['', 'soon', '3 fortnights', 'P', 'PT', 'P1DT', '3d 4', 'd3'])(
+      'should reject %j',
+      (input) => {
+        expect(() => parseDuration(input)).toThrow(TypeError);
+      }
+    );
+
+    it('should reject zero durations', () => {
+      expect(() => parseDuration('0s')).toThrow(RangeError);
+      expect(() => parseDuration('PT0S')).toThrow(RangeError);
+    });
+  });
+
+  describe('roundForTime', () => {
+    it('should pick the first round published at or after the time', () => {
+      expect(roundForTime(CHAIN_INFO, GENESIS_MS)).toBe(1);
+      expect(roundForTime(CHAIN_INFO, GENESIS_MS + 3000)).toBe(2);
+      expect(roundForTime(CHAIN_INFO, GENESIS_MS + 3001)).toBe(3);
+      expect(roundTime(CHAIN_INFO, roundForTime(CHAIN_INFO, NOW + 1))).toBeGreaterThanOrEqual(
+        NOW + 1
+      );
+    });
+  });
+
+  describe('resolveUnlock', () => {
+    it('should resolve absolute times given as Date or ISO string', () => {
+      const embargo = '2027-01-01T09:00Z';
+      const fromString = resolveUnlock({ unlockAt: embargo }, CHAIN_INFO, NOW);
+      const fromDate = resolveUnlock({ unlockAt: new Date(embargo) }, CHAIN_INFO, NOW);
+
+      expect(fromString).toEqual(fromDate);
+      expect(fromString.unlockTime.toISOString()).toBe('2027-01-01T09:00:00.000Z');
+      expect(roundTime(CHAIN_INFO, fromString.roundNumber)).toBe(Date.parse(embargo));
+    });
+
+    it('should round a time between rounds up to the next round', () => {
+      const { roundNumber, unlockTime } = resolveUnlock({ durationMs: 1000 }, CHAIN_INFO, NOW);
+
+      expect(unlockTime.getTime()).toBeGreaterThanOrEqual(NOW + 1000);
+      expect(unlockTime.getTime() - (NOW + 1000)).toBeLessThan(3000);
+      expect(unlockTime.getTime()).toBe(roundTime(CHAIN_INFO, roundNumber));
+    });
+
+    it('should resolve durations relative to now', () => {
+      const { unlockTime } = resolveUnlock({ duration: 'P2W' }, CHAIN_INFO, NOW);
+      expect(unlockTime.getTime()).toBe(NOW + 14 * DAY);
+    });
+
+    it('should accept an explicit round and report its release time', () => {
+      const round = roundForTime(CHAIN_INFO, NOW) + 100;
+      const { roundNumber, unlockTime } = resolveUnlock({ round }, CHAIN_INFO, NOW);
+
+      expect(roundNumber).toBe(round);
+      expect(unlockTime.getTime()).toBe(roundTime(CHAIN_INFO, round));
+    });
+
+    it.each<[string, UnlockSpec, RegExp]>([
+      ['a past time', { unlockAt: '2026-05-01T00:00:00Z' }, /in the past/],
+      ['a pre-genesis time', { unlockAt: '2025-12-31T23:59:59Z' }, /before the chain's genesis/],
+      ['a published round', { round: 5 }, /already published/],
+      ['a time beyond the horizon', { duration: '11y' }, /beyond the allowed horizon/],
+      ['a non-integer round', { round: 1.5 }, /positive integer/],
+      ['a negative durationMs', { durationMs: -5 }, /greater than zero/],
+    ])('should reject %s', (_name, spec, message) => {
+      expect(() => resolveUnlock(spec, CHAIN_INFO, NOW)).toThrow(RangeError);
+      expect(() => resolveUnlock(spec, CHAIN_INFO, NOW)).toThrow(message);
+    });
+
+    it('should honour a custom horizon', () => {
+      expect(() => resolveUnlock({ duration: '2d' }, CHAIN_INFO, NOW, DAY)).toThrow(
+        /horizon of 1 days/
+      );
+      expect(resolveUnlock({ duration: '11y' }, CHAIN_INFO, NOW, 20 * 365 * DAY)).toBeTruthy();
+      expect(DEFAULT_MAX_HORIZON_MS).toBe(10 * 365 * DAY);
+    });
+
+    it('should reject malformed or ambiguous specs', () => {
+      expect(() => resolveUnlock({ unlockAt: 'next tuesday' }, CHAIN_INFO, NOW)).toThrow(
+        TypeError
+      );
+      expect(() =>
+        resolveUnlock({ duration: 'min', round: 10 } as UnlockSpec, CHAIN_INFO, NOW)
+      ).toThrow('Specify exactly one of duration, durationMs, unlockAt or round');
+      expect(() => resolveUnlock({} as UnlockSpec, CHAIN_INFO, NOW)).toThrow('got none');
+    });
+  });
+
+  describe('hybridEncrypt', () => {
+    let chain: LocalDrandChain;
+
+    beforeEach(() => {
+      chain = new LocalDrandChain();
+    });
+
+    it('should lock until an absolute time and open at the reported release time', async () => {
+      const unlockAt = new Date(chain.now() + 10 * MINUTE + 1500);
+      const encrypted = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, unlockAt, keyProfile: 'curve25519' },
+        { beaconSource: chain }
+      );
+
+      expect(encrypted.unlockTime.getTime()).toBeGreaterThanOrEqual(unlockAt.getTime());
+      expect(encrypted.unlockTime.getTime()).toBe(
+        roundTime(chain.chainInfo, encrypted.roundNumber)
+      );
+
+      chain.advanceTo(encrypted.unlockTime.getTime() - 1);
+      await expect(
+        hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain })
+      ).rejects.toThrow(TimelockNotExpiredError);
+
+      chain.advanceTo(encrypted.unlockTime);
+      expect(await hybridDecrypt(encrypted, TEST_PASSWORD, { beaconSource: chain })).toBe(
+        TEST_PLAINTEXT
+      );
+    });
+
+    it('should lock to an explicit round', async () => {
+      const preview = await resolveUnlockTime({ duration: '3d 4h' }, { beaconSource: chain });
+      const encrypted = await hybridEncrypt(
+        TEST_PLAINTEXT,
+        { password: TEST_PASSWORD, round: preview.roundNumber, keyProfile: 'curve25519' },
+        { beaconSource: chain }
+      );
+
+      expect(encrypted.roundNumber).toBe(preview.roundNumber);
+      expect(encrypted.unlockTime).toEqual(preview.unlockTime);
+    });
+
+    it('should validate against the beacon source before generating keys', async () => {
+      await expect(
+        hybridEncrypt(
+          TEST_PLAINTEXT,
+          { password: TEST_PASSWORD, duration: '2y' },
+          { beaconSource: chain, maxHorizonMs: 365 * DAY }
+        )
+      ).rejects.toThrow(RangeError);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { roundTime, ChainInfo } from 'tlock-js';
+import { Duration, DurationString, ResolvedUnlock, UnlockSpec } from '../types';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+/** Calendar months and years are approximated, matching the presets */
+const MONTH = 30 * DAY;
+const YEAR = 365 * DAY;
+
+export const DURATION_MS: Record<Duration, number> = {
+  min: MINUTE,
+  month: MONTH,
+  year: YEAR,
+};
+
+/** Default furthest unlock time accepted by `resolveUnlock` */
+export const DEFAULT_MAX_HORIZON_MS = 10 * YEAR;
+
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: SECOND,
+  sec: SECOND,
+  secs: SECOND,
+  second: SECOND,
+  seconds: SECOND,
+  m: MINUTE,
+  min: MINUTE,
+  mins: MINUTE,
+  minute: MINUTE,
+  minutes: MINUTE,
+  h: HOUR,
+  hr: HOUR,
+  hrs: HOUR,
+  hour: HOUR,
+  hours: HOUR,
+  d: DAY,
+  day: DAY,
+  days: DAY,
+  w: WEEK,
+  week: WEEK,
+  weeks: WEEK,
+  mo: MONTH,
+  month: MONTH,
+  months: MONTH,
+  y: YEAR,
+  yr: YEAR,
+  year: YEAR,
+  years: YEAR,
+};
+
+const ISO_DURATION =
+  /^P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+const ISO_UNITS = [YEAR, MONTH, WEEK, DAY, HOUR, MINUTE, SECOND];
+
+const COMPOUND_PART = /(\d+(?:\.\d+)?)\s*([a-z]+)\s*,?\s*/gy;
+
+function parseIsoDuration(input: string): number | undefined {
+  const match = ISO_DURATION.exec(input);
+  if (!match || input.endsWith('T') || match.slice(1).every((part) => part === undefined)) {
+    return undefined;
+  }
+  return match
+    .slice(1)
+    .reduce((total, part, i) => total + (part === undefined ? 0 : Number(part) * ISO_UNITS[i]), 0);
+}
+
+function parseCompoundDuration(input: string): number | undefined {
+  COMPOUND_PART.lastIndex = 0;
+  let total = 0;
+  let match: RegExpExecArray | null;
+  while ((match = COMPOUND_PART.exec(input)) !== null) {
+    const unit = UNIT_MS[match[2].toLowerCase()];
+    if (unit === undefined) return undefined;
+    total += Number(match[1]) * unit;
+    if (COMPOUND_PART.lastIndex === input.length) return total;
+  }
+  return undefined;
+}
+
+/**
+ * Convert a duration string to milliseconds. Accepts the `min`/`month`/`year`
+ * presets, compound durations (`"3d 4h"`, `"1w, 2d"`, `"90s"`), ISO 8601
+ * durations (`"P2W"`, `"PT1H30M"`) and plain milliseconds (`"60000"`).
+ * Months count as 30 days and years as 365 days.
+ */
+export function parseDuration(input: DurationString): number {
+  if (typeof input !== 'string') {
+    throw new TypeError(`Invalid duration: expected a string, got ${typeof input}`);
+  }
+  const trimmed = input.trim();
+  let ms: number | undefined;
+
+  if (Object.prototype.hasOwnProperty.call(DURATION_MS, trimmed)) {
+    ms = DURATION_MS[trimmed as Duration];
+  } else if (/^\d+$/.test(trimmed)) {
+    ms = Number(trimmed);
+  } else if (/^P/i.test(trimmed)) {
+    ms = parseIsoDuration(trimmed);
+  } else {
+    ms = parseCompoundDuration(trimmed);
+  }
+
+  if (ms === undefined) {
+    throw new TypeError(
+      `Invalid duration "${input}" (expected min, month, year, a duration such as "3d 4h" or "P2W", or milliseconds)`
+    );
+  }
+  if (ms <= 0) {
+    throw new RangeError(`Duration "${input}" must be greater than zero`);
+  }
+  return Math.round(ms);
+}
+
+/**
+ * The first round published at or after `time`, so a lock never opens
+ * before the requested moment.
+ */
+export function roundForTime(chainInfo: ChainInfo, time: number): number {
+  const elapsed = time - chainInfo.genesis_time * SECOND;
+  return Math.max(1, Math.ceil(elapsed / (chainInfo.period * SECOND)) + 1);
+}
+
+function parseUnlockAt(unlockAt: Date | string): number {
+  const time = unlockAt instanceof Date ? unlockAt.getTime() : Date.parse(unlockAt);
+  if (isNaN(time)) {
+    throw new TypeError(`Invalid unlockAt: ${String(unlockAt)} (expected a Date or ISO 8601 string)`);
+  }
+  return time;
+}
+
+function specKeys(spec: UnlockSpec): string[] {
+  return ['duration', 'durationMs', 'unlockAt', 'round'].filter(
+    (key) => (spec as Record<string, unknown>)[key] !== undefined
+  );
+}
+
+/**
+ * Resolve when a lock opens: the drand round to encrypt to and the exact
+ * time that round is published.
+ *
+ * Durations are measured from `now`. Throws `TypeError` for a malformed or
+ * ambiguous spec and `RangeError` for a time in the past, before the chain's
+ * genesis, or more than `maxHorizonMs` in the future.
+ */
+export function resolveUnlock(
+  spec: UnlockSpec,
+  chainInfo: ChainInfo,
+  now: number,
+  maxHorizonMs: number = DEFAULT_MAX_HORIZON_MS
+): ResolvedUnlock {
+  const keys = specKeys(spec);
+  if (keys.length !== 1) {
+    throw new TypeError(
+      `Specify exactly one of duration, durationMs, unlockAt or round (got ${keys.join(', ') || 'none'})`
+    );
+  }
+
+  let roundNumber: number;
+  if ('round' in spec && spec.round !== undefined) {
+    if (!Number.isSafeInteger(spec.round) || spec.round < 1) {
+      throw new RangeError(`Invalid round ${spec.round}: must be a positive integer`);
+    }
+    roundNumber = spec.round;
+  } else {
+    let target: number;
+    if ('unlockAt' in spec && spec.unlockAt !== undefined) {
+      target = parseUnlockAt(spec.unlockAt);
+    } else if ('durationMs' in spec && spec.durationMs !== undefined) {
+      if (!Number.isFinite(spec.durationMs) || spec.durationMs <= 0) {
+        throw new RangeError(`Invalid durationMs ${spec.durationMs}: must be greater than zero`);
+      }
+      target = now + spec.durationMs;
+    } else {
+      target = now + parseDuration((spec as { duration: DurationString }).duration);
+    }
+
+    const genesis = chainInfo.genesis_time * SECOND;
+    if (target < genesis) {
+      throw new RangeError(
+        `Unlock time ${new Date(target).toISOString()} is before the chain's genesis at ${new Date(genesis).toISOString()}`
+      );
+    }
+    if (target <= now) {
+      throw new RangeError(`Unlock time ${new Date(target).toISOString()} is in the past`);
+    }
+    roundNumber = roundForTime(chainInfo, target);
+  }
+
+  const unlockTime = roundTime(chainInfo, roundNumber);
+  if (unlockTime <= now) {
+    throw new RangeError(
+      `Round ${roundNumber} was already published at ${new Date(unlockTime).toISOString()}`
+    );
+  }
+  if (unlockTime - now > maxHorizonMs) {
+    throw new RangeError(
+      `Unlock time ${new Date(unlockTime).toISOString()} is beyond the allowed horizon of ${Math.floor(maxHorizonMs / DAY)} days`
+    );
+  }
+
+  return { roundNumber, unlockTime: new Date(unlockTime) };
+}
@@ -0,0 +1,237 @@
+/**
+ * Vault Test Suite for HTLE Framework
+ *
+ * These tests validate the directory-backed store of time-locked items:
+ * - Storing, listing, reading, opening and deleting items
+ * - Filtering by locked and unlockable state against the chain
+ * - Release notifications as each item's round is published
+ * - Invalid items reported one at a time without blocking the others
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Vault, VaultItem } from './vault';
+import { hybridEncrypt } from './hybrid';
+import { parseEnvelope } from './envelope';
+import { LocalDrandChain } from './local-chain';
+import { EnvelopeError, IntegrityError, InvalidPasswordError } from './errors';
+import { TEST_PASSWORD, WRONG_PASSWORD, TEST_PLAINTEXT } from '../test-utils';
+
+describe('HTLE Vault', () => {
+  const kdf = { algorithm: 'scrypt', N: 2 ** 10 } as const;
+  const lockFor = (durationMs: number) =>
+    ({ password: TEST_PASSWORD, mode: 'symmetric', kdf, durationMs }) as const;
+
+  let dir: string;
+  let chain: LocalDrandChain;
+  let vault: Vault;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'htle-vault-'));
+    chain = new LocalDrandChain();
+    vault = new Vault({ dir, options: { beaconSource: chain } });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('Items', () => {
+    it('should store an envelope with its public metadata', async () => {
+      const item = await vault.put('tax records', TEST_PLAINTEXT, lockFor(60_000));
+      const file = path.join(dir, `${item.id}.json`);
+      const stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+      const entry = await vault.get(item.id);
+
+      expect(item).toMatchObject({ label: 'tax records', chainHash: chain.chainInfo.hash });
+      expect(stored.label).toBe('tax records');
+      expect(parseEnvelope(JSON.stringify(stored.envelope)).roundNumber).toBe(item.roundNumber);
+      expect(entry).toMatchObject(item);
+      expect(entry?.envelope.unlockTime).toEqual(item.unlockTime);
+      expect(await vault.list()).toEqual([item]);
+    });
+
+    it('should list items in unlock order and delete them', async () => {
+      const later = await vault.put('later', 'b', lockFor(120_000));
+      const sooner = await vault.put('sooner', 'a', lockFor(30_000));
+
+      expect((await vault.list()).map((item) => item.label)).toEqual(['sooner', 'later']);
+      expect(await vault.delete(sooner.id)).toBe(true);
+      expect(await vault.delete(sooner.id)).toBe(false);
+      expect(await vault.get(sooner.id)).toBeUndefined();
+      expect(await vault.list()).toEqual([later]);
+      expect(await new Vault({ dir: path.join(dir, 'missing') }).list()).toEqual([]);
+    });
+
+    it('should add existing envelopes', async () => {
+      const envelope = await hybridEncrypt(TEST_PLAINTEXT, lockFor(30_000), {
+        beaconSource: chain,
+      });
+      const item = await vault.add('imported', envelope);
+
+      expect(item.roundNumber).toBe(envelope.roundNumber);
+      chain.advanceTo(envelope.unlockTime);
+      expect(await vault.open(item.id, TEST_PASSWORD)).toBe(TEST_PLAINTEXT);
+    });
+
+    it('should open items once unlocked', async () => {
+      const item = await vault.put('binary', new Uint8Array([1, 2, 3]), lockFor(30_000));
+
+      chain.advanceTo(item.unlockTime);
+      expect(await vault.open(item.id, TEST_PASSWORD, { format: 'binary' })).toEqual(
+        new Uint8Array([1, 2, 3])
+      );
+      await expect(vault.open(item.id, WRONG_PASSWORD)).rejects.toThrow(InvalidPasswordError);
+      const unknown = '00000000-0000-0000-0000-000000000000';
+      await expect(vault.open(unknown, TEST_PASSWORD)).rejects.toThrow(EnvelopeError);
+      await expect(vault.get('../escape')).rejects.toThrow(TypeError);
+    });
+
+    it('should reject invalid item files', async () => {
+      const item = await vault.put('secret', TEST_PLAINTEXT, lockFor(30_000));
+      fs.writeFileSync(path.join(dir, `${item.id}.json`), '{"version":1,"label":"x"}');
+      fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+
+      await expect(vault.list()).rejects.toThrow(`Invalid vault item ${item.id}`);
+
+      const other = await vault.put('other', TEST_PLAINTEXT, lockFor(30_000));
+      const errors: unknown[] = [];
+      expect(await vault.list({ onError: (err) => errors.push(err) })).toEqual([other]);
+      expect(errors).toEqual([expect.any(EnvelopeError)]);
+    });
+  });
+
+  describe('State', () => {
+    it('should filter locked and unlockable items', async () => {
+      const sooner = await vault.put('sooner', 'a', lockFor(30_000));
+      const later = await vault.put('later', 'b', lockFor(120_000));
+
+      expect(await vault.list({ state: 'unlockable' })).toEqual([]);
+      chain.advanceTo(sooner.unlockTime);
+      expect(await vault.list({ state: 'unlockable' })).toEqual([sooner]);
+      expect(await vault.list({ state: 'locked' })).toEqual([later]);
+    });
+
+    it('should reject items of another chain', async () => {
+      const other = new LocalDrandChain();
+      const envelope = await hybridEncrypt('x', lockFor(30_000), { beaconSource: other });
+      await expect(vault.add('elsewhere', envelope)).rejects.toThrow(EnvelopeError);
+      expect(await vault.list()).toEqual([]);
+
+      // copied in from a vault on the other chain
+      const foreign = await new Vault({ dir, options: { beaconSource: other } }).add('x', envelope);
+      const local = await vault.put('local', 'a', lockFor(30_000));
+      await expect(vault.list({ state: 'locked' })).rejects.toThrow(EnvelopeError);
+
+      const errors: unknown[] = [];
+      const onError = (err: unknown) => errors.push(err);
+      expect(await vault.list({ state: 'locked', onError })).toEqual([local]);
+      chain.advanceTo(local.unlockTime);
+      expect(await vault.list({ state: 'unlockable', onError })).toEqual([local]);
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toMatchObject({ message: expect.stringContaining(foreign.id) });
+    });
+
+    it('should report tampered items as IntegrityError', async () => {
+      const item = await vault.put('item', 'a', lockFor(30_000));
+      const file = path.join(dir, `${item.id}.json`);
+      const stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+      stored.envelope.roundNumber += 1;
+      fs.writeFileSync(file, JSON.stringify(stored));
+
+      const errors: unknown[] = [];
+      expect(await vault.list({ state: 'locked', onError: (err) => errors.push(err) })).toEqual([]);
+      expect(errors).toEqual([expect.any(IntegrityError)]);
+      expect(errors[0]).toMatchObject({ message: expect.stringContaining(item.id) });
+    });
+  });
+
+  describe('Watcher', () => {
+    it('should report each item as its round is published', async () => {
+      const first = await vault.put('first', 'a', lockFor(30_000));
+      const second = await vault.put('second', 'b', lockFor(60_000));
+      const released: VaultItem[] = [];
+      const controller = new AbortController();
+      const watching = vault.watch({
+        onRelease: (item) => {
+          released.push(item);
+        },
+        signal: controller.signal,
+        pollIntervalMs: 10,
+      });
+
+      chain.advanceTo(first.unlockTime);
+      await vi.waitFor(() => expect(released).toEqual([first]));
+
+      const third = await vault.put('third', 'c', lockFor(10_000));
+      chain.advanceTo(third.unlockTime);
+      await vi.waitFor(() => expect(released).toEqual([first, third]));
+      chain.advanceTo(second.unlockTime);
+      await vi.waitFor(() => expect(released).toEqual([first, third, second]));
+
+      controller.abort();
+      await watching;
+    });
+
+    it('should release the other items while one is invalid', async () => {
+      const broken = await vault.put('broken', 'a', lockFor(30_000));
+      const item = await vault.put('item', 'b', lockFor(30_000));
+      fs.writeFileSync(path.join(dir, `${broken.id}.json`), 'not json');
+
+      const errors: unknown[] = [];
+      const released: VaultItem[] = [];
+      const controller = new AbortController();
+      const watching = vault.watch({
+        onRelease: (releasedItem) => {
+          released.push(releasedItem);
+        },
+        onError: (err) => errors.push(err),
+        signal: controller.signal,
+        pollIntervalMs: 10,
+      });
+
+      chain.advanceTo(item.unlockTime);
+      await vi.waitFor(() => expect(released).toEqual([item]));
+      expect(errors[0]).toMatchObject({ message: expect.stringContaining(broken.id) });
+
+      controller.abort();
+      await watching;
+    });
+
+    it('should report errors and keep watching', async () => {
+      const item = await vault.put('item', 'a', lockFor(30_000));
+      const file = path.join(dir, `${item.id}.json`);
+      const valid = fs.readFileSync(file, 'utf8');
+      fs.writeFileSync(file, 'not json');
+
+      await expect(vault.watch({ onRelease: () => undefined, pollIntervalMs: 10 })).rejects.toThrow(
+        EnvelopeError
+      );
+
+      const errors: unknown[] = [];
+      const released: VaultItem[] = [];
+      const controller = new AbortController();
+      const watching = vault.watch({
+        onRelease: (releasedItem) => {
+          released.push(releasedItem);
+        },
+        onError: (err) => errors.push(err),
+        signal: controller.signal,
+        pollIntervalMs: 10,
+      });
+
+      await vi.waitFor(() => expect(errors.length).toBeGreaterThan(0));
+      fs.writeFileSync(file, valid);
+      chain.advanceTo(item.unlockTime);
+      await vi.waitFor(() => expect(released).toEqual([item]));
+
+      controller.abort();
+      await watching;
+      await expect(
+        vault.watch({ onRelease: () => undefined, pollIntervalMs: 0 })
+      ).rejects.toThrow(RangeError);
+    });
+  });
+});
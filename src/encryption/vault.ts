@@ -0,0 +1,433 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { ChainInfo, roundTime } from 'tlock-js';
+import { hybridEncrypt, hybridDecrypt } from './hybrid';
+import { getRoundStatus } from './status';
+import { getChainInfo, resolveBeaconSource } from './timelock';
+import {
+  formatIssues,
+  normalizeEnvelope,
+  serializeEnvelope,
+  assertEnvelopeChain,
+} from './envelope';
+import { assertEnvelopeMetadata } from './verify';
+import { sleep } from './wait';
+import { EnvelopeError, HtleError } from './errors';
+import {
+  BeaconSource,
+  EncryptedData,
+  HybridEncryptionConfig,
+  HybridOptions,
+  RecipientsEncryptionConfig,
+} from '../types';
+
+const ITEM_FILE = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.json$/;
+const DEFAULT_WATCH_INTERVAL_MS = 1_000;
+
+const itemSchema = z.object({
+  version: z.literal(1),
+  label: z.string(),
+  created: z.iso.datetime(),
+  envelope: z.unknown(),
+});
+
+export interface VaultOptions {
+  /** Directory holding one `<id>.json` file per item */
+  dir: string;
+  /**
+   * Options of every encryption, decryption and status check, such as
+   * `beaconSource`, `chains` or `passwordPolicy`
+   */
+  options?: HybridOptions;
+}
+
+/** Public metadata of a vault item; readable without a password */
+export interface VaultItem {
+  id: string;
+  label: string;
+  created: Date;
+  chainHash: string;
+  roundNumber: number;
+  unlockTime: Date;
+}
+
+/** A vault item with its envelope */
+export interface VaultEntry extends VaultItem {
+  envelope: EncryptedData;
+}
+
+export interface VaultListOptions {
+  /**
+   * Only items whose round is not yet published (`locked`) or is
+   * (`unlockable`). Filtering asks each chain with items due for its latest
+   * round.
+   */
+  state?: 'locked' | 'unlockable';
+  /**
+   * Called with each item that cannot be read or checked, such as an
+   * invalid item file or one whose chain cannot be reached; the item is
+   * left out. Without it, the list rejects with the first such error.
+   */
+  onError?: (err: unknown) => void;
+}
+
+export interface VaultWatchOptions {
+  /** Called once per item as its round is published, in round order */
+  onRelease: (item: VaultItem) => void | Promise<void>;
+  /**
+   * Called with errors while checking, such as an unreachable relay or an
+   * invalid item file. The items concerned are skipped, the others are
+   * still checked, and all are retried at the next check. Without it, the
+   * watch rejects with them.
+   */
+  onError?: (err: unknown) => void;
+  /** Stop watching; the promise then resolves */
+  signal?: AbortSignal;
+  /** Interval between checks of the directory and of due rounds (default: 1000) */
+  pollIntervalMs?: number;
+}
+
+/**
+ * A directory of time-locked envelopes with public metadata: a label, the
+ * creation time and the round the envelope unlocks at. Each item is one
+ * `<id>.json` file holding the metadata and the serialized envelope, so
+ * items can be backed up, copied between vaults or opened with any other
+ * tool that reads envelopes.
+ *
+ * Labels and creation times are stored next to the envelope and are not
+ * covered by its integrity tag; the round and unlock time are, and are
+ * checked against the chain whenever an item's status is determined.
+ */
+export class Vault {
+  readonly dir: string;
+  readonly options: HybridOptions;
+
+  constructor(options: VaultOptions) {
+    this.dir = options.dir;
+    this.options = options.options ?? {};
+  }
+
+  /**
+   * Encrypt `data` with `hybridEncrypt` and store the envelope under
+   * `label`.
+   */
+  async put(
+    label: string,
+    data: string | Uint8Array,
+    config: HybridEncryptionConfig | RecipientsEncryptionConfig
+  ): Promise<VaultItem> {
+    return this.add(label, await hybridEncrypt(data, config, this.options));
+  }
+
+  /**
+   * Store an existing envelope under `label`. Headers of streamed payloads
+   * are rejected with `EnvelopeError`, as they cannot be opened on their
+   * own, and so are staged envelopes, which do not open to one payload.
+   * The envelope is checked against its chain as `getLockStatus` would:
+   * one the vault's beacon source does not serve is rejected with
+   * `EnvelopeError`, and edited metadata with `IntegrityError`.
+   */
+  async add(label: string, envelope: EncryptedData | string): Promise<VaultItem> {
+    const data = normalizeEnvelope(envelope);
+    if (data.mode === 'stream') {
+      throw new EnvelopeError('Envelope is the header of a streamed payload and cannot be stored');
+    }
+    if (data.mode === 'staged') {
+      throw new EnvelopeError('Envelope is staged and cannot be stored');
+    }
+    const chainInfo = await getChainInfo(resolveBeaconSource(this.options, data.chainHash));
+    assertEnvelopeChain(data, chainInfo);
+    assertEnvelopeMetadata(data, chainInfo);
+
+    const id = randomUUID();
+    const created = new Date();
+    const item = {
+      version: 1,
+      label,
+      created: created.toISOString(),
+      envelope: JSON.parse(serializeEnvelope(data)),
+    };
+    await this.writeFile(this.itemPath(id), `${JSON.stringify(item, null, 2)}\n`);
+    return toItem({ id, label, created, ...pick(data) });
+  }
+
+  /**
+   * Items in unlock order, optionally only the locked or unlockable ones.
+   * Items that cannot be read or checked are passed to `onError`; without
+   * it, an invalid item file rejects with `EnvelopeError`.
+   */
+  async list(options: VaultListOptions = {}): Promise<VaultItem[]> {
+    const report = options.onError ?? rethrow;
+    const entries = await this.entries(report);
+    if (options.state === undefined) {
+      return entries.map(toItem);
+    }
+    const states = await this.states(entries, report);
+    return entries
+      .filter((entry) => states.get(entry.id) === (options.state === 'unlockable'))
+      .map(toItem);
+  }
+
+  /**
+   * The item and its envelope, or `undefined` if there is no item `id`.
+   */
+  async get(id: string): Promise<VaultEntry | undefined> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.itemPath(id), 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw err;
+    }
+    return parseItem(id, text);
+  }
+
+  /**
+   * Decrypt item `id` with `hybridDecrypt`. Throws `EnvelopeError` if there
+   * is no such item; otherwise returns and fails as `hybridDecrypt`.
+   */
+  open(
+    id: string,
+    password: string,
+    options: HybridOptions & { format: 'binary' }
+  ): Promise<Uint8Array>;
+  open(
+    id: string,
+    password: string,
+    options?: HybridOptions & { format?: 'utf8' }
+  ): Promise<string>;
+  open(id: string, password: string, options?: HybridOptions): Promise<string | Uint8Array>;
+  async open(
+    id: string,
+    password: string,
+    options: HybridOptions = {}
+  ): Promise<string | Uint8Array> {
+    const entry = await this.get(id);
+    if (!entry) {
+      throw new EnvelopeError(`No vault item "${id}"`);
+    }
+    if (entry.envelope.mode === 'staged') {
+      throw new EnvelopeError(
+        `Vault item "${id}" is a staged envelope; open it with hybridDecrypt`
+      );
+    }
+    return hybridDecrypt(entry.envelope, password, { ...this.options, ...options });
+  }
+
+  /**
+   * Remove item `id`. Returns whether it existed.
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      await fs.promises.rm(this.itemPath(id));
+      return true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw err;
+    }
+  }
+
+  /**
+   * Call `onRelease` as each item's round is published, until `signal`
+   * aborts. Items are picked up as they are added and dropped as they are
+   * deleted. Every item is reported once per watch, including those
+   * already unlockable when it starts. If `onRelease` throws, the watch
+   * rejects with that error.
+   */
+  async watch(options: VaultWatchOptions): Promise<void> {
+    const { onRelease, onError, signal, pollIntervalMs = DEFAULT_WATCH_INTERVAL_MS } = options;
+    if (!(pollIntervalMs > 0) || !Number.isFinite(pollIntervalMs)) {
+      throw new RangeError('pollIntervalMs must be a positive number of milliseconds');
+    }
+
+    const report = onError ?? rethrow;
+    const reported = new Set<string>();
+    while (!signal?.aborted) {
+      let released: VaultEntry[] = [];
+      try {
+        const pending = (await this.entries(report)).filter((entry) => !reported.has(entry.id));
+        const states = await this.states(pending, report);
+        released = pending.filter((entry) => states.get(entry.id));
+      } catch (err) {
+        if (!onError) throw err;
+        onError(err);
+      }
+
+      for (const entry of released) {
+        if (signal?.aborted) return;
+        reported.add(entry.id);
+        await onRelease(toItem(entry));
+      }
+
+      try {
+        await sleep(pollIntervalMs, signal);
+      } catch {
+        return;
+      }
+    }
+  }
+
+  private itemPath(id: string): string {
+    if (!ITEM_FILE.test(`${id}.json`)) {
+      throw new TypeError(`Invalid vault item id "${id}"`);
+    }
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  /** Write via a temporary file so readers never see a partial item */
+  private async writeFile(file: string, data: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(temp, data);
+    await fs.promises.rename(temp, file);
+  }
+
+  /** Every readable item, in unlock order; invalid item files are passed to `report` */
+  private async entries(report: (err: unknown) => void): Promise<VaultEntry[]> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.dir);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+
+    const entries: VaultEntry[] = [];
+    for (const name of names) {
+      const match = ITEM_FILE.exec(name);
+      if (!match) continue;
+      const text = await fs.promises
+        .readFile(path.join(this.dir, name), 'utf8')
+        .catch(() => undefined);
+      // deleted since the directory was read
+      if (text === undefined) continue;
+      try {
+        entries.push(parseItem(match[1], text));
+      } catch (err) {
+        report(err);
+      }
+    }
+    return entries.sort(
+      (a, b) =>
+        a.unlockTime.getTime() - b.unlockTime.getTime() ||
+        a.created.getTime() - b.created.getTime()
+    );
+  }
+
+  /**
+   * Whether each entry's round has been published, by id. Each entry's
+   * metadata is checked against its chain, and each chain is asked for its
+   * latest round only if some of its entries are due by the beacon source's
+   * clock. Entries that fail their checks, and those of a chain that cannot
+   * be reached, are passed to `report` and left out.
+   */
+  private async states(
+    entries: VaultEntry[],
+    report: (err: unknown) => void
+  ): Promise<Map<string, boolean>> {
+    const byChain = new Map<string, VaultEntry[]>();
+    for (const entry of entries) {
+      byChain.set(entry.chainHash, [...(byChain.get(entry.chainHash) ?? []), entry]);
+    }
+
+    const states = new Map<string, boolean>();
+    for (const [chainHash, chainEntries] of byChain) {
+      let source: BeaconSource;
+      let chainInfo: ChainInfo;
+      try {
+        source = resolveBeaconSource(this.options, chainHash);
+        chainInfo = await getChainInfo(source);
+      } catch (err) {
+        report(err);
+        continue;
+      }
+
+      const checked = chainEntries.filter((entry) => {
+        try {
+          assertEnvelopeChain(entry.envelope, chainInfo);
+          assertEnvelopeMetadata(entry.envelope, chainInfo);
+          return true;
+        } catch (err) {
+          report(itemError(entry.id, err));
+          return false;
+        }
+      });
+      const due = checked.filter(
+        (entry) => roundTime(chainInfo, entry.roundNumber) <= source.now()
+      );
+
+      let latestRound = 0;
+      if (due.length > 0) {
+        try {
+          const status = await getRoundStatus(due[due.length - 1].roundNumber, {
+            beaconSource: source,
+          });
+          latestRound = status.latestRound;
+        } catch (err) {
+          report(err);
+          continue;
+        }
+      }
+      for (const entry of checked) {
+        states.set(entry.id, entry.roundNumber <= latestRound);
+      }
+    }
+    return states;
+  }
+}
+
+function pick(envelope: EncryptedData) {
+  return {
+    chainHash: envelope.chainHash,
+    roundNumber: envelope.roundNumber,
+    unlockTime: new Date(envelope.unlockTime),
+  };
+}
+
+function toItem({ id, label, created, chainHash, roundNumber, unlockTime }: VaultItem): VaultItem {
+  return { id, label, created, chainHash, roundNumber, unlockTime };
+}
+
+function parseItem(id: string, text: string): VaultEntry {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new EnvelopeError(`Invalid vault item ${id}: not valid JSON`);
+  }
+  const parsed = itemSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new EnvelopeError(`Invalid vault item ${id}: ${formatIssues(parsed.error)}`);
+  }
+
+  let envelope: EncryptedData;
+  try {
+    envelope = normalizeEnvelope(JSON.stringify(parsed.data.envelope));
+  } catch (err) {
+    throw itemError(id, err);
+  }
+  const { label, created } = parsed.data;
+  return { id, label, created: new Date(created), ...pick(envelope), envelope };
+}
+
+/**
+ * `err` with the item's id in its message. HTLE errors keep their class, so
+ * that a tampered item still fails with `IntegrityError`; others are
+ * wrapped in `EnvelopeError`.
+ */
+function itemError(id: string, err: unknown): HtleError {
+  if (err instanceof HtleError) {
+    err.message = `Invalid vault item ${id}: ${err.message}`;
+    return err;
+  }
+  return new EnvelopeError(
+    `Invalid vault item ${id}: ${err instanceof Error ? err.message : String(err)}`,
+    err
+  );
+}
+
+function rethrow(err: unknown): never {
+  throw err;
+}
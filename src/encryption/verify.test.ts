@@ -0,0 +1,120 @@
+/**
+ * Envelope Verification Test Suite for HTLE Framework
+ *
+ * These tests validate password-free checks of envelope metadata:
+ * - Round and chain are read from the tlock stanza of the ciphertext
+ * - The integrity tag is checked once the round is published
+ * - Version 2 envelopes without a tag still verify and decrypt
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { verifyEnvelope } from './verify';
+import { hybridEncrypt, hybridDecrypt } from './hybrid';
+import { LocalDrandChain } from './local-chain';
+import { encryptToRound, readTimelockStanza } from './timelock';
+import { encryptSymmetric } from './symmetric';
+import { serializeEnvelope } from './envelope';
+import { IntegrityError } from './errors';
+import { PgpEncryptedData, SymmetricEncryptedData } from '../types';
+import { TEST_PASSWORD, TEST_PLAINTEXT } from '../test-utils';
+
+describe('HTLE Envelope Verification', () => {
+  let chain: LocalDrandChain;
+  let encrypted: PgpEncryptedData;
+
+  beforeEach(async () => {
+    chain = new LocalDrandChain();
+    encrypted = await hybridEncrypt(
+      TEST_PLAINTEXT,
+      { password: TEST_PASSWORD, duration: 'min', keyProfile: 'curve25519' },
+      { beaconSource: chain }
+    );
+  });
+
+  /** A version 2 envelope, as written before envelopes were tagged */
+  async function legacyEnvelope(): Promise<SymmetricEncryptedData> {
+    const { kdf, salt, encryptedData, wrappedKey } = await encryptSymmetric(
+      TEST_PLAINTEXT,
+      TEST_PASSWORD,
+      { algorithm: 'scrypt', N: 2 ** 10 }
+    );
+    return {
+      version: 2,
+      chainHash: encrypted.chainHash,
+      scheme: encrypted.scheme,
+      unlockTime: encrypted.unlockTime,
+      roundNumber: encrypted.roundNumber,
+      mode: 'symmetric',
+      kdf,
+      salt,
+      encryptedData,
+      timelockedKey: await encryptToRound(wrappedKey, encrypted.roundNumber, chain),
+    };
+  }
+
+  it('should read the round and chain from the tlock stanza', () => {
+    expect(readTimelockStanza(encrypted.timelockedPrivateKey)).toEqual({
+      roundNumber: encrypted.roundNumber,
+      chainHash: chain.chainInfo.hash,
+    });
+    expect(() => readTimelockStanza('not an age file')).toThrow(IntegrityError);
+  });
+
+  it('should check the tag only once the round is published', async () => {
+    const expected = {
+      chainHash: encrypted.chainHash,
+      roundNumber: encrypted.roundNumber,
+      unlockTime: encrypted.unlockTime,
+    };
+
+    expect(await verifyEnvelope(encrypted, { beaconSource: chain })).toEqual({
+      ...expected,
+      tag: 'locked',
+    });
+    chain.advanceTo(encrypted.unlockTime);
+    expect(await verifyEnvelope(serializeEnvelope(encrypted), { beaconSource: chain })).toEqual({
+      ...expected,
+      tag: 'verified',
+    });
+  });
+
+  it('should reject edited metadata before the round is published', async () => {
+    const earlier = { ...encrypted, roundNumber: encrypted.roundNumber - 5 };
+
+    await expect(verifyEnvelope(earlier, { beaconSource: chain })).rejects.toThrow(
+      `the ciphertext is locked to round ${encrypted.roundNumber}`
+    );
+  });
+
+  it('should reject a forged tag once the round is published', async () => {
+    chain.advanceTo(encrypted.unlockTime);
+    const forged = { ...encrypted, tag: 'ab'.repeat(32) };
+
+    await expect(verifyEnvelope(forged, { beaconSource: chain })).rejects.toThrow(
+      'integrity tag mismatch'
+    );
+  });
+
+  it('should verify and decrypt untagged version 2 envelopes', async () => {
+    const legacy = await legacyEnvelope();
+    chain.advanceTo(legacy.unlockTime);
+
+    expect(await verifyEnvelope(legacy, { beaconSource: chain })).toMatchObject({
+      tag: 'untagged',
+    });
+    expect(await hybridDecrypt(legacy, TEST_PASSWORD, { beaconSource: chain })).toBe(
+      TEST_PLAINTEXT
+    );
+  });
+
+  it('should not accept a tag added to a version 2 envelope', async () => {
+    const legacy = await legacyEnvelope();
+    chain.advanceTo(legacy.unlockTime);
+
+    await expect(
+      hybridDecrypt({ ...legacy, version: 3, tag: 'ab'.repeat(32) }, TEST_PASSWORD, {
+        beaconSource: chain,
+      })
+    ).rejects.toThrow(IntegrityError);
+  });
+});
@@ -0,0 +1,225 @@
+import { roundTime, ChainInfo, Buffer } from 'tlock-js';
+import { equalBytes } from '@noble/curves/abstract/utils';
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, concatBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { decryptWithTimelock, getChainInfo, readTimelockStanza } from './timelock';
+import { normalizeEnvelope, assertEnvelopeChain, timelockedSecret } from './envelope';
+import { resolveDecryptionSource } from './beacon-file';
+import { IntegrityError } from './errors';
+import { EncryptedData, EnvelopeVerification, HybridOptions } from '../types';
+
+/**
+ * Prefix of the time-locked secret of tagged (version 3) envelopes. It marks
+ * the secret as tagged, so stripping the tag and relabelling the envelope as
+ * an older version is detected once the time-lock opens.
+ */
+const TAGGED_SECRET_PREFIX = utf8ToBytes('htle-tag:');
+
+const TAG_KEY_INFO = 'htle envelope metadata tag';
+
+/** Fields the tag leaves out: the ciphertexts, which authenticate themselves, and the tag */
+const UNTAGGED_FIELDS = ['encryptedData', 'timelockedPrivateKey', 'timelockedKey', 'tag'];
+
+/**
+ * Canonical bytes of an envelope's public metadata: every field except the
+ * ciphertexts and the tag itself, as JSON with sorted keys. The stages of a
+ * staged envelope are reduced to their labels and rounds.
+ */
+function metadataBytes(envelope: EncryptedData): Uint8Array {
+  const metadata = {
+    ...envelope,
+    unlockTime: envelope.unlockTime.toISOString(),
+    ...(envelope.mode === 'staged'
+      ? {
+          stages: envelope.stages.map((stage) => ({
+            ...(stage.label === undefined ? {} : { label: stage.label }),
+            roundNumber: stage.roundNumber,
+            unlockTime: stage.unlockTime.toISOString(),
+          })),
+        }
+      : {}),
+  };
+  const fields = Object.entries(metadata).filter(
+    ([name, value]) => !UNTAGGED_FIELDS.includes(name) && value !== undefined
+  );
+  return utf8ToBytes(canonicalJson(Object.fromEntries(fields)));
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Integrity tag of an envelope's public metadata: HMAC-SHA256 keyed with a
+ * key derived from the time-locked secret, so it cannot be recomputed for
+ * edited metadata without opening the time-lock.
+ */
+export function envelopeTag(envelope: EncryptedData, secret: Uint8Array): string {
+  const key = hkdf(sha256, secret, undefined, TAG_KEY_INFO, 32);
+  return bytesToHex(hmac(sha256, key, metadataBytes(envelope)));
+}
+
+/**
+ * The payload to time-lock for a tagged envelope's `secret`.
+ */
+export function sealSecret(secret: Uint8Array): Uint8Array {
+  return concatBytes(TAGGED_SECRET_PREFIX, secret);
+}
+
+/**
+ * Recover the secret from an opened time-lock payload and check the
+ * envelope's tag against it. Throws `IntegrityError` if the tag does not
+ * match, or if the payload and the envelope's version disagree on whether
+ * the envelope is tagged.
+ */
+export function openSecret(envelope: EncryptedData, payload: Uint8Array): Uint8Array {
+  const tagged =
+    payload.length >= TAGGED_SECRET_PREFIX.length &&
+    TAGGED_SECRET_PREFIX.every((byte, i) => payload[i] === byte);
+
+  if (envelope.tag === undefined) {
+    if (tagged) {
+      throw new IntegrityError(
+        'Envelope metadata was tampered with: the integrity tag was removed from a version 3 envelope'
+      );
+    }
+    return payload;
+  }
+  if (!tagged) {
+    throw new IntegrityError(
+      'Envelope metadata was tampered with: the time-locked secret of a tagged envelope is unmarked'
+    );
+  }
+
+  const secret = payload.subarray(TAGGED_SECRET_PREFIX.length);
+  assertTag(envelope, secret);
+  return secret;
+}
+
+/**
+ * Recover the data key wrapping of a later stage of a staged envelope from
+ * its opened time-lock payload. The envelope's tag is keyed from the first
+ * stage's secret and is checked when that stage opens, which is never after
+ * a later one. Throws `IntegrityError` if the payload is unmarked.
+ */
+export function openStageSecret(payload: Uint8Array): Uint8Array {
+  const tagged =
+    payload.length >= TAGGED_SECRET_PREFIX.length &&
+    TAGGED_SECRET_PREFIX.every((byte, i) => payload[i] === byte);
+  if (!tagged) {
+    throw new IntegrityError(
+      'Envelope metadata was tampered with: the time-locked secret of a stage is unmarked'
+    );
+  }
+  return payload.subarray(TAGGED_SECRET_PREFIX.length);
+}
+
+/**
+ * Throw `IntegrityError` unless the envelope's tag matches its time-locked
+ * `secret`.
+ */
+export function assertTag(envelope: EncryptedData, secret: Uint8Array): void {
+  const expected = Buffer.from(envelopeTag(envelope, secret), 'hex');
+  const actual = Buffer.from(envelope.tag ?? '', 'hex');
+  if (!equalBytes(actual, expected)) {
+    throw new IntegrityError('Envelope metadata was tampered with: integrity tag mismatch');
+  }
+}
+
+/**
+ * Check the public metadata against the time-locked ciphertexts and the
+ * chain, without opening the time-lock: the round and chain in the tlock
+ * stanza of each ciphertext (including the escrow slot's) must match
+ * `roundNumber` and `chainHash`, and `unlockTime` and `scheme` must be
+ * those of that round on `chainInfo`. Each stage of a staged envelope is
+ * checked the same way against its own round. Throws `IntegrityError` on any
+ * mismatch.
+ */
+export function assertEnvelopeMetadata(envelope: EncryptedData, chainInfo: ChainInfo): void {
+  const { roundNumber, unlockTime } = envelope;
+  const locks = [{ ciphertext: timelockedSecret(envelope), roundNumber, unlockTime, field: '' }];
+  if (envelope.escrow !== undefined) {
+    locks.push({ ...locks[0], ciphertext: envelope.escrow.timelockedKey });
+  }
+  if (envelope.mode === 'staged') {
+    for (const [i, stage] of envelope.stages.entries()) {
+      locks.push({
+        ciphertext: stage.timelockedKey,
+        roundNumber: stage.roundNumber,
+        unlockTime: stage.unlockTime,
+        field: `stages.${i}.`,
+      });
+    }
+  }
+
+  for (const lock of locks) {
+    const stanza = readTimelockStanza(lock.ciphertext);
+    if (stanza.chainHash !== envelope.chainHash) {
+      throw new IntegrityError(
+        `Envelope metadata was tampered with: chainHash is ${envelope.chainHash}, but the ciphertext is locked to chain ${stanza.chainHash}`
+      );
+    }
+    if (stanza.roundNumber !== lock.roundNumber) {
+      throw new IntegrityError(
+        `Envelope metadata was tampered with: ${lock.field}roundNumber is ${lock.roundNumber}, but the ciphertext is locked to round ${stanza.roundNumber}`
+      );
+    }
+  }
+  for (const lock of locks) {
+    const expected = roundTime(chainInfo, lock.roundNumber);
+    if (lock.unlockTime.getTime() !== expected) {
+      throw new IntegrityError(
+        `Envelope metadata was tampered with: ${lock.field}unlockTime is ${lock.unlockTime.toISOString()}, but round ${lock.roundNumber} is published at ${new Date(expected).toISOString()}`
+      );
+    }
+  }
+  if (envelope.scheme !== chainInfo.schemeID) {
+    throw new IntegrityError(
+      `Envelope metadata was tampered with: scheme is ${envelope.scheme}, but chain ${chainInfo.hash} uses ${chainInfo.schemeID}`
+    );
+  }
+}
+
+/**
+ * Check that an envelope's metadata has not been edited, without a
+ * password. The round, chain and unlock time are always checked against
+ * the tlock stanza and the chain. Once the round is published, the
+ * time-lock is opened to check the integrity tag as well; before that, the
+ * result's `tag` is `locked`.
+ *
+ * Throws `IntegrityError` for tampered metadata, `EnvelopeError` for a
+ * malformed envelope or unknown chain, and `BeaconUnavailableError` if the
+ * beacon of a published round cannot be fetched.
+ */
+export async function verifyEnvelope(
+  envelope: EncryptedData | string,
+  options: Pick<HybridOptions, 'beaconSource' | 'beacon' | 'chains'> = {}
+): Promise<EnvelopeVerification> {
+  const data = normalizeEnvelope(envelope);
+  const source = await resolveDecryptionSource(options, data.chainHash);
+  const chainInfo = await getChainInfo(source);
+  assertEnvelopeChain(data, chainInfo);
+  assertEnvelopeMetadata(data, chainInfo);
+
+  const { chainHash, roundNumber, unlockTime } = data;
+  const untagged = data.tag === undefined;
+  if (unlockTime.getTime() > source.now()) {
+    return { chainHash, roundNumber, unlockTime, tag: untagged ? 'untagged' : 'locked' };
+  }
+
+  // also catches a tag stripped by relabelling the envelope as version 2
+  openSecret(data, await decryptWithTimelock(timelockedSecret(data), source));
+  return { chainHash, roundNumber, unlockTime, tag: untagged ? 'untagged' : 'verified' };
+}
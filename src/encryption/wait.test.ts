@@ -0,0 +1,156 @@
+/**
+ * Wait-and-Decrypt Test Suite for HTLE Framework
+ *
+ * These tests run in real time against a one-second LocalDrandChain that
+ * follows the system clock, so each wait lasts at most a couple of seconds:
+ * - Decryption happens as soon as the round is published, without a buffer
+ * - A lagging relay is polled with backoff and progress events
+ * - AbortSignal, maximum wait and non-retryable failures
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { waitAndDecrypt } from './wait';
+import { hybridEncrypt } from './hybrid';
+import { LocalDrandChain } from './local-chain';
+import { createBeaconSource } from './timelock';
+import {
+  BeaconUnavailableError,
+  InvalidPasswordError,
+  TimelockNotExpiredError,
+} from './errors';
+import { BeaconSource, EncryptedData, WaitProgress } from '../types';
+import { TEST_PASSWORD, WRONG_PASSWORD, TEST_PLAINTEXT } from '../test-utils';
+
+/**
+ * A beacon source on the system clock whose relay publishes each round
+ * `relayDelayMs` after its scheduled time.
+ */
+function realTimeSource(chain: LocalDrandChain, relayDelayMs = 0): BeaconSource {
+  const sync = () => chain.advanceTo(Math.max(chain.now(), Date.now() - relayDelayMs));
+  return {
+    ...createBeaconSource(chain, Date.now),
+    get: async (round) => {
+      sync();
+      return chain.get(round);
+    },
+    latest: async () => {
+      sync();
+      return chain.latest();
+    },
+  };
+}
+
+describe('HTLE waitAndDecrypt', () => {
+  let chain: LocalDrandChain;
+  let encrypted: EncryptedData;
+
+  beforeEach(async () => {
+    chain = new LocalDrandChain({ period: 1 });
+    encrypted = await hybridEncrypt(
+      TEST_PLAINTEXT,
+      { password: TEST_PASSWORD, durationMs: 1_000, keyProfile: 'curve25519' },
+      { beaconSource: realTimeSource(chain) }
+    );
+  });
+
+  it('should decrypt as soon as the round is released and count down meanwhile', async () => {
+    const events: WaitProgress[] = [];
+
+    const decrypted = await waitAndDecrypt(encrypted, TEST_PASSWORD, {
+      beaconSource: realTimeSource(chain),
+      progressIntervalMs: 200,
+      onProgress: (event) => events.push(event),
+    });
+    const finishedAt = Date.now();
+
+    expect(decrypted).toBe(TEST_PLAINTEXT);
+    expect(finishedAt).toBeGreaterThanOrEqual(encrypted.unlockTime.getTime());
+    expect(finishedAt - encrypted.unlockTime.getTime()).toBeLessThan(1_000);
+
+    expect(events.length).toBeGreaterThan(0);
+    expect(events.every((e) => e.phase === 'waiting')).toBe(true);
+    expect(events[0].roundNumber).toBe(encrypted.roundNumber);
+    expect(events[0].unlockTime).toEqual(encrypted.unlockTime);
+    const countdown = events.map((e) => e.remainingMs);
+    expect(countdown).toEqual([...countdown].sort((a, b) => b - a));
+  });
+
+  it('should poll a lagging relay with backoff until the beacon is published', async () => {
+    const events: WaitProgress[] = [];
+
+    const decrypted = await waitAndDecrypt(encrypted, TEST_PASSWORD, {
+      beaconSource: realTimeSource(chain, 700),
+      pollIntervalMs: 50,
+      maxPollIntervalMs: 200,
+      onProgress: (event) => events.push(event),
+    });
+    expect(decrypted).toBe(TEST_PLAINTEXT);
+
+    const polls = events.filter((e) => e.phase === 'polling');
+    expect(polls.length).toBeGreaterThanOrEqual(3);
+    expect(polls.map((e) => e.attempt)).toEqual(polls.map((_, i) => i + 1));
+    expect(polls.map((e) => e.nextAttemptMs)).toEqual(
+      polls.map((_, i) => Math.min(50 * 2 ** i, 200))
+    );
+  });
+
+  it('should reject with the abort reason when aborted', async () => {
+    const controller = new AbortController();
+    const reason = new Error('user cancelled');
+    setTimeout(() => controller.abort(reason), 100);
+
+    const started = Date.now();
+    await expect(
+      waitAndDecrypt(encrypted, TEST_PASSWORD, {
+        beaconSource: realTimeSource(chain),
+        signal: controller.signal,
+      })
+    ).rejects.toBe(reason);
+    expect(Date.now() - started).toBeLessThan(500);
+
+    await expect(
+      waitAndDecrypt(encrypted, TEST_PASSWORD, { signal: AbortSignal.abort(reason) })
+    ).rejects.toBe(reason);
+  });
+
+  it('should fail fast when the release is beyond the maximum wait', async () => {
+    const error = await waitAndDecrypt(encrypted, TEST_PASSWORD, {
+      beaconSource: realTimeSource(chain),
+      maxWaitMs: 100,
+    }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(TimelockNotExpiredError);
+    expect(error.roundNumber).toBe(encrypted.roundNumber);
+  });
+
+  it('should give up when the relay does not publish within the maximum wait', async () => {
+    await expect(
+      waitAndDecrypt(encrypted, TEST_PASSWORD, {
+        beaconSource: realTimeSource(chain, 60_000),
+        maxWaitMs: 3_000,
+        pollIntervalMs: 100,
+      })
+    ).rejects.toThrow(BeaconUnavailableError);
+  });
+
+  it('should not retry a wrong password', async () => {
+    const events: WaitProgress[] = [];
+
+    await expect(
+      waitAndDecrypt(encrypted, WRONG_PASSWORD, {
+        beaconSource: realTimeSource(chain),
+        onProgress: (event) => events.push(event),
+      })
+    ).rejects.toThrow(InvalidPasswordError);
+    expect(events.filter((e) => e.phase === 'polling')).toHaveLength(0);
+  });
+
+  it('should validate its timing options', async () => {
+    await expect(
+      waitAndDecrypt(encrypted, TEST_PASSWORD, { pollIntervalMs: 0 })
+    ).rejects.toThrow(RangeError);
+    await expect(waitAndDecrypt(encrypted, TEST_PASSWORD, { maxWaitMs: -1 })).rejects.toThrow(
+      RangeError
+    );
+  });
+});
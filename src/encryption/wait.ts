@@ -0,0 +1,139 @@
+import { roundTime } from 'tlock-js';
+import { hybridDecrypt } from './hybrid';
+import { getChainInfo, resolveBeaconSource } from './timelock';
+import { normalizeEnvelope, assertEnvelopeChain } from './envelope';
+import { assertEnvelopeMetadata } from './verify';
+import { BeaconUnavailableError, EnvelopeError, TimelockNotExpiredError } from './errors';
+import { EncryptedData, WaitOptions } from '../types';
+
+const DEFAULT_PROGRESS_INTERVAL_MS = 1_000;
+const DEFAULT_POLL_INTERVAL_MS = 250;
+const DEFAULT_MAX_POLL_INTERVAL_MS = 5_000;
+
+function checkInterval(name: string, value: number): number {
+  if (!(value > 0) || !Number.isFinite(value)) {
+    throw new RangeError(`${name} must be a positive number of milliseconds`);
+  }
+  return value;
+}
+
+/** Resolve after `ms`, or reject with `signal.reason` as soon as it aborts */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Wait until an envelope can be decrypted, then decrypt it.
+ *
+ * Sleeps until the round's scheduled release by the beacon source's clock,
+ * emitting `waiting` countdown events. From then on it attempts decryption,
+ * retrying with a doubling delay (emitting `polling` events) while the relay
+ * has not published the beacon yet, and returns as soon as it has.
+ *
+ * Rejects with `signal.reason` when aborted, and with
+ * `TimelockNotExpiredError` up front if the release is further away than
+ * `maxWaitMs`. If the beacon is still unavailable when `maxWaitMs` runs out,
+ * the last `BeaconUnavailableError` is rethrown. Wrong passwords, tampering
+ * and envelope errors are thrown immediately. Staged envelopes are rejected
+ * with `EnvelopeError`; `hybridDecrypt` reports which of their stages are
+ * open.
+ *
+ * Resolves with a string, or with bytes for `format: 'binary'`.
+ */
+export async function waitAndDecrypt(
+  envelope: EncryptedData | string,
+  password: string,
+  options: WaitOptions & { format: 'binary' }
+): Promise<Uint8Array>;
+export async function waitAndDecrypt(
+  envelope: EncryptedData | string,
+  password: string,
+  options?: WaitOptions & { format?: 'utf8' }
+): Promise<string>;
+export async function waitAndDecrypt(
+  envelope: EncryptedData | string,
+  password: string,
+  options?: WaitOptions
+): Promise<string | Uint8Array>;
+export async function waitAndDecrypt(
+  envelope: EncryptedData | string,
+  password: string,
+  options: WaitOptions = {}
+): Promise<string | Uint8Array> {
+  const {
+    signal,
+    onProgress,
+    maxWaitMs = Infinity,
+    progressIntervalMs = DEFAULT_PROGRESS_INTERVAL_MS,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    maxPollIntervalMs = DEFAULT_MAX_POLL_INTERVAL_MS,
+  } = options;
+  if (!(maxWaitMs >= 0)) {
+    throw new RangeError('maxWaitMs must not be negative');
+  }
+  checkInterval('progressIntervalMs', progressIntervalMs);
+  checkInterval('pollIntervalMs', pollIntervalMs);
+  checkInterval('maxPollIntervalMs', maxPollIntervalMs);
+  signal?.throwIfAborted();
+
+  const deadline = Date.now() + maxWaitMs;
+  const data = normalizeEnvelope(envelope);
+  if (data.mode === 'staged') {
+    throw new EnvelopeError('Envelope is staged; decrypt it with hybridDecrypt as its stages open');
+  }
+  const source = resolveBeaconSource(options, data.chainHash);
+  const chainInfo = await getChainInfo(source);
+  assertEnvelopeChain(data, chainInfo);
+  assertEnvelopeMetadata(data, chainInfo);
+
+  const { roundNumber } = data;
+  const unlockTime = new Date(roundTime(chainInfo, roundNumber));
+
+  for (;;) {
+    const remainingMs = Math.max(0, unlockTime.getTime() - source.now());
+    if (remainingMs === 0) break;
+    if (Date.now() + remainingMs > deadline) {
+      throw new TimelockNotExpiredError(roundNumber, unlockTime, remainingMs);
+    }
+    onProgress?.({ phase: 'waiting', roundNumber, unlockTime, remainingMs, attempt: 0 });
+    await sleep(Math.min(remainingMs, progressIntervalMs), signal);
+  }
+
+  let delay = pollIntervalMs;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await hybridDecrypt(data, password, { ...options, beaconSource: source });
+    } catch (err) {
+      const notYet = err instanceof BeaconUnavailableError || err instanceof TimelockNotExpiredError;
+      if (!notYet || Date.now() + delay > deadline) {
+        throw err;
+      }
+    }
+    signal?.throwIfAborted();
+
+    onProgress?.({
+      phase: 'polling',
+      roundNumber,
+      unlockTime,
+      remainingMs: Math.max(0, unlockTime.getTime() - source.now()),
+      attempt,
+      nextAttemptMs: delay,
+    });
+    await sleep(delay, signal);
+    delay = Math.min(delay * 2, maxPollIntervalMs);
+  }
+}
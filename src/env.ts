@@ -1,13 +1,53 @@
 import dotenv from 'dotenv';
 import { z } from 'zod';
-dotenv.config();
 
 
+/** One relay URL, or several separated by commas or whitespace */
+const relayUrls = z
+	.string()
+	.transform((value) => value.split(/[\s,]+/).filter(Boolean))
+	.pipe(z.array(z.url()).min(1));
+
+/** Names of the built-in chains in `encryption/chains.ts` */
+const chainPresets = z.enum(['quicknet', 'mainnet', 'testnet']);
+
 const envSchema = z.object({
-	DRAND_CHAIN_URL: z.url(),
-	DRAND_CHAIN_HASH: z.string().length(64),
-	DRAND_PUBLIC_KEY: z.string().min(128),
+	DRAND_CHAIN: chainPresets.optional(),
+	DRAND_CHAIN_URL: relayUrls.optional(),
+	DRAND_CHAIN_HASH: z.string().regex(/^[0-9a-f]{64}$/, 'must be a 64 character hex string').optional(),
+	DRAND_PUBLIC_KEY: z.string().regex(/^([0-9a-f]{2}){48,}$/, 'must be a hex-encoded BLS public key').optional(),
+	DRAND_RELAY_TIMEOUT_MS: z.coerce.number().int().positive().default(5_000),
+	DRAND_RELAY_RETRIES: z.coerce.number().int().nonnegative().default(1),
+	DRAND_BEACON_CACHE_DIR: z.string().min(1).optional(),
+	DRAND_BEACON_CACHE_MAX_ENTRIES: z.coerce.number().int().positive().default(10_000),
+	DRAND_BEACON_CACHE_MAX_BYTES: z.coerce.number().int().positive().default(10 * 1024 * 1024),
+	HTLE_ESCROW_PUBLIC_KEY_FILE: z.string().min(1).optional(),
+}).superRefine((value, ctx) => {
+	// without a preset, the chain must be fully described
+	if (value.DRAND_CHAIN) return;
+	for (const name of ['DRAND_CHAIN_URL', 'DRAND_CHAIN_HASH', 'DRAND_PUBLIC_KEY'] as const) {
+		if (value[name] === undefined) {
+			ctx.addIssue({ code: 'custom', path: [name], message: 'required unless DRAND_CHAIN is set' });
+		}
+	}
 });
 
+export type Env = z.infer<typeof envSchema>;
+
+let env: Env | undefined;
 
-export const env = envSchema.parse(process.env);
\ No newline at end of file
+/**
+ * The deployment's configuration from `process.env`, with defaults from
+ * `.env`. Parsed on first use rather than on import, so that modules can be
+ * imported, and used with explicit chains or beacon sources, without it.
+ */
+export function loadEnv(): Env {
+	if (env) return env;
+	dotenv.config({ quiet: true });
+	const parsed = envSchema.safeParse(process.env);
+	if (!parsed.success) {
+		throw new TypeError(`Invalid environment configuration:\n${z.prettifyError(parsed.error)}`);
+	}
+	env = parsed.data;
+	return env;
+}
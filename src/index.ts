@@ -1,4 +1,6 @@
 import { hybridEncrypt, hybridDecrypt } from './encryption/hybrid';
+import { getLockStatus } from './encryption/status';
+import { waitAndDecrypt } from './encryption/wait';
 
 (async () => {
 	const secret = "This is a top secret message that needs to be protected with time-lock encryption!";
@@ -8,19 +10,23 @@ import { hybridEncrypt, hybridDecrypt } from './encryption/hybrid';
 
 	// What happens if we try to decrypt immediately?
 	try {
-		const unlockTs = typeof enc.unlockTime === 'number' ? enc.unlockTime : Date.parse(String(enc.unlockTime));
-		const remainingMs = Math.max(0, unlockTs - Date.now());
+		const { remainingMs, latestRound, roundNumber } = await getLockStatus(enc);
 		const secs = Math.floor(remainingMs / 1000);
 		console.log(`Time remaining before unlock: ${Math.floor(secs / 60)}m ${secs % 60}s (${remainingMs}ms)`);
+		console.log(`Latest drand round: ${latestRound} (unlocks at ${roundNumber})`);
 		console.log('Attempting immediate decryption');
 		console.log('🔓', await hybridDecrypt(enc, 'my-secure-password'));
 	} catch (err) {
 		console.error('Decryption failed as expected:', err instanceof Error ? err.message : String(err));
 	}
 	
-	// wait 61 seconds before attempting to decrypt
+	// Sleep until the round is released, then decrypt as soon as the beacon is published
 	console.log('Waiting for time-lock to expire before decryption');
-	await new Promise((resolve) => setTimeout(resolve, 61_000));
-	console.log('🔓', await hybridDecrypt(enc, 'my-secure-password'));
+	const plaintext = await waitAndDecrypt(enc, 'my-secure-password', {
+		progressIntervalMs: 10_000,
+		onProgress: ({ phase, remainingMs }) =>
+			console.log(phase === 'waiting' ? `⏳ ${Math.ceil(remainingMs / 1000)}s remaining` : '⏳ waiting for beacon'),
+	});
+	console.log('🔓', plaintext);
 
 })().catch(console.error);
@@ -0,0 +1,261 @@
+/**
+ * HTTP Service Test Suite for HTLE Framework
+ *
+ * These tests run the service on a local port against a LocalDrandChain:
+ * - Encrypting to envelopes and streams, and decrypting them once unlocked
+ * - Error statuses for locked, wrong-password and invalid requests
+ * - Round status, body size limits and decrypt rate limiting
+ * - Liveness and relay reachability reports
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { createHtleServer, HtleServerOptions } from './server';
+import { parseEnvelope, serializeEnvelope } from './encryption/envelope';
+import { encryptInStages } from './encryption/staged';
+import { readStreamHeader } from './encryption/stream';
+import { ChainRegistry, CHAIN_PRESETS } from './encryption/chains';
+import { LocalDrandChain } from './encryption/local-chain';
+import { TEST_PASSWORD, WRONG_PASSWORD, TEST_PLAINTEXT } from './test-utils';
+
+describe('HTLE HTTP Service', () => {
+  let chain: LocalDrandChain;
+  let server: Server;
+  let baseUrl: string;
+
+  async function start(config: HtleServerOptions = {}): Promise<void> {
+    server = createHtleServer({ options: { beaconSource: chain }, ...config });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  function post(path: string, body: string | Uint8Array, headers: Record<string, string> = {}) {
+    return fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      body,
+      headers: { 'x-htle-password': TEST_PASSWORD, ...headers },
+    });
+  }
+
+  async function encrypt(query = 'duration=1m&keyProfile=curve25519'): Promise<string> {
+    const response = await post(`/encrypt?${query}`, TEST_PLAINTEXT);
+    expect(response.status).toBe(200);
+    return response.text();
+  }
+
+  beforeEach(() => {
+    chain = new LocalDrandChain();
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe('Encrypt and Decrypt', () => {
+    it('should return envelopes that decrypt once unlocked', async () => {
+      await start();
+      const text = await encrypt();
+      const envelope = parseEnvelope(text);
+      expect(envelope).toMatchObject({ mode: 'pgp', chainHash: chain.chainInfo.hash });
+
+      const locked = await post('/decrypt', text);
+      expect(locked.status).toBe(423);
+      expect(Number(locked.headers.get('retry-after'))).toBeGreaterThan(0);
+      expect(await locked.json()).toMatchObject({
+        error: 'TimelockNotExpiredError',
+        roundNumber: envelope.roundNumber,
+      });
+
+      chain.advanceTo(envelope.unlockTime);
+      const opened = await post('/decrypt', text);
+      expect(opened.headers.get('content-type')).toBe('application/octet-stream');
+      expect(await opened.text()).toBe(TEST_PLAINTEXT);
+
+      const wrong = await post('/decrypt', text, { 'x-htle-password': WRONG_PASSWORD });
+      expect(wrong.status).toBe(403);
+      expect((await wrong.json()).error).toBe('InvalidPasswordError');
+    });
+
+    it('should return armored envelopes and report tampered ones', async () => {
+      await start();
+      const armored = await encrypt('duration=1m&keyProfile=curve25519&format=armor');
+      expect(armored).toContain('-----BEGIN HTLE ENVELOPE-----');
+
+      const envelope = parseEnvelope(armored);
+      chain.advanceTo(envelope.unlockTime);
+      const tampered = JSON.stringify({ ...envelope, roundNumber: envelope.roundNumber - 1 });
+      expect((await post('/decrypt', armored)).status).toBe(200);
+      expect((await post('/decrypt', tampered)).status).toBe(422);
+    });
+
+    it('should return the open stages of staged envelopes', async () => {
+      await start();
+      const staged = await encryptInStages(
+        [
+          { label: 'abstract', data: 'The abstract', duration: '1m' },
+          { data: 'The results', duration: '1h' },
+        ],
+        { password: TEST_PASSWORD, kdf: { algorithm: 'scrypt', N: 2 ** 10 } },
+        { beaconSource: chain }
+      );
+      const [first, second] = staged.stages;
+
+      chain.advanceTo(first.unlockTime);
+      const opened = await post('/decrypt', serializeEnvelope(staged));
+      expect(opened.headers.get('content-type')).toBe('application/json');
+      expect(await opened.json()).toEqual({
+        open: [
+          {
+            label: 'abstract',
+            roundNumber: first.roundNumber,
+            unlockTime: first.unlockTime.toISOString(),
+            data: Buffer.from('The abstract').toString('base64'),
+          },
+        ],
+        pending: [{ roundNumber: second.roundNumber, unlockTime: second.unlockTime.toISOString() }],
+      });
+    });
+
+    it('should encrypt and decrypt streams', async () => {
+      await start();
+      const payload = new Uint8Array(200_000).map((_, i) => i % 251);
+      const encrypted = await post('/encrypt?duration=1m&format=stream', payload);
+      expect(encrypted.headers.get('content-type')).toBe('application/octet-stream');
+      const stream = new Uint8Array(await encrypted.arrayBuffer());
+
+      chain.advanceTo((await readStreamHeader(Readable.from([stream]))).unlockTime);
+      const decrypted = await post('/decrypt', stream, {
+        'content-type': 'application/octet-stream',
+      });
+      expect(new Uint8Array(await decrypted.arrayBuffer())).toEqual(payload);
+
+      const pgp = await post('/encrypt?format=stream&mode=pgp', payload);
+      expect(pgp.status).toBe(400);
+    });
+
+    it('should reject invalid requests', async () => {
+      await start();
+      const noPassword = await fetch(`${baseUrl}/encrypt`, { method: 'POST', body: 'x' });
+      const badQuery = await post('/encrypt?duration=1m&round=5', 'x');
+      const unknown = await post('/encrypt?color=red', 'x');
+      const pastRound = await post('/encrypt?round=1', 'x');
+      const malformed = await post('/decrypt', 'not an envelope');
+
+      expect(noPassword.status).toBe(400);
+      expect((await badQuery.json()).message).toContain('only one of duration, unlockAt or round');
+      expect(unknown.status).toBe(400);
+      expect(pastRound.status).toBe(400);
+      expect(await pastRound.json()).toMatchObject({ error: 'BadRequestError' });
+      const pgpKdf = await post('/encrypt?mode=pgp&kdf=scrypt', 'x');
+      expect((await pgpKdf.json()).message).toContain('kdf only applies to mode symmetric');
+      expect(await malformed.json()).toMatchObject({ error: 'EnvelopeError' });
+      expect((await fetch(`${baseUrl}/nowhere`)).status).toBe(404);
+      const wrongMethod = await fetch(`${baseUrl}/encrypt`);
+      expect(wrongMethod.status).toBe(405);
+      expect(wrongMethod.headers.get('allow')).toBe('POST');
+    });
+  });
+
+  it('should answer unexpected errors with a generic 500', async () => {
+    const errors: unknown[] = [];
+    await start({
+      clientId: () => {
+        throw new TypeError('clientId is broken');
+      },
+      onError: (err) => errors.push(err),
+    });
+
+    const response = await post('/decrypt', 'x');
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      error: 'InternalError',
+      message: 'Internal server error',
+    });
+    expect(errors).toEqual([expect.any(TypeError)]);
+  });
+
+  describe('Status', () => {
+    it('should report whether a round is published', async () => {
+      await start();
+      const { roundNumber } = parseEnvelope(await encrypt());
+
+      const locked = await (await fetch(`${baseUrl}/status/${roundNumber}`)).json();
+      expect(locked).toMatchObject({ roundNumber, isUnlockable: false });
+      chain.advanceTo(new Date(locked.unlockTime));
+      expect(await (await fetch(`${baseUrl}/status/${roundNumber}`)).json()).toMatchObject({
+        chainHash: chain.chainInfo.hash,
+        remainingMs: 0,
+        isUnlockable: true,
+      });
+      expect((await fetch(`${baseUrl}/status/0`)).status).toBe(400);
+      expect((await fetch(`${baseUrl}/status/abc`)).status).toBe(400);
+    });
+  });
+
+  describe('Limits', () => {
+    it('should reject bodies over the size limits', async () => {
+      await start({ maxBodyBytes: 64, maxStreamBytes: 128 });
+      const tooLarge = await post('/encrypt?keyProfile=curve25519', 'x'.repeat(1024));
+
+      expect(tooLarge.status).toBe(413);
+      expect(await tooLarge.json()).toMatchObject({ error: 'PayloadTooLargeError' });
+      expect((await post('/encrypt?keyProfile=curve25519', 'x'.repeat(64))).status).toBe(200);
+      expect((await post('/encrypt?format=stream', 'x'.repeat(1024))).status).toBe(413);
+      expect(() => createHtleServer({ maxBodyBytes: 0 })).toThrow(RangeError);
+    });
+
+    it('should limit decrypt attempts per client', async () => {
+      await start({ decryptLimit: { attempts: 2, windowMs: 60_000 } });
+      const text = await encrypt();
+
+      for (let i = 0; i < 2; i++) {
+        expect((await post('/decrypt', text, { 'x-htle-password': WRONG_PASSWORD })).status).toBe(
+          423
+        );
+      }
+      const limited = await post('/decrypt', text);
+      expect(limited.status).toBe(429);
+      expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+      expect(() => createHtleServer({ decryptLimit: { attempts: 0, windowMs: 1 } })).toThrow(
+        RangeError
+      );
+    });
+  });
+
+  describe('Health', () => {
+    it('should report liveness and a reachable beacon source', async () => {
+      await start();
+      expect(await (await fetch(`${baseUrl}/health`)).json()).toEqual({ status: 'ok' });
+
+      const relays = await fetch(`${baseUrl}/health/relays`);
+      expect(relays.status).toBe(200);
+      expect(await relays.json()).toEqual({
+        reachable: true,
+        chainHash: chain.chainInfo.hash,
+        latestRound: (await chain.latest()).round,
+        relays: [],
+      });
+    });
+
+    it('should report unreachable relays', async () => {
+      const chains = new ChainRegistry({
+        chains: [{ ...CHAIN_PRESETS.quicknet, urls: ['http://127.0.0.1:9'] }],
+        relayTimeoutMs: 1_000,
+        relayRetries: 0,
+      });
+      await start({ options: { chains } });
+
+      const response = await fetch(`${baseUrl}/health/relays`);
+      const report = await response.json();
+      expect(response.status).toBe(503);
+      expect(report.reachable).toBe(false);
+      expect(report.relays).toEqual([
+        expect.objectContaining({ url: 'http://127.0.0.1:9', failures: expect.any(Number) }),
+      ]);
+      expect((await fetch(`${baseUrl}/health/relays?chain=devnet`)).status).toBe(400);
+    });
+  });
+});
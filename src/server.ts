@@ -0,0 +1,498 @@
+/**
+ * Local HTTP service for the HTLE framework, for programs that cannot embed
+ * it. Requests and responses carry the same envelopes as the library and
+ * the CLI, in JSON or armor.
+ *
+ *   POST /encrypt         Encrypt the request body and return an envelope,
+ *                         or an encrypted stream with `format=stream`
+ *   POST /decrypt         Decrypt an envelope, or an encrypted stream sent as
+ *                         application/octet-stream, and return the plaintext;
+ *                         staged envelopes return their open stages as JSON
+ *   GET  /status/:round   Whether a drand round has been published
+ *   GET  /health          Liveness
+ *   GET  /health/relays   Reachability of a chain's drand relays
+ *
+ * Passwords are sent in the `X-HTLE-Password` header, as UTF-8. The service
+ * has no authentication of its own and should only listen on a loopback
+ * or otherwise private interface.
+ */
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { z } from 'zod';
+import { hybridEncrypt, hybridDecrypt, resolveUnlockTime } from './encryption/hybrid';
+import { encryptStream, decryptStream } from './encryption/stream';
+import { getRoundStatus } from './encryption/status';
+import { getChainInfo, resolveBeaconSource } from './encryption/timelock';
+import { getChainRegistry } from './encryption/platform';
+import { formatIssues, serializeEnvelope } from './encryption/envelope';
+import { KEY_PROFILE_NAMES } from './encryption/pgp';
+import { RelayHealth } from './encryption/relay-pool';
+import {
+  HtleError,
+  TimelockNotExpiredError,
+  InvalidPasswordError,
+  IntegrityError,
+  BeaconUnavailableError,
+  WeakPasswordError,
+} from './encryption/errors';
+import { HybridOptions, UnlockSpec } from './types';
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+const DEFAULT_MAX_STREAM_BYTES = 1024 * 1024 * 1024;
+const DEFAULT_DECRYPT_LIMIT = { attempts: 10, windowMs: 60_000 };
+
+const PASSWORD_HEADER = 'x-htle-password';
+
+const encryptQuerySchema = z
+  .strictObject({
+    duration: z.string().optional(),
+    unlockAt: z.string().optional(),
+    round: z.string().regex(/^\d+$/, 'expected a positive integer').transform(Number).optional(),
+    mode: z.enum(['pgp', 'symmetric']).optional(),
+    kdf: z.enum(['scrypt', 'argon2id']).optional(),
+    s2k: z.enum(['iterated', 'argon2']).optional(),
+    keyProfile: z.enum(KEY_PROFILE_NAMES).optional(),
+    chain: z.string().optional(),
+    format: z.enum(['json', 'armor', 'stream']).optional(),
+  })
+  .refine(
+    ({ duration, unlockAt, round }) =>
+      [duration, unlockAt, round].filter((value) => value !== undefined).length <= 1,
+    'use only one of duration, unlockAt or round'
+  )
+  .refine(
+    ({ format, mode, s2k, keyProfile }) =>
+      format !== 'stream' || [mode, s2k, keyProfile].every((value) => value === undefined),
+    'streams are always encrypted in symmetric mode; only kdf applies'
+  )
+  .refine(
+    ({ format, mode, kdf }) => kdf === undefined || mode === 'symmetric' || format === 'stream',
+    'kdf only applies to mode symmetric'
+  )
+  .refine(
+    ({ mode, s2k, keyProfile }) =>
+      mode !== 'symmetric' || (s2k === undefined && keyProfile === undefined),
+    's2k and keyProfile only apply to mode pgp'
+  );
+
+const chainQuerySchema = z.strictObject({ chain: z.string().optional() });
+
+const roundSchema = z
+  .string()
+  .regex(/^\d+$/, 'expected a positive integer')
+  .transform(Number)
+  .refine((round) => Number.isSafeInteger(round) && round >= 1, 'expected a positive integer');
+
+export interface HtleServerOptions {
+  /**
+   * Options of every encryption, decryption and status check, such as
+   * `beaconSource`, `chains` or `passwordPolicy`
+   */
+  options?: HybridOptions;
+  /**
+   * Largest request body read into memory: plaintext encrypted to an
+   * envelope, and envelopes to decrypt (default: 1 MiB)
+   */
+  maxBodyBytes?: number;
+  /** Largest streamed request body, for encrypted streams in and out (default: 1 GiB) */
+  maxStreamBytes?: number;
+  /**
+   * Decrypt requests allowed per client within a sliding window, to slow
+   * down password guessing (default: 10 per minute). Every request counts,
+   * whatever its outcome.
+   */
+  decryptLimit?: { attempts: number; windowMs: number };
+  /**
+   * The client a request is counted against (default: its remote address).
+   * Behind a reverse proxy, read the forwarded address instead.
+   */
+  clientId?: (req: IncomingMessage) => string;
+  /** Called with unexpected errors, which are answered with a generic 500 */
+  onError?: (err: unknown) => void;
+}
+
+/** Body of `GET /health/relays` */
+export interface RelayReport {
+  /** Whether the chain's latest round could be fetched */
+  reachable: boolean;
+  chainHash?: string;
+  latestRound?: number;
+  /** Why the latest round could not be fetched */
+  error?: string;
+  /** Health of every relay after probing each; empty with a `beaconSource` */
+  relays: RelayHealth[];
+}
+
+/**
+ * An error answered with a given HTTP status, for requests that fail
+ * before reaching the library
+ */
+class HttpError extends Error {
+  readonly status: number;
+  readonly headers: Record<string, string>;
+
+  constructor(
+    status: number,
+    name: string,
+    message: string,
+    headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = name;
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+/**
+ * Counts attempts per client in a sliding window. Clients without recent
+ * attempts are forgotten at most once per window.
+ */
+class AttemptLimiter {
+  private readonly attempts = new Map<string, number[]>();
+  private readonly limit: number;
+  private readonly windowMs: number;
+  private lastSweep = Date.now();
+
+  constructor({ attempts, windowMs }: { attempts: number; windowMs: number }) {
+    if (!Number.isSafeInteger(attempts) || attempts < 1) {
+      throw new RangeError('decryptLimit attempts must be a positive integer');
+    }
+    if (!(windowMs > 0) || !Number.isFinite(windowMs)) {
+      throw new RangeError('decryptLimit windowMs must be a positive number of milliseconds');
+    }
+    this.limit = attempts;
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Record an attempt by `client`. Returns 0 if it is allowed, otherwise the
+   * milliseconds until the client's next attempt is.
+   */
+  take(client: string): number {
+    const now = Date.now();
+    this.sweep(now);
+    const recent = (this.attempts.get(client) ?? []).filter((time) => time > now - this.windowMs);
+    this.attempts.set(client, recent);
+    if (recent.length >= this.limit) {
+      return recent[0] + this.windowMs - now;
+    }
+    recent.push(now);
+    return 0;
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < this.windowMs) return;
+    this.lastSweep = now;
+    for (const [client, times] of this.attempts) {
+      if (times.every((time) => time <= now - this.windowMs)) {
+        this.attempts.delete(client);
+      }
+    }
+  }
+}
+
+/**
+ * Create the HTTP service; call `listen` on the result to start it.
+ *
+ * Errors are answered with a JSON body `{ error, message }`, where `error`
+ * is the error's class name: 423 for a lock that has not expired (with its
+ * `roundNumber`, `unlockTime`, `remainingMs` and a `Retry-After` header),
+ * 403 for a wrong password, 422 for tampered data, 503 for an unreachable
+ * relay, 400 for invalid input, 413 for an oversized body and 429 for too
+ * many decrypt attempts. Once a streamed response has started, an error
+ * aborts the connection instead.
+ *
+ * Throws `RangeError` for invalid limits.
+ */
+export function createHtleServer(config: HtleServerOptions = {}): http.Server {
+  const options = config.options ?? {};
+  const maxBodyBytes = config.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const maxStreamBytes = config.maxStreamBytes ?? DEFAULT_MAX_STREAM_BYTES;
+  const clientId = config.clientId ?? ((req) => req.socket.remoteAddress ?? 'unknown');
+  for (const [name, value] of Object.entries({ maxBodyBytes, maxStreamBytes })) {
+    if (!Number.isSafeInteger(value) || value < 1) {
+      throw new RangeError(`${name} must be a positive integer`);
+    }
+  }
+  const limiter = new AttemptLimiter(config.decryptLimit ?? DEFAULT_DECRYPT_LIMIT);
+
+  async function encrypt(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const { format = 'json', chain, duration, unlockAt, round, ...protection } = parseQuery(
+      encryptQuerySchema,
+      url
+    );
+    const password = readPassword(req);
+    const callOptions = { ...options, chain: chain ?? options.chain };
+    const lock = await resolveLock(
+      round !== undefined
+        ? { round }
+        : unlockAt !== undefined
+          ? { unlockAt }
+          : { duration: duration ?? 'min' },
+      callOptions
+    );
+
+    if (format === 'stream') {
+      const output = await encryptStream(
+        limitBody(req, maxStreamBytes),
+        { password, kdf: protection.kdf, ...lock },
+        callOptions
+      );
+      await sendStream(res, output);
+      return;
+    }
+
+    const plaintext = await readBody(req, maxBodyBytes);
+    const envelope = await hybridEncrypt(
+      plaintext,
+      { password, ...protection, ...lock },
+      callOptions
+    );
+    send(
+      res,
+      200,
+      format === 'armor' ? 'text/plain; charset=utf-8' : 'application/json',
+      serializeEnvelope(envelope, format)
+    );
+  }
+
+  async function decrypt(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const waitMs = limiter.take(clientId(req));
+    if (waitMs > 0) {
+      const retryAfter = String(Math.ceil(waitMs / 1000));
+      throw new HttpError(429, 'TooManyRequestsError', 'Too many decrypt attempts', {
+        'retry-after': retryAfter,
+      });
+    }
+    const password = readPassword(req);
+
+    if (req.headers['content-type']?.startsWith('application/octet-stream')) {
+      await sendStream(res, await decryptStream(limitBody(req, maxStreamBytes), password, options));
+      return;
+    }
+
+    const envelope = (await readBody(req, maxBodyBytes)).toString('utf8');
+    const result = await hybridDecrypt(envelope, password, { ...options, format: 'binary' });
+    if (result instanceof Uint8Array) {
+      send(res, 200, 'application/octet-stream', result);
+      return;
+    }
+    // staged envelope: the open stages, with base64 payloads, and the schedule of the rest
+    sendJson(res, 200, {
+      open: result.open.map((stage) => ({
+        ...stage,
+        data: Buffer.from(stage.data).toString('base64'),
+      })),
+      pending: result.pending,
+    });
+  }
+
+  async function status(res: ServerResponse, url: URL, round: string): Promise<void> {
+    const { chain } = parseQuery(chainQuerySchema, url);
+    const parsed = roundSchema.safeParse(round);
+    if (!parsed.success) {
+      throw new HttpError(
+        400,
+        'BadRequestError',
+        `Invalid round "${round}": expected a positive integer`
+      );
+    }
+    const lockStatus = await getRoundStatus(parsed.data, {
+      ...options,
+      chain: chain ?? options.chain,
+    });
+    sendJson(res, 200, lockStatus);
+  }
+
+  async function relayHealth(res: ServerResponse, url: URL): Promise<void> {
+    const chain = parseQuery(chainQuerySchema, url).chain ?? options.chain;
+    const source = resolveBeaconSource(options, chain);
+    const relays = options.beaconSource
+      ? []
+      : await (options.chains ?? getChainRegistry()).getClient(chain).probe();
+
+    let report: RelayReport;
+    try {
+      const [chainInfo, latest] = await Promise.all([getChainInfo(source), source.latest()]);
+      report = { reachable: true, chainHash: chainInfo.hash, latestRound: latest.round, relays };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      report = { reachable: false, error, relays };
+    }
+    sendJson(res, report.reachable ? 200 : 503, report);
+  }
+
+  async function route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const statusPath = /^\/status\/([^/]+)$/.exec(url.pathname);
+    const routes: Record<string, Partial<Record<string, () => Promise<void>>>> = {
+      '/encrypt': { POST: () => encrypt(req, res, url) },
+      '/decrypt': { POST: () => decrypt(req, res) },
+      '/health': { GET: async () => sendJson(res, 200, { status: 'ok' }) },
+      '/health/relays': { GET: () => relayHealth(res, url) },
+      ...(statusPath && { [url.pathname]: { GET: () => status(res, url, statusPath[1]) } }),
+    };
+
+    const methods = routes[url.pathname];
+    if (!methods) {
+      throw new HttpError(404, 'NotFoundError', `No route for ${url.pathname}`);
+    }
+    const handle = methods[req.method ?? ''];
+    if (!handle) {
+      throw new HttpError(405, 'MethodNotAllowedError', `Use ${Object.keys(methods).join(', ')}`, {
+        allow: Object.keys(methods).join(', '),
+      });
+    }
+    await handle();
+  }
+
+  return http.createServer((req, res) => {
+    route(req, res).catch((err: unknown) => {
+      if (res.headersSent) {
+        res.destroy(err instanceof Error ? err : undefined);
+        return;
+      }
+      const status = statusFor(err);
+      if (status === 500) {
+        config.onError?.(err);
+      }
+      sendError(res, status, err);
+    });
+  });
+}
+
+/**
+ * Map an error to the HTTP status it is answered with. Only `HttpError`s
+ * and the library's own errors are the client's doing; anything else,
+ * including a `TypeError` or `RangeError`, is answered with a generic 500.
+ */
+function statusFor(err: unknown): number {
+  if (err instanceof HttpError) return err.status;
+  if (err instanceof TimelockNotExpiredError) return 423;
+  if (err instanceof InvalidPasswordError) return 403;
+  if (err instanceof IntegrityError) return 422;
+  if (err instanceof BeaconUnavailableError) return 503;
+  if (err instanceof HtleError) return 400;
+  return 500;
+}
+
+function sendError(res: ServerResponse, status: number, err: unknown): void {
+  if (status === 500) {
+    sendJson(res, 500, { error: 'InternalError', message: 'Internal server error' });
+    return;
+  }
+
+  const { name, message } = err as Error;
+  const headers = { ...(err instanceof HttpError ? err.headers : {}) };
+  let details = {};
+  if (err instanceof TimelockNotExpiredError) {
+    const { roundNumber, unlockTime, remainingMs } = err;
+    details = { roundNumber, unlockTime, remainingMs };
+    headers['retry-after'] = String(Math.ceil(remainingMs / 1000));
+  } else if (err instanceof WeakPasswordError) {
+    details = { reasons: err.reasons };
+  }
+  if (status === 413) {
+    // the rest of the body is not read
+    headers.connection = 'close';
+  }
+  sendJson(res, status, { error: name, message, ...details }, headers);
+}
+
+function send(
+  res: ServerResponse,
+  status: number,
+  contentType: string,
+  body: string | Uint8Array,
+  headers: Record<string, string> = {}
+): void {
+  res
+    .writeHead(status, {
+      ...headers,
+      'content-type': contentType,
+      'content-length': String(Buffer.byteLength(body)),
+    })
+    .end(body);
+}
+
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  value: unknown,
+  headers: Record<string, string> = {}
+): void {
+  send(res, status, 'application/json', `${JSON.stringify(value)}\n`, headers);
+}
+
+async function sendStream(res: ServerResponse, output: Readable): Promise<void> {
+  res.writeHead(200, { 'content-type': 'application/octet-stream' });
+  await pipeline(output, res);
+}
+
+function parseQuery<T extends z.ZodType>(schema: T, url: URL): z.output<T> {
+  const parsed = schema.safeParse(Object.fromEntries(url.searchParams));
+  if (!parsed.success) {
+    throw new HttpError(400, 'BadRequestError', `Invalid query: ${formatIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Resolve the requested unlock time to a round, answering a time in the
+ * past, too far ahead or otherwise invalid with 400.
+ */
+async function resolveLock(spec: UnlockSpec, options: HybridOptions): Promise<UnlockSpec> {
+  let round: number;
+  try {
+    round = (await resolveUnlockTime(spec, options)).roundNumber;
+  } catch (err) {
+    if (err instanceof TypeError || err instanceof RangeError) {
+      throw new HttpError(400, 'BadRequestError', err.message);
+    }
+    throw err;
+  }
+  return { round };
+}
+
+/** The password header, decoded as UTF-8 */
+function readPassword(req: IncomingMessage): string {
+  const value = req.headers[PASSWORD_HEADER];
+  if (typeof value !== 'string') {
+    throw new HttpError(400, 'BadRequestError', 'Missing X-HTLE-Password header');
+  }
+  return Buffer.from(value, 'latin1').toString('utf8');
+}
+
+/**
+ * The request body's chunks, failing with 413 once they exceed `limit`
+ * bytes. A declared length over the limit fails right away.
+ */
+function limitBody(req: IncomingMessage, limit: number): AsyncGenerator<Uint8Array> {
+  const tooLarge = () =>
+    new HttpError(413, 'PayloadTooLargeError', `Request body exceeds ${limit} bytes`);
+  if (Number(req.headers['content-length']) > limit) {
+    throw tooLarge();
+  }
+
+  return (async function* () {
+    let length = 0;
+    for await (const chunk of req as AsyncIterable<Buffer>) {
+      length += chunk.length;
+      if (length > limit) {
+        throw tooLarge();
+      }
+      yield chunk;
+    }
+  })();
+}
+
+async function readBody(req: IncomingMessage, limit: number): Promise<Buffer> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of limitBody(req, limit)) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
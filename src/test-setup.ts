@@ -0,0 +1,23 @@
+/**
+ * Vitest setup for HTLE framework testing
+ *
+ * Loads `.env`, then falls back to the public drand quicknet parameters so
+ * that suites running against `LocalDrandChain` can use the default
+ * configuration without a `.env` file or network access.
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config({ quiet: true });
+
+const QUICKNET_DEFAULTS: Record<string, string> = {
+  DRAND_CHAIN_URL:
+    'https://api.drand.sh/52db9ba70e0cc0f6eaf7803dd07447a1f5477735fd3f661792ba94600c84e971',
+  DRAND_CHAIN_HASH: '52db9ba70e0cc0f6eaf7803dd07447a1f5477735fd3f661792ba94600c84e971',
+  DRAND_PUBLIC_KEY:
+    '83cf0f2896adee7eb8b5f01fcad3912212c437e0073e911fb90022d3e760183c8c4b450b6a0a6c3ac6a5776a2d1064510d1fec758c921cc22b0e17e63aaf4bcb5ed66304de9cf809bd274ca73bab4af5a6e9c76a4bc09e76eae8991ef5ece45a',
+};
+
+for (const [name, value] of Object.entries(QUICKNET_DEFAULTS)) {
+  process.env[name] ??= value;
+}
@@ -9,24 +9,15 @@ export const TEST_PLAINTEXT = 'This is a secret message for testing the HTLE fra
 /** Short duration for tests: 10 seconds */
 export const SHORT_DURATION_MS = 10_000;
 
-/** Buffer time to add after expected unlock (accounts for network latency) */
-export const UNLOCK_BUFFER_MS = 3_000;
-
 /** drand beacon period in milliseconds */
 export const DRAND_PERIOD_MS = 3_000;
 
 /**
- * Wait for a specified duration
- */
-export function wait(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-/**
- * Calculate remaining time until unlock
+ * Calculate remaining time until unlock, relative to `now` (e.g. a
+ * `LocalDrandChain` clock)
  */
-export function getRemainingTime(unlockTime: Date): number {
-  return Math.max(0, unlockTime.getTime() - Date.now());
+export function getRemainingTime(unlockTime: Date, now: number = Date.now()): number {
+  return Math.max(0, unlockTime.getTime() - now);
 }
 
 /**
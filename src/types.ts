@@ -1,19 +1,566 @@
+import type { ChainClient, ChainInfo } from 'tlock-js';
+import type { ChainVerificationParams, RandomnessBeacon } from 'drand-client';
+import type { KeyPool } from './encryption/key-pool';
+import type { ChainRegistry } from './encryption/chains';
+
 export type Duration = 'min' | 'month' | 'year';
 
-export interface EncryptionConfig {
-  password: string;
-  duration: Duration;
+/**
+ * OpenPGP key profiles for the per-message keypair. `curve25519` is
+ * Ed25519/Cv25519 and generates in milliseconds; RSA profiles take seconds.
+ */
+export type KeyProfile = 'curve25519' | 'rsa-2048' | 'rsa-3072' | 'rsa-4096' | 'p256';
+
+export interface UserID {
+  name?: string;
+  email?: string;
+  comment?: string;
+}
+
+/** Iterated and salted S2K (RFC 4880); the hashed byte count is encoded in one byte */
+export interface IteratedS2kParams {
+  type: 'iterated';
+  countByte: number;
+}
+
+/** Argon2 S2K (RFC 9580); memory is 2^memoryExponent KiB */
+export interface Argon2S2kParams {
+  type: 'argon2';
+  passes: number;
+  parallelism: number;
+  memoryExponent: number;
+}
+
+export type S2kParams = IteratedS2kParams | Argon2S2kParams;
+
+export type S2kType = S2kParams['type'];
+
+/**
+ * Passphrase S2K of the OpenPGP private key in `pgp` mode: a type name for
+ * default costs, or a type with some or all costs overridden.
+ */
+export type S2kConfig =
+  | S2kType
+  | ({ type: 'iterated' } & Partial<Omit<IteratedS2kParams, 'type'>>)
+  | ({ type: 'argon2' } & Partial<Omit<Argon2S2kParams, 'type'>>);
+
+export interface KeyConfig {
+  /** Key profile for the generated keypair (default: `rsa-2048`) */
+  keyProfile?: KeyProfile;
+  /** User IDs bound to the generated keypair */
+  userIDs?: UserID[];
+  /** S2K that derives the private key's encryption key from the password (default: `iterated`) */
+  s2k?: S2kConfig;
+}
+
+/**
+ * How the payload is protected:
+ * - `pgp`: a per-message OpenPGP keypair; the password protects the private
+ *   key, which is then time-locked
+ * - `symmetric`: AES-256-GCM under a random data key; the data key is wrapped
+ *   with a password-derived key, then time-locked
+ */
+export type EncryptionMode = 'pgp' | 'symmetric';
+
+export type KdfAlgorithm = 'scrypt' | 'argon2id';
+
+/** scrypt cost parameters (N: CPU/memory cost, r: block size, p: parallelism) */
+export interface ScryptParams {
+  algorithm: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+}
+
+/** Argon2id cost parameters */
+export interface Argon2Params {
+  algorithm: 'argon2id';
+  memoryKiB: number;
+  iterations: number;
+  parallelism: number;
+}
+
+export type KdfParams = ScryptParams | Argon2Params;
+
+/**
+ * Password KDF for symmetric mode: an algorithm name for default costs, or
+ * an algorithm with some or all costs overridden.
+ */
+export type KdfConfig =
+  | KdfAlgorithm
+  | ({ algorithm: 'scrypt' } & Partial<Omit<ScryptParams, 'algorithm'>>)
+  | ({ algorithm: 'argon2id' } & Partial<Omit<Argon2Params, 'algorithm'>>);
+
+export interface ModeConfig {
+  /** Payload protection (default: `pgp`) */
+  mode?: EncryptionMode;
+  /** Password KDF for `symmetric` mode (default: `scrypt`) */
+  kdf?: KdfConfig;
 }
 
-export interface EncryptionConfigWithCustomDuration {
+/**
+ * A preset, a compound duration such as `"3d 4h"` or `"90s"`, an ISO 8601
+ * duration such as `"P2W"`, or a plain number of milliseconds as a string
+ */
+export type DurationString = Duration | (string & {});
+
+export interface BaseEncryptionConfig extends KeyConfig, ModeConfig {
   password: string;
+}
+
+/** Lock for a duration measured from the beacon source's clock */
+export interface EncryptionConfig extends BaseEncryptionConfig {
+  duration: DurationString;
+}
+
+export interface EncryptionConfigWithCustomDuration extends BaseEncryptionConfig {
   durationMs: number;
 }
 
-export interface EncryptedData {
+/** Lock until an absolute time (a Date or an ISO 8601 string) */
+export interface EncryptionConfigWithUnlockAt extends BaseEncryptionConfig {
+  unlockAt: Date | string;
+}
+
+/** Lock until an explicit drand round is published */
+export interface EncryptionConfigWithRound extends BaseEncryptionConfig {
+  round: number;
+}
+
+export type HybridEncryptionConfig =
+  | EncryptionConfig
+  | EncryptionConfigWithCustomDuration
+  | EncryptionConfigWithUnlockAt
+  | EncryptionConfigWithRound;
+
+/** The part of an encryption config that says when the lock opens */
+export type UnlockSpec =
+  | Pick<EncryptionConfig, 'duration'>
+  | Pick<EncryptionConfigWithCustomDuration, 'durationMs'>
+  | Pick<EncryptionConfigWithUnlockAt, 'unlockAt'>
+  | Pick<EncryptionConfigWithRound, 'round'>;
+
+/**
+ * A recipient of a multi-recipient envelope: a password, or an existing
+ * armored OpenPGP public key. `label` is stored in the envelope's key slot
+ * to tell slots apart.
+ */
+export type Recipient = { label?: string } & ({ password: string } | { publicKey: string });
+
+/**
+ * Encrypt to several recipients instead of a single password; any one of
+ * them can decrypt once the lock opens.
+ */
+export type RecipientsEncryptionConfig = UnlockSpec & {
+  recipients: Recipient[];
+  /** Password KDF for the password recipients (default: `scrypt`) */
+  kdf?: KdfConfig;
+};
+
+/** An armored OpenPGP private key, and its passphrase if it is locked */
+export interface PrivateKeyCredential {
+  privateKey: string;
+  passphrase?: string;
+}
+
+/** The drand round a lock resolves to and the time that round is published */
+export interface ResolvedUnlock {
+  roundNumber: number;
+  unlockTime: Date;
+}
+
+/** Fields common to every envelope mode */
+export interface EnvelopeHeader {
+  /** Envelope format version, see `ENVELOPE_VERSION` */
+  version: number;
+  /** Hash of the drand chain the key material is time-locked to */
+  chainHash: string;
+  /** drand signature scheme of that chain */
+  scheme: string;
+  /** Release time of `roundNumber`, i.e. the earliest possible decryption */
+  unlockTime: Date;
+  roundNumber: number;
+  /**
+   * HMAC-SHA256 over the other public fields, keyed from the time-locked
+   * secret (hex, version 3 and later). See `verifyEnvelope`.
+   */
+  tag?: string;
+  /**
+   * Present if the deployment's escrow key can also open the envelope once
+   * the round is published (version 7 and later). See `recoverWithEscrow`.
+   */
+  escrow?: EscrowSlot;
+}
+
+/** Escrow slot of an envelope */
+export interface EscrowSlot {
+  /** Hex fingerprint of the escrow OpenPGP primary key */
+  fingerprint: string;
+  /** Time-locked (age armored) recovery data, OpenPGP-encrypted to the escrow key */
+  timelockedKey: string;
+}
+
+export interface PgpEncryptedData extends EnvelopeHeader {
+  mode: 'pgp';
+  /** Key profile of the generated OpenPGP keypair, e.g. `rsa-2048` */
+  keyAlgorithm: string;
   publicKey: string;
+  /**
+   * S2K protecting the time-locked private key (version 8 and later; absent
+   * if unknown, e.g. after relocking an older envelope)
+   */
+  s2k?: S2kParams;
   encryptedData: string;
   timelockedPrivateKey: string;
+}
+
+export interface SymmetricEncryptedData extends EnvelopeHeader {
+  mode: 'symmetric';
+  /** KDF and cost used to derive the key-wrapping key from the password */
+  kdf: KdfParams;
+  /** Hex-encoded KDF salt */
+  salt: string;
+  /** Base64 of nonce, AES-256-GCM ciphertext and tag */
+  encryptedData: string;
+  /** Time-locked (age armored) password-wrapped data key */
+  timelockedKey: string;
+}
+
+/**
+ * Header of a streamed payload (see `encryptStream`). The payload follows
+ * the envelope as AES-256-GCM chunks instead of being embedded in it.
+ */
+export interface StreamEncryptedData extends EnvelopeHeader {
+  mode: 'stream';
+  /** KDF and cost used to derive the key-wrapping key from the password */
+  kdf: KdfParams;
+  /** Hex-encoded KDF salt */
+  salt: string;
+  /** Plaintext bytes per chunk; only the last chunk is shorter */
+  chunkSize: number;
+  /** Time-locked (age armored) password-wrapped data key */
+  timelockedKey: string;
+}
+
+/**
+ * Envelope whose password factor is split among trustees (see
+ * `encryptForTrustees`): any `threshold` of them can decrypt together.
+ */
+export interface SharedEncryptedData extends EnvelopeHeader {
+  mode: 'shared';
+  /** Number of trustees needed to decrypt */
+  threshold: number;
+  /** Trustee names, in the order of their shares */
+  trustees: string[];
+  /** KDF and cost used to derive each trustee's key-wrapping key */
+  kdf: KdfParams;
+  /** Base64 of nonce, AES-256-GCM ciphertext and tag */
+  encryptedData: string;
+  /** Time-locked (age armored) shares of the data key, each wrapped with its trustee's password */
+  timelockedKey: string;
+}
+
+/** Public part of a key slot of a multi-recipient envelope, as listed by `listKeySlots` */
+export type KeySlot =
+  | {
+      type: 'password';
+      label?: string;
+      /** KDF and cost used to derive the key-wrapping key from the password */
+      kdf: KdfParams;
+      /** Hex-encoded KDF salt */
+      salt: string;
+    }
+  | {
+      type: 'publicKey';
+      label?: string;
+      /** Hex fingerprint of the recipient's OpenPGP primary key */
+      fingerprint: string;
+    };
+
+/**
+ * Envelope with one key slot per recipient (see `RecipientsEncryptionConfig`).
+ * Every slot wraps the same data key, so any recipient can decrypt.
+ */
+export interface MultiRecipientEncryptedData extends EnvelopeHeader {
+  mode: 'multi';
+  slots: KeySlot[];
+  /** Base64 of nonce, AES-256-GCM ciphertext and tag */
+  encryptedData: string;
+  /** Time-locked (age armored) data key, wrapped once for each slot */
+  timelockedKey: string;
+}
+
+/** When a stage of a staged envelope opens */
+export interface StageSchedule {
+  label?: string;
+  roundNumber: number;
+  /** Release time of `roundNumber` */
   unlockTime: Date;
+}
+
+/** A section of a staged envelope, time-locked to its own round */
+export interface EnvelopeStage extends StageSchedule {
+  /** Base64 of nonce, AES-256-GCM ciphertext and tag */
+  encryptedData: string;
+  /** Time-locked (age armored) password-wrapped data key of this stage */
+  timelockedKey: string;
+}
+
+/**
+ * Envelope of a document in sections that open one after another (see
+ * `encryptInStages`). Every stage has its own data key, wrapped with the
+ * same password-derived key and time-locked to the stage's round. The
+ * header's round and unlock time are those of the first stage.
+ */
+export interface StagedEncryptedData extends EnvelopeHeader {
+  mode: 'staged';
+  /** KDF and cost used to derive the key-wrapping key from the password */
+  kdf: KdfParams;
+  /** Hex-encoded KDF salt */
+  salt: string;
+  /** The sections in order, with non-decreasing rounds */
+  stages: EnvelopeStage[];
+}
+
+export type EncryptedData =
+  | PgpEncryptedData
+  | SymmetricEncryptedData
+  | StreamEncryptedData
+  | SharedEncryptedData
+  | MultiRecipientEncryptedData
+  | StagedEncryptedData;
+
+/** Envelopes that `hybridDecrypt` opens to a single payload */
+export type UnstagedEncryptedData = Exclude<EncryptedData, StagedEncryptedData>;
+
+/** A section of a document for `encryptInStages` and when it opens */
+export type StageInput = UnlockSpec & {
+  label?: string;
+  /** A string, encrypted as its UTF-8 bytes, or binary data */
+  data: string | Uint8Array;
+};
+
+/** Configuration of `encryptInStages`: the password that protects every stage */
+export interface StagedEncryptionConfig {
+  password: string;
+  /** Password KDF (default: `scrypt`) */
+  kdf?: KdfConfig;
+}
+
+/** An open stage of a staged envelope and its payload */
+export interface OpenStage<T extends string | Uint8Array = string | Uint8Array>
+  extends StageSchedule {
+  data: T;
+}
+
+/**
+ * What `hybridDecrypt` returns for a staged envelope: the stages open so
+ * far, in order, and when the others open
+ */
+export interface StagedPayload<T extends string | Uint8Array = string | Uint8Array> {
+  open: OpenStage<T>[];
+  pending: StageSchedule[];
+}
+
+/** A trustee and the password that protects their share */
+export interface Trustee {
+  name: string;
+  password: string;
+}
+
+/** Configuration of `encryptForTrustees`: when the lock opens and who holds the shares */
+export type TrusteeEncryptionConfig = UnlockSpec & {
+  trustees: Trustee[];
+  /** Number of trustees needed to decrypt, from 1 to `trustees.length` */
+  threshold: number;
+  /** Password KDF for the trustees' shares (default: `scrypt`) */
+  kdf?: KdfConfig;
+};
+
+/**
+ * A trustee's share of the data key, released by `releaseShare` once the
+ * time-lock has expired. Plain JSON, so it can be sent to whoever combines
+ * the shares.
+ */
+export interface TrusteeShare {
+  trustee: string;
+  /** Hex-encoded Shamir share */
+  share: string;
+}
+
+/** Result of `getLockStatus` */
+export interface LockStatus {
+  /** Chain the envelope is locked to */
+  chainHash: string;
+  /** Round that unlocks the envelope */
+  roundNumber: number;
+  /** Release time of `roundNumber`, from the chain's genesis time and period */
+  unlockTime: Date;
+  /** Latest round the chain has published */
+  latestRound: number;
+  /** Time until `unlockTime` by the beacon source's clock, 0 once passed */
+  remainingMs: number;
+  /** The round has been published and its release time has passed */
+  isUnlockable: boolean;
+}
+
+/** Result of `verifyEnvelope` */
+export interface EnvelopeVerification {
+  /** Chain the envelope is locked to, as confirmed by its tlock stanza */
+  chainHash: string;
+  /** Round the envelope is locked to, as confirmed by its tlock stanza */
+  roundNumber: number;
+  /** Release time of `roundNumber`, as confirmed by the chain */
+  unlockTime: Date;
+  /**
+   * - `verified`: the integrity tag matches the time-locked secret
+   * - `locked`: the tag can be checked once the round is published
+   * - `untagged`: a version 1 or 2 envelope, which has no tag
+   */
+  tag: 'verified' | 'locked' | 'untagged';
+}
+
+/**
+ * Progress reported by `waitAndDecrypt`:
+ * - `waiting`: counting down to the round's scheduled release
+ * - `polling`: the release time has passed but the beacon is not available
+ *   yet; the next attempt follows after `nextAttemptMs`
+ */
+export interface WaitProgress {
+  phase: 'waiting' | 'polling';
   roundNumber: number;
-}
\ No newline at end of file
+  unlockTime: Date;
+  /** Time until `unlockTime` by the beacon source's clock, 0 once passed */
+  remainingMs: number;
+  /** Number of decryption attempts made so far */
+  attempt: number;
+  /** Delay before the next attempt (`polling` only) */
+  nextAttemptMs?: number;
+}
+
+/** Options for `waitAndDecrypt` */
+export interface WaitOptions extends HybridOptions {
+  /** Abort the wait; the promise rejects with `signal.reason` */
+  signal?: AbortSignal;
+  onProgress?: (progress: WaitProgress) => void;
+  /** Give up after this long (default: no limit) */
+  maxWaitMs?: number;
+  /** Interval of `waiting` countdown events (default: 1000) */
+  progressIntervalMs?: number;
+  /** First delay between attempts once the release time has passed (default: 250) */
+  pollIntervalMs?: number;
+  /** Upper bound for the doubling poll delay (default: 5000) */
+  maxPollIntervalMs?: number;
+}
+
+/**
+ * What decryption returns: `utf8` decodes the payload to a string, `binary`
+ * returns its bytes unchanged
+ */
+export type PayloadFormat = 'utf8' | 'binary';
+
+/** Text encodings produced by `serializeEnvelope` */
+export type EnvelopeFormat = 'json' | 'armor';
+
+/**
+ * Source of drand beacons: a tlock-js `ChainClient` plus the clock that
+ * decides whether a round has been reached.
+ */
+export interface BeaconSource extends ChainClient {
+  /** Current time in milliseconds since the epoch */
+  now(): number;
+}
+
+/**
+ * Persistent store of verified beacons and chain parameters, such as the
+ * on-disk `BeaconCache`, that a chain's beacon source reads through.
+ */
+export interface BeaconStore {
+  /** The stored beacon of `roundNumber`, verified against `chainInfo`, or `undefined` */
+  get(chainInfo: ChainInfo, roundNumber: number): Promise<RandomnessBeacon | undefined>;
+  /** Store a beacon if it verifies against `chainInfo`; returns whether it was stored */
+  put(chainInfo: ChainInfo, beacon: RandomnessBeacon): Promise<boolean>;
+  /** Stored parameters of the chain with these hash and public key, or `undefined` */
+  getChainInfo(params: ChainVerificationParams): Promise<ChainInfo | undefined>;
+  putChainInfo(chainInfo: ChainInfo): Promise<void>;
+}
+
+/**
+ * A single round's beacon exported from an online machine, so that an
+ * offline machine can decrypt envelopes locked to that round.
+ */
+export interface ExportedBeacon {
+  version: 1;
+  chainHash: string;
+  round: number;
+  /** BLS signature of the round, hex-encoded */
+  signature: string;
+}
+
+/** Options shared by `hybridEncrypt` and `hybridDecrypt` */
+export interface HybridOptions {
+  /**
+   * Beacon source to time-lock against; defaults to the relays of `chain`
+   * when encrypting and of the envelope's chain when decrypting
+   */
+  beaconSource?: BeaconSource;
+  /**
+   * Registered drand chain to encrypt to, by name (e.g. `quicknet`) or hash
+   * (default: the configured chain). Ignored with `beaconSource`.
+   */
+  chain?: string;
+  /**
+   * Registry that `chain` and envelopes' chains are looked up in (default:
+   * the chains configured in env; see `createHtle` for instances with their
+   * own)
+   */
+  chains?: ChainRegistry;
+  /**
+   * Decrypt with this exported beacon instead of fetching one. It is checked
+   * against `beaconSource`'s chain if given, otherwise against the
+   * registered chain it names, without any network access when that chain's
+   * parameters are known.
+   */
+  beacon?: ExportedBeacon;
+  /** Return the decrypted payload as a string (`utf8`, default) or as bytes */
+  format?: PayloadFormat;
+  /**
+   * Pre-generated keys to draw from. Used only when the pool's profile
+   * matches `keyProfile` and no custom `userIDs` are requested.
+   */
+  keyPool?: KeyPool;
+  /**
+   * Furthest allowed unlock time, in milliseconds from now
+   * (default: `DEFAULT_MAX_HORIZON_MS`, 10 years)
+   */
+  maxHorizonMs?: number;
+  /**
+   * Armored OpenPGP public key that `hybridEncrypt` adds as an escrow slot,
+   * or `false` for none (default: the key in `HTLE_ESCROW_PUBLIC_KEY_FILE`,
+   * if set; none for `createHtle` instances)
+   */
+  escrowKey?: string | false;
+  /** Rules new passwords must meet (default: `DEFAULT_PASSWORD_POLICY`, non-empty) */
+  passwordPolicy?: PasswordPolicy;
+}
+
+/**
+ * Rules for new passwords, checked by `checkPassword`. Every rule is
+ * optional; a password must pass all that are set.
+ */
+export interface PasswordPolicy {
+  /** Fewest characters, counted as code points */
+  minLength?: number;
+  /** Lowest entropy estimate in bits, see `estimateEntropy` */
+  minEntropyBits?: number;
+  /** Passwords that are rejected outright, compared case-insensitively */
+  denylist?: Iterable<string>;
+  /** Further check; returns the reason to reject the password, or `undefined` */
+  validate?: (password: string) => string | undefined;
+}
+
+/** Options for `encryptStream` and `encryptFile` */
+export interface StreamOptions extends HybridOptions {
+  /** Plaintext bytes per chunk (default: `DEFAULT_CHUNK_SIZE`, 64 KiB) */
+  chunkSize?: number;
+}
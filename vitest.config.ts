@@ -7,6 +7,7 @@ export default defineConfig({
     testTimeout: 120_000, // 2 minutes for time-lock tests
     hookTimeout: 30_000,
     include: ['src/**/*.test.ts'],
+    setupFiles: ['./src/test-setup.ts'],
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],